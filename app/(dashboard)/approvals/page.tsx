@@ -0,0 +1,32 @@
+import { checkPermission, requirePermission } from '@/lib/auth/auth';
+import { verifySession } from '@/lib/auth/services/auth.service';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { Suspense } from 'react';
+import { notFound } from 'next/navigation';
+import { isApprovalFlowEnabled } from '@/lib/approvals';
+import { ErrorBoundary } from 'react-error-boundary';
+import ApprovalQueue from '@/features/approvals/components/approval-queue';
+import { TablePageSkeleton } from '@/components/ui/table-skeleton';
+import { APPROVALS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
+import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
+import { trpc } from '@/lib/trpc/server';
+
+export default async function Page() {
+  if (!isApprovalFlowEnabled()) notFound();
+  await requirePermission(PERMISSIONS.APPROVALS.VIEW);
+  const session = await verifySession();
+  const canApprove = await checkPermission(PERMISSIONS.APPROVALS.APPROVE);
+
+  const queryClient = getQueryClient();
+  void queryClient.prefetchQuery(trpc.approvals.list.queryOptions({ scope: 'pending', page: 0, size: 15 }));
+
+  return (
+    <HydrateClient>
+      <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load approvals</div>}>
+        <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={APPROVALS_TABLE_COLUMNS} filterButtons={0} /></div>}>
+          <ApprovalQueue currentUserUid={session.uid} canApprove={canApprove} />
+        </Suspense>
+      </ErrorBoundary>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,14 @@
+import { requirePermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { ErrorBoundary } from 'react-error-boundary';
+import ArchiveTool from '@/features/archive/components/archive-tool';
+
+export default async function Page() {
+  await requirePermission(PERMISSIONS.SYSTEM.ADMIN);
+
+  return (
+    <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load archive tool</div>}>
+      <ArchiveTool />
+    </ErrorBoundary>
+  );
+}
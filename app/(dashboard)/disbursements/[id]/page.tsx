@@ -1,4 +1,4 @@
-import { requireAnyPermission } from '@/lib/auth/auth';
+import { checkPermission, requireAnyPermission } from '@/lib/auth/auth';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { Suspense } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -14,6 +14,10 @@ export default async function DisbursementDetailPage({
 }) {
     await requireAnyPermission([PERMISSIONS.DISBURSEMENTS.VIEW, PERMISSIONS.TRANSACTIONS.VIEW]);
     const { id } = await params;
+    const [canForceRetry, canUpdateStatus] = await Promise.all([
+        checkPermission(PERMISSIONS.DISBURSEMENTS.FORCE_RETRY),
+        checkPermission(PERMISSIONS.DISBURSEMENTS.UPDATE_STATUS),
+    ]);
 
     const queryClient = getQueryClient();
     void queryClient.prefetchQuery(
@@ -37,7 +41,11 @@ export default async function DisbursementDetailPage({
         <HydrationBoundary state={dehydrate(queryClient)}>
             <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load disbursement details</div>}>
                 <Suspense fallback={<PageSkeleton />}>
-                    <DisbursementDetails disbursementId={id} />
+                    <DisbursementDetails
+                        disbursementId={id}
+                        canForceRetry={canForceRetry}
+                        canUpdateStatus={canUpdateStatus}
+                    />
                 </Suspense>
             </ErrorBoundary>
     </HydrationBoundary>
@@ -6,20 +6,26 @@ import DisbursementsList from '@/features/disbursements/components/disbursements
 import { TablePageSkeleton } from '@/components/ui/table-skeleton';
 import { DISBURSEMENTS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
 import { requirePermission } from '@/lib/auth/auth';
+import { verifySession } from '@/lib/auth/services/auth.service';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { MonthlySummarySection } from '@/features/disbursements/components/monthly-summary-section';
 import { StatsSection } from '@/features/disbursements/components/stats-section';
 import { SummaryCardsSkeleton } from '@/components/ui/page-skeleton';
+import { disbursementsUrlState, toDisbursementsListInput } from '@/lib/stores/disbursements-table-store';
 
-export default async function Page() {
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
   await requirePermission(PERMISSIONS.DISBURSEMENTS.VIEW);
+  const session = await verifySession();
 
+  // Prefetch the same view the list restores from the URL, so hydration matches
+  const tableState = disbursementsUrlState.parse(await searchParams);
   const queryClient = getQueryClient();
   void queryClient.prefetchQuery(
-    trpc.disbursements.list.queryOptions({
-      page: 1,
-      per_page: 10,
-    }),
+    trpc.disbursements.list.queryOptions(toDisbursementsListInput(tableState)),
   );
 
   return (
@@ -43,7 +49,7 @@ export default async function Page() {
           {/* Transactions List */}
           <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load transactions</div>}>
             <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={DISBURSEMENTS_TABLE_COLUMNS} filterButtons={3} /></div>}>
-              <DisbursementsList />
+              <DisbursementsList userUid={session.uid} />
             </Suspense>
           </ErrorBoundary>
         </div>
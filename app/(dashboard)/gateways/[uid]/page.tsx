@@ -0,0 +1,29 @@
+import { requirePermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
+import PaymentGatewayDetails from '@/features/payment-gateways/components/payment-gateway-details';
+import { PageSkeleton } from '@/components/ui/page-skeleton';
+import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
+import { trpc } from '@/lib/trpc/server';
+
+export default async function PaymentGatewayDetailPage({
+    params,
+}: {
+    params: Promise<{ uid: string }>;
+}) {
+    await requirePermission(PERMISSIONS.PAYMENT_GATEWAYS.VIEW);
+    const { uid } = await params;
+    const queryClient = getQueryClient();
+    void queryClient.prefetchQuery(trpc.gateways.getByUid.queryOptions({ uid }));
+
+    return (
+        <HydrateClient>
+            <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load gateway details</div>}>
+                <Suspense fallback={<PageSkeleton />}>
+                    <PaymentGatewayDetails gatewayUid={uid} />
+                </Suspense>
+            </ErrorBoundary>
+        </HydrateClient>
+    );
+}
@@ -7,13 +7,20 @@ import { PAYMENT_GATEWAYS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-p
 import { PaymentGatewayErrorBoundary } from '@/components/payment-gateway-error-boundary';
 import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
 import { trpc } from '@/lib/trpc/server';
+import { paymentGatewaysUrlState, toPaymentGatewaysListInput } from '@/lib/stores/payment-gateways-table-store';
 
-export default async function Page() {
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
   await requirePermission(PERMISSIONS.PAYMENT_GATEWAYS.VIEW);
 
+  // Prefetch the same view the list restores from the URL, so hydration matches
+  const tableState = paymentGatewaysUrlState.parse(await searchParams);
   const queryClient = getQueryClient();
   void queryClient.prefetchQuery(
-    trpc.gateways.list.queryOptions({}),
+    trpc.gateways.list.queryOptions(toPaymentGatewaysListInput(tableState)),
   );
 
   return (
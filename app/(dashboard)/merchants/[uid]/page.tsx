@@ -1,4 +1,4 @@
-import { requirePermission } from '@/lib/auth/auth';
+import { checkPermission, requirePermission } from '@/lib/auth/auth';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { Suspense } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -9,11 +9,16 @@ import { trpc } from '@/lib/trpc/server';
 
 export default async function MerchantDetailPage({
     params,
+    searchParams,
 }: {
     params: Promise<{ uid: string }>;
+    searchParams: Promise<{ tab?: string }>;
 }) {
     await requirePermission(PERMISSIONS.MERCHANTS.VIEW);
     const { uid } = await params;
+    const { tab } = await searchParams;
+    const canReviewKyc = await checkPermission(PERMISSIONS.MERCHANTS.VERIFY_KYC);
+    const canUpdate = await checkPermission(PERMISSIONS.MERCHANTS.UPDATE);
     const queryClient = getQueryClient();
     void queryClient.prefetchQuery(trpc.merchants.getByUid.queryOptions({ uid }));
 
@@ -21,10 +26,14 @@ export default async function MerchantDetailPage({
         <HydrateClient>
             <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load merchant details</div>}>
                 <Suspense fallback={<PageSkeleton />}>
-                    <MerchantDetails merchantUid={uid} />
+                    <MerchantDetails
+                        merchantUid={uid}
+                        initialTab={tab}
+                        canReviewKyc={canReviewKyc}
+                        canUpdate={canUpdate}
+                    />
                 </Suspense>
             </ErrorBoundary>
         </HydrateClient>
     );
 }
-
@@ -0,0 +1,25 @@
+import { requirePermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
+import KycQueue from '@/features/merchants/components/kyc-queue';
+import { TablePageSkeleton } from '@/components/ui/table-skeleton';
+import { MERCHANTS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
+import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
+import { trpc } from '@/lib/trpc/server';
+
+export default async function Page() {
+  await requirePermission(PERMISSIONS.MERCHANTS.VERIFY_KYC);
+  const queryClient = getQueryClient();
+  void queryClient.prefetchQuery(trpc.merchants.kycQueue.queryOptions({ kycStatus: 'IN_REVIEW', page: 0, size: 15 }));
+
+  return (
+    <HydrateClient>
+      <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load KYC queue</div>}>
+        <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={MERCHANTS_TABLE_COLUMNS} filterButtons={0} /></div>}>
+          <KycQueue />
+        </Suspense>
+      </ErrorBoundary>
+    </HydrateClient>
+  );
+}
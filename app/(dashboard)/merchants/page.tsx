@@ -7,11 +7,19 @@ import { TablePageSkeleton } from '@/components/ui/table-skeleton';
 import { MERCHANTS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
 import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
 import { trpc } from '@/lib/trpc/server';
+import { merchantsUrlState, toMerchantsListInput } from '@/lib/stores/merchants-table-store';
 
-export default async function Page() {
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
   await requirePermission(PERMISSIONS.MERCHANTS.VIEW);
+
+  // Prefetch the same view the list restores from the URL, so hydration matches
+  const tableState = merchantsUrlState.parse(await searchParams);
   const queryClient = getQueryClient();
-  void queryClient.prefetchQuery(trpc.merchants.list.queryOptions({}));
+  void queryClient.prefetchQuery(trpc.merchants.list.queryOptions(toMerchantsListInput(tableState)));
 
   return (
     <HydrateClient>
@@ -0,0 +1,35 @@
+import { requirePermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
+import PaymentChannelsList from '@/features/payment-channels/components/payment-channels-list';
+import { TablePageSkeleton } from '@/components/ui/table-skeleton';
+import { PAYMENT_CHANNELS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
+import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
+import { trpc } from '@/lib/trpc/server';
+import { paymentChannelsUrlState, toPaymentChannelsListInput } from '@/lib/stores/payment-channels-table-store';
+
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
+  await requirePermission(PERMISSIONS.PAYMENT_GATEWAYS.VIEW);
+
+  // Prefetch the same view the list restores from the URL, so hydration matches
+  const tableState = paymentChannelsUrlState.parse(await searchParams);
+  const queryClient = getQueryClient();
+  void queryClient.prefetchQuery(
+    trpc.channels.list.queryOptions(toPaymentChannelsListInput(tableState)),
+  );
+
+  return (
+    <HydrateClient>
+      <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load payment channels</div>}>
+        <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={PAYMENT_CHANNELS_TABLE_COLUMNS} filterButtons={1} /></div>}>
+          <PaymentChannelsList />
+        </Suspense>
+      </ErrorBoundary>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,18 @@
+import { checkPermission, requireAnyPermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { ErrorBoundary } from 'react-error-boundary';
+import ReportsView from '@/features/reports/components/reports-view';
+
+export default async function Page() {
+  await requireAnyPermission([PERMISSIONS.TRANSACTIONS.VIEW, PERMISSIONS.DISBURSEMENTS.VIEW]);
+  const [canViewTransactions, canViewDisbursements] = await Promise.all([
+    checkPermission(PERMISSIONS.TRANSACTIONS.VIEW),
+    checkPermission(PERMISSIONS.DISBURSEMENTS.VIEW),
+  ]);
+
+  return (
+    <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load reports</div>}>
+      <ReportsView canViewTransactions={canViewTransactions} canViewDisbursements={canViewDisbursements} />
+    </ErrorBoundary>
+  );
+}
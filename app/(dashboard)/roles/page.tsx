@@ -1,4 +1,4 @@
-import { requirePermission } from '@/lib/auth/auth';
+import { checkPermission, requirePermission } from '@/lib/auth/auth';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { Suspense } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -8,22 +8,32 @@ import { ROLES_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
 import { getQueryClient } from '@/lib/trpc/server';
 import { trpc } from '@/lib/trpc/server';
 import { HydrateClient } from '@/lib/server-query-client';
+import { rolesUrlState, toRolesListInput } from '@/lib/stores/roles-table-store';
 
-export default async function Page() {
+interface PageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
     await requirePermission(PERMISSIONS.ROLES.VIEW);
+    const [create, update, remove] = await Promise.all([
+        checkPermission(PERMISSIONS.ROLES.CREATE),
+        checkPermission(PERMISSIONS.ROLES.UPDATE),
+        checkPermission(PERMISSIONS.ROLES.DELETE),
+    ]);
+
+    // Prefetch the same view the list restores from the URL, so hydration matches
+    const tableState = rolesUrlState.parse(await searchParams);
     const queryClient = getQueryClient();
     void queryClient.prefetchQuery(
-        trpc.users.roles.list.queryOptions({
-            page: '1',
-            per_page: '10',
-        }),
+        trpc.users.roles.list.queryOptions(toRolesListInput(tableState)),
     );
 
     return (
         <HydrateClient>
             <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load roles</div>}>
                 <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={ROLES_TABLE_COLUMNS} filterButtons={0} /></div>}>
-                    <RolesList />
+                    <RolesList permissions={{ create, update, delete: remove }} />
                 </Suspense>
             </ErrorBoundary>
         </HydrateClient>
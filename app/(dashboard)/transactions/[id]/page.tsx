@@ -1,4 +1,4 @@
-import { requireAnyPermission } from '@/lib/auth/auth';
+import { checkPermission, requireAnyPermission } from '@/lib/auth/auth';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { Suspense } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -14,6 +14,10 @@ export default async function TransactionDetailPage({
 }) {
     await requireAnyPermission([PERMISSIONS.TRANSACTIONS.VIEW]);
     const { id } = await params;
+    const [canUpdateStatus, canViewDisbursements] = await Promise.all([
+        checkPermission(PERMISSIONS.TRANSACTIONS.UPDATE_STATUS),
+        checkPermission(PERMISSIONS.DISBURSEMENTS.VIEW),
+    ]);
 
     const queryClient = getQueryClient();
     void queryClient.prefetchQuery(
@@ -36,7 +40,11 @@ export default async function TransactionDetailPage({
         <HydrationBoundary state={dehydrate(queryClient)}>
             <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load transaction details</div>}>
                 <Suspense fallback={<TransactionDetailsSkeleton />}>
-                    <TransactionDetails transactionId={id} />
+                    <TransactionDetails
+                        transactionId={id}
+                        canUpdateStatus={canUpdateStatus}
+                        canViewDisbursements={canViewDisbursements}
+                    />
                 </Suspense>
             </ErrorBoundary>
         </HydrationBoundary>
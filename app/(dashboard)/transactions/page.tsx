@@ -7,18 +7,31 @@ import { TRANSACTIONS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-prese
 import { SummaryCardsSkeleton } from '@/components/ui/page-skeleton';
 import { getQueryClient, trpc } from '@/lib/trpc/server';
 import { requirePermission } from '@/lib/auth/auth';
+import { verifySession } from '@/lib/auth/services/auth.service';
 import { PERMISSIONS } from '@/lib/auth/permissions';
 import { HydrateClient } from '@/lib/server-query-client';
+import {
+    hasActiveFilters,
+    toTransactionsListInput,
+    toTransactionsSearchInput,
+    transactionsUrlState,
+} from '@/lib/stores/transactions-table-store';
 
-export default async function Page() {
+interface PageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
     await requirePermission(PERMISSIONS.DISBURSEMENTS.VIEW);
+    const session = await verifySession();
 
+    // Prefetch the same view the list restores from the URL, so hydration matches
+    const tableState = transactionsUrlState.parse(await searchParams);
     const queryClient = getQueryClient();
     void queryClient.prefetchQuery(
-        trpc.transactions.list.queryOptions({
-            page: "1",
-            per_page: "10",
-        }),
+        hasActiveFilters(tableState.filters)
+            ? trpc.transactions.search.queryOptions(toTransactionsSearchInput(tableState))
+            : trpc.transactions.list.queryOptions(toTransactionsListInput(tableState)),
     );
 
     return (
@@ -39,7 +52,7 @@ export default async function Page() {
                         fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load transactions</div>}>
                         <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2">
                             <TablePageSkeleton rows={10} columns={TRANSACTIONS_TABLE_COLUMNS} filterButtons={3} /></div>}>
-                            <TransactionsList />
+                            <TransactionsList userUid={session.uid} />
                         </Suspense>
                     </ErrorBoundary>
                 </div>
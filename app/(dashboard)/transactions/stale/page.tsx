@@ -0,0 +1,29 @@
+import { checkPermission, requirePermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
+import StaleTransactionsQueue from '@/features/transactions/components/stale-transactions-queue';
+import { TablePageSkeleton } from '@/components/ui/table-skeleton';
+import { TRANSACTIONS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
+import { HydrateClient, getQueryClient } from '@/lib/server-query-client';
+import { trpc } from '@/lib/trpc/server';
+import { DEFAULT_STALE_THRESHOLD_MINUTES } from '@/lib/stale-queue';
+
+export default async function Page() {
+  await requirePermission(PERMISSIONS.TRANSACTIONS.VIEW);
+  // Processing marks every stale transaction as failed, like a manual status override
+  const canProcess = await checkPermission(PERMISSIONS.TRANSACTIONS.UPDATE_STATUS);
+
+  const queryClient = getQueryClient();
+  void queryClient.prefetchQuery(trpc.transactions.stale.queryOptions({ thresholdMinutes: DEFAULT_STALE_THRESHOLD_MINUTES }));
+
+  return (
+    <HydrateClient>
+      <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load stale transactions</div>}>
+        <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={TRANSACTIONS_TABLE_COLUMNS} filterButtons={0} /></div>}>
+          <StaleTransactionsQueue canProcess={canProcess} />
+        </Suspense>
+      </ErrorBoundary>
+    </HydrateClient>
+  );
+}
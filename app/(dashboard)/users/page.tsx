@@ -5,21 +5,37 @@ import { ErrorBoundary } from 'react-error-boundary';
 import UsersList from '@/features/users/components/users-list';
 import { TablePageSkeleton } from '@/components/ui/table-skeleton';
 import { USERS_TABLE_COLUMNS } from '@/components/ui/table-skeleton-presets';
+import { checkPermission } from '@/lib/auth/auth';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { toUsersListInput, usersUrlState } from '@/lib/stores/users-table-store';
 
-export default async function Page() {
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Page({ searchParams }: PageProps) {
+  const [update, remove, activate, deactivate, lock, unlock, assignRoles] = await Promise.all([
+    checkPermission(PERMISSIONS.USERS.UPDATE),
+    checkPermission(PERMISSIONS.USERS.DELETE),
+    checkPermission(PERMISSIONS.USERS.ACTIVATE),
+    checkPermission(PERMISSIONS.USERS.DEACTIVATE),
+    checkPermission(PERMISSIONS.USERS.LOCK),
+    checkPermission(PERMISSIONS.USERS.UNLOCK),
+    checkPermission(PERMISSIONS.USERS.ASSIGN_ROLES),
+  ]);
+
+  // Prefetch the same view the list restores from the URL, so hydration matches
+  const tableState = usersUrlState.parse(await searchParams);
   const queryClient = getQueryClient();
   void queryClient.prefetchQuery(
-    trpc.users.list.queryOptions({
-      page: '1',
-      per_page: '15',
-    }),
+    trpc.users.list.queryOptions(toUsersListInput(tableState)),
   );
 
   return (
     <HydrateClient>
       <ErrorBoundary fallback={<div className="px-4 lg:px-6 py-4 text-muted-foreground">Failed to load users</div>}>
         <Suspense fallback={<div className="@container/main flex flex-1 flex-col gap-2 py-2"><TablePageSkeleton rows={10} columns={USERS_TABLE_COLUMNS} filterButtons={2} /></div>}>
-          <UsersList />
+          <UsersList permissions={{ update, delete: remove, activate, deactivate, lock, unlock, assignRoles }} />
         </Suspense>
       </ErrorBoundary>
     </HydrateClient>
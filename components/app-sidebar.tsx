@@ -23,7 +23,7 @@ export async function AppSidebar({ ...props }: React.ComponentProps<typeof Sideb
   const userType = normalizeUserType(session?.userType)
 
   // Filter menu items based on user roles and user type
-  const filteredNavMain = filterMenuItems(menuConfig.navMain, userRoles, userType)
+  const filteredNavMain = filterMenuItems(menuConfig.navMain, userRoles, userType, session?.rolePermissions)
 
   const userData = user ? {
     name: `${user.firstName} ${user.lastName}`.trim() || user.username,
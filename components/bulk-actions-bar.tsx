@@ -0,0 +1,331 @@
+'use client'
+
+import { ReactNode, useState } from 'react'
+import { IconDownload, IconX } from '@tabler/icons-react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Textarea } from '@/components/ui/textarea'
+import type { ApprovalRequest, CanUpdateResponse } from '@/lib/definitions'
+import {
+  BULK_ACTION_CONCURRENCY,
+  bulkResultsToCsv,
+  runWithConcurrency,
+  type BulkRowOutcome,
+  type BulkRowResult,
+} from '@/lib/bulk-actions'
+import { downloadCsv, fileTimestamp, toCsv } from '@/lib/csv'
+
+export interface BulkActionConfig<TRow> {
+  key: string
+  label: string
+  icon: ReactNode
+  destructive?: boolean
+  /** Ask for a reason, sent with every row */
+  reasonLabel?: string
+  /** Why the row's status does not allow the action, or null when it does */
+  getSkipReason: (row: TRow) => string | null
+  /** Run the action for one row; `approval` is set when the row was held for approval instead */
+  run: (row: TRow, reason: string | undefined) => Promise<{ message?: string; approval?: ApprovalRequest | null }>
+}
+
+export interface BulkExportColumn<TRow> {
+  header: string
+  value: (row: TRow) => string
+}
+
+interface BulkActionsBarProps<TRow> {
+  /** Plural noun for the rows, e.g. 'transactions' */
+  entityName: string
+  rows: TRow[]
+  getId: (row: TRow) => string
+  getReference: (row: TRow) => string
+  getStatus: (row: TRow) => string
+  /** canUpdate pre-check, run for each row before its action */
+  checkCanUpdate: (row: TRow) => Promise<CanUpdateResponse>
+  actions: BulkActionConfig<TRow>[]
+  exportColumns: BulkExportColumn<TRow>[]
+  /** Called after a run in which at least one row succeeded or was sent for approval, e.g. to refresh the list */
+  onCompleted: () => void
+  onClearSelection: () => void
+}
+
+const OUTCOME_LABELS: Record<BulkRowOutcome, string> = {
+  succeeded: 'Succeeded',
+  pending_approval: 'Pending approval',
+  skipped: 'Skipped',
+  failed: 'Failed',
+}
+
+const OUTCOME_VARIANTS: Record<BulkRowOutcome, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  succeeded: 'secondary',
+  pending_approval: 'default',
+  skipped: 'outline',
+  failed: 'destructive',
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error && error.message ? error.message : 'Unexpected error'
+}
+
+/**
+ * Toolbar for the selected rows of a table: run an action on every selected row (with a canUpdate
+ * pre-check and bounded concurrency), report the per-row outcome and export the selection as CSV
+ */
+export function BulkActionsBar<TRow>({
+  entityName,
+  rows,
+  getId,
+  getReference,
+  getStatus,
+  checkCanUpdate,
+  actions,
+  exportColumns,
+  onCompleted,
+  onClearSelection,
+}: BulkActionsBarProps<TRow>) {
+  const [activeAction, setActiveAction] = useState<BulkActionConfig<TRow> | null>(null)
+  const [reason, setReason] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [processed, setProcessed] = useState(0)
+  const [total, setTotal] = useState(0)
+  const [results, setResults] = useState<BulkRowResult[] | null>(null)
+
+  if (rows.length === 0 && !activeAction) {
+    return null
+  }
+
+  const eligibleCount = activeAction ? rows.filter((row) => !activeAction.getSkipReason(row)).length : 0
+
+  const handleOpen = (action: BulkActionConfig<TRow>) => {
+    setActiveAction(action)
+    setReason('')
+    setResults(null)
+    setProcessed(0)
+  }
+
+  const handleClose = () => {
+    if (isRunning) return
+    if (results) {
+      onClearSelection()
+    }
+    setActiveAction(null)
+    setResults(null)
+  }
+
+  const handleRun = async () => {
+    if (!activeAction) return
+
+    const action = activeAction
+    const selected = [...rows]
+    const trimmedReason = reason.trim() || undefined
+
+    setIsRunning(true)
+    setProcessed(0)
+    setTotal(selected.length)
+
+    const runResults = await runWithConcurrency(selected, BULK_ACTION_CONCURRENCY, async (row): Promise<BulkRowResult> => {
+      const base = { id: getId(row), reference: getReference(row), status: getStatus(row) }
+
+      const result = await (async (): Promise<BulkRowResult> => {
+        const skipReason = action.getSkipReason(row)
+        if (skipReason) {
+          return { ...base, outcome: 'skipped', message: skipReason }
+        }
+
+        try {
+          const check = await checkCanUpdate(row)
+          if (!check.canUpdate) {
+            return { ...base, outcome: 'skipped', message: check.reason || 'Cannot be updated in its current state' }
+          }
+        } catch (error) {
+          return { ...base, outcome: 'failed', message: `Pre-check failed: ${errorMessage(error)}` }
+        }
+
+        try {
+          const { message, approval } = await action.run(row, trimmedReason)
+          if (approval) {
+            return { ...base, outcome: 'pending_approval', message: message || 'Sent for approval' }
+          }
+          return { ...base, outcome: 'succeeded', message: message || `${action.label} succeeded` }
+        } catch (error) {
+          return { ...base, outcome: 'failed', message: errorMessage(error) }
+        }
+      })()
+
+      setProcessed((count) => count + 1)
+      return result
+    })
+
+    setIsRunning(false)
+    setResults(runResults)
+
+    const succeeded = runResults.filter((r) => r.outcome === 'succeeded').length
+    const pendingApproval = runResults.filter((r) => r.outcome === 'pending_approval').length
+    const failed = runResults.filter((r) => r.outcome === 'failed').length
+    if (succeeded > 0 || pendingApproval > 0) {
+      onCompleted()
+    }
+    const summary = `${action.label}: ${succeeded} succeeded`
+      + (pendingApproval > 0 ? `, ${pendingApproval} sent for approval` : '')
+    if (failed > 0) {
+      toast.error(`${summary}, ${failed} failed`)
+    } else {
+      toast.success(summary)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    if (!activeAction || !results) return
+    downloadCsv(
+      bulkResultsToCsv(activeAction.label, results),
+      `${entityName}-bulk-${activeAction.key}-${fileTimestamp()}.csv`
+    )
+  }
+
+  const handleExport = () => {
+    downloadCsv(
+      toCsv(
+        exportColumns.map((column) => column.header),
+        rows.map((row) => exportColumns.map((column) => column.value(row)))
+      ),
+      `${entityName}-selected-${fileTimestamp()}.csv`
+    )
+    toast.success(`Exported ${rows.length} ${entityName}`)
+  }
+
+  const counts = results?.reduce<Record<BulkRowOutcome, number>>(
+    (acc, r) => ({ ...acc, [r.outcome]: acc[r.outcome] + 1 }),
+    { succeeded: 0, pending_approval: 0, skipped: 0, failed: 0 }
+  )
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 mx-4 lg:mx-6">
+        <span className="text-sm font-medium mr-2">
+          {rows.length} selected
+        </span>
+        {actions.map((action) => (
+          <Button
+            key={action.key}
+            variant="outline"
+            size="sm"
+            className={action.destructive ? 'text-destructive' : undefined}
+            onClick={() => handleOpen(action)}
+          >
+            {action.icon}
+            {action.label}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <IconDownload />
+          Export CSV
+        </Button>
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={onClearSelection}>
+          <IconX />
+          Clear selection
+        </Button>
+      </div>
+
+      <Dialog open={!!activeAction} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {activeAction?.label} {results ? 'Report' : `${rows.length} ${entityName}`}
+            </DialogTitle>
+            <DialogDescription>
+              {results
+                ? `Processed ${results.length} ${entityName}.`
+                : `${eligibleCount} of ${rows.length} selected ${entityName} can be processed based on their status. Each is checked with the backend first; rows that cannot be updated are skipped.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!results && !isRunning && activeAction?.reasonLabel && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-action-reason">{activeAction.reasonLabel}</Label>
+              <Textarea
+                id="bulk-action-reason"
+                placeholder="Enter a reason, recorded for every row..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          )}
+
+          {isRunning && (
+            <div className="space-y-2">
+              <Progress value={total > 0 ? (processed / total) * 100 : 0} />
+              <p className="text-sm text-muted-foreground">
+                {processed} of {total} processed...
+              </p>
+            </div>
+          )}
+
+          {results && counts && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(OUTCOME_LABELS) as BulkRowOutcome[]).map((outcome) => (
+                  <Badge key={outcome} variant={OUTCOME_VARIANTS[outcome]}>
+                    {OUTCOME_LABELS[outcome]}: {counts[outcome]}
+                  </Badge>
+                ))}
+              </div>
+              <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+                {results.map((result) => (
+                  <div key={result.id} className="flex items-start justify-between gap-4 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-mono text-xs truncate">{result.reference}</p>
+                      <p className="text-muted-foreground break-words">{result.message}</p>
+                    </div>
+                    <Badge variant={OUTCOME_VARIANTS[result.outcome]} className="shrink-0">
+                      {OUTCOME_LABELS[result.outcome]}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <>
+                <Button variant="outline" onClick={handleDownloadReport}>
+                  <IconDownload />
+                  Download Report (CSV)
+                </Button>
+                <Button onClick={handleClose}>Close</Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={handleClose} disabled={isRunning}>
+                  Go Back
+                </Button>
+                <Button
+                  variant={activeAction?.destructive ? 'destructive' : 'default'}
+                  onClick={() => void handleRun()}
+                  disabled={isRunning || eligibleCount === 0}
+                >
+                  {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {activeAction?.label} {eligibleCount} {entityName}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
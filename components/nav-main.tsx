@@ -9,6 +9,12 @@ import {
   IconCreditCard,
   IconChevronRight,
   IconFingerprint,
+  IconArrowsExchange,
+  IconShieldCheck,
+  IconClockExclamation,
+  IconArchive,
+  IconReportAnalytics,
+  IconChecklist,
 } from "@tabler/icons-react"
 
 import {
@@ -35,6 +41,12 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   IconUsers,
   IconCreditCard,
   IconFingerprint,
+  IconArrowsExchange,
+  IconShieldCheck,
+  IconClockExclamation,
+  IconArchive,
+  IconReportAnalytics,
+  IconChecklist,
 }
 
 export function NavMain({
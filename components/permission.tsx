@@ -2,6 +2,7 @@
 
 import { ReactNode } from 'react'
 import { usePermission } from '@/hooks/use-permission'
+import type { RolePermissionMap } from '@/lib/auth/permissions'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 
 interface PermissionProps {
@@ -10,6 +11,8 @@ interface PermissionProps {
   permissions?: string[]
   requireAll?: boolean
   userType?: string | null
+  /** Backend role -> permission mapping from the session */
+  rolePermissions?: RolePermissionMap
   fallback?: ReactNode
   showError?: boolean
   errorMessage?: string
@@ -50,6 +53,7 @@ export function Permission({
   permissions,
   requireAll = false,
   userType,
+  rolePermissions,
   showError = false,
   errorMessage = 'You do not have permission to access this content.',
   fallback,
@@ -63,7 +67,7 @@ export function Permission({
     : { permission: '' } // Default to empty string to satisfy hook call
 
   // Hook must be called unconditionally
-  const hasAccess = usePermission(roles, options, userType)
+  const hasAccess = usePermission(roles, options, userType, rolePermissions)
 
   if (!hasAccess) {
     if (showError) {
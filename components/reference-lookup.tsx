@@ -0,0 +1,129 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { IconFileSearch, IconSearchOff } from '@tabler/icons-react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import type { ReferenceMatch } from '@/lib/definitions'
+
+interface ReferenceLookupProps {
+  /** Singular noun for the record, e.g. 'disbursement' */
+  entityName: string
+  /** The kinds of reference that are resolved, e.g. 'UID, external, merchant or PSP ID' */
+  referenceKinds: string
+  lookup: (reference: string) => Promise<ReferenceMatch | null>
+  getHref: (uid: string) => string
+}
+
+/**
+ * Quick-lookup box that resolves a reference quoted to support straight to the record's detail page
+ */
+export function ReferenceLookup({ entityName, referenceKinds, lookup, getHref }: ReferenceLookupProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [reference, setReference] = useState('')
+  const [isLooking, setIsLooking] = useState(false)
+  // Reference that was last looked up without a match
+  const [notFound, setNotFound] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setNotFound(null)
+      setError(null)
+    }
+    setOpen(isOpen)
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = reference.trim()
+    if (!trimmed || isLooking) return
+
+    setIsLooking(true)
+    setNotFound(null)
+    setError(null)
+    try {
+      const match = await lookup(trimmed)
+      if (!match) {
+        setNotFound(trimmed)
+        return
+      }
+      toast.success(`Found ${entityName} by ${match.matchedBy}`)
+      setOpen(false)
+      setReference('')
+      router.push(getHref(match.uid))
+    } catch (lookupError) {
+      setError(lookupError instanceof Error ? lookupError.message : `Failed to look up ${entityName}`)
+    } finally {
+      setIsLooking(false)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <IconFileSearch />
+          <span className="hidden lg:inline">Lookup</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <form onSubmit={handleSubmit} className="grid gap-3">
+          <div className="space-y-1">
+            <h4 className="font-medium leading-none">Find {entityName}</h4>
+            <p className="text-sm text-muted-foreground">
+              Go straight to a {entityName} by its {referenceKinds}.
+            </p>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor={`${entityName}-reference-lookup`} className="sr-only">
+              Reference
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id={`${entityName}-reference-lookup`}
+                autoFocus
+                placeholder="Reference"
+                value={reference}
+                onChange={(e) => {
+                  setReference(e.target.value)
+                  setNotFound(null)
+                  setError(null)
+                }}
+                className="font-mono"
+              />
+              <Button type="submit" size="sm" className="h-9" disabled={!reference.trim() || isLooking}>
+                {isLooking && <Loader2 className="h-4 w-4 animate-spin" />}
+                Go
+              </Button>
+            </div>
+          </div>
+          {notFound && (
+            <div className="flex items-start gap-2 rounded-md border border-dashed p-3 text-sm">
+              <IconSearchOff className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <p className="font-medium">No {entityName} found</p>
+                <p className="break-all text-muted-foreground">
+                  Nothing matches <span className="font-mono">{notFound}</span> exactly. Check the reference
+                  with the caller, or use the table search for partial matches.
+                </p>
+              </div>
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
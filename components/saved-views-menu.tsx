@@ -0,0 +1,292 @@
+'use client'
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { usePathname, useSearchParams } from 'next/navigation'
+import type { VisibilityState } from '@tanstack/react-table'
+import {
+  IconBookmark,
+  IconBookmarkPlus,
+  IconChevronDown,
+  IconLink,
+  IconStar,
+  IconStarOff,
+  IconTrash,
+} from '@tabler/icons-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  getViewsForTable,
+  useSavedViewsStore,
+  type SavedView,
+  type SavedViewTable,
+} from '@/lib/stores/saved-views-store'
+import type { TableStoreApi, TableUrlSlice, TableUrlState } from '@/lib/stores/url-state'
+import { useTransactionsTableStore, transactionsUrlState } from '@/lib/stores/transactions-table-store'
+import { useDisbursementsTableStore, disbursementsUrlState } from '@/lib/stores/disbursements-table-store'
+import { useLogsTableStore, logsUrlState } from '@/lib/stores/logs-table-store'
+
+// Query param naming the view a shared link was copied from
+const SHARED_VIEW_PARAM = 'view'
+
+/**
+ * A table store and its URL mapping, seen as the state a view saves and restores
+ */
+interface ViewSource {
+  subscribe: (listener: () => void) => () => void
+  /** Filters, sorting and page size as a view query - the page number is not part of a view */
+  getQuery: () => string
+  getColumnVisibility: () => VisibilityState
+  apply: (view: Pick<SavedView, 'query' | 'columnVisibility'>) => void
+  /** Whether the search params already select filters, sorting or a page */
+  hasTableParams: (params: URLSearchParams) => boolean
+}
+
+function createViewSource<TSlice extends TableUrlSlice>(
+  store: TableStoreApi<TSlice & { columnVisibility: VisibilityState }>,
+  urlState: TableUrlState<TSlice>
+): ViewSource {
+  return {
+    subscribe: (listener) => store.subscribe(listener),
+    getQuery: () => {
+      const state = store.getState()
+      return urlState.serialize({ ...state, pagination: { ...state.pagination, pageIndex: 0 } }).toString()
+    },
+    getColumnVisibility: () => store.getState().columnVisibility,
+    apply: (view) => store.setState({
+      ...urlState.parse(new URLSearchParams(view.query)),
+      columnVisibility: view.columnVisibility,
+    }),
+    hasTableParams: (params) => urlState.serialize(urlState.parse(params)).toString() !== '',
+  }
+}
+
+const VIEW_SOURCES: Record<SavedViewTable, ViewSource> = {
+  transactions: createViewSource(useTransactionsTableStore, transactionsUrlState),
+  disbursements: createViewSource(useDisbursementsTableStore, disbursementsUrlState),
+  logs: createViewSource(useLogsTableStore, logsUrlState),
+}
+
+interface SavedViewsMenuProps {
+  table: SavedViewTable
+  /** session.uid of the current user - views are stored per user */
+  userUid: string
+}
+
+/**
+ * Dropdown for saving the current filters, sorting and visible columns of a table as a named view,
+ * applying saved views, marking a default view and copying a link to share a view with the team
+ */
+export function SavedViewsMenu({ table, userUid }: SavedViewsMenuProps) {
+  const source = VIEW_SOURCES[table]
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const viewsByUser = useSavedViewsStore((state) => state.viewsByUser)
+  const views = useMemo(() => getViewsForTable(viewsByUser, userUid, table), [viewsByUser, userUid, table])
+
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [isDefault, setIsDefault] = useState(false)
+
+  const currentQuery = useSyncExternalStore(source.subscribe, source.getQuery, () => '')
+  const activeView = views.find((view) => view.query === currentQuery)
+
+  const sharedViewName = searchParams.get(SHARED_VIEW_PARAM)
+  const canSaveSharedView = !!sharedViewName && !views.some((view) => view.name === sharedViewName)
+
+  // Load saved views, then open the default view unless the URL already selects filters
+  useEffect(() => {
+    let cancelled = false
+
+    void Promise.resolve(useSavedViewsStore.persist.rehydrate()).then(() => {
+      if (cancelled) return
+
+      const defaultView = getViewsForTable(useSavedViewsStore.getState().viewsByUser, userUid, table)
+        .find((view) => view.isDefault)
+
+      if (defaultView && !source.hasTableParams(new URLSearchParams(window.location.search))) {
+        source.apply(defaultView)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, table, userUid])
+
+  const openSaveDialog = (initialName: string) => {
+    setName(initialName)
+    setIsDefault(views.find((view) => view.name === initialName)?.isDefault ?? false)
+    setSaveOpen(true)
+  }
+
+  const handleSave = () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      toast.error('Please enter a name for the view')
+      return
+    }
+
+    useSavedViewsStore.getState().saveView(userUid, {
+      name: trimmedName,
+      table,
+      query: currentQuery,
+      columnVisibility: source.getColumnVisibility(),
+      isDefault,
+    })
+    toast.success(`View "${trimmedName}" saved`)
+    setSaveOpen(false)
+  }
+
+  const handleToggleDefault = (view: SavedView) => {
+    useSavedViewsStore.getState().setDefaultView(userUid, table, view.isDefault ? null : view.id)
+    toast.success(view.isDefault ? `"${view.name}" is no longer the default view` : `"${view.name}" is now the default view`)
+  }
+
+  const handleCopyLink = async (view: SavedView) => {
+    const params = new URLSearchParams(view.query)
+    params.set(SHARED_VIEW_PARAM, view.name)
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${pathname}?${params.toString()}`)
+      toast.success('Link copied - anyone with access to this page can open and save the view')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const handleDelete = (view: SavedView) => {
+    useSavedViewsStore.getState().deleteView(userUid, view.id)
+    toast.success(`View "${view.name}" deleted`)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <IconBookmark />
+            <span className="hidden lg:inline max-w-[160px] truncate">{activeView?.name ?? 'Views'}</span>
+            <IconChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 ? (
+            <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+          ) : (
+            views.map((view) => (
+              <DropdownMenuSub key={view.id}>
+                <DropdownMenuSubTrigger>
+                  <span className="truncate">{view.name}</span>
+                  {view.isDefault && (
+                    <Badge variant="secondary" className="ml-auto">Default</Badge>
+                  )}
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-48">
+                  <DropdownMenuItem onSelect={() => source.apply(view)}>
+                    <IconBookmark />
+                    Apply
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleToggleDefault(view)}>
+                    {view.isDefault ? <IconStarOff /> : <IconStar />}
+                    {view.isDefault ? 'Remove default' : 'Set as default'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => void handleCopyLink(view)}>
+                    <IconLink />
+                    Copy share link
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem variant="destructive" onSelect={() => handleDelete(view)}>
+                    <IconTrash />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          {canSaveSharedView && (
+            <DropdownMenuItem onSelect={() => openSaveDialog(sharedViewName)}>
+              <IconBookmarkPlus />
+              <span className="truncate">Save shared view &quot;{sharedViewName}&quot;</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => openSaveDialog(activeView?.name ?? '')}>
+            <IconBookmarkPlus />
+            Save current view...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters, sorting and visible columns. Saving under an existing name replaces that view.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                placeholder="e.g. Failed last week"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSave()
+                }}
+                maxLength={60}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saved-view-default"
+                checked={isDefault}
+                onCheckedChange={(checked) => setIsDefault(checked === true)}
+              />
+              <Label htmlFor="saved-view-default" className="font-normal">
+                Open this view by default
+              </Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
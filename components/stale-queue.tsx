@@ -0,0 +1,346 @@
+'use client'
+
+import { ReactNode, useState } from 'react'
+import Link from 'next/link'
+import { IconAlertTriangle, IconLoader, IconRefresh } from '@tabler/icons-react'
+import { format } from 'date-fns'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { cn } from '@/lib/utils'
+import {
+  STALE_AGE_BUCKETS,
+  STALE_THRESHOLD_OPTIONS,
+  formatAge,
+  getAgeMinutes,
+  getStaleAgeBucket,
+} from '@/lib/stale-queue'
+
+// Word the operator types to confirm processing
+const CONFIRMATION_WORD = 'PROCESS'
+
+export interface StaleQueueColumn<TRow> {
+  header: string
+  className?: string
+  cell: (row: TRow) => ReactNode
+}
+
+export interface ProcessStaleResult {
+  message: string
+  data: {
+    processed: number
+    staleThreshold: string
+    /** Whether the run was written to the audit log */
+    audited: boolean
+  }
+}
+
+interface StaleQueueProps<TRow> {
+  title: string
+  description: string
+  /** Plural noun for the rows, e.g. 'transactions' */
+  entityName: string
+  thresholdMinutes: number
+  onThresholdChange: (minutes: number) => void
+  rows: TRow[]
+  isLoading: boolean
+  isFetching: boolean
+  error: unknown
+  /** When the rows were fetched; ages are measured from this time */
+  fetchedAt: number
+  onRefresh: () => void
+  getId: (row: TRow) => string
+  getCreatedAt: (row: TRow) => string | null | undefined
+  getHref: (row: TRow) => string
+  columns: StaleQueueColumn<TRow>[]
+  canProcess: boolean
+  processStale: (reason: string) => Promise<ProcessStaleResult>
+}
+
+/**
+ * Queue of records stuck in PENDING/PROCESSING beyond a threshold, grouped into age buckets,
+ * with a confirmed "process stale now" action that has the backend mark them as failed
+ */
+export function StaleQueue<TRow>({
+  title,
+  description,
+  entityName,
+  thresholdMinutes,
+  onThresholdChange,
+  rows,
+  isLoading,
+  isFetching,
+  error,
+  fetchedAt,
+  onRefresh,
+  getId,
+  getCreatedAt,
+  getHref,
+  columns,
+  canProcess,
+  processStale,
+}: StaleQueueProps<TRow>) {
+  const [bucketKey, setBucketKey] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [confirmation, setConfirmation] = useState('')
+  const [reason, setReason] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [result, setResult] = useState<ProcessStaleResult | null>(null)
+
+  const rowsWithAge = rows.map((row) => {
+    const ageMinutes = getAgeMinutes(getCreatedAt(row), fetchedAt)
+    return { row, ageMinutes, bucket: ageMinutes === null ? null : getStaleAgeBucket(ageMinutes) }
+  })
+  const bucketCounts = STALE_AGE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: rowsWithAge.filter((entry) => entry.bucket?.key === bucket.key).length,
+  }))
+  const visibleRows = bucketKey ? rowsWithAge.filter((entry) => entry.bucket?.key === bucketKey) : rowsWithAge
+  const thresholdLabel = STALE_THRESHOLD_OPTIONS.find((option) => option.minutes === thresholdMinutes)?.label
+    ?? `${thresholdMinutes} min`
+
+  const handleClose = () => {
+    if (isProcessing) return
+    setDialogOpen(false)
+    setConfirmation('')
+    setReason('')
+    setResult(null)
+  }
+
+  const handleProcess = async () => {
+    setIsProcessing(true)
+    try {
+      const processResult = await processStale(reason.trim())
+      setResult(processResult)
+      toast.success(processResult.message)
+    } catch (processError) {
+      toast.error(processError instanceof Error && processError.message ? processError.message : `Failed to process stale ${entityName}`)
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+      <div className="flex items-center justify-between gap-4 px-4 lg:px-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{title}</h1>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onRefresh} disabled={isFetching}>
+            <IconRefresh className={cn(isFetching && 'animate-spin')} />
+            Refresh
+          </Button>
+          {canProcess && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setDialogOpen(true)}
+              disabled={isLoading || rows.length === 0}
+            >
+              <IconAlertTriangle />
+              Process stale now
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 px-4 lg:px-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Stuck for longer than</span>
+          <Tabs
+            value={String(thresholdMinutes)}
+            onValueChange={(value) => {
+              onThresholdChange(Number(value))
+              setBucketKey(null)
+            }}
+          >
+            <TabsList>
+              {STALE_THRESHOLD_OPTIONS.map((option) => (
+                <TabsTrigger key={option.minutes} value={String(option.minutes)}>
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 @xl/main:grid-cols-4">
+          {bucketCounts.map((bucket) => (
+            <button
+              key={bucket.key}
+              type="button"
+              onClick={() => setBucketKey(bucketKey === bucket.key ? null : bucket.key)}
+              className="text-left"
+            >
+              <Card className={cn('py-4 transition-colors hover:bg-muted/50', bucketKey === bucket.key && 'border-primary')}>
+                <CardHeader className="px-4">
+                  <CardDescription>{bucket.label}</CardDescription>
+                  <CardTitle className="text-2xl font-semibold tabular-nums">{bucket.count}</CardTitle>
+                </CardHeader>
+              </Card>
+            </button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Stale {entityName}
+              {bucketKey && ` - ${STALE_AGE_BUCKETS.find((bucket) => bucket.key === bucketKey)?.label}`}
+            </CardTitle>
+            <CardDescription>
+              {rows.length > 0
+                ? `${visibleRows.length} of ${rows.length} ${entityName} in PENDING/PROCESSING for more than ${thresholdLabel}, as of ${format(new Date(fetchedAt), 'HH:mm:ss')}`
+                : `No ${entityName} stuck for more than ${thresholdLabel}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <div className="text-destructive py-8 text-center">
+                {error instanceof Error ? error.message : `Failed to load stale ${entityName}`}
+              </div>
+            ) : visibleRows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center gap-4 py-8">
+                <p className="text-muted-foreground">Nothing is stuck here.</p>
+              </div>
+            ) : (
+              <div className="rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {columns.map((column) => (
+                        <TableHead key={column.header} className={column.className}>{column.header}</TableHead>
+                      ))}
+                      <TableHead>Age</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map(({ row, ageMinutes }) => (
+                      <TableRow key={getId(row)}>
+                        {columns.map((column) => (
+                          <TableCell key={column.header} className={column.className}>{column.cell(row)}</TableCell>
+                        ))}
+                        <TableCell className="font-medium tabular-nums">
+                          {ageMinutes === null ? '-' : formatAge(ageMinutes)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={getHref(row)}>View</Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{result ? 'Stale Processing Complete' : `Process stale ${entityName}`}</DialogTitle>
+            <DialogDescription>
+              {result
+                ? result.data.audited
+                  ? `The backend marked these ${entityName} as FAILED and the run has been recorded in the audit log.`
+                  : `The backend marked these ${entityName} as FAILED, but the run could not be recorded in the audit log.`
+                : `The backend will mark all ${entityName} still PENDING/PROCESSING after more than ${thresholdLabel} as FAILED. This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {result ? (
+            <div className="space-y-2 rounded-md border p-4 text-sm">
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Processed</span>
+                <span className="font-medium tabular-nums">{result.data.processed} {entityName}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Stale before</span>
+                <span className="font-mono text-xs">{result.data.staleThreshold}</span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground">Backend message</span>
+                <span className="text-right">{result.message}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {rows.length} {entityName} are currently listed. Records that became stale since the last refresh are processed too.
+              </p>
+              <Label htmlFor="stale-reason">Reason</Label>
+              <Input
+                id="stale-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why are these being marked as failed?"
+                disabled={isProcessing}
+              />
+              <Label htmlFor="stale-confirmation">
+                Type <span className="font-mono">{CONFIRMATION_WORD}</span> to confirm
+              </Label>
+              <Input
+                id="stale-confirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            {result ? (
+              <Button onClick={handleClose}>Close</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+                  Go Back
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => void handleProcess()}
+                  disabled={isProcessing || confirmation !== CONFIRMATION_WORD || !reason.trim()}
+                >
+                  {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Process stale {entityName}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -72,6 +72,16 @@ export const PAYMENT_GATEWAYS_TABLE_COLUMNS: TableColumnSkeleton[] = [
     { width: 'w-8', type: 'button' }, // Actions
 ];
 
+export const PAYMENT_CHANNELS_TABLE_COLUMNS: TableColumnSkeleton[] = [
+    { width: 'w-8', type: 'checkbox', align: 'center' },
+    { width: '', type: 'text' }, // Code
+    { width: '', type: 'text' }, // Name
+    { width: '', type: 'badge' }, // Type
+    { width: '', type: 'badge' }, // Status
+    { width: '', type: 'text' }, // Created
+    { width: 'w-8', type: 'button' }, // Actions
+];
+
 export const ROLES_TABLE_COLUMNS: TableColumnSkeleton[] = [
     { width: 'w-8', type: 'checkbox', align: 'center' },
     { width: '', type: 'text' }, // ID
@@ -83,3 +93,13 @@ export const ROLES_TABLE_COLUMNS: TableColumnSkeleton[] = [
 
 
 
+
+export const APPROVALS_TABLE_COLUMNS: TableColumnSkeleton[] = [
+    { width: '', type: 'text-multi', lines: 2 }, // Action
+    { width: '', type: 'amount' }, // Amount
+    { width: '', type: 'text' }, // Requested By
+    { width: '', type: 'text' }, // Requested
+    { width: '', type: 'text' }, // Expires
+    { width: '', type: 'badge' }, // Status
+    { width: 'w-8', type: 'button' }, // Actions
+];
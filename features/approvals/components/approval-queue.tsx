@@ -0,0 +1,298 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { IconLoader, IconChevronLeft, IconChevronRight, IconChevronsLeft, IconChevronsRight } from '@tabler/icons-react';
+import { format } from 'date-fns';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { useTRPC } from '@/lib/trpc/client';
+import {
+    APPROVAL_ACTION_LABELS,
+    APPROVAL_EVENT_LABELS,
+    formatApprovalAmount,
+    getApprovalEntityHref,
+} from '@/lib/approvals';
+import type { ApprovalRequest } from '@/lib/definitions';
+import { ApprovalStatusBadge } from './approval-status-badge';
+import { ApprovalReviewDialog } from './approval-review-dialog';
+
+export const APPROVAL_QUEUE_TABS = [
+    { value: 'pending', label: 'Pending', description: 'Requests waiting for a second user to approve or reject them' },
+    { value: 'history', label: 'History', description: 'Approved, rejected and expired requests' },
+    { value: 'audit', label: 'Audit Log', description: 'Every request, decision, expiry and execution' },
+] as const;
+
+type ApprovalQueueTab = (typeof APPROVAL_QUEUE_TABS)[number]['value'];
+
+const PAGE_SIZE = 15;
+
+interface ApprovalQueueProps {
+    currentUserUid: string;
+    canApprove: boolean;
+}
+
+function formatDateTime(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+function EntityLink({ approval }: { approval: Pick<ApprovalRequest, 'entityType' | 'entityUid'> }) {
+    return (
+        <Link href={getApprovalEntityHref(approval)} className="font-mono text-xs hover:underline">
+            {approval.entityUid}
+        </Link>
+    );
+}
+
+interface PagerProps {
+    pageNumber: number;
+    totalPages: number;
+    first: boolean;
+    last: boolean;
+    onPageChange: (page: number) => void;
+}
+
+function Pager({ pageNumber, totalPages, first, last, onPageChange }: PagerProps) {
+    if (totalPages <= 1) return null;
+
+    return (
+        <div className="flex items-center justify-between mt-4">
+            <div className="text-sm text-muted-foreground">
+                Page {pageNumber + 1} of {totalPages}
+            </div>
+            <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => onPageChange(0)} disabled={first}>
+                    <IconChevronsLeft className="size-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => onPageChange(pageNumber - 1)} disabled={first}>
+                    <IconChevronLeft className="size-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => onPageChange(pageNumber + 1)} disabled={last}>
+                    <IconChevronRight className="size-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => onPageChange(totalPages - 1)} disabled={last}>
+                    <IconChevronsRight className="size-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+function ApprovalsTable({ approvals, scope, currentUserUid, canApprove }: ApprovalQueueProps & {
+    approvals: ApprovalRequest[];
+    scope: 'pending' | 'history';
+}) {
+    return (
+        <div className="rounded-lg border">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Requested By</TableHead>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>{scope === 'pending' ? 'Expires' : 'Decided By'}</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {approvals.map((approval) => (
+                        <TableRow key={approval.uid}>
+                            <TableCell>
+                                <div className="font-medium">{APPROVAL_ACTION_LABELS[approval.action]}</div>
+                                <EntityLink approval={approval} />
+                            </TableCell>
+                            <TableCell className="font-medium">{formatApprovalAmount(approval)}</TableCell>
+                            <TableCell>{approval.requestedBy.name}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                                {formatDateTime(approval.requestedAt)}
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                                {scope === 'pending' ? formatDateTime(approval.expiresAt) : approval.decidedBy?.name ?? '-'}
+                            </TableCell>
+                            <TableCell>
+                                <ApprovalStatusBadge status={approval.status} />
+                            </TableCell>
+                            <TableCell className="text-right">
+                                <ApprovalReviewDialog
+                                    approval={approval}
+                                    currentUserUid={currentUserUid}
+                                    canApprove={canApprove}
+                                />
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function AuditLogTable() {
+    const [page, setPage] = useState(0);
+    const trpc = useTRPC();
+    const { data, isLoading, error } = useQuery(trpc.approvals.auditLog.queryOptions({ page, size: PAGE_SIZE }));
+    const entries = data?.data ?? [];
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center py-8">
+                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+    if (error) {
+        return (
+            <div className="text-destructive py-8 text-center">
+                {error.message || 'Failed to load audit log'}
+            </div>
+        );
+    }
+    if (entries.length === 0) {
+        return <p className="py-8 text-center text-muted-foreground">No approval activity yet.</p>;
+    }
+
+    return (
+        <>
+            <div className="rounded-lg border">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Time</TableHead>
+                            <TableHead>Event</TableHead>
+                            <TableHead>By</TableHead>
+                            <TableHead>Action</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Comment</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {entries.map((entry, index) => (
+                            <TableRow key={`${entry.uid}-${entry.type}-${index}`}>
+                                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                                    {formatDateTime(entry.timestamp)}
+                                </TableCell>
+                                <TableCell className="font-medium">{APPROVAL_EVENT_LABELS[entry.type]}</TableCell>
+                                <TableCell>{entry.actor?.name ?? 'System'}</TableCell>
+                                <TableCell>
+                                    <div>{APPROVAL_ACTION_LABELS[entry.action]}</div>
+                                    <EntityLink approval={entry} />
+                                </TableCell>
+                                <TableCell>{formatApprovalAmount(entry)}</TableCell>
+                                <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={entry.comment ?? undefined}>
+                                    {entry.comment || '-'}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+            {data && <Pager {...data} onPageChange={setPage} />}
+        </>
+    );
+}
+
+/**
+ * Maker-checker queue: money-moving actions above the approval threshold wait here for a second user
+ */
+export default function ApprovalQueue({ currentUserUid, canApprove }: ApprovalQueueProps) {
+    const [tab, setTab] = useState<ApprovalQueueTab>('pending');
+    const [page, setPage] = useState(0);
+    const trpc = useTRPC();
+
+    const scope = tab === 'audit' ? null : tab;
+    const { data, isLoading, error } = useQuery({
+        ...trpc.approvals.list.queryOptions({ scope: scope ?? 'pending', page, size: PAGE_SIZE }),
+        enabled: scope !== null,
+    });
+    const approvals = data?.data ?? [];
+    const totalElements = data?.totalElements ?? 0;
+
+    const current = APPROVAL_QUEUE_TABS.find((option) => option.value === tab) ?? APPROVAL_QUEUE_TABS[0];
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center justify-between px-4 lg:px-6">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Approvals</h1>
+                    <p className="text-muted-foreground">
+                        Review refunds, completions, cancellations, force retries and status changes held for four-eyes approval.
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-4 px-4 lg:px-6">
+                <Tabs
+                    value={tab}
+                    onValueChange={(value) => {
+                        setTab(value as ApprovalQueueTab);
+                        setPage(0);
+                    }}
+                >
+                    <TabsList>
+                        {APPROVAL_QUEUE_TABS.map((option) => (
+                            <TabsTrigger key={option.value} value={option.value}>
+                                {option.label}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{current.label}</CardTitle>
+                        <CardDescription>
+                            {scope && totalElements > 0
+                                ? `${totalElements} request${totalElements !== 1 ? 's' : ''}`
+                                : current.description}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {scope === null ? (
+                            <AuditLogTable />
+                        ) : isLoading ? (
+                            <div className="flex items-center justify-center py-8">
+                                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : error ? (
+                            <div className="text-destructive py-8 text-center">
+                                {error.message || 'Failed to load approvals'}
+                            </div>
+                        ) : approvals.length === 0 ? (
+                            <p className="py-8 text-center text-muted-foreground">
+                                {scope === 'pending' ? 'Nothing waiting for approval.' : 'No decided requests yet.'}
+                            </p>
+                        ) : (
+                            <>
+                                <ApprovalsTable
+                                    approvals={approvals}
+                                    scope={scope}
+                                    currentUserUid={currentUserUid}
+                                    canApprove={canApprove}
+                                />
+                                {data && <Pager {...data} onPageChange={setPage} />}
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useTRPC } from '@/lib/trpc/client';
+import {
+    APPROVAL_ACTION_LABELS,
+    APPROVAL_EVENT_LABELS,
+    canDecideApproval,
+    formatApprovalAmount,
+    getApprovalEntityHref,
+} from '@/lib/approvals';
+import { APPROVAL_REJECTION_MIN_COMMENT_LENGTH, type ApprovalRequest } from '@/lib/definitions';
+import { ApprovalStatusBadge } from './approval-status-badge';
+
+interface ApprovalReviewDialogProps {
+    approval: ApprovalRequest;
+    currentUserUid: string;
+    canApprove: boolean;
+    trigger?: React.ReactNode;
+}
+
+function formatDateTime(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+/**
+ * Dialog for reviewing an approval request's before/after and history, and approving or rejecting it
+ */
+export function ApprovalReviewDialog({ approval, currentUserUid, canApprove, trigger }: ApprovalReviewDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [comment, setComment] = useState('');
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+
+    const approveMutation = useMutation(trpc.approvals.approve.mutationOptions());
+    const rejectMutation = useMutation(trpc.approvals.reject.mutationOptions());
+    const isPending = approveMutation.isPending || rejectMutation.isPending;
+
+    const isOwnRequest = approval.requestedBy.uid === currentUserUid;
+    const canDecide = canApprove && canDecideApproval(approval, currentUserUid);
+    const trimmedComment = comment.trim();
+    const canReject = trimmedComment.length >= APPROVAL_REJECTION_MIN_COMMENT_LENGTH;
+
+    const invalidateApprovals = () => {
+        queryClient.invalidateQueries({ queryKey: trpc.approvals.list.queryKey() });
+        queryClient.invalidateQueries({ queryKey: trpc.approvals.auditLog.queryKey() });
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setComment('');
+        approveMutation.reset();
+        rejectMutation.reset();
+    };
+
+    const handleApprove = () => {
+        approveMutation.mutate(
+            { uid: approval.uid, comment: trimmedComment || undefined },
+            {
+                onSuccess: (data) => {
+                    invalidateApprovals();
+                    if (approval.entityType === 'TRANSACTION') {
+                        queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
+                        queryClient.invalidateQueries({ queryKey: trpc.transactions.getByUid.queryKey({ id: approval.entityUid }) });
+                    } else {
+                        queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
+                        queryClient.invalidateQueries({ queryKey: trpc.disbursements.getById.queryKey({ id: approval.entityUid }) });
+                    }
+                    toast.success(data.message || 'Request approved');
+                    handleClose();
+                },
+                onError: (error) => {
+                    // A failed execution is still recorded on the request
+                    invalidateApprovals();
+                    toast.error(error.message || 'Failed to approve request');
+                },
+            }
+        );
+    };
+
+    const handleReject = () => {
+        if (!canReject) {
+            toast.error(`A comment of at least ${APPROVAL_REJECTION_MIN_COMMENT_LENGTH} characters is required to reject`);
+            return;
+        }
+        rejectMutation.mutate(
+            { uid: approval.uid, comment: trimmedComment },
+            {
+                onSuccess: (data) => {
+                    invalidateApprovals();
+                    toast.success(data.message || 'Request rejected');
+                    handleClose();
+                },
+                onError: (error) => {
+                    toast.error(error.message || 'Failed to reject request');
+                },
+            }
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            if (!isOpen) {
+                handleClose();
+            } else {
+                setOpen(true);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm">
+                        Review
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        {APPROVAL_ACTION_LABELS[approval.action]}
+                        <ApprovalStatusBadge status={approval.status} />
+                    </DialogTitle>
+                    <DialogDescription>
+                        <span className="block font-semibold text-foreground">
+                            Amount: {formatApprovalAmount(approval)}
+                        </span>
+                        <span className="block mt-1 font-mono text-xs">
+                            Ref:{' '}
+                            <Link href={getApprovalEntityHref(approval)} className="underline underline-offset-2">
+                                {approval.entityUid}
+                            </Link>
+                        </span>
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 rounded-md border p-3 text-sm">
+                        <div>
+                            <p className="text-muted-foreground">Requested by</p>
+                            <p className="font-medium">{approval.requestedBy.name}</p>
+                            <p className="text-xs text-muted-foreground">{formatDateTime(approval.requestedAt)}</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">{approval.status === 'PENDING' ? 'Expires' : 'Decided by'}</p>
+                            {approval.status === 'PENDING' ? (
+                                <p className="font-medium">{formatDateTime(approval.expiresAt)}</p>
+                            ) : (
+                                <>
+                                    <p className="font-medium">{approval.decidedBy?.name ?? '-'}</p>
+                                    <p className="text-xs text-muted-foreground">{formatDateTime(approval.decidedAt)}</p>
+                                </>
+                            )}
+                        </div>
+                        {approval.reason && (
+                            <div className="col-span-2">
+                                <p className="text-muted-foreground">Reason</p>
+                                <p className="whitespace-pre-wrap break-words">{approval.reason}</p>
+                            </div>
+                        )}
+                        {approval.executionMessage && (
+                            <div className="col-span-2">
+                                <p className="text-muted-foreground">Outcome</p>
+                                <p className={approval.status === 'FAILED' ? 'text-destructive' : undefined}>
+                                    {approval.executionMessage}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {approval.changes.length > 0 && (
+                        <div className="rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Field</TableHead>
+                                        <TableHead>Before</TableHead>
+                                        <TableHead>After</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {approval.changes.map((change) => (
+                                        <TableRow key={change.field}>
+                                            <TableCell className="font-medium">{change.field}</TableCell>
+                                            <TableCell className="font-mono text-sm text-muted-foreground">{change.before ?? '-'}</TableCell>
+                                            <TableCell className="font-mono text-sm">{change.after ?? '-'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">History</p>
+                        <ol className="space-y-2 border-l pl-4 text-sm">
+                            {approval.events.map((event, index) => (
+                                <li key={`${event.type}-${index}`}>
+                                    <span className="font-medium">{APPROVAL_EVENT_LABELS[event.type]}</span>
+                                    {event.actor && <span className="text-muted-foreground"> by {event.actor.name}</span>}
+                                    <span className="text-muted-foreground"> · {formatDateTime(event.timestamp)}</span>
+                                    {event.comment && (
+                                        <p className="break-words text-muted-foreground">{event.comment}</p>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+
+                    {canDecide ? (
+                        <div className="space-y-2">
+                            <Label htmlFor="approval-comment">Comment (required to reject)</Label>
+                            <Textarea
+                                id="approval-comment"
+                                placeholder="Enter a comment for the requester..."
+                                value={comment}
+                                onChange={(e) => setComment(e.target.value)}
+                                rows={3}
+                            />
+                        </div>
+                    ) : approval.status === 'PENDING' && (
+                        <p className="text-sm text-muted-foreground">
+                            {isOwnRequest
+                                ? 'You raised this request, so another user has to approve or reject it.'
+                                : 'You do not have permission to approve or reject requests.'}
+                        </p>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={handleClose} disabled={isPending}>
+                        Close
+                    </Button>
+                    {canDecide && (
+                        <>
+                            <Button
+                                variant="destructive"
+                                onClick={handleReject}
+                                disabled={isPending || !canReject}
+                            >
+                                {rejectMutation.isPending ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <XCircle className="mr-2 h-4 w-4" />
+                                )}
+                                Reject
+                            </Button>
+                            <Button onClick={handleApprove} disabled={isPending}>
+                                {approveMutation.isPending ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <CheckCircle className="mr-2 h-4 w-4" />
+                                )}
+                                Approve
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { IconCircleCheck, IconCircleX, IconClockHour4, IconAlertTriangle, IconHourglassEmpty, IconPlayerPlay } from '@tabler/icons-react';
+import { APPROVAL_STATUS_LABELS } from '@/lib/approvals';
+import type { ApprovalStatus } from '@/lib/definitions';
+
+const STATUS_CONFIG: Record<ApprovalStatus, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode }> = {
+    PENDING: { variant: 'outline', icon: <IconClockHour4 className="mr-1 size-3" /> },
+    EXECUTING: { variant: 'secondary', icon: <IconPlayerPlay className="mr-1 size-3" /> },
+    EXECUTED: { variant: 'default', icon: <IconCircleCheck className="mr-1 size-3" /> },
+    FAILED: { variant: 'destructive', icon: <IconAlertTriangle className="mr-1 size-3" /> },
+    REJECTED: { variant: 'destructive', icon: <IconCircleX className="mr-1 size-3" /> },
+    EXPIRED: { variant: 'secondary', icon: <IconHourglassEmpty className="mr-1 size-3" /> },
+};
+
+/**
+ * Badge for the state of an approval request
+ */
+export function ApprovalStatusBadge({ status }: { status: ApprovalStatus }) {
+    const config = STATUS_CONFIG[status];
+
+    return (
+        <Badge variant={config.variant} className="px-2 py-0.5">
+            {config.icon}
+            {APPROVAL_STATUS_LABELS[status]}
+        </Badge>
+    );
+}
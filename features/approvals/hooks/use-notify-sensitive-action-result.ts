@@ -0,0 +1,25 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTRPC } from '@/lib/trpc/client';
+import type { SensitiveActionResult } from '@/lib/definitions';
+
+/**
+ * Report the result of a money-moving mutation: a success toast when it ran, or an info toast and a refreshed
+ * approval queue when it was held for approval
+ */
+export function useNotifySensitiveActionResult() {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    return useCallback((data: Pick<SensitiveActionResult, 'message' | 'approval'>, successText: string) => {
+        if (data.approval) {
+            toast.info(data.message);
+            queryClient.invalidateQueries({ queryKey: trpc.approvals.list.queryKey() });
+        } else {
+            toast.success(data.message || successText);
+        }
+    }, [queryClient, trpc]);
+}
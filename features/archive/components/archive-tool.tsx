@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import { skipToken, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { IconAlertTriangle, IconArchive, IconLoader } from '@tabler/icons-react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useTRPC } from '@/lib/trpc/client';
+import {
+    ARCHIVE_CONFIRMATION_WORD,
+    MIN_ARCHIVE_AGE_DAYS,
+    getLatestArchiveCutoff,
+    isValidArchiveCutoff,
+} from '@/lib/archive';
+import type { ArchiveEntity } from '@/lib/definitions';
+
+// Only final statuses can be archived; in-flight records must be resolved first
+const ARCHIVE_STATUSES: Record<ArchiveEntity, { value: string; label: string }[]> = {
+    transactions: [
+        { value: 'SUCCESS', label: 'Success' },
+        { value: 'FAILED', label: 'Failed' },
+        { value: 'CANCELLED', label: 'Cancelled' },
+        { value: 'REFUNDED', label: 'Refunded' },
+        { value: 'EXPIRED', label: 'Expired' },
+    ],
+    disbursements: [
+        { value: 'SUCCESS', label: 'Success' },
+        { value: 'FAILED', label: 'Failed' },
+        { value: 'CANCELLED', label: 'Cancelled' },
+        { value: 'REJECTED', label: 'Rejected' },
+        { value: 'REVERSED', label: 'Reversed' },
+        { value: 'REIMBURSED', label: 'Reimbursed' },
+    ],
+};
+
+const ENTITY_LABELS: Record<ArchiveEntity, string> = {
+    transactions: 'Transactions',
+    disbursements: 'Disbursements',
+};
+
+function formatDateTime(dateString: string | null): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+export default function ArchiveTool() {
+    const [entity, setEntity] = useState<ArchiveEntity>('transactions');
+    const [latestCutoff] = useState(() => getLatestArchiveCutoff());
+    const [cutoffDate, setCutoffDate] = useState(latestCutoff);
+    const [statuses, setStatuses] = useState<string[]>(ARCHIVE_STATUSES.transactions.map((status) => status.value));
+    // Parameters of the last preview; the archive always runs with exactly these
+    const [previewInput, setPreviewInput] = useState<{ cutoffDate: string; statuses: string[] } | null>(null);
+    const [confirmOpen, setConfirmOpen] = useState(false);
+    const [confirmation, setConfirmation] = useState('');
+
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const historyQuery = useQuery(trpc.logs.archiveRuns.queryOptions());
+    const runs = historyQuery.data ?? [];
+
+    const transactionsPreview = useQuery(
+        trpc.transactions.archivePreview.queryOptions(entity === 'transactions' && previewInput ? previewInput : skipToken)
+    );
+    const disbursementsPreview = useQuery(
+        trpc.disbursements.archivePreview.queryOptions(entity === 'disbursements' && previewInput ? previewInput : skipToken)
+    );
+    const previewQuery = entity === 'transactions' ? transactionsPreview : disbursementsPreview;
+    const preview = previewInput ? previewQuery.data : undefined;
+
+    const archiveTransactions = useMutation(trpc.transactions.archive.mutationOptions());
+    const archiveDisbursements = useMutation(trpc.disbursements.archive.mutationOptions());
+    const archiveMutation = entity === 'transactions' ? archiveTransactions : archiveDisbursements;
+
+    const cutoffError = cutoffDate && !isValidArchiveCutoff(cutoffDate)
+        ? `Choose a date on or before ${latestCutoff} - records younger than ${MIN_ARCHIVE_AGE_DAYS} days are never archived`
+        : null;
+    const otherStatusCount = preview ? preview.beforeCutoffCount - preview.matchingCount : 0;
+    const canArchive = !!preview && preview.matchingCount > 0 && otherStatusCount === 0;
+
+    const handleEntityChange = (value: string) => {
+        const next = value as ArchiveEntity;
+        setEntity(next);
+        setStatuses(ARCHIVE_STATUSES[next].map((status) => status.value));
+        setPreviewInput(null);
+    };
+
+    const handleCutoffChange = (value: string) => {
+        setCutoffDate(value);
+        setPreviewInput(null);
+    };
+
+    const handleStatusToggle = (status: string, checked: boolean) => {
+        setStatuses((current) => checked ? [...current, status] : current.filter((s) => s !== status));
+        setPreviewInput(null);
+    };
+
+    const handlePreview = () => {
+        if (!cutoffDate || cutoffError || statuses.length === 0) return;
+        setPreviewInput({ cutoffDate, statuses: [...statuses] });
+    };
+
+    const handleCloseConfirm = () => {
+        if (archiveMutation.isPending) return;
+        setConfirmOpen(false);
+        setConfirmation('');
+    };
+
+    const handleArchive = async () => {
+        if (!previewInput) return;
+
+        try {
+            const result = await archiveMutation.mutateAsync({ ...previewInput, confirmation });
+            toast.success(result.message);
+
+            queryClient.invalidateQueries({ queryKey: trpc[entity].archivePreview.queryKey() });
+            queryClient.invalidateQueries({ queryKey: trpc[entity].list.queryKey() });
+            queryClient.invalidateQueries({ queryKey: trpc[entity].search.queryKey() });
+            setConfirmOpen(false);
+            setConfirmation('');
+        } catch (error) {
+            const message = error instanceof Error && error.message ? error.message : `Failed to archive ${entity}`;
+            toast.error(message);
+        } finally {
+            // Runs that reached the backend are in its audit log, whether or not they succeeded
+            queryClient.invalidateQueries({ queryKey: trpc.logs.archiveRuns.queryKey() });
+        }
+    };
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center justify-between px-4 lg:px-6">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Archive</h1>
+                    <p className="text-muted-foreground">
+                        Move old, settled transactions and disbursements out of the live tables.
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-4 px-4 lg:px-6">
+                <Tabs value={entity} onValueChange={handleEntityChange}>
+                    <TabsList>
+                        {(Object.keys(ENTITY_LABELS) as ArchiveEntity[]).map((key) => (
+                            <TabsTrigger key={key} value={key}>
+                                {ENTITY_LABELS[key]}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Archive {ENTITY_LABELS[entity]}</CardTitle>
+                        <CardDescription>
+                            Records created before the cutoff date are archived. Preview the run before archiving.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid gap-6 md:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="archive-cutoff">Cutoff date</Label>
+                                <Input
+                                    id="archive-cutoff"
+                                    type="date"
+                                    max={latestCutoff}
+                                    value={cutoffDate}
+                                    onChange={(e) => handleCutoffChange(e.target.value)}
+                                />
+                                {cutoffError ? (
+                                    <p className="text-sm text-destructive">{cutoffError}</p>
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">
+                                        Records created before this date are archived.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Statuses</Label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {ARCHIVE_STATUSES[entity].map((status) => (
+                                        <div key={status.value} className="flex items-center gap-2">
+                                            <Checkbox
+                                                id={`archive-status-${status.value}`}
+                                                checked={statuses.includes(status.value)}
+                                                onCheckedChange={(checked) => handleStatusToggle(status.value, checked === true)}
+                                            />
+                                            <Label htmlFor={`archive-status-${status.value}`} className="font-normal">
+                                                {status.label}
+                                            </Label>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={handlePreview}
+                                disabled={!cutoffDate || !!cutoffError || statuses.length === 0 || previewQuery.isFetching}
+                            >
+                                {previewQuery.isFetching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Preview
+                            </Button>
+                            <Button
+                                variant="destructive"
+                                onClick={() => setConfirmOpen(true)}
+                                disabled={!canArchive || previewQuery.isFetching}
+                            >
+                                <IconArchive />
+                                {preview ? `Archive ${preview.matchingCount} ${entity}` : 'Archive'}
+                            </Button>
+                        </div>
+
+                        {previewInput && previewQuery.isLoading && (
+                            <div className="flex items-center justify-center py-8">
+                                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                            </div>
+                        )}
+
+                        {previewInput && previewQuery.error && (
+                            <div className="text-destructive py-4">
+                                {previewQuery.error.message || 'Failed to preview archive'}
+                            </div>
+                        )}
+
+                        {preview && (
+                            <div className="space-y-4">
+                                <div className="grid gap-4 sm:grid-cols-2">
+                                    <div className="rounded-lg border p-4">
+                                        <p className="text-sm text-muted-foreground">Matching before {previewInput?.cutoffDate}</p>
+                                        <p className="text-2xl font-semibold tabular-nums">{preview.matchingCount}</p>
+                                    </div>
+                                    <div className="rounded-lg border p-4">
+                                        <p className="text-sm text-muted-foreground">Other statuses before {previewInput?.cutoffDate}</p>
+                                        <p className="text-2xl font-semibold tabular-nums">{otherStatusCount}</p>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap gap-2">
+                                    {preview.statusCounts.map(({ status, total }) => (
+                                        <Badge key={status} variant="outline">
+                                            {status}: {total} in total
+                                        </Badge>
+                                    ))}
+                                </div>
+
+                                {otherStatusCount > 0 && (
+                                    <Alert variant="destructive">
+                                        <IconAlertTriangle />
+                                        <AlertTitle>Other statuses would be archived too</AlertTitle>
+                                        <AlertDescription>
+                                            The archive cannot be limited by status: {otherStatusCount} {entity} created before the
+                                            cutoff are in statuses you did not select. Resolve them (e.g. process stale records), include
+                                            their statuses or choose an earlier cutoff.
+                                        </AlertDescription>
+                                    </Alert>
+                                )}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Archive History</CardTitle>
+                        <CardDescription>Archive runs recorded in the audit log, from its most recent entries.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {historyQuery.isLoading ? (
+                            <div className="flex items-center justify-center py-8">
+                                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : historyQuery.error ? (
+                            <div className="text-destructive py-4">
+                                {historyQuery.error.message || 'Failed to load archive history'}
+                            </div>
+                        ) : runs.length === 0 ? (
+                            <p className="text-muted-foreground py-4 text-center">No archive runs in the recent audit log.</p>
+                        ) : (
+                            <div className="rounded-lg border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Run At</TableHead>
+                                            <TableHead>Type</TableHead>
+                                            <TableHead>Threshold</TableHead>
+                                            <TableHead>Outcome</TableHead>
+                                            <TableHead>Run By</TableHead>
+                                            <TableHead>Details</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {runs.map((run) => (
+                                            <TableRow key={run.id}>
+                                                <TableCell className="whitespace-nowrap">{formatDateTime(run.runAt)}</TableCell>
+                                                <TableCell>{ENTITY_LABELS[run.entity]}</TableCell>
+                                                <TableCell className="whitespace-nowrap">{run.archiveThreshold ? formatDateTime(run.archiveThreshold) : '-'}</TableCell>
+                                                <TableCell>
+                                                    {run.succeeded === null ? (
+                                                        <Badge variant="outline">Unknown</Badge>
+                                                    ) : (
+                                                        <Badge variant={run.succeeded ? 'secondary' : 'destructive'}>
+                                                            {run.succeeded ? 'Succeeded' : 'Failed'}
+                                                        </Badge>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>{run.runBy ?? '-'}</TableCell>
+                                                <TableCell className="max-w-[280px] truncate text-muted-foreground">{run.details ?? '-'}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Dialog open={confirmOpen} onOpenChange={(isOpen) => !isOpen && handleCloseConfirm()}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Archive {preview?.matchingCount} {entity}</DialogTitle>
+                        <DialogDescription>
+                            All {entity} created before {previewInput?.cutoffDate} ({previewInput?.statuses.join(', ')}) will be
+                            moved out of the live tables. This cannot be undone from the dashboard.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="archive-confirmation">
+                            Type <span className="font-mono">{ARCHIVE_CONFIRMATION_WORD}</span> to confirm
+                        </Label>
+                        <Input
+                            id="archive-confirmation"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            autoComplete="off"
+                            disabled={archiveMutation.isPending}
+                        />
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={handleCloseConfirm} disabled={archiveMutation.isPending}>
+                            Go Back
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            onClick={() => void handleArchive()}
+                            disabled={archiveMutation.isPending || confirmation !== ARCHIVE_CONFIRMATION_WORD}
+                        >
+                            {archiveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Archive {entity}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, RotateCcw, ArrowRightLeft } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 
@@ -17,7 +17,19 @@ import {
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import { useTRPC } from '@/lib/trpc/client';
+import { useNotifySensitiveActionResult } from '@/features/approvals/hooks/use-notify-sensitive-action-result';
+import { FORCE_RETRY_MIN_JUSTIFICATION_LENGTH } from '@/lib/definitions';
+import { STATUS_DISPLAY } from '@/lib/config/constants';
+import { getAllowedDisbursementTransitions } from '@/lib/disbursement-transitions';
 
 interface DisbursementDialogProps {
     disbursementId: string;
@@ -41,6 +53,7 @@ export function CompleteDisbursementDialog({
     const [reason, setReason] = useState('');
     const queryClient = useQueryClient();
     const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
     const completeMutationHook = useMutation(trpc.disbursements.complete.mutationOptions());
 
     const completeMutation = {
@@ -48,8 +61,8 @@ export function CompleteDisbursementDialog({
             completeMutationHook.mutate(
                 { id: disbursementId, reason: reason || undefined },
                 {
-                    onSuccess: () => {
-                        toast.success('Disbursement completed successfully')
+                    onSuccess: (data) => {
+                        notifySensitiveActionResult(data, 'Disbursement completed successfully');
                         queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
                         queryClient.invalidateQueries({ queryKey: trpc.disbursements.getById.queryKey({ id: disbursementId }) });
                     },
@@ -157,6 +170,7 @@ export function CancelDisbursementDialog({
     const [reason, setReason] = useState('');
     const queryClient = useQueryClient();
     const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
     const cancelMutationHook = useMutation(trpc.disbursements.cancel.mutationOptions());
 
     const cancelMutation = {
@@ -164,8 +178,8 @@ export function CancelDisbursementDialog({
             cancelMutationHook.mutate(
                 { id: disbursementId, reason: reason || undefined },
                 {
-                    onSuccess: () => {
-                        toast.success('Disbursement cancelled successfully')
+                    onSuccess: (data) => {
+                        notifySensitiveActionResult(data, 'Disbursement cancelled successfully');
                         queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
                         queryClient.invalidateQueries({ queryKey: trpc.disbursements.getById.queryKey({ id: disbursementId }) });
                     },
@@ -260,3 +274,311 @@ export function CancelDisbursementDialog({
     );
 }
 
+/**
+ * Dialog for force-retrying a disbursement past the backend's retry guards; a justification is required
+ */
+export function ForceRetryDisbursementDialog({
+    disbursementId,
+    disbursementRef,
+    amount,
+    currency,
+    trigger,
+}: DisbursementDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [justification, setJustification] = useState('');
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
+    const forceRetryMutation = useMutation(trpc.disbursements.forceRetry.mutationOptions());
+
+    const trimmedJustification = justification.trim();
+    const isJustified = trimmedJustification.length >= FORCE_RETRY_MIN_JUSTIFICATION_LENGTH;
+
+    const handleForceRetry = () => {
+        if (!isJustified) {
+            toast.error(`A justification of at least ${FORCE_RETRY_MIN_JUSTIFICATION_LENGTH} characters is required`);
+            return;
+        }
+
+        forceRetryMutation.mutate(
+            { id: disbursementId, justification: trimmedJustification },
+            {
+                onSuccess: (data) => {
+                    notifySensitiveActionResult(data, 'Disbursement force retry initiated successfully');
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.getById.queryKey({ id: disbursementId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.processingHistory.queryKey({ id: disbursementId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.auditTrail.queryKey({ id: disbursementId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.retryChain.queryKey() });
+                    handleClose();
+                },
+                onError: (error) => {
+                    toast.error(error.message || 'Failed to force retry disbursement');
+                },
+            }
+        );
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setJustification('');
+        forceRetryMutation.reset();
+    };
+
+    const formattedAmount = amount && currency
+        ? `${currency} ${parseFloat(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+        : null;
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            if (!isOpen) {
+                handleClose();
+            } else {
+                setOpen(true);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="ghost" size="sm">
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Force Retry
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Force Retry Disbursement</DialogTitle>
+                    <DialogDescription>
+                        Send this disbursement to the PSP again, even if the retry limit has been reached.
+                        Check with the PSP that the previous attempt did not pay out, or the recipient may be paid twice.
+                        The justification is recorded in the audit trail.
+                        {formattedAmount && (
+                            <span className="block mt-2 font-semibold text-foreground">
+                                Amount: {formattedAmount}
+                            </span>
+                        )}
+                        <span className="block mt-1 font-mono text-xs">
+                            Ref: {disbursementRef}
+                        </span>
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <Label htmlFor="force-retry-justification">Justification</Label>
+                    <Textarea
+                        id="force-retry-justification"
+                        placeholder="Explain why this disbursement must be retried..."
+                        value={justification}
+                        onChange={(e) => setJustification(e.target.value)}
+                        rows={3}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        At least {FORCE_RETRY_MIN_JUSTIFICATION_LENGTH} characters ({trimmedJustification.length} entered)
+                    </p>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={forceRetryMutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={handleForceRetry}
+                        disabled={forceRetryMutation.isPending || !isJustified}
+                    >
+                        {forceRetryMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Force Retry
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+interface SetDisbursementStatusDialogProps extends DisbursementDialogProps {
+    currentStatus: string;
+}
+
+/**
+ * Dialog for manually moving a disbursement along the allowed-transition table
+ * (e.g. to REVERSED, REIMBURSED or ON_HOLD after an out-of-band bank confirmation)
+ */
+export function SetDisbursementStatusDialog({
+    disbursementId,
+    disbursementRef,
+    amount,
+    currency,
+    currentStatus,
+    trigger,
+}: SetDisbursementStatusDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [status, setStatus] = useState('');
+    const [reason, setReason] = useState('');
+    const [referenceNumber, setReferenceNumber] = useState('');
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
+    const updateStatusMutation = useMutation(trpc.disbursements.updateStatus.mutationOptions());
+
+    const statusOptions = getAllowedDisbursementTransitions(currentStatus);
+    const selectedStatus = statusOptions.find((option) => option === status);
+
+    const handleSetStatus = () => {
+        if (!selectedStatus) {
+            toast.error('Select a target status');
+            return;
+        }
+        if (!reason.trim() || !referenceNumber.trim()) {
+            toast.error('A reason and a reference number are required to change the status');
+            return;
+        }
+
+        updateStatusMutation.mutate(
+            {
+                id: disbursementId,
+                status: selectedStatus,
+                reason: reason.trim(),
+                referenceNumber: referenceNumber.trim(),
+            },
+            {
+                onSuccess: (data) => {
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.getById.queryKey({ id: disbursementId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.canUpdate.queryKey({ id: disbursementId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.disbursements.auditTrail.queryKey({ id: disbursementId }) });
+                    notifySensitiveActionResult(data, 'Disbursement status updated successfully');
+                    handleClose();
+                },
+                onError: (error) => {
+                    toast.error(error.message || 'Failed to update disbursement status');
+                },
+            }
+        );
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setStatus('');
+        setReason('');
+        setReferenceNumber('');
+        updateStatusMutation.reset();
+    };
+
+    const formattedAmount = amount && currency
+        ? `${currency} ${parseFloat(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+        : null;
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            if (!isOpen) {
+                handleClose();
+            } else {
+                setOpen(true);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="ghost" size="sm">
+                        <ArrowRightLeft className="h-4 w-4 mr-2" />
+                        Set Status
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Set Disbursement Status</DialogTitle>
+                    <DialogDescription>
+                        Record an outcome confirmed by the bank outside the platform. The change, reason and
+                        reference number are recorded in the audit trail.
+                        {formattedAmount && (
+                            <span className="block mt-2 font-semibold text-foreground">
+                                Amount: {formattedAmount}
+                            </span>
+                        )}
+                        <span className="block mt-1 font-semibold text-foreground">
+                            Current status: {currentStatus || 'Unknown'}
+                        </span>
+                        <span className="block mt-1 font-mono text-xs">
+                            Ref: {disbursementRef}
+                        </span>
+                    </DialogDescription>
+                </DialogHeader>
+
+                {statusOptions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        A {currentStatus} disbursement cannot be moved to another status manually.
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="disbursement-status-status">New status</Label>
+                            <Select value={status} onValueChange={setStatus}>
+                                <SelectTrigger id="disbursement-status-status" className="w-full">
+                                    <SelectValue placeholder="Select status" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {statusOptions.map((option) => (
+                                        <SelectItem key={option} value={option}>
+                                            {STATUS_DISPLAY[option].name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {selectedStatus && (
+                                <p className="text-xs text-muted-foreground">
+                                    {STATUS_DISPLAY[selectedStatus].description}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="disbursement-status-reference">Reference number</Label>
+                            <Input
+                                id="disbursement-status-reference"
+                                placeholder="Bank confirmation or ticket reference"
+                                value={referenceNumber}
+                                onChange={(e) => setReferenceNumber(e.target.value)}
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="disbursement-status-reason">Reason</Label>
+                            <Textarea
+                                id="disbursement-status-reason"
+                                placeholder="Enter reason for the status change..."
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                rows={3}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={updateStatusMutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSetStatus}
+                        disabled={updateStatusMutation.isPending || !selectedStatus || !reason.trim() || !referenceNumber.trim()}
+                    >
+                        {updateStatusMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Set Status
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
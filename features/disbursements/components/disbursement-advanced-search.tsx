@@ -0,0 +1,259 @@
+'use client';
+
+import * as React from 'react';
+import { format, subDays } from 'date-fns';
+import { IconAdjustmentsHorizontal } from '@tabler/icons-react';
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    Drawer,
+    DrawerContent,
+    DrawerDescription,
+    DrawerHeader,
+    DrawerTitle,
+    DrawerTrigger,
+} from '@/components/ui/drawer';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { DisbursementAdvancedCriteriaSchema, type DisbursementAdvancedCriteria } from '@/lib/definitions';
+import { useDisbursementsTableStore, countAdvancedCriteria } from '@/lib/stores/disbursements-table-store';
+
+type TextField = {
+    [K in keyof DisbursementAdvancedCriteria]-?: DisbursementAdvancedCriteria[K] extends string | undefined ? K : never
+}[keyof DisbursementAdvancedCriteria];
+
+type FieldConfig = { field: TextField; label: string; type?: string; placeholder?: string };
+
+const FIELD_SECTIONS: { title: string; fields: FieldConfig[] }[] = [
+    {
+        title: 'Destination',
+        fields: [
+            { field: 'destinationBankCode', label: 'Bank code' },
+            { field: 'destinationInstitutionCode', label: 'Institution code' },
+            { field: 'recipientPhone', label: 'Recipient phone', type: 'tel' },
+            { field: 'transferType', label: 'Transfer type' },
+        ],
+    },
+    {
+        title: 'Retries',
+        fields: [
+            { field: 'minRetryAttempts', label: 'Min retry attempts', type: 'number', placeholder: '0' },
+            { field: 'maxRetryAttempts', label: 'Max retry attempts', type: 'number', placeholder: '0' },
+            { field: 'lastRetryFrom', label: 'Last retry from', type: 'date' },
+            { field: 'lastRetryTo', label: 'Last retry to', type: 'date' },
+        ],
+    },
+];
+
+// Scheduled vs immediate disbursements, mapped to the includeScheduled/includeImmediate flags
+const TIMING_OPTIONS = [
+    { value: 'all', label: 'Scheduled and immediate' },
+    { value: 'scheduled', label: 'Scheduled only' },
+    { value: 'immediate', label: 'Immediate only' },
+] as const;
+
+type Timing = (typeof TIMING_OPTIONS)[number]['value'];
+
+function getTiming(criteria: DisbursementAdvancedCriteria): Timing {
+    if (criteria.includeScheduled && !criteria.includeImmediate) return 'scheduled';
+    if (criteria.includeImmediate && !criteria.includeScheduled) return 'immediate';
+    return 'all';
+}
+
+function timingToCriteria(timing: Timing): Pick<DisbursementAdvancedCriteria, 'includeScheduled' | 'includeImmediate'> {
+    switch (timing) {
+        case 'scheduled':
+            return { includeScheduled: true, includeImmediate: false };
+        case 'immediate':
+            return { includeScheduled: false, includeImmediate: true };
+        default:
+            return { includeScheduled: undefined, includeImmediate: undefined };
+    }
+}
+
+/**
+ * Drop empty strings so they are not sent to the backend
+ */
+function compactCriteria(criteria: DisbursementAdvancedCriteria): DisbursementAdvancedCriteria {
+    return Object.fromEntries(
+        Object.entries(criteria).filter(([, value]) => value !== undefined && value !== '')
+    ) as DisbursementAdvancedCriteria;
+}
+
+/**
+ * First validation error of the criteria, if any
+ */
+function validateCriteria(criteria: DisbursementAdvancedCriteria): string | null {
+    const result = DisbursementAdvancedCriteriaSchema.safeParse(criteria);
+    if (!result.success) {
+        return result.error.issues[0]?.message ?? 'Invalid search criteria';
+    }
+    if (criteria.minRetryAttempts && criteria.maxRetryAttempts
+        && Number(criteria.minRetryAttempts) > Number(criteria.maxRetryAttempts)) {
+        return 'Min retry attempts cannot be greater than max retry attempts';
+    }
+    if (criteria.lastRetryFrom && criteria.lastRetryTo && criteria.lastRetryFrom > criteria.lastRetryTo) {
+        return 'Last retry from must be on or before last retry to';
+    }
+    return null;
+}
+
+/**
+ * Drawer for searching disbursements by the DisbursementSearchCriteriaDto fields the basic filters
+ * don't cover. Applied criteria are combined with the basic filters and sent to the POST search endpoint.
+ */
+export function DisbursementAdvancedSearch() {
+    const { filters, setAdvancedCriteria } = useDisbursementsTableStore();
+    const [open, setOpen] = React.useState(false);
+    const [draft, setDraft] = React.useState<DisbursementAdvancedCriteria>(filters.advanced);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const appliedCount = countAdvancedCriteria(filters.advanced);
+
+    const handleOpenChange = (isOpen: boolean) => {
+        // Start each session from the applied criteria
+        if (isOpen) {
+            setDraft(filters.advanced);
+            setError(null);
+        }
+        setOpen(isOpen);
+    };
+
+    const updateDraft = (changes: DisbursementAdvancedCriteria) => {
+        setDraft((prev) => ({ ...prev, ...changes }));
+        setError(null);
+    };
+
+    // Common support query: payouts that needed more than two retries, last retried yesterday
+    const applyRetriedYesterdayPreset = () => {
+        const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+        updateDraft({ minRetryAttempts: '3', lastRetryFrom: yesterday, lastRetryTo: yesterday });
+    };
+
+    const handleApply = () => {
+        const criteria = compactCriteria(draft);
+        const validationError = validateCriteria(criteria);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setAdvancedCriteria(criteria);
+        setOpen(false);
+    };
+
+    return (
+        <Drawer direction="right" open={open} onOpenChange={handleOpenChange}>
+            <DrawerTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn('font-normal', appliedCount === 0 && 'text-muted-foreground')}
+                >
+                    <IconAdjustmentsHorizontal className="mr-2 h-4 w-4" />
+                    Advanced
+                    {appliedCount > 0 && (
+                        <Badge variant="secondary" className="ml-2 h-5 min-w-5 px-1 flex items-center justify-center">
+                            {appliedCount}
+                        </Badge>
+                    )}
+                </Button>
+            </DrawerTrigger>
+            <DrawerContent className="h-full max-h-screen">
+                <DrawerHeader className="border-b">
+                    <DrawerTitle>Advanced Search</DrawerTitle>
+                    <DrawerDescription>
+                        Narrow disbursements by destination, retries and scheduling. These are applied together
+                        with the status, date, amount and text filters.
+                    </DrawerDescription>
+                </DrawerHeader>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                    {/* Presets */}
+                    <section className="space-y-3">
+                        <h4 className="text-sm font-medium">Presets</h4>
+                        <Button variant="secondary" size="sm" onClick={applyRetriedYesterdayPreset}>
+                            Retried more than twice yesterday
+                        </Button>
+                    </section>
+
+                    {FIELD_SECTIONS.map((section) => (
+                        <section key={section.title} className="space-y-3">
+                            <h4 className="text-sm font-medium">{section.title}</h4>
+                            <div className="grid grid-cols-2 gap-3">
+                                {section.fields.map(({ field, label, type, placeholder }) => (
+                                    <div key={field} className="grid gap-1.5">
+                                        <Label htmlFor={`advanced-${field}`}>{label}</Label>
+                                        <Input
+                                            id={`advanced-${field}`}
+                                            type={type ?? 'text'}
+                                            placeholder={placeholder}
+                                            min={type === 'number' ? 0 : undefined}
+                                            step={type === 'number' ? 1 : undefined}
+                                            value={draft[field] ?? ''}
+                                            onChange={(e) => updateDraft({ [field]: e.target.value })}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+
+                    {/* Scheduling */}
+                    <section className="space-y-3">
+                        <h4 className="text-sm font-medium">Scheduling</h4>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="advanced-timing">Timing</Label>
+                                <Select
+                                    value={getTiming(draft)}
+                                    onValueChange={(timing) => updateDraft(timingToCriteria(timing as Timing))}
+                                >
+                                    <SelectTrigger id="advanced-timing" className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {TIMING_OPTIONS.map((option) => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="advanced-scheduleEpoch">Schedule epoch</Label>
+                                <Input
+                                    id="advanced-scheduleEpoch"
+                                    value={draft.scheduleEpoch ?? ''}
+                                    onChange={(e) => updateDraft({ scheduleEpoch: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    </section>
+
+                    {error && (
+                        <p className="text-sm text-destructive">{error}</p>
+                    )}
+                </div>
+
+                <div className="flex gap-2 border-t p-4">
+                    <Button variant="outline" className="flex-1" onClick={() => { setDraft({}); setError(null); }}>
+                        Reset
+                    </Button>
+                    <Button className="flex-1" onClick={handleApply}>
+                        Apply
+                    </Button>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    );
+}
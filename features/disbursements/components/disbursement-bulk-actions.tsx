@@ -0,0 +1,102 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { IconCircleCheck, IconCircleX, IconRefresh } from '@tabler/icons-react';
+import { BulkActionsBar, type BulkActionConfig, type BulkExportColumn } from '@/components/bulk-actions-bar';
+import { useTRPC, useTRPCClient } from '@/lib/trpc/client';
+import type { Disbursement } from '@/lib/definitions';
+
+// Statuses each bulk action applies to (same rules as the row actions)
+const RETRY_STATUSES = ['FAILED', 'TIMEOUT', 'ERROR', 'RETRY_ATTEMPTED'];
+const COMPLETE_STATUSES = ['PENDING', 'PROCESSING'];
+const CANCEL_STATUSES = ['PENDING', 'PROCESSING'];
+
+function statusSkipReason(row: Disbursement, statuses: string[], verb: string): string | null {
+    return statuses.includes(row.status.toUpperCase())
+        ? null
+        : `${row.status} disbursements cannot be ${verb}`;
+}
+
+// Use uid for API calls, falling back to the numeric ID
+function getDisbursementId(row: Disbursement): string {
+    return row.uid || row.id;
+}
+
+const EXPORT_COLUMNS: BulkExportColumn<Disbursement>[] = [
+    { header: 'UID', value: (d) => d.uid },
+    { header: 'Merchant Disbursement ID', value: (d) => d.merchantDisbursementId },
+    { header: 'PSP Disbursement ID', value: (d) => d.pspDisbursementId },
+    { header: 'Source Transaction ID', value: (d) => d.sourceTransactionId },
+    { header: 'Merchant ID', value: (d) => d.merchantId },
+    { header: 'Gateway', value: (d) => d.pgoName },
+    { header: 'Channel', value: (d) => d.disbursementChannel },
+    { header: 'Recipient Name', value: (d) => d.recipientName },
+    { header: 'Recipient Account', value: (d) => d.recipientAccount },
+    { header: 'Amount', value: (d) => d.amount },
+    { header: 'Currency', value: (d) => d.currency },
+    { header: 'Status', value: (d) => d.status },
+    { header: 'Error Code', value: (d) => d.errorCode },
+    { header: 'Error Message', value: (d) => d.errorMessage },
+    { header: 'Created At', value: (d) => d.createdAt },
+];
+
+interface DisbursementBulkActionsProps {
+    rows: Disbursement[];
+    onClearSelection: () => void;
+}
+
+/**
+ * Bulk retry, complete, cancel and export for the selected disbursements
+ */
+export function DisbursementBulkActions({ rows, onClearSelection }: DisbursementBulkActionsProps) {
+    const trpc = useTRPC();
+    const trpcClient = useTRPCClient();
+    const queryClient = useQueryClient();
+
+    const actions = useMemo<BulkActionConfig<Disbursement>[]>(() => [
+        {
+            key: 'retry',
+            label: 'Retry',
+            icon: <IconRefresh />,
+            reasonLabel: 'Reason (optional)',
+            getSkipReason: (row) => statusSkipReason(row, RETRY_STATUSES, 'retried'),
+            run: (row, reason) => trpcClient.disbursements.retry.mutate({ id: getDisbursementId(row), reason }),
+        },
+        {
+            key: 'complete',
+            label: 'Complete',
+            icon: <IconCircleCheck />,
+            reasonLabel: 'Reason (optional)',
+            getSkipReason: (row) => statusSkipReason(row, COMPLETE_STATUSES, 'completed'),
+            run: (row, reason) => trpcClient.disbursements.complete.mutate({ id: getDisbursementId(row), reason }),
+        },
+        {
+            key: 'cancel',
+            label: 'Cancel',
+            icon: <IconCircleX />,
+            destructive: true,
+            reasonLabel: 'Reason (optional)',
+            getSkipReason: (row) => statusSkipReason(row, CANCEL_STATUSES, 'cancelled'),
+            run: (row, reason) => trpcClient.disbursements.cancel.mutate({ id: getDisbursementId(row), reason }),
+        },
+    ], [trpcClient]);
+
+    return (
+        <BulkActionsBar
+            entityName="disbursements"
+            rows={rows}
+            getId={getDisbursementId}
+            getReference={(row) => row.merchantDisbursementId || row.sourceTransactionId || row.uid}
+            getStatus={(row) => row.status}
+            checkCanUpdate={(row) => trpcClient.disbursements.canUpdate.query({ id: getDisbursementId(row) })}
+            actions={actions}
+            exportColumns={EXPORT_COLUMNS}
+            onCompleted={() => {
+                queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.disbursements.canUpdate.queryKey() });
+            }}
+            onClearSelection={onClearSelection}
+        />
+    );
+}
@@ -8,14 +8,19 @@ import { Button } from '@/components/ui/button';
 import DisbursementOverviewTab from './disbursement-overview-tab';
 import DisbursementProcessingHistoryTab from './disbursement-processing-history-tab';
 import DisbursementAuditTrailTab from './disbursement-audit-trail-tab';
+import DisbursementRetryChainTab from './disbursement-retry-chain-tab';
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { useTRPC } from '@/lib/trpc/client';
 
 interface DisbursementDetailsProps {
     disbursementId: string;
+    /** Whether the user may force a retry past the backend's retry guards */
+    canForceRetry?: boolean;
+    /** Whether the user may manually move the disbursement to another status */
+    canUpdateStatus?: boolean;
 }
 
-export default function DisbursementDetails({ disbursementId }: DisbursementDetailsProps) {
+export default function DisbursementDetails({ disbursementId, canForceRetry, canUpdateStatus }: DisbursementDetailsProps) {
     const router = useRouter();
     const trpc = useTRPC();
     const { data: disbursement, isLoading, error } = useSuspenseQuery(trpc.disbursements.getById.queryOptions({
@@ -88,6 +93,7 @@ export default function DisbursementDetails({ disbursementId }: DisbursementDeta
                     <TabsTrigger value="overview">Overview</TabsTrigger>
                     <TabsTrigger value="processing-history">Processing History</TabsTrigger>
                     <TabsTrigger value="audit-trail">Audit Trail</TabsTrigger>
+                    <TabsTrigger value="retry-chain">Retry Chain</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="overview" className="flex-1">
@@ -95,6 +101,8 @@ export default function DisbursementDetails({ disbursementId }: DisbursementDeta
                     <DisbursementOverviewTab
                         disbursement={disbursement}
                         numericId={disbursement.uid || disbursement.id}
+                        canForceRetry={canForceRetry}
+                        canUpdateStatus={canUpdateStatus}
                     />
                 </TabsContent>
 
@@ -107,6 +115,10 @@ export default function DisbursementDetails({ disbursementId }: DisbursementDeta
                     {/* Backend now uses UID */}
                     <DisbursementAuditTrailTab disbursementId={disbursement.uid || disbursement.id} />
                 </TabsContent>
+
+                <TabsContent value="retry-chain" className="flex-1">
+                    <DisbursementRetryChainTab disbursement={disbursement} />
+                </TabsContent>
             </Tabs>
         </div>
     );
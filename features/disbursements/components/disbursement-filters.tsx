@@ -24,7 +24,8 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
-import { useDisbursementsTableStore, hasActiveFilters } from '@/lib/stores/disbursements-table-store';
+import { useDisbursementsTableStore, hasActiveFilters, countAdvancedCriteria } from '@/lib/stores/disbursements-table-store';
+import { DisbursementAdvancedSearch } from './disbursement-advanced-search';
 
 // Predefined status options for disbursements (from swagger)
 const STATUS_OPTIONS = [
@@ -38,6 +39,7 @@ const STATUS_OPTIONS = [
     { value: 'REJECTED', label: 'Rejected' },
     { value: 'REVERSED', label: 'Reversed' },
     { value: 'REIMBURSED', label: 'Reimbursed' },
+    { value: 'ON_HOLD', label: 'On Hold' },
 ];
 
 export function DisbursementFilters() {
@@ -69,6 +71,31 @@ export function DisbursementFilters() {
     const [amountMin, setAmountMin] = React.useState(filters.amountMin || '');
     const [amountMax, setAmountMax] = React.useState(filters.amountMax || '');
 
+    // Sync local inputs when filters change outside this component (saved views, back/forward navigation)
+    const [syncedFilters, setSyncedFilters] = React.useState(filters);
+    if (syncedFilters !== filters) {
+        setSyncedFilters(filters);
+
+        if (filters.search !== syncedFilters.search && filters.search !== (searchTerm.trim() || null)) {
+            setSearchTerm(filters.search || '');
+        }
+
+        const localStartDate = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+        const localEndDate = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : null;
+        if (filters.startDate !== localStartDate || filters.endDate !== localEndDate) {
+            setLocalDateRange(filters.startDate || filters.endDate ? {
+                from: filters.startDate ? new Date(filters.startDate) : undefined,
+                to: filters.endDate ? new Date(filters.endDate) : undefined,
+            } : undefined);
+        }
+
+        const amountsChanged = filters.amountMin !== syncedFilters.amountMin || filters.amountMax !== syncedFilters.amountMax;
+        if (amountsChanged && (filters.amountMin !== (amountMin || null) || filters.amountMax !== (amountMax || null))) {
+            setAmountMin(filters.amountMin || '');
+            setAmountMax(filters.amountMax || '');
+        }
+    }
+
     // Debounced search update
     const handleSearchChange = React.useCallback((value: string) => {
         setSearchTerm(value);
@@ -147,6 +174,7 @@ export function DisbursementFilters() {
         if (filters.status) count++;
         if (filters.startDate || filters.endDate) count++;
         if (filters.amountMin || filters.amountMax) count++;
+        count += countAdvancedCriteria(filters.advanced);
         return count;
     }, [filters]);
 
@@ -322,6 +350,9 @@ export function DisbursementFilters() {
                 </PopoverContent>
             </Popover>
 
+            {/* Advanced Search */}
+            <DisbursementAdvancedSearch />
+
             {/* Clear All Filters */}
             {isFiltersActive && (
                 <Button
@@ -0,0 +1,23 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { ReferenceLookup } from '@/components/reference-lookup';
+import { useTRPC } from '@/lib/trpc/client';
+
+export function DisbursementLookup() {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    return (
+        <ReferenceLookup
+            entityName="disbursement"
+            referenceKinds="UID, external ID, merchant disbursement ID or PSP ID"
+            lookup={(reference) => queryClient.fetchQuery({
+                ...trpc.disbursements.lookup.queryOptions({ reference }),
+                // A reference that was not found a moment ago may have been created since
+                staleTime: 0,
+            })}
+            getHref={(uid) => `/disbursements/${uid}`}
+        />
+    );
+}
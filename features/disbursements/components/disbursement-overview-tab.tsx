@@ -1,20 +1,34 @@
 'use client';
 
+import Link from 'next/link';
 import { Disbursement } from '@/lib/definitions';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { IconCircleCheckFilled, IconCircleX, IconLoader, IconRefresh, IconCheck, IconX } from '@tabler/icons-react';
+import { IconCircleCheckFilled, IconCircleX, IconLoader, IconRefresh, IconCheck, IconX, IconExternalLink, IconRotateClockwise2, IconArrowsExchange } from '@tabler/icons-react';
 import { format } from 'date-fns';
-import { CompleteDisbursementDialog, CancelDisbursementDialog } from './disbursement-action-dialogs';
+import {
+    CompleteDisbursementDialog,
+    CancelDisbursementDialog,
+    ForceRetryDisbursementDialog,
+    SetDisbursementStatusDialog,
+} from './disbursement-action-dialogs';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { useTRPC } from '@/lib/trpc/client';
+import { getAllowedDisbursementTransitions } from '@/lib/disbursement-transitions';
 
 interface DisbursementOverviewTabProps {
     disbursement: Disbursement;
     numericId: string;   // The numeric ID required by backend APIs (Long type)
+    /** Whether the user may force a retry past the backend's retry guards */
+    canForceRetry?: boolean;
+    /** Whether the user holds disbursements.update_status */
+    canUpdateStatus?: boolean;
 }
 
+// Statuses where the payout did not go through, so a forced retry cannot pay the recipient twice
+const FORCE_RETRY_STATUSES = ['FAILED', 'ERROR', 'TIMEOUT', 'REJECTED', 'RETRY_ATTEMPTED', 'CHAINED'];
+
 function formatDate(dateString: string | null | undefined): string {
     if (!dateString) return '-';
     try {
@@ -32,7 +46,7 @@ function formatAmount(amount: string): string {
     }).format(numAmount);
 }
 
-export default function DisbursementOverviewTab({ disbursement, numericId }: DisbursementOverviewTabProps) {
+export default function DisbursementOverviewTab({ disbursement, numericId, canForceRetry, canUpdateStatus }: DisbursementOverviewTabProps) {
     // Use numeric ID for backend API calls that expect Long type
     const trpc = useTRPC();
     const { data: canUpdate } = useQuery(trpc.disbursements.canUpdate.queryOptions({ id: numericId }));
@@ -101,7 +115,10 @@ export default function DisbursementOverviewTab({ disbursement, numericId }: Dis
     const canRetry = status === 'FAILED' || status === 'ERROR';
     const canComplete = status === 'PENDING' || status === 'PROCESSING';
     const canCancel = status === 'PENDING' || status === 'PROCESSING';
-    const showActions = canRetry || canComplete || canCancel;
+    const showForceRetry = !!canForceRetry && FORCE_RETRY_STATUSES.includes(status);
+    // Manual transitions follow the allowed-transition table rather than canUpdate, which only covers complete/cancel
+    const showSetStatus = !!canUpdateStatus && getAllowedDisbursementTransitions(status).length > 0;
+    const showActions = canRetry || canComplete || canCancel || showForceRetry || showSetStatus;
 
     return (
         <div className="flex flex-col gap-4">
@@ -135,7 +152,13 @@ export default function DisbursementOverviewTab({ disbursement, numericId }: Dis
                     {disbursement.sourceTransactionId && (
                         <div>
                             <p className="text-sm text-muted-foreground">Source Transaction ID</p>
-                            <p className="font-mono text-sm">{disbursement.sourceTransactionId}</p>
+                            <Link
+                                href={`/transactions/${disbursement.sourceTransactionId}?tab=disbursements`}
+                                className="inline-flex items-center gap-1 font-mono text-sm hover:underline"
+                            >
+                                {disbursement.sourceTransactionId}
+                                <IconExternalLink className="size-3" />
+                            </Link>
                         </div>
                     )}
                 </CardContent>
@@ -290,6 +313,20 @@ export default function DisbursementOverviewTab({ disbursement, numericId }: Dis
                                     Retry
                                 </Button>
                             )}
+                            {showForceRetry && (
+                                <ForceRetryDisbursementDialog
+                                    disbursementId={numericId}
+                                    disbursementRef={disbursement.uid || disbursement.id}
+                                    amount={disbursement.amount}
+                                    currency={disbursement.currency}
+                                    trigger={
+                                        <Button variant="outline">
+                                            <IconRotateClockwise2 className="mr-2 h-4 w-4" />
+                                            Force Retry
+                                        </Button>
+                                    }
+                                />
+                            )}
                             {canComplete && canUpdate?.canUpdate && (
                                 <CompleteDisbursementDialog
                                     disbursementId={numericId}
@@ -318,6 +355,21 @@ export default function DisbursementOverviewTab({ disbursement, numericId }: Dis
                                     }
                                 />
                             )}
+                            {showSetStatus && (
+                                <SetDisbursementStatusDialog
+                                    disbursementId={numericId}
+                                    disbursementRef={disbursement.uid || disbursement.id}
+                                    amount={disbursement.amount}
+                                    currency={disbursement.currency}
+                                    currentStatus={status}
+                                    trigger={
+                                        <Button variant="outline">
+                                            <IconArrowsExchange className="mr-2 h-4 w-4" />
+                                            Set Status
+                                        </Button>
+                                    }
+                                />
+                            )}
                         </div>
                         {canUpdate && !canUpdate.canUpdate && canUpdate.reason && (
                             <p className="text-sm text-muted-foreground mt-2">{canUpdate.reason}</p>
@@ -0,0 +1,191 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { IconLoader } from '@tabler/icons-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+    Timeline,
+    TimelineItem,
+    TimelineHeader,
+    TimelineTime,
+    TimelineTitle,
+    TimelineDescription,
+} from '@/components/timeline';
+import { useTRPC } from '@/lib/trpc/client';
+import { STATUS_DISPLAY } from '@/lib/config/constants';
+import { cn } from '@/lib/utils';
+import type { Disbursement, ProcessingHistoryEntry } from '@/lib/definitions';
+
+interface DisbursementRetryChainTabProps {
+    disbursement: Disbursement;
+}
+
+function formatDate(dateString: string): string {
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm:ss');
+    } catch {
+        return dateString;
+    }
+}
+
+function getStatusDisplay(status: string): { name: string; color?: string } {
+    const upperStatus = status.toUpperCase();
+    if (upperStatus in STATUS_DISPLAY) {
+        return STATUS_DISPLAY[upperStatus as keyof typeof STATUS_DISPLAY];
+    }
+    return { name: status };
+}
+
+/**
+ * Processing history entries that record a PSP attempt (rather than e.g. a note or status change)
+ */
+function getAttemptEntries(history: ProcessingHistoryEntry[]): ProcessingHistoryEntry[] {
+    return history
+        .filter((entry) =>
+            entry.attemptNumber != null
+            || (entry.retryCount ?? 0) > 0
+            || ['RETRY_ATTEMPTED', 'CHAINED'].includes(entry.status.toUpperCase())
+        )
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * PSP response code of an attempt, as recorded in its metadata
+ */
+function getResponseCode(entry: ProcessingHistoryEntry): string | null {
+    const code = entry.metadata?.responseCode ?? entry.metadata?.pspResponseCode;
+    return code == null ? null : String(code);
+}
+
+function AttemptDetail({ label, value, mono, destructive }: { label: string; value?: string | null; mono?: boolean; destructive?: boolean }) {
+    if (!value) return null;
+    return (
+        <p className="text-xs">
+            <span className="text-muted-foreground">{label}: </span>
+            <span className={cn(mono && 'font-mono', destructive ? 'text-destructive' : 'text-foreground')}>{value}</span>
+        </p>
+    );
+}
+
+export default function DisbursementRetryChainTab({ disbursement }: DisbursementRetryChainTabProps) {
+    const trpc = useTRPC();
+    const disbursementId = disbursement.uid || disbursement.id;
+    const { data: chain, isLoading, error } = useQuery(
+        trpc.disbursements.retryChain.queryOptions({ id: disbursementId })
+    );
+    const { data: history } = useQuery(
+        trpc.disbursements.processingHistory.queryOptions({ id: disbursementId })
+    );
+
+    if (isLoading) {
+        return (
+            <Card>
+                <CardContent className="flex items-center justify-center py-8">
+                    <div className="flex items-center gap-2">
+                        <IconLoader className="size-4 animate-spin" />
+                        <span className="text-muted-foreground">Loading retry chain...</span>
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    if (error) {
+        return (
+            <Card>
+                <CardContent className="py-8">
+                    <div className="text-destructive">
+                        {error instanceof Error ? error.message : 'Failed to load retry chain'}
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const attempts = chain ?? [disbursement];
+    const currentAttempts = getAttemptEntries(history ?? []);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Retry Chain</CardTitle>
+                <CardDescription>
+                    {attempts.length === 1
+                        ? 'This disbursement has not been retried as a separate attempt'
+                        : `${attempts.length} attempts at this payout, oldest first`}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Timeline>
+                    {attempts.map((attempt, index) => {
+                        const isCurrent = (attempt.uid || attempt.id) === disbursementId;
+                        const statusDisplay = getStatusDisplay(attempt.status);
+
+                        return (
+                            <TimelineItem key={attempt.uid || attempt.id}>
+                                <TimelineHeader>
+                                    <TimelineTime
+                                        variant="outline"
+                                        style={statusDisplay.color ? { borderColor: statusDisplay.color, color: statusDisplay.color } : undefined}
+                                    >
+                                        {statusDisplay.name}
+                                    </TimelineTime>
+                                    <TimelineTitle className="flex flex-wrap items-center gap-2 text-base font-medium">
+                                        Attempt {index + 1}
+                                        {index === 0 && !attempt.parentDisbursementId && (
+                                            <span className="text-muted-foreground">(original)</span>
+                                        )}
+                                        {isCurrent ? (
+                                            <Badge variant="secondary">This disbursement</Badge>
+                                        ) : (
+                                            <Link
+                                                href={`/disbursements/${attempt.uid}`}
+                                                className="font-mono text-xs font-normal text-muted-foreground hover:underline"
+                                            >
+                                                {attempt.uid}
+                                            </Link>
+                                        )}
+                                    </TimelineTitle>
+                                </TimelineHeader>
+                                <TimelineDescription>
+                                    <div className="space-y-1">
+                                        <p className="text-sm">{formatDate(attempt.createdAt)}</p>
+                                        <AttemptDetail label="Retry attempts" value={attempt.retryAttempts != null ? String(attempt.retryAttempts) : null} />
+                                        <AttemptDetail label="PSP disbursement ID" value={attempt.pspDisbursementId} mono />
+                                        <AttemptDetail label="Response code" value={attempt.responseCode} mono />
+                                        <AttemptDetail label="Response message" value={attempt.responseMessage} />
+                                        <AttemptDetail label="Error code" value={attempt.errorCode} mono destructive />
+                                        <AttemptDetail label="Error message" value={attempt.errorMessage} destructive />
+                                    </div>
+
+                                    {/* PSP attempts recorded in this disbursement's processing history */}
+                                    {isCurrent && currentAttempts.length > 0 && (
+                                        <div className="mt-3 space-y-2 border-l-2 pl-3">
+                                            {currentAttempts.map((entry, entryIndex) => (
+                                                <div key={entry.id ?? `attempt-${entryIndex}`} className="space-y-0.5">
+                                                    <p className="text-xs font-medium text-foreground">
+                                                        Attempt {entry.attemptNumber ?? entryIndex + 1}
+                                                        <span className="ml-2 font-normal text-muted-foreground">
+                                                            {formatDate(entry.timestamp)} • {getStatusDisplay(entry.status).name}
+                                                        </span>
+                                                    </p>
+                                                    <AttemptDetail label="Response code" value={getResponseCode(entry)} mono />
+                                                    <AttemptDetail label="Error code" value={entry.errorCode} mono destructive />
+                                                    <AttemptDetail label="Error" value={entry.errorMessage} destructive />
+                                                    <AttemptDetail label="Message" value={entry.message} />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </TimelineDescription>
+                            </TimelineItem>
+                        );
+                    })}
+                </Timeline>
+            </CardContent>
+        </Card>
+    );
+}
@@ -30,9 +30,12 @@ import { toast } from "sonner"
 import { useIsMobile } from "@/hooks/use-mobile"
 import { Disbursement, DisbursementSchema } from "@/lib/definitions"
 import { useDisbursementsTableStore } from "@/lib/stores/disbursements-table-store"
+import { SavedViewsMenu } from "@/components/saved-views-menu"
+import { DisbursementBulkActions } from "@/features/disbursements/components/disbursement-bulk-actions"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { DisbursementFilters } from "@/features/disbursements/components/disbursement-filters"
+import { DisbursementLookup } from "@/features/disbursements/components/disbursement-lookup"
 import {
     CompleteDisbursementDialog,
     CancelDisbursementDialog,
@@ -208,7 +211,12 @@ function TableCellViewer({ item, displayText }: { item: Disbursement; displayTex
                             {item.sourceTransactionId && (
                                 <div className="flex justify-between">
                                     <span className="text-muted-foreground">Source Transaction:</span>
-                                    <span className="font-mono text-xs">{item.sourceTransactionId}</span>
+                                    <Link
+                                        href={`/transactions/${item.sourceTransactionId}?tab=disbursements`}
+                                        className="font-mono text-xs hover:underline"
+                                    >
+                                        {item.sourceTransactionId}
+                                    </Link>
                                 </div>
                             )}
                         </div>
@@ -503,7 +511,12 @@ function ActionsCell({ disbursement }: { disbursement: Disbursement }) {
                                 {disbursement.sourceTransactionId && (
                                     <div className="flex justify-between">
                                         <span className="text-muted-foreground">Source Transaction:</span>
-                                        <span className="font-mono text-xs">{disbursement.sourceTransactionId}</span>
+                                        <Link
+                                            href={`/transactions/${disbursement.sourceTransactionId}?tab=disbursements`}
+                                            className="font-mono text-xs hover:underline"
+                                        >
+                                            {disbursement.sourceTransactionId}
+                                        </Link>
                                     </div>
                                 )}
                             </div>
@@ -830,10 +843,12 @@ interface PaginationMeta {
 export function DisbursementTable({
     data,
     paginationMeta,
+    userUid,
 }: {
     data: Disbursement[];
     paginationMeta: PaginationMeta;
     isLoading?: boolean;
+    userUid: string;
 }) {
     "use no memo";
     const router = useRouter()
@@ -901,6 +916,15 @@ export function DisbursementTable({
                 <DisbursementFilters />
 
                 <div className="flex items-center gap-2">
+                    {/* Reference Lookup */}
+                    <DisbursementLookup />
+
+                    {/* Saved Views */}
+                    <SavedViewsMenu
+                        table="disbursements"
+                        userUid={userUid}
+                    />
+
                     {/* Customize Columns */}
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -955,6 +979,13 @@ export function DisbursementTable({
                     </DropdownMenu>
                 </div>
             </div>
+
+            {/* Bulk actions for the selected rows */}
+            <DisbursementBulkActions
+                rows={table.getSelectedRowModel().rows.map((row) => row.original)}
+                onClearSelection={() => setRowSelection({})}
+            />
+
             <div className="relative flex flex-col gap-4 px-4 lg:px-6 min-w-0">
                 <div className="w-full overflow-x-auto rounded-lg border">
                     <div className="min-w-full inline-block">
@@ -2,33 +2,25 @@
 
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { DisbursementTable } from './disbursement-table';
-import { useDisbursementsTableStore } from '@/lib/stores/disbursements-table-store';
+import {
+    useDisbursementsTableStore,
+    disbursementsUrlState,
+    toDisbursementsListInput,
+} from '@/lib/stores/disbursements-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedDisbursementResponse } from '@/lib/definitions';
 
-export default function DisbursementsList() {
-    // Get filter and pagination state from store
-    const { pagination, sorting, filters } = useDisbursementsTableStore();
+interface DisbursementsListProps {
+    /** session.uid of the current user, for saved views */
+    userUid: string;
+}
+
+export default function DisbursementsList({ userUid }: DisbursementsListProps) {
+    const { pagination, sorting, filters } = useTableUrlState(useDisbursementsTableStore, disbursementsUrlState);
     const trpc = useTRPC();
 
-    // Build query params from store state
-    // Ensure per_page is at least 1 (protect against corrupted persisted state)
-    const queryParams = {
-        // Pagination: convert 0-based pageIndex to 1-based page for API
-        page: Math.max(1, pagination.pageIndex + 1),
-        per_page: Math.max(1, pagination.pageSize || 10),
-        // Server-side filters
-        ...(filters.status && { status: filters.status }),
-        ...(filters.startDate && { start_date: filters.startDate }),
-        ...(filters.endDate && { end_date: filters.endDate }),
-        ...(filters.amountMin && { amount_min: filters.amountMin }),
-        ...(filters.amountMax && { amount_max: filters.amountMax }),
-        ...(filters.search && { search: filters.search }),
-        // Sorting: convert TanStack sorting format to API sort format
-        ...(sorting.length > 0 && {
-            sort: sorting.map(s => `${s.id},${s.desc ? 'desc' : 'asc'}`)
-        }),
-    };
+    const queryParams = toDisbursementsListInput({ pagination, sorting, filters });
 
     // Use useSuspenseQuery for Suspense support
     // Data is guaranteed to be defined - loading/error handled by Suspense/ErrorBoundary
@@ -54,6 +46,7 @@ export default function DisbursementsList() {
     return (
         <div className="@container/main flex flex-1 flex-col gap-2 py-2">
             <DisbursementTable
+                userUid={userUid}
                 data={disbursements}
                 paginationMeta={paginationMeta}
                 isLoading={isFetching}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+import { Badge } from '@/components/ui/badge';
+import { StaleQueue, type StaleQueueColumn } from '@/components/stale-queue';
+import { useTRPC } from '@/lib/trpc/client';
+import { DEFAULT_STALE_THRESHOLD_MINUTES } from '@/lib/stale-queue';
+import type { Disbursement } from '@/lib/definitions';
+
+interface StaleDisbursementsQueueProps {
+    canProcess: boolean;
+}
+
+function formatAmount(amount: string, currency: string): string {
+    const formatted = parseFloat(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency ? `${currency} ${formatted}` : formatted;
+}
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+const STALE_DISBURSEMENT_COLUMNS: StaleQueueColumn<Disbursement>[] = [
+    {
+        header: 'Disbursement',
+        cell: (disbursement) => (
+            <div className="font-mono text-xs">{disbursement.merchantDisbursementId || disbursement.uid}</div>
+        ),
+    },
+    {
+        header: 'Recipient',
+        cell: (disbursement) => (
+            <div>
+                <div className="font-medium">{disbursement.recipientName || '-'}</div>
+                {disbursement.recipientAccount && (
+                    <div className="font-mono text-xs text-muted-foreground">{disbursement.recipientAccount}</div>
+                )}
+            </div>
+        ),
+    },
+    {
+        header: 'Gateway',
+        cell: (disbursement) => disbursement.pgoName || '-',
+    },
+    {
+        header: 'Amount',
+        className: 'text-right',
+        cell: (disbursement) => (
+            <span className="font-medium whitespace-nowrap">{formatAmount(disbursement.amount, disbursement.currency)}</span>
+        ),
+    },
+    {
+        header: 'Status',
+        cell: (disbursement) => <Badge variant="outline">{disbursement.status}</Badge>,
+    },
+    {
+        header: 'Created',
+        cell: (disbursement) => (
+            <span className="text-sm text-muted-foreground whitespace-nowrap">{formatDate(disbursement.createdAt)}</span>
+        ),
+    },
+];
+
+export default function StaleDisbursementsQueue({ canProcess }: StaleDisbursementsQueueProps) {
+    const [thresholdMinutes, setThresholdMinutes] = useState(DEFAULT_STALE_THRESHOLD_MINUTES);
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading, isFetching, error, dataUpdatedAt, refetch } = useQuery(
+        trpc.disbursements.stale.queryOptions({ thresholdMinutes })
+    );
+
+    const processStaleMutation = useMutation(
+        trpc.disbursements.processStale.mutationOptions({
+            onSuccess: () => {
+                queryClient.invalidateQueries({ queryKey: trpc.disbursements.stale.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.disbursements.list.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.disbursements.search.queryKey() });
+            },
+        })
+    );
+
+    return (
+        <StaleQueue
+            title="Stale Disbursements"
+            description="Disbursements stuck in PENDING or PROCESSING longer than expected."
+            entityName="disbursements"
+            thresholdMinutes={thresholdMinutes}
+            onThresholdChange={setThresholdMinutes}
+            rows={data ?? []}
+            isLoading={isLoading}
+            isFetching={isFetching}
+            error={error}
+            fetchedAt={dataUpdatedAt}
+            onRefresh={() => void refetch()}
+            getId={(disbursement) => disbursement.uid}
+            getCreatedAt={(disbursement) => disbursement.createdAt}
+            getHref={(disbursement) => `/disbursements/${disbursement.uid}`}
+            columns={STALE_DISBURSEMENT_COLUMNS}
+            canProcess={canProcess}
+            processStale={(reason) => processStaleMutation.mutateAsync({ thresholdMinutes, reason })}
+        />
+    );
+}
@@ -1,63 +1,23 @@
 'use client';
 
-import { useMemo } from 'react';
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { LogsTable } from './logs-table';
-import { useLogsTableStore } from '@/lib/stores/logs-table-store';
+import { useLogsTableStore, logsUrlState, toLogsListInput } from '@/lib/stores/logs-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { AuditLog } from '@/lib/definitions';
 
-export default function LogsList() {
-    const { pagination, sorting, columnFilters } = useLogsTableStore();
-    const trpc = useTRPC();
+interface LogsListProps {
+    /** session.uid of the current user, for saved views */
+    userUid: string;
+}
 
-    // Use pageIndex directly (0-based) - backend uses 0-based pagination
-    const page = pagination.pageIndex;
+export default function LogsList({ userUid }: LogsListProps) {
+    const { pagination, sorting, columnFilters } = useTableUrlState(useLogsTableStore, logsUrlState);
+    const trpc = useTRPC();
     const per_page = pagination.pageSize;
 
-    // Convert sorting state to sort parameter format (e.g., "name,asc,code,desc")
-    const sortParams = useMemo(() => {
-        if (sorting.length === 0) return undefined;
-        return sorting.map(sort => {
-            const direction = sort.desc ? 'desc' : 'asc';
-            return `${sort.id},${direction}`;
-        }).join(',');
-    }, [sorting]);
-
-    // Convert column filters to query parameters for audit logs
-    const filterParams = useMemo(() => {
-        const params: Record<string, string> = {};
-
-        columnFilters.forEach(filter => {
-            if (filter.id === 'eventType' && Array.isArray(filter.value)) {
-                // For eventType filter, join multiple values with comma
-                const eventTypeValues = filter.value as string[];
-                if (eventTypeValues.length > 0) {
-                    params.action_type = eventTypeValues.join(',');
-                }
-            } else if (filter.id === 'userUid' && filter.value) {
-                params.user_id = filter.value as string;
-            } else if (filter.id === 'merchantUid' && filter.value) {
-                params.merchant_id = filter.value as string;
-            } else if (filter.id === 'search_term' && filter.value) {
-                params.search_term = filter.value as string;
-            } else if (filter.id === 'startDate' && filter.value) {
-                params.start_date = filter.value as string;
-            } else if (filter.id === 'endDate' && filter.value) {
-                params.end_date = filter.value as string;
-            }
-        });
-
-        return params;
-    }, [columnFilters]);
-
-    // Build query params for tRPC (using frontend param names)
-    const queryParams = useMemo(() => ({
-        page: page.toString(),
-        per_page: per_page.toString(),
-        ...(sortParams && { sort: sortParams }),
-        ...filterParams,
-    }), [page, per_page, sortParams, filterParams]);
+    const queryParams = toLogsListInput({ pagination, sorting, columnFilters });
 
     // Use useSuspenseQuery for Suspense support
     const queryResult = useSuspenseQuery(
@@ -88,6 +48,7 @@ export default function LogsList() {
     return (
         <div className="@container/main flex flex-1 flex-col gap-2 py-2">
             <LogsTable
+                userUid={userUid}
                 data={auditLogs as unknown as AuditLog[]}
                 paginationMeta={paginationMeta}
             />
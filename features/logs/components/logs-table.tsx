@@ -42,6 +42,7 @@ import { format } from "date-fns"
 import { useIsMobile } from "@/hooks/use-mobile"
 import { AuditLog, AuditLogSchema } from "@/lib/definitions"
 import { useLogsTableStore } from "@/lib/stores/logs-table-store"
+import { SavedViewsMenu } from "@/components/saved-views-menu"
 
 // Re-export schema for build compatibility
 export const schema = AuditLogSchema
@@ -330,9 +331,11 @@ interface PaginationMeta {
 export function LogsTable({
     data,
     paginationMeta,
+    userUid,
 }: {
     data: AuditLog[];
     paginationMeta: PaginationMeta;
+    userUid: string;
 }) {
     "use no memo";
     const {
@@ -420,6 +423,12 @@ export function LogsTable({
     return (
         <div className="w-full flex flex-col gap-6">
             <div className="flex items-center justify-end gap-2 px-4 lg:px-6 shrink-0">
+                {/* Saved Views */}
+                <SavedViewsMenu
+                    table="logs"
+                    userUid={userUid}
+                />
+
                 {/* Event Type Filter */}
                 {uniqueEventTypes.length > 0 && (
                     <DropdownMenu>
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { IconPencil } from '@tabler/icons-react';
+
+import { Button } from '@/components/ui/button';
+import {
+    Drawer,
+    DrawerClose,
+    DrawerContent,
+    DrawerDescription,
+    DrawerHeader,
+    DrawerTitle,
+    DrawerTrigger,
+} from '@/components/ui/drawer';
+import type { Merchant } from '@/lib/definitions';
+
+import { EditMerchantForm } from './edit-merchant-form';
+
+interface EditMerchantDrawerProps {
+    merchant: Merchant;
+    trigger?: React.ReactNode;
+}
+
+export function EditMerchantDrawer({ merchant, trigger }: EditMerchantDrawerProps) {
+    const [open, setOpen] = useState(false);
+
+    const handleSuccess = () => {
+        setOpen(false);
+    };
+
+    return (
+        <Drawer direction="right" open={open} onOpenChange={setOpen}>
+            <DrawerTrigger asChild>
+                {trigger || (
+                    <Button variant="outline">
+                        <IconPencil className="size-4" />
+                        Edit
+                    </Button>
+                )}
+            </DrawerTrigger>
+            <DrawerContent className="h-full max-h-screen">
+                <DrawerHeader className="border-b">
+                    <DrawerTitle>Edit Merchant</DrawerTitle>
+                    <DrawerDescription>
+                        Update profile details for {merchant.name}. Only changed fields are saved.
+                    </DrawerDescription>
+                </DrawerHeader>
+                <div className="flex-1 overflow-y-auto p-4">
+                    {/* Mount the form only while open so it picks up the latest merchant data */}
+                    {open && <EditMerchantForm merchant={merchant} onSuccess={handleSuccess} />}
+                </div>
+                <div className="border-t p-4">
+                    <DrawerClose asChild>
+                        <Button variant="outline" className="w-full">Cancel</Button>
+                    </DrawerClose>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    );
+}
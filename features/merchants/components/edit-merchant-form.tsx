@@ -0,0 +1,439 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+
+import {
+    ChangedMerchantFieldsSchema,
+    EditMerchantFormSchema,
+    MerchantTypeEnum,
+    type EditMerchantFormInput,
+    type Merchant,
+    type UpdateMerchantRequest,
+} from '@/lib/definitions';
+import { useTRPC } from '@/lib/trpc/client';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { MERCHANT_TYPES } from './new-merchant-form';
+
+interface EditMerchantFormProps {
+    merchant: Merchant;
+    onSuccess?: () => void;
+}
+
+function parseLimit(value: string | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Map a merchant record to form values (backend may return display labels such as "E-commerce")
+ */
+function toFormValues(merchant: Merchant): EditMerchantFormInput {
+    const merchantType = MerchantTypeEnum.safeParse(
+        merchant.merchant_type?.toUpperCase().replace(/[\s-]+/g, '_')
+    );
+
+    return {
+        merchantName: merchant.name ?? '',
+        businessName: merchant.business_name ?? '',
+        businessRegistrationNumber: merchant.business_registration_number ?? '',
+        businessAddress: merchant.business_address ?? '',
+        businessCity: merchant.business_city ?? '',
+        businessState: merchant.business_state ?? '',
+        businessPostalCode: merchant.business_postal_code ?? '',
+        businessCountry: merchant.business_country ?? '',
+        contactEmail: merchant.contact_email ?? '',
+        contactPhone: merchant.contact_phone ?? '',
+        websiteUrl: merchant.website_url ?? '',
+        merchantType: merchantType.success ? merchantType.data : 'OTHER',
+        singleTransactionLimit: parseLimit(merchant.single_transaction_limit),
+        dailyTransactionLimit: parseLimit(merchant.daily_transaction_limit),
+        monthlyTransactionLimit: parseLimit(merchant.monthly_transaction_limit),
+    };
+}
+
+export function EditMerchantForm({ merchant, onSuccess }: EditMerchantFormProps) {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    const updateMerchantMutation = useMutation(
+        trpc.merchants.update.mutationOptions({
+            onSuccess: (data) => {
+                queryClient.invalidateQueries({ queryKey: trpc.merchants.getByUid.queryKey({ uid: merchant.uid }) });
+                queryClient.invalidateQueries({ queryKey: trpc.merchants.list.queryKey() });
+                toast.success(data.message || 'Merchant updated successfully');
+            },
+            onError: (error) => {
+                toast.error(error.message || 'Failed to update merchant');
+            },
+        })
+    );
+
+    const form = useForm<EditMerchantFormInput>({
+        resolver: zodResolver(EditMerchantFormSchema),
+        defaultValues: toFormValues(merchant),
+    });
+
+    const { dirtyFields } = form.formState;
+    const hasChanges = Object.keys(dirtyFields).length > 0;
+
+    const onSubmit = async (data: EditMerchantFormInput) => {
+        // Only send fields that differ from the loaded merchant; merchantName is always required by the backend.
+        // A cleared limit is sent as null so the backend removes it.
+        const changedKeys = Object.keys(dirtyFields) as (keyof EditMerchantFormInput)[];
+        const changedFieldsCheck = ChangedMerchantFieldsSchema.partial().safeParse(
+            Object.fromEntries(changedKeys.map((key) => [key, data[key]]))
+        );
+        if (!changedFieldsCheck.success) {
+            changedFieldsCheck.error.issues.forEach((issue) => {
+                form.setError(issue.path[0] as keyof EditMerchantFormInput, { message: issue.message });
+            });
+            return;
+        }
+
+        const changes: UpdateMerchantRequest = { merchantName: data.merchantName };
+        changedKeys.forEach((key) => {
+            if (data[key] !== undefined) {
+                Object.assign(changes, { [key]: data[key] });
+            }
+        });
+
+        try {
+            await updateMerchantMutation.mutateAsync({ uid: merchant.uid, ...changes });
+            form.reset(data);
+            onSuccess?.();
+        } catch {
+            // Error is handled by the mutation's onError callback
+        }
+    };
+
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 pb-4">
+                {/* Basic Information */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-medium text-muted-foreground">Basic Information</h3>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="merchantName"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Merchant Name *</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Safari Express Ltd" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormItem>
+                            <FormLabel>Merchant Code</FormLabel>
+                            <Input value={merchant.code} disabled />
+                        </FormItem>
+                    </div>
+
+                    <FormField
+                        control={form.control}
+                        name="businessName"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Business Name</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="Safari Express Company Ltd" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="businessRegistrationNumber"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Business Registration Number</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="BRN-002356" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="merchantType"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Merchant Type *</FormLabel>
+                                    <Select onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue placeholder="Select type" />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {MERCHANT_TYPES.map((type) => (
+                                                <SelectItem key={type.value} value={type.value}>
+                                                    {type.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                </div>
+
+                <Separator />
+
+                {/* Contact Information */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-medium text-muted-foreground">Contact Information</h3>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="contactEmail"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Contact Email</FormLabel>
+                                    <FormControl>
+                                        <Input type="email" placeholder="info@company.co.tz" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="contactPhone"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Contact Phone</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="+255712345678" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+
+                    <FormField
+                        control={form.control}
+                        name="websiteUrl"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Website URL</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="https://www.company.co.tz" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+
+                <Separator />
+
+                {/* Business Address */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-medium text-muted-foreground">Business Address</h3>
+
+                    <FormField
+                        control={form.control}
+                        name="businessAddress"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Street Address</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="Plot 12, Sam Nujoma Road" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="businessCity"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>City</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Dar es Salaam" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="businessState"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>State/Region</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Kinondoni" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="businessPostalCode"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Postal Code</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="14111" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="businessCountry"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Country</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Tanzania" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                </div>
+
+                <Separator />
+
+                {/* Transaction Limits */}
+                <div className="space-y-4">
+                    <h3 className="text-sm font-medium text-muted-foreground">Transaction Limits</h3>
+
+                    <div className="grid grid-cols-3 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="singleTransactionLimit"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Single Transaction</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            type="number"
+                                            placeholder="250000"
+                                            {...field}
+                                            value={field.value ?? ''}
+                                            onChange={(e) => {
+                                                const value = e.target.value;
+                                                field.onChange(value ? parseFloat(value) : null);
+                                            }}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="dailyTransactionLimit"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Daily Limit</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            type="number"
+                                            placeholder="1000000"
+                                            {...field}
+                                            value={field.value ?? ''}
+                                            onChange={(e) => {
+                                                const value = e.target.value;
+                                                field.onChange(value ? parseFloat(value) : null);
+                                            }}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="monthlyTransactionLimit"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Monthly Limit</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            type="number"
+                                            placeholder="5000000"
+                                            {...field}
+                                            value={field.value ?? ''}
+                                            onChange={(e) => {
+                                                const value = e.target.value;
+                                                field.onChange(value ? parseFloat(value) : null);
+                                            }}
+                                        />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                </div>
+
+                <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={updateMerchantMutation.isPending || !hasChanges}
+                >
+                    {updateMerchantMutation.isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save Changes
+                </Button>
+            </form>
+        </Form>
+    );
+}
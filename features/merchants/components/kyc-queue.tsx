@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { IconLoader, IconChevronLeft, IconChevronRight, IconChevronsLeft, IconChevronsRight } from '@tabler/icons-react';
+import { format } from 'date-fns';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { useTRPC } from '@/lib/trpc/client';
+import { KycStatusBadge } from './kyc-status-badge';
+
+export const KYC_QUEUE_STATUSES = [
+    { value: 'IN_REVIEW', label: 'In Review' },
+    { value: 'PENDING', label: 'Pending' },
+    { value: 'APPROVED', label: 'Approved' },
+    { value: 'REJECTED', label: 'Rejected' },
+] as const;
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy');
+    } catch {
+        return dateString;
+    }
+}
+
+export default function KycQueue() {
+    const [kycStatus, setKycStatus] = useState<string>('IN_REVIEW');
+    const [page, setPage] = useState(0);
+    const perPage = 15;
+    const trpc = useTRPC();
+
+    const { data, isLoading, error } = useQuery(
+        trpc.merchants.kycQueue.queryOptions({ kycStatus, page, size: perPage })
+    );
+
+    const merchants = data?.data ?? [];
+    const paginationMeta = data ?? {
+        pageNumber: page,
+        pageSize: perPage,
+        totalElements: 0,
+        totalPages: 0,
+        last: true,
+        first: true,
+        complete: true,
+    };
+    const statusLabel = KYC_QUEUE_STATUSES.find((status) => status.value === kycStatus)?.label ?? kycStatus;
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center justify-between px-4 lg:px-6">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">KYC Review</h1>
+                    <p className="text-muted-foreground">
+                        Review merchant KYC submissions and record compliance decisions.
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-4 px-4 lg:px-6">
+                <Tabs
+                    value={kycStatus}
+                    onValueChange={(value) => {
+                        setKycStatus(value);
+                        setPage(0);
+                    }}
+                >
+                    <TabsList>
+                        {KYC_QUEUE_STATUSES.map((status) => (
+                            <TabsTrigger key={status.value} value={status.value}>
+                                {status.label}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{statusLabel}</CardTitle>
+                        <CardDescription>
+                            {paginationMeta.totalElements > 0
+                                ? `${paginationMeta.totalElements} merchant${paginationMeta.totalElements !== 1 ? 's' : ''}`
+                                : 'No merchants with this KYC status'}
+                            {!paginationMeta.complete && ' - only the oldest merchants were checked; the queue may be incomplete'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <div className="flex items-center justify-center py-8">
+                                <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : error ? (
+                            <div className="text-destructive py-8 text-center">
+                                {error instanceof Error ? error.message : 'Failed to load KYC queue'}
+                            </div>
+                        ) : merchants.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center gap-4 py-8">
+                                <p className="text-muted-foreground">Nothing to review here.</p>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="rounded-lg border">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Merchant</TableHead>
+                                                <TableHead>Type</TableHead>
+                                                <TableHead>KYC Status</TableHead>
+                                                <TableHead>Last Decision</TableHead>
+                                                <TableHead>Created</TableHead>
+                                                <TableHead className="text-right">Actions</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {merchants.map((merchant) => (
+                                                <TableRow key={merchant.uid}>
+                                                    <TableCell>
+                                                        <div className="font-medium">{merchant.name}</div>
+                                                        <div className="font-mono text-xs text-muted-foreground">{merchant.code}</div>
+                                                    </TableCell>
+                                                    <TableCell>{merchant.merchant_type || '-'}</TableCell>
+                                                    <TableCell>
+                                                        <KycStatusBadge
+                                                            kycStatus={merchant.kyc_status}
+                                                            kycVerified={merchant.kyc_verified}
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell className="text-sm text-muted-foreground">
+                                                        {formatDate(merchant.kyc_verified_at)}
+                                                    </TableCell>
+                                                    <TableCell className="text-sm text-muted-foreground">
+                                                        {formatDate(merchant.created_at)}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        <Button variant="outline" size="sm" asChild>
+                                                            <Link href={`/merchants/${merchant.uid}?tab=kyc`}>
+                                                                Review
+                                                            </Link>
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+
+                                {/* Pagination */}
+                                {paginationMeta.totalPages > 1 && (
+                                    <div className="flex items-center justify-between mt-4">
+                                        <div className="text-sm text-muted-foreground">
+                                            Page {paginationMeta.pageNumber + 1} of {paginationMeta.totalPages}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setPage(0)}
+                                                disabled={paginationMeta.first}
+                                            >
+                                                <IconChevronsLeft className="size-4" />
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setPage(page - 1)}
+                                                disabled={paginationMeta.first}
+                                            >
+                                                <IconChevronLeft className="size-4" />
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setPage(page + 1)}
+                                                disabled={paginationMeta.last}
+                                            >
+                                                <IconChevronRight className="size-4" />
+                                            </Button>
+                                            <Button
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => setPage(paginationMeta.totalPages - 1)}
+                                                disabled={paginationMeta.last}
+                                            >
+                                                <IconChevronsRight className="size-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
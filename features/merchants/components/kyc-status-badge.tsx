@@ -0,0 +1,70 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { IconShieldCheck, IconShieldX, IconLoader } from '@tabler/icons-react';
+
+interface KycStatusBadgeProps {
+    kycStatus?: string | null;
+    kycVerified?: boolean;
+}
+
+function getKycConfig(kycStatus?: string | null, kycVerified?: boolean) {
+    if (kycStatus) {
+        switch (kycStatus.toUpperCase().replace(/\s+/g, '_')) {
+            case 'APPROVED':
+            case 'VERIFIED':
+                return {
+                    variant: 'default' as const,
+                    icon: <IconShieldCheck className="mr-1 size-3" />,
+                    label: 'Approved',
+                };
+            case 'IN_REVIEW':
+                return {
+                    variant: 'outline' as const,
+                    icon: <IconLoader className="mr-1 size-3" />,
+                    label: 'In Review',
+                };
+            case 'PENDING':
+                return {
+                    variant: 'outline' as const,
+                    icon: <IconLoader className="mr-1 size-3" />,
+                    label: 'Pending',
+                };
+            case 'REJECTED':
+                return {
+                    variant: 'destructive' as const,
+                    icon: <IconShieldX className="mr-1 size-3" />,
+                    label: 'Rejected',
+                };
+            default:
+                break;
+        }
+    }
+
+    if (kycVerified) {
+        return {
+            variant: 'default' as const,
+            icon: <IconShieldCheck className="mr-1 size-3" />,
+            label: 'Verified',
+        };
+    }
+    return {
+        variant: 'secondary' as const,
+        icon: <IconShieldX className="mr-1 size-3" />,
+        label: 'Pending',
+    };
+}
+
+/**
+ * Badge for a merchant's KYC state, preferring kyc_status over the kyc_verified flag
+ */
+export function KycStatusBadge({ kycStatus, kycVerified }: KycStatusBadgeProps) {
+    const config = getKycConfig(kycStatus, kycVerified);
+
+    return (
+        <Badge variant={config.variant} className="px-2 py-0.5">
+            {config.icon}
+            {config.label}
+        </Badge>
+    );
+}
@@ -5,9 +5,19 @@ import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { IconLoader, IconTrendingUp, IconTrendingDown, IconClock, IconCheck, IconX } from '@tabler/icons-react';
 import { format } from 'date-fns';
+import { Merchant } from '@/lib/definitions';
+import { KycStatusBadge } from './kyc-status-badge';
 
 interface MerchantActivityTabProps {
     merchantUid: string;
+    merchant: Merchant;
+}
+
+interface TimelineEvent {
+    key: string;
+    title: string;
+    at: string;
+    detail?: React.ReactNode;
 }
 
 function formatDate(dateString: string | null | undefined): string {
@@ -19,7 +29,7 @@ function formatDate(dateString: string | null | undefined): string {
     }
 }
 
-export default function MerchantActivityTab({ merchantUid }: MerchantActivityTabProps) {
+export default function MerchantActivityTab({ merchantUid, merchant }: MerchantActivityTabProps) {
     const trpc = useTRPC();
     const { data: activity, isLoading, error } = useQuery(
         trpc.merchants.activity.queryOptions({ uid: merchantUid })
@@ -61,6 +71,41 @@ export default function MerchantActivityTab({ merchantUid }: MerchantActivityTab
         ? ((activity.successfulTransactions / activity.totalTransactions) * 100).toFixed(1)
         : '0';
 
+    // Most recent first; the backend only keeps the latest KYC decision on the merchant record
+    const candidates: (TimelineEvent | null)[] = [
+        merchant.created_at ? {
+            key: 'created',
+            title: 'Merchant created',
+            at: merchant.created_at,
+        } : null,
+        merchant.kyc_verified_at ? {
+            key: 'kyc-decision',
+            title: 'KYC decision recorded',
+            at: merchant.kyc_verified_at,
+            detail: (
+                <div className="flex flex-col gap-1">
+                    <div className="flex items-center gap-2">
+                        <KycStatusBadge kycStatus={merchant.kyc_status} kycVerified={merchant.kyc_verified} />
+                        {merchant.kyc_verified_by && (
+                            <span className="text-xs text-muted-foreground">by {merchant.kyc_verified_by}</span>
+                        )}
+                    </div>
+                    {merchant.kyc_notes && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{merchant.kyc_notes}</p>
+                    )}
+                </div>
+            ),
+        } : null,
+        activity.lastTransactionAt ? {
+            key: 'last-transaction',
+            title: 'Last transaction',
+            at: activity.lastTransactionAt,
+        } : null,
+    ];
+    const timeline = candidates
+        .filter((event): event is TimelineEvent => event !== null)
+        .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
     return (
         <div className="flex flex-col gap-4">
             {/* Transaction Metrics */}
@@ -139,6 +184,30 @@ export default function MerchantActivityTab({ merchantUid }: MerchantActivityTab
                     </p>
                 </CardContent>
             </Card>
+
+            {/* Timeline */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Timeline</CardTitle>
+                    <CardDescription>Key lifecycle events for this merchant</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {timeline.length === 0 ? (
+                        <p className="text-muted-foreground py-4 text-center">No activity recorded yet</p>
+                    ) : (
+                        <ol className="relative border-l ml-2">
+                            {timeline.map((event) => (
+                                <li key={event.key} className="mb-6 ml-4 last:mb-0">
+                                    <span className="absolute -left-1.5 mt-1.5 size-3 rounded-full border bg-background" />
+                                    <p className="font-medium">{event.title}</p>
+                                    <p className="text-xs text-muted-foreground mb-1">{formatDate(event.at)}</p>
+                                    {event.detail}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 }
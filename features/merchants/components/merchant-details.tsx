@@ -11,12 +11,27 @@ import MerchantSubmerchantsTab from './merchant-submerchants-tab';
 import MerchantActivityTab from './merchant-activity-tab';
 import MerchantBankAccountsTab from './merchant-bank-accounts-tab';
 import MerchantApiKeysTab from './merchant-api-keys-tab';
+import MerchantKycTab from './merchant-kyc-tab';
+import { EditMerchantDrawer } from './edit-merchant-drawer';
+
+const MERCHANT_DETAIL_TABS = ['overview', 'sub-merchants', 'kyc', 'activity', 'bank-accounts', 'api-keys'];
 
 interface MerchantDetailsProps {
     merchantUid: string;
+    /** Tab to open on first render, e.g. from the KYC queue */
+    initialTab?: string;
+    /** Whether the current user may record KYC decisions */
+    canReviewKyc?: boolean;
+    /** Whether the current user may edit the merchant profile */
+    canUpdate?: boolean;
 }
 
-export default function MerchantDetails({ merchantUid }: MerchantDetailsProps) {
+export default function MerchantDetails({
+    merchantUid,
+    initialTab,
+    canReviewKyc = false,
+    canUpdate = false,
+}: MerchantDetailsProps) {
     const router = useRouter();
     const trpc = useTRPC();
     const { data: merchant, isLoading, error } = useQuery(
@@ -78,14 +93,23 @@ export default function MerchantDetails({ merchantUid }: MerchantDetailsProps) {
                         {merchant.code} • {merchant.uid}
                     </p>
                 </div>
+                {canUpdate && (
+                    <div className="ml-auto">
+                        <EditMerchantDrawer merchant={merchant} />
+                    </div>
+                )}
             </div>
 
-            <Tabs defaultValue="overview" className="flex flex-1 flex-col gap-4 px-4 lg:px-6">
+            <Tabs
+                defaultValue={initialTab && MERCHANT_DETAIL_TABS.includes(initialTab) ? initialTab : 'overview'}
+                className="flex flex-1 flex-col gap-4 px-4 lg:px-6"
+            >
                 <TabsList>
                     <TabsTrigger value="overview">Overview</TabsTrigger>
                     {merchant.merchant_role?.toUpperCase() === 'PLATFORM' && (
                         <TabsTrigger value="sub-merchants">Sub-merchants</TabsTrigger>
                     )}
+                    <TabsTrigger value="kyc">KYC</TabsTrigger>
                     <TabsTrigger value="activity">Activity</TabsTrigger>
                     <TabsTrigger value="bank-accounts">Bank Accounts</TabsTrigger>
                     <TabsTrigger value="api-keys">API Keys</TabsTrigger>
@@ -101,8 +125,12 @@ export default function MerchantDetails({ merchantUid }: MerchantDetailsProps) {
                     </TabsContent>
                 )}
 
+                <TabsContent value="kyc" className="flex-1">
+                    <MerchantKycTab merchant={merchant} canReview={canReviewKyc} />
+                </TabsContent>
+
                 <TabsContent value="activity" className="flex-1">
-                    <MerchantActivityTab merchantUid={merchantUid} />
+                    <MerchantActivityTab merchantUid={merchantUid} merchant={merchant} />
                 </TabsContent>
 
                 <TabsContent value="bank-accounts" className="flex-1">
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { IconShieldCheck, IconShieldX } from '@tabler/icons-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import { Merchant } from '@/lib/definitions';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useTRPC } from '@/lib/trpc/client';
+import { KycStatusBadge } from './kyc-status-badge';
+
+const KYC_REASON_MAX_LENGTH = 500;
+
+interface MerchantKycTabProps {
+    merchant: Merchant;
+    /** Whether the current user may record KYC decisions */
+    canReview: boolean;
+}
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+export default function MerchantKycTab({ merchant, canReview }: MerchantKycTabProps) {
+    const [reason, setReason] = useState('');
+    const [pendingDecision, setPendingDecision] = useState<'APPROVED' | 'REJECTED' | null>(null);
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    const decisionMutation = useMutation(trpc.merchants.kycDecision.mutationOptions());
+    const trimmedReason = reason.trim();
+
+    const handleDecision = (decision: 'APPROVED' | 'REJECTED') => {
+        if (!trimmedReason) {
+            toast.error('A reason is required to record a KYC decision');
+            return;
+        }
+        setPendingDecision(decision);
+        decisionMutation.mutate(
+            {
+                uid: merchant.uid,
+                decision,
+                reason: trimmedReason,
+            },
+            {
+                onSuccess: (data) => {
+                    queryClient.invalidateQueries({ queryKey: trpc.merchants.getByUid.queryKey({ uid: merchant.uid }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.merchants.list.queryKey() });
+                    queryClient.invalidateQueries({ queryKey: trpc.merchants.kycQueue.queryKey() });
+                    toast.success(data.message);
+                    setReason('');
+                },
+                onError: (error) => {
+                    toast.error(error.message || 'Failed to record KYC decision');
+                },
+                onSettled: () => {
+                    setPendingDecision(null);
+                },
+            }
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Current KYC State */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>KYC Status</CardTitle>
+                    <CardDescription>Latest compliance decision for this merchant</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div>
+                        <p className="text-sm text-muted-foreground mb-2">Status</p>
+                        <KycStatusBadge kycStatus={merchant.kyc_status} kycVerified={merchant.kyc_verified} />
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">Decided</p>
+                        <p>{formatDate(merchant.kyc_verified_at)}</p>
+                        {merchant.kyc_verified_by && (
+                            <p className="text-sm text-muted-foreground">by {merchant.kyc_verified_by}</p>
+                        )}
+                    </div>
+                    <div className="md:col-span-2">
+                        <p className="text-sm text-muted-foreground">Reason</p>
+                        <p className="whitespace-pre-wrap">{merchant.kyc_notes || '-'}</p>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Decision Panel */}
+            {canReview && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Record Decision</CardTitle>
+                        <CardDescription>
+                            Approve or reject this merchant&apos;s KYC submission. The reason is stored with the decision.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="kyc-reason">Reason</Label>
+                            <Textarea
+                                id="kyc-reason"
+                                placeholder="e.g., Verified business registration and bank statement"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                maxLength={KYC_REASON_MAX_LENGTH}
+                                rows={4}
+                                disabled={decisionMutation.isPending}
+                            />
+                            <p className="text-xs text-muted-foreground text-right">
+                                {reason.length}/{KYC_REASON_MAX_LENGTH}
+                            </p>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="destructive"
+                                onClick={() => handleDecision('REJECTED')}
+                                disabled={decisionMutation.isPending || !trimmedReason}
+                            >
+                                {pendingDecision === 'REJECTED' ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <IconShieldX className="mr-2 size-4" />
+                                )}
+                                Reject
+                            </Button>
+                            <Button
+                                onClick={() => handleDecision('APPROVED')}
+                                disabled={decisionMutation.isPending || !trimmedReason}
+                            >
+                                {pendingDecision === 'APPROVED' ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <IconShieldCheck className="mr-2 size-4" />
+                                )}
+                                Approve
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
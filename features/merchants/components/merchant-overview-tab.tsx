@@ -3,9 +3,10 @@
 import { Merchant } from '@/lib/definitions';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { IconCircleCheckFilled, IconShieldCheck, IconShieldX, IconLoader } from '@tabler/icons-react';
+import { IconCircleCheckFilled } from '@tabler/icons-react';
 import { format } from 'date-fns';
 import { Separator } from '@/components/ui/separator';
+import { KycStatusBadge } from './kyc-status-badge';
 
 interface MerchantOverviewTabProps {
     merchant: Merchant;
@@ -48,50 +49,6 @@ export default function MerchantOverviewTab({ merchant }: MerchantOverviewTabPro
 
     const statusConfig = getStatusConfig();
 
-    const getKycConfig = () => {
-        if (merchant.kyc_status) {
-            switch (merchant.kyc_status.toUpperCase()) {
-                case 'APPROVED':
-                case 'VERIFIED':
-                    return {
-                        variant: 'default' as const,
-                        icon: <IconShieldCheck className="mr-1 size-3" />,
-                        label: 'Approved',
-                    };
-                case 'IN_REVIEW':
-                case 'PENDING':
-                    return {
-                        variant: 'outline' as const,
-                        icon: <IconLoader className="mr-1 size-3" />,
-                        label: 'In Review',
-                    };
-                case 'REJECTED':
-                    return {
-                        variant: 'destructive' as const,
-                        icon: <IconShieldX className="mr-1 size-3" />,
-                        label: 'Rejected',
-                    };
-                default:
-                    break;
-            }
-        }
-
-        if (merchant.kyc_verified) {
-            return {
-                variant: 'default' as const,
-                icon: <IconShieldCheck className="mr-1 size-3" />,
-                label: 'Verified',
-            };
-        }
-        return {
-            variant: 'secondary' as const,
-            icon: <IconShieldX className="mr-1 size-3" />,
-            label: 'Pending',
-        };
-    };
-
-    const kycConfig = getKycConfig();
-
     return (
         <div className="flex flex-col gap-4">
             {/* Basic Information */}
@@ -157,10 +114,7 @@ export default function MerchantOverviewTab({ merchant }: MerchantOverviewTabPro
                     </div>
                     <div>
                         <p className="text-sm text-muted-foreground mb-2">KYC Status</p>
-                        <Badge variant={kycConfig.variant} className="px-2 py-0.5">
-                            {kycConfig.icon}
-                            {kycConfig.label}
-                        </Badge>
+                        <KycStatusBadge kycStatus={merchant.kyc_status} kycVerified={merchant.kyc_verified} />
                         {merchant.kyc_verified_at && (
                             <p className="text-sm text-muted-foreground mt-2">
                                 Verified: {formatDate(merchant.kyc_verified_at)}
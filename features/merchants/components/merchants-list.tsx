@@ -4,88 +4,27 @@ import { useEffect, useMemo } from 'react';
 import { useSuspenseQuery, useQueryClient } from '@tanstack/react-query';
 import { MerchantsTable } from './merchants-table';
 import { NewMerchantDrawer } from './new-merchant-drawer';
-import type { MerchantListParams } from '@/features/merchants/types';
-import { useMerchantsTableStore } from '@/lib/stores/merchants-table-store';
+import {
+    useMerchantsTableStore,
+    merchantsUrlState,
+    toMerchantsListInput,
+} from '@/lib/stores/merchants-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedMerchantResponse } from '@/lib/definitions';
 
 export default function MerchantsList() {
     const trpc = useTRPC();
     const queryClient = useQueryClient();
-    const { pagination, sorting, columnFilters, setPagination, setSorting, setColumnFilters } = useMerchantsTableStore();
 
-    // Reset to first page when sorting or filtering changes
-    useEffect(() => {
-        const currentPagination = useMerchantsTableStore.getState().pagination;
-        setPagination({ ...currentPagination, pageIndex: 0 });
-    }, [sorting, columnFilters, setPagination]);
-
-    // Use pageIndex directly (0-based) - backend uses 0-based pagination
-    const page = pagination.pageIndex;
+    const { pagination, sorting, columnFilters } = useTableUrlState(useMerchantsTableStore, merchantsUrlState);
     const per_page = pagination.pageSize;
 
-    // Convert sorting state to sort parameter format (e.g., ["name,asc", "code,desc"])
-    const sortParams = useMemo(() => {
-        return sorting.map(sort => {
-            const direction = sort.desc ? 'desc' : 'asc';
-            return `${sort.id},${direction}`;
-        });
-    }, [sorting]);
-
-    // Convert column filters to query parameters
-    const filterParams = useMemo(() => {
-        const params: { status?: string; merchantType?: string; kyc_verified?: boolean } = {};
-
-        columnFilters.forEach(filter => {
-            if (filter.id === 'status' && Array.isArray(filter.value)) {
-                // For status filter, use first value or join multiple values
-                const statusValues = filter.value as string[];
-                if (statusValues.length > 0) {
-                    // Backend might expect single value or comma-separated
-                    params.status = statusValues.join(',');
-                }
-            } else if (filter.id === 'merchant_type' && Array.isArray(filter.value)) {
-                // For merchant type filter, join multiple values with comma
-                const typeValues = filter.value as string[];
-                if (typeValues.length > 0) {
-                    params.merchantType = typeValues.join(',');
-                }
-            } else if (filter.id === 'kyc_verified' && Array.isArray(filter.value)) {
-                // For KYC filter, convert boolean strings to actual boolean
-                const kycValues = filter.value as string[];
-                if (kycValues.length > 0) {
-                    // Convert string to boolean - use first value
-                    params.kyc_verified = kycValues[0] === 'true';
-                }
-            }
-        });
-
-        return params;
-    }, [columnFilters]);
-
-    // Memoize queryParams to prevent unnecessary re-renders and ensure stable reference
-    const queryParams: MerchantListParams = useMemo(() => ({
-        page,
-        per_page,
-        ...(sortParams.length > 0 && { sort: sortParams }),
-        ...filterParams,
-    }), [page, per_page, sortParams, filterParams]);
-
-    // Build tRPC query params
-    const trpcQueryParams = useMemo(() => {
-        const params: Record<string, string | undefined> = {
-            page: page.toString(),
-            per_page: per_page.toString(),
-        };
-        if (queryParams.search) params.search = queryParams.search;
-        if (queryParams.status) params.status = queryParams.status;
-        if (queryParams.merchantType) params.merchantType = queryParams.merchantType;
-        if (queryParams.kyc_verified !== undefined) params.kyc_verified = queryParams.kyc_verified.toString();
-        if (queryParams.sort && queryParams.sort.length > 0) {
-            params.sort = queryParams.sort.join(',');
-        }
-        return params;
-    }, [queryParams, page, per_page]);
+    // Memoize query params to keep a stable reference for the prefetch effect below
+    const trpcQueryParams = useMemo(
+        () => toMerchantsListInput({ pagination, sorting, columnFilters }),
+        [pagination, sorting, columnFilters]
+    );
 
     // Use tRPC query with Suspense
     const queryResult = useSuspenseQuery(
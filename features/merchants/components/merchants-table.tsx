@@ -535,7 +535,9 @@ function ActionCell({ merchant }: ActionCellProps) {
                         </DropdownMenuItem>
                     )}
                     <DropdownMenuSeparator />
-                    <DropdownMenuItem>Verify KYC</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => merchant.uid && router.push(`/merchants/${merchant.uid}?tab=kyc`)}>
+                        Review KYC
+                    </DropdownMenuItem>
                     <DropdownMenuItem>Manage API Keys</DropdownMenuItem>
                     <DropdownMenuItem onClick={() => setShowBankAccountsDrawer(true)}>
                         View Bank Accounts
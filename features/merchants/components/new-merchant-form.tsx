@@ -30,7 +30,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 
 // Merchant type options
-const MERCHANT_TYPES = [
+export const MERCHANT_TYPES = [
     { value: 'RETAIL', label: 'Retail' },
     { value: 'TRAVEL', label: 'Travel' },
     { value: 'HOSPITALITY', label: 'Hospitality' },
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { PlusIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+    Drawer,
+    DrawerClose,
+    DrawerContent,
+    DrawerDescription,
+    DrawerHeader,
+    DrawerTitle,
+    DrawerTrigger,
+} from '@/components/ui/drawer';
+import type { PaymentChannel } from '@/lib/definitions';
+
+import { PaymentChannelForm } from './payment-channel-form';
+
+interface PaymentChannelDrawerProps {
+    /** Channel to edit; omit to create a new channel */
+    channel?: PaymentChannel;
+    /** Custom trigger, defaults to the "Add Payment Channel" button */
+    trigger?: React.ReactNode;
+}
+
+export function PaymentChannelDrawer({ channel, trigger }: PaymentChannelDrawerProps) {
+    const [open, setOpen] = useState(false);
+
+    const handleSuccess = () => {
+        setOpen(false);
+    };
+
+    return (
+        <Drawer direction="right" open={open} onOpenChange={setOpen}>
+            <DrawerTrigger asChild>
+                {trigger ?? (
+                    <Button>
+                        <PlusIcon className="h-4 w-4" />
+                        Add Payment Channel
+                    </Button>
+                )}
+            </DrawerTrigger>
+            <DrawerContent className="h-full max-h-screen">
+                <DrawerHeader className="border-b">
+                    <DrawerTitle>{channel ? 'Edit Payment Channel' : 'Create New Payment Channel'}</DrawerTitle>
+                    <DrawerDescription>
+                        {channel
+                            ? `Update the details of ${channel.name}.`
+                            : 'Fill in the details below to add a new payment channel (e.g., M-Pesa, CRDB Bank).'}
+                    </DrawerDescription>
+                </DrawerHeader>
+                <div className="flex-1 overflow-y-auto p-4">
+                    <PaymentChannelForm
+                        key={channel?.uid ?? 'new'}
+                        channel={channel}
+                        onSuccess={handleSuccess}
+                    />
+                </div>
+                <div className="border-t p-4">
+                    <DrawerClose asChild>
+                        <Button variant="outline" className="w-full">Cancel</Button>
+                    </DrawerClose>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useTRPC } from '@/lib/trpc/client';
+import { PaymentChannelTypeEnum, type PaymentChannel } from '@/lib/definitions';
+
+// Schema matching tRPC router input
+const PaymentChannelFormSchema = z.object({
+    code: z
+        .string()
+        .min(1, 'code is required')
+        .max(20, 'code must be at most 20 characters'),
+    name: z
+        .string()
+        .min(1, 'name is required')
+        .max(50, 'name must be at most 50 characters'),
+    payment_channel_type: PaymentChannelTypeEnum,
+});
+
+type PaymentChannelFormInput = z.infer<typeof PaymentChannelFormSchema>;
+
+// Channel type options (from backend enum: MNO, BANK, CARD, WALLET)
+export const PAYMENT_CHANNEL_TYPES = [
+    { value: 'MNO' as const, label: 'Mobile Network Operator (MNO)' },
+    { value: 'BANK' as const, label: 'Bank' },
+    { value: 'CARD' as const, label: 'Card' },
+    { value: 'WALLET' as const, label: 'Wallet' },
+] as const;
+
+interface PaymentChannelFormProps {
+    /** When provided the form edits this channel, otherwise it creates a new one */
+    channel?: PaymentChannel;
+    onSuccess?: () => void;
+}
+
+export function PaymentChannelForm({ channel, onSuccess }: PaymentChannelFormProps) {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const isEdit = !!channel;
+
+    const createChannelMutation = useMutation(
+        trpc.channels.create.mutationOptions()
+    );
+    const updateChannelMutation = useMutation(
+        trpc.channels.update.mutationOptions()
+    );
+    const isPending = createChannelMutation.isPending || updateChannelMutation.isPending;
+
+    const parsedType = PaymentChannelTypeEnum.safeParse(channel?.payment_channel_type);
+
+    const form = useForm<PaymentChannelFormInput>({
+        resolver: zodResolver(PaymentChannelFormSchema),
+        defaultValues: {
+            code: channel?.code ?? '',
+            name: channel?.name ?? '',
+            payment_channel_type: parsedType.success ? parsedType.data : 'MNO',
+        },
+    });
+
+    const onSubmit = async (data: PaymentChannelFormInput) => {
+        try {
+            if (channel) {
+                // Code is immutable on the backend, only send the editable fields
+                await updateChannelMutation.mutateAsync({
+                    uid: channel.uid,
+                    name: data.name,
+                    payment_channel_type: data.payment_channel_type,
+                });
+                toast.success('Payment channel updated successfully');
+            } else {
+                await createChannelMutation.mutateAsync(data);
+                toast.success('Payment channel created successfully');
+                form.reset();
+            }
+            queryClient.invalidateQueries({ queryKey: trpc.channels.list.queryKey() });
+            queryClient.invalidateQueries({ queryKey: trpc.channels.all.queryKey() });
+            onSuccess?.();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : `Failed to ${isEdit ? 'update' : 'create'} payment channel`);
+        }
+    };
+
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pb-4">
+                <FormField
+                    control={form.control}
+                    name="code"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Code</FormLabel>
+                            <FormControl>
+                                <Input
+                                    placeholder="e.g., MPESA"
+                                    disabled={isEdit}
+                                    {...field}
+                                    onChange={(e) => {
+                                        // Convert to uppercase
+                                        field.onChange(e.target.value.toUpperCase());
+                                    }}
+                                />
+                            </FormControl>
+                            <FormDescription>
+                                {isEdit
+                                    ? 'The channel code cannot be changed once created.'
+                                    : 'Unique short code for the payment channel (max 20 characters).'}
+                            </FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+
+                <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g., M-Pesa" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                                The display name of the payment channel.
+                            </FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+
+                <FormField
+                    control={form.control}
+                    name="payment_channel_type"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Channel Type</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue placeholder="Select a channel type" />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {PAYMENT_CHANNEL_TYPES.map((type) => (
+                                        <SelectItem key={type.value} value={type.value}>
+                                            {type.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+
+                <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isPending}
+                >
+                    {isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    {isEdit ? 'Save Changes' : 'Create Payment Channel'}
+                </Button>
+            </form>
+        </Form>
+    );
+}
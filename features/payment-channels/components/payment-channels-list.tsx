@@ -0,0 +1,48 @@
+'use client';
+
+import { useSuspenseQuery } from '@tanstack/react-query';
+import { PaymentChannelsTable } from './payment-channels-table';
+import { PaymentChannelDrawer } from './payment-channel-drawer';
+import {
+    usePaymentChannelsTableStore,
+    paymentChannelsUrlState,
+    toPaymentChannelsListInput,
+} from '@/lib/stores/payment-channels-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
+import { useTRPC } from '@/lib/trpc/client';
+
+export default function PaymentChannelsList() {
+    const trpc = useTRPC();
+
+    const { pagination, sorting } = useTableUrlState(usePaymentChannelsTableStore, paymentChannelsUrlState);
+
+    const queryParams = toPaymentChannelsListInput({ pagination, sorting });
+
+    const { data } = useSuspenseQuery(
+        trpc.channels.list.queryOptions(queryParams)
+    );
+
+    // Extract channels and pagination metadata
+    const channels = data?.data ?? [];
+    const paginationMeta = {
+        pageNumber: data.pageNumber,
+        pageSize: data.pageSize,
+        totalElements: data.totalElements,
+        totalPages: data.totalPages,
+        last: data.last,
+        first: data.first,
+    };
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center justify-between px-4 lg:px-6">
+                <h1 className="text-2xl font-semibold">Payment Channels</h1>
+                <PaymentChannelDrawer />
+            </div>
+            <PaymentChannelsTable
+                data={channels}
+                paginationMeta={paginationMeta}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,539 @@
+"use client"
+
+import * as React from "react"
+import {
+    IconArrowDown,
+    IconArrowUp,
+    IconArrowsSort,
+    IconChevronDown,
+    IconChevronLeft,
+    IconChevronRight,
+    IconChevronsLeft,
+    IconChevronsRight,
+    IconCircleCheckFilled,
+    IconDotsVertical,
+    IconLayoutColumns,
+    IconLoader,
+} from "@tabler/icons-react"
+import {
+    ColumnDef,
+    flexRender,
+    getCoreRowModel,
+    Header,
+    useReactTable,
+} from "@tanstack/react-table"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+
+import { PaymentChannel } from "@/lib/definitions"
+import { usePaymentChannelsTableStore } from "@/lib/stores/payment-channels-table-store"
+import { useTRPC } from "@/lib/trpc/client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Label } from "@/components/ui/label"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table"
+
+import { PaymentChannelDrawer } from "./payment-channel-drawer"
+
+// Helper function to format date
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-'
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm')
+    } catch {
+        return dateString
+    }
+}
+
+// Sortable header component
+function SortableHeader({
+    header,
+    children,
+}: {
+    header: Header<PaymentChannel, unknown>
+    children: React.ReactNode
+}) {
+    const canSort = header.column.getCanSort()
+    const sortDirection = header.column.getIsSorted()
+
+    if (!canSort) {
+        return <>{children}</>
+    }
+
+    return (
+        <Button
+            variant="ghost"
+            className="h-auto p-0 font-semibold hover:bg-transparent"
+            onClick={() => header.column.toggleSorting(undefined, true)}
+        >
+            {children}
+            <span className="ml-2">
+                {sortDirection === 'asc' ? (
+                    <IconArrowUp className="size-4" />
+                ) : sortDirection === 'desc' ? (
+                    <IconArrowDown className="size-4" />
+                ) : (
+                    <IconArrowsSort className="size-4 opacity-50" />
+                )}
+            </span>
+        </Button>
+    )
+}
+
+// Action cell component with hooks
+function ActionCell({ channel }: { channel: PaymentChannel }) {
+    const trpc = useTRPC()
+    const queryClient = useQueryClient()
+
+    const invalidateChannels = () => {
+        queryClient.invalidateQueries({ queryKey: trpc.channels.list.queryKey() })
+        queryClient.invalidateQueries({ queryKey: trpc.channels.all.queryKey() })
+    }
+
+    const activateMutation = useMutation(trpc.channels.activate.mutationOptions({
+        onSuccess: (data) => {
+            toast.success(data.message || 'Payment channel activated successfully')
+            invalidateChannels()
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to activate payment channel')
+        },
+    }))
+
+    const deactivateMutation = useMutation(trpc.channels.deactivate.mutationOptions({
+        onSuccess: (data) => {
+            toast.success(data.message || 'Payment channel deactivated successfully')
+            invalidateChannels()
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to deactivate payment channel')
+        },
+    }))
+
+    const isLoading = activateMutation.isPending || deactivateMutation.isPending
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
+                    size="icon"
+                    disabled={isLoading}
+                >
+                    {isLoading ? (
+                        <IconLoader className="size-4 animate-spin" />
+                    ) : (
+                        <IconDotsVertical />
+                    )}
+                    <span className="sr-only">Open menu</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-40">
+                <PaymentChannelDrawer
+                    channel={channel}
+                    trigger={
+                        <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                            Edit
+                        </DropdownMenuItem>
+                    }
+                />
+                <DropdownMenuSeparator />
+                {channel.is_active ? (
+                    <DropdownMenuItem
+                        onClick={() => deactivateMutation.mutate({ uid: channel.uid })}
+                        disabled={isLoading}
+                        className="text-destructive focus:text-destructive"
+                    >
+                        {deactivateMutation.isPending ? 'Deactivating...' : 'Deactivate'}
+                    </DropdownMenuItem>
+                ) : (
+                    <DropdownMenuItem
+                        onClick={() => activateMutation.mutate({ uid: channel.uid })}
+                        disabled={isLoading}
+                    >
+                        {activateMutation.isPending ? 'Activating...' : 'Activate'}
+                    </DropdownMenuItem>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    )
+}
+
+const columns: ColumnDef<PaymentChannel>[] = [
+    {
+        id: "select",
+        header: ({ table }) => (
+            <Checkbox
+                checked={
+                    table.getIsAllPageRowsSelected() ||
+                    (table.getIsSomePageRowsSelected() && "indeterminate")
+                }
+                onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+                aria-label="Select all"
+            />
+        ),
+        cell: ({ row }) => (
+            <Checkbox
+                checked={row.getIsSelected()}
+                onCheckedChange={(value) => row.toggleSelected(!!value)}
+                aria-label="Select row"
+            />
+        ),
+        enableSorting: false,
+        enableHiding: false,
+        size: 50,
+    },
+    {
+        accessorKey: "code",
+        header: ({ header }) => (
+            <SortableHeader header={header}>
+                Code
+            </SortableHeader>
+        ),
+        cell: ({ row }) => (
+            <div className="max-w-[150px] min-w-[120px]">
+                <div className="truncate font-medium font-mono">{row.original.code || "-"}</div>
+            </div>
+        ),
+        size: 150,
+    },
+    {
+        accessorKey: "name",
+        header: ({ header }) => (
+            <SortableHeader header={header}>
+                Name
+            </SortableHeader>
+        ),
+        cell: ({ row }) => (
+            <div className="max-w-[250px] min-w-[200px]">
+                <div className="truncate font-medium">{row.original.name || "-"}</div>
+            </div>
+        ),
+        size: 250,
+    },
+    {
+        accessorKey: "payment_channel_type",
+        header: "Type",
+        enableSorting: false,
+        cell: ({ row }) => (
+            row.original.payment_channel_type ? (
+                <Badge variant="outline" className="px-2 py-0.5 whitespace-nowrap">
+                    {row.original.payment_channel_type}
+                </Badge>
+            ) : (
+                <span className="text-muted-foreground">-</span>
+            )
+        ),
+        size: 120,
+    },
+    {
+        accessorKey: "is_active",
+        header: "Status",
+        enableSorting: false,
+        cell: ({ row }) => {
+            const isActive = row.original.is_active
+
+            return (
+                <Badge
+                    variant={isActive ? "default" : "secondary"}
+                    className="px-2 py-0.5 whitespace-nowrap"
+                >
+                    {isActive ? (
+                        <IconCircleCheckFilled className="mr-1 size-3" />
+                    ) : (
+                        <span className="mr-1">✕</span>
+                    )}
+                    {isActive ? 'Active' : 'Inactive'}
+                </Badge>
+            )
+        },
+        size: 120,
+    },
+    {
+        id: "createdAt",
+        accessorKey: "created_at",
+        header: ({ header }) => (
+            <SortableHeader header={header}>
+                Created
+            </SortableHeader>
+        ),
+        cell: ({ row }) => (
+            <div className="text-sm whitespace-nowrap">{formatDate(row.original.created_at)}</div>
+        ),
+        size: 160,
+    },
+    {
+        id: "actions",
+        cell: ({ row }) => <ActionCell channel={row.original} />,
+    },
+]
+
+interface PaginationMeta {
+    pageNumber: number;
+    pageSize: number;
+    totalElements: number;
+    totalPages: number;
+    last: boolean;
+    first: boolean;
+}
+
+export function PaymentChannelsTable({
+    data,
+    paginationMeta,
+}: {
+    data: PaymentChannel[];
+    paginationMeta: PaginationMeta;
+}) {
+    "use no memo";
+    const {
+        pagination: paginationState,
+        sorting: sortingState,
+        columnFilters: columnFiltersState,
+        columnVisibility,
+        rowSelection,
+        setPagination,
+        setSorting,
+        setColumnFilters,
+        setColumnVisibility,
+        setRowSelection,
+    } = usePaymentChannelsTableStore()
+
+    // eslint-disable-next-line react-hooks/incompatible-library
+    const table = useReactTable({
+        data,
+        columns,
+        state: {
+            sorting: sortingState,
+            columnVisibility,
+            rowSelection,
+            columnFilters: columnFiltersState,
+            pagination: paginationState,
+        },
+        getRowId: (row) => row.uid,
+        enableRowSelection: true,
+        onRowSelectionChange: setRowSelection,
+        onSortingChange: (updater) => {
+            const newSorting = typeof updater === 'function'
+                ? updater(sortingState)
+                : updater;
+            setSorting(newSorting);
+        },
+        onColumnFiltersChange: (updater) => {
+            const newFilters = typeof updater === 'function'
+                ? updater(columnFiltersState)
+                : updater;
+            setColumnFilters(newFilters);
+        },
+        onColumnVisibilityChange: setColumnVisibility,
+        onPaginationChange: (updater) => {
+            const newPagination = typeof updater === 'function'
+                ? updater(paginationState)
+                : updater;
+            setPagination(newPagination);
+        },
+        // Server-side pagination and sorting configuration
+        manualPagination: true,
+        manualSorting: true,
+        manualFiltering: true,
+        pageCount: paginationMeta.totalPages,
+        getCoreRowModel: getCoreRowModel(),
+    })
+
+    return (
+        <div className="w-full flex flex-col gap-6">
+            <div className="flex items-center justify-end gap-2 px-4 lg:px-6 shrink-0">
+                {/* Customize Columns */}
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                            <IconLayoutColumns />
+                            <span className="hidden lg:inline">Customize Columns</span>
+                            <span className="lg:hidden">Columns</span>
+                            <IconChevronDown />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                        {table
+                            .getAllColumns()
+                            .filter(
+                                (column) =>
+                                    typeof column.accessorFn !== "undefined" &&
+                                    column.getCanHide()
+                            )
+                            .map((column) => {
+                                return (
+                                    <DropdownMenuCheckboxItem
+                                        key={column.id}
+                                        className="capitalize"
+                                        checked={column.getIsVisible()}
+                                        onCheckedChange={(value) =>
+                                            column.toggleVisibility(!!value)
+                                        }
+                                    >
+                                        {column.id}
+                                    </DropdownMenuCheckboxItem>
+                                )
+                            })}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+            <div className="relative flex flex-col gap-4 px-4 lg:px-6 min-w-0">
+                <div className="w-full overflow-x-auto rounded-lg border">
+                    <div className="min-w-full inline-block">
+                        <Table className="w-full">
+                            <TableHeader className="bg-muted sticky top-0 z-10">
+                                {table.getHeaderGroups().map((headerGroup) => (
+                                    <TableRow key={headerGroup.id}>
+                                        {headerGroup.headers.map((header) => {
+                                            return (
+                                                <TableHead key={header.id} colSpan={header.colSpan}>
+                                                    {header.isPlaceholder
+                                                        ? null
+                                                        : flexRender(
+                                                            header.column.columnDef.header,
+                                                            header.getContext()
+                                                        )}
+                                                </TableHead>
+                                            )
+                                        })}
+                                    </TableRow>
+                                ))}
+                            </TableHeader>
+                            <TableBody className="**:data-[slot=table-cell]:first:w-8">
+                                {table.getRowModel().rows?.length ? (
+                                    table.getRowModel().rows.map((row) => (
+                                        <TableRow
+                                            key={row.id}
+                                            data-state={row.getIsSelected() && "selected"}
+                                        >
+                                            {row.getVisibleCells().map((cell) => (
+                                                <TableCell key={cell.id}>
+                                                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                                                </TableCell>
+                                            ))}
+                                        </TableRow>
+                                    ))
+                                ) : (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={columns.length}
+                                            className="h-24 text-center"
+                                        >
+                                            No payment channels found.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+                <div className="flex items-center justify-between px-4 shrink-0">
+                    <div className="text-muted-foreground hidden flex-1 text-sm lg:flex min-w-0">
+                        {table.getSelectedRowModel().rows.length} of{" "}
+                        {paginationMeta.totalElements} row(s) selected.
+                    </div>
+                    <div className="flex w-full items-center gap-8 lg:w-fit shrink-0">
+                        <div className="hidden items-center gap-2 lg:flex">
+                            <Label htmlFor="rows-per-page" className="text-sm font-medium">
+                                Rows per page
+                            </Label>
+                            <Select
+                                value={`${table.getState().pagination.pageSize}`}
+                                onValueChange={(value) => {
+                                    // Reset to first page when changing page size
+                                    setPagination({
+                                        pageIndex: 0,
+                                        pageSize: Number(value),
+                                    });
+                                }}
+                            >
+                                <SelectTrigger size="sm" className="w-20" id="rows-per-page">
+                                    <SelectValue
+                                        placeholder={table.getState().pagination.pageSize}
+                                    />
+                                </SelectTrigger>
+                                <SelectContent side="top">
+                                    {[10, 15, 20, 30, 50].map((pageSize) => (
+                                        <SelectItem key={pageSize} value={`${pageSize}`}>
+                                            {pageSize}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex w-fit items-center justify-center text-sm font-medium">
+                            Page {paginationMeta.pageNumber} of{" "}
+                            {paginationMeta.totalPages || 1}
+                        </div>
+                        <div className="ml-auto flex items-center gap-2 lg:ml-0">
+                            <Button
+                                variant="outline"
+                                className="hidden h-8 w-8 p-0 lg:flex"
+                                onClick={() => setPagination({ ...paginationState, pageIndex: 0 })}
+                                disabled={paginationMeta.first}
+                            >
+                                <span className="sr-only">Go to first page</span>
+                                <IconChevronsLeft />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                className="size-8"
+                                size="icon"
+                                onClick={() => setPagination({ ...paginationState, pageIndex: paginationState.pageIndex - 1 })}
+                                disabled={paginationMeta.first}
+                            >
+                                <span className="sr-only">Go to previous page</span>
+                                <IconChevronLeft />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                className="size-8"
+                                size="icon"
+                                onClick={() => setPagination({ ...paginationState, pageIndex: paginationState.pageIndex + 1 })}
+                                disabled={paginationMeta.last}
+                            >
+                                <span className="sr-only">Go to next page</span>
+                                <IconChevronRight />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                className="hidden size-8 lg:flex"
+                                size="icon"
+                                onClick={() => setPagination({ ...paginationState, pageIndex: (paginationMeta.totalPages || 1) - 1 })}
+                                disabled={paginationMeta.last}
+                            >
+                                <span className="sr-only">Go to last page</span>
+                                <IconChevronsRight />
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
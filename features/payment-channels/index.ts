@@ -0,0 +1,4 @@
+export { default as PaymentChannelsList } from './components/payment-channels-list';
+export { PaymentChannelsTable } from './components/payment-channels-table';
+export { PaymentChannelDrawer } from './components/payment-channel-drawer';
+export { PaymentChannelForm, PAYMENT_CHANNEL_TYPES } from './components/payment-channel-form';
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, PlusIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useTRPC } from '@/lib/trpc/client';
+import type { GatewayChannel } from '@/lib/definitions';
+
+const GatewayChannelFormSchema = z.object({
+    channel_uid: z.string().min(1, 'Select a channel'),
+    pay_code: z.string().min(1, 'pay_code is required'),
+    provider: z.string().min(1, 'provider is required'),
+});
+
+type GatewayChannelFormInput = z.infer<typeof GatewayChannelFormSchema>;
+
+interface GatewayChannelDialogProps {
+    gatewayUid: string;
+    /** Mapping to edit; omit to assign a new channel */
+    mapping?: GatewayChannel;
+    /** Channel UIDs already linked to the gateway (hidden from the assign picker) */
+    linkedChannelUids?: string[];
+    trigger?: React.ReactNode;
+}
+
+export function GatewayChannelDialog({
+    gatewayUid,
+    mapping,
+    linkedChannelUids = [],
+    trigger,
+}: GatewayChannelDialogProps) {
+    const [open, setOpen] = useState(false);
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const isEdit = !!mapping;
+
+    // Only needed for the assign picker
+    const { data: channels = [], isLoading: channelsLoading } = useQuery({
+        ...trpc.channels.all.queryOptions(),
+        enabled: open && !isEdit,
+    });
+    const assignableChannels = channels.filter(
+        (channel) => channel.is_active && !linkedChannelUids.includes(channel.uid)
+    );
+
+    const assignMutation = useMutation(trpc.gateways.channels.assign.mutationOptions());
+    const updateMutation = useMutation(trpc.gateways.channels.update.mutationOptions());
+    const isPending = assignMutation.isPending || updateMutation.isPending;
+
+    const form = useForm<GatewayChannelFormInput>({
+        // The channel itself cannot be changed once linked, so edits skip the picker validation
+        resolver: zodResolver(
+            isEdit ? GatewayChannelFormSchema.extend({ channel_uid: z.string() }) : GatewayChannelFormSchema
+        ),
+        defaultValues: {
+            channel_uid: mapping?.payment_channel_uid ?? '',
+            pay_code: mapping?.pay_code ?? '',
+            provider: mapping?.provider ?? '',
+        },
+    });
+
+    const onSubmit = async (data: GatewayChannelFormInput) => {
+        try {
+            if (mapping) {
+                await updateMutation.mutateAsync({
+                    id: mapping.id,
+                    pay_code: data.pay_code,
+                    provider: data.provider,
+                });
+                toast.success('Gateway channel updated successfully');
+            } else {
+                await assignMutation.mutateAsync({
+                    gatewayUid,
+                    channelUid: data.channel_uid,
+                    pay_code: data.pay_code,
+                    provider: data.provider,
+                });
+                toast.success('Channel assigned to gateway successfully');
+                form.reset();
+            }
+            queryClient.invalidateQueries({ queryKey: trpc.gateways.channels.list.queryKey() });
+            setOpen(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : `Failed to ${isEdit ? 'update' : 'assign'} channel`);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button size="sm">
+                        <PlusIcon className="h-4 w-4" />
+                        Assign Channel
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{isEdit ? 'Edit Channel Link' : 'Assign Channel'}</DialogTitle>
+                    <DialogDescription>
+                        {isEdit
+                            ? `Update how ${mapping.payment_channel_name || mapping.payment_channel_code || 'this channel'} is routed through this gateway.`
+                            : 'Link a payment channel to this gateway and set the provider pay code used for routing.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...form}>
+                    <form id="gateway-channel-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        {!isEdit && (
+                            <FormField
+                                control={form.control}
+                                name="channel_uid"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Channel</FormLabel>
+                                        <Select onValueChange={field.onChange} value={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger className="w-full" disabled={channelsLoading}>
+                                                    <SelectValue placeholder={channelsLoading ? 'Loading channels...' : 'Select a channel'} />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {assignableChannels.map((channel) => (
+                                                    <SelectItem key={channel.uid} value={channel.uid}>
+                                                        {channel.name} ({channel.code})
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {!channelsLoading && assignableChannels.length === 0 && (
+                                            <FormDescription>
+                                                All active channels are already linked to this gateway.
+                                            </FormDescription>
+                                        )}
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+
+                        <FormField
+                            control={form.control}
+                            name="pay_code"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Pay Code</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="e.g., MPESA_PAYBILL" {...field} />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Payment code the provider expects for this channel.
+                                    </FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name="provider"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Provider</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="e.g., Vodacom Tanzania" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </form>
+                </Form>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => setOpen(false)}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button type="submit" form="gateway-channel-form" disabled={isPending}>
+                        {isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {isEdit ? 'Save Changes' : 'Assign Channel'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
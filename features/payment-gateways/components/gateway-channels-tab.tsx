@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { IconLoader, IconChevronLeft, IconChevronRight, IconChevronsLeft, IconChevronsRight } from '@tabler/icons-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { useTRPC } from '@/lib/trpc/client';
+import type { GatewayChannel } from '@/lib/definitions';
+import { GatewayChannelDialog } from './gateway-channel-dialog';
+
+interface GatewayChannelsTabProps {
+    gatewayUid: string;
+}
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy');
+    } catch {
+        return dateString;
+    }
+}
+
+function ChannelLinkToggle({ mapping }: { mapping: GatewayChannel }) {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    const mutationOptions = {
+        onSuccess: (data: { message: string }) => {
+            toast.success(data.message);
+            queryClient.invalidateQueries({ queryKey: trpc.gateways.channels.list.queryKey() });
+        },
+        onError: (error: { message: string }) => {
+            toast.error(error.message || 'Failed to update channel link');
+        },
+    };
+    const activateMutation = useMutation(trpc.gateways.channels.activate.mutationOptions(mutationOptions));
+    const deactivateMutation = useMutation(trpc.gateways.channels.deactivate.mutationOptions(mutationOptions));
+    const isPending = activateMutation.isPending || deactivateMutation.isPending;
+
+    return (
+        <Switch
+            checked={mapping.is_active}
+            disabled={isPending}
+            aria-label={mapping.is_active ? 'Deactivate channel link' : 'Activate channel link'}
+            onCheckedChange={(checked) => {
+                if (checked) {
+                    activateMutation.mutate({ id: mapping.id });
+                } else {
+                    deactivateMutation.mutate({ id: mapping.id });
+                }
+            }}
+        />
+    );
+}
+
+export default function GatewayChannelsTab({ gatewayUid }: GatewayChannelsTabProps) {
+    const [page, setPage] = useState(1);
+    const perPage = 15;
+    const trpc = useTRPC();
+
+    const { data, isLoading, error } = useQuery(
+        trpc.gateways.channels.list.queryOptions({
+            gatewayUid,
+            page: page.toString(),
+            per_page: perPage.toString(),
+        })
+    );
+
+    if (isLoading) {
+        return (
+            <Card>
+                <CardHeader>
+                    <CardTitle>Channels</CardTitle>
+                    <CardDescription>Payment channels routed through this gateway</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex items-center justify-center py-8">
+                        <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    if (error) {
+        return (
+            <Card>
+                <CardHeader>
+                    <CardTitle>Channels</CardTitle>
+                    <CardDescription>Payment channels routed through this gateway</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="text-destructive py-8 text-center">
+                        {error instanceof Error ? error.message : 'Failed to load gateway channels'}
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const mappings = data?.data || [];
+    const linkedChannelUids = mappings.map((mapping) => mapping.payment_channel_uid);
+    const paginationMeta = data ?? {
+        pageNumber: page,
+        pageSize: perPage,
+        totalElements: 0,
+        totalPages: 0,
+        last: true,
+        first: true,
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle>Channels</CardTitle>
+                        <CardDescription>
+                            {paginationMeta.totalElements > 0
+                                ? `${paginationMeta.totalElements} channel${paginationMeta.totalElements !== 1 ? 's' : ''} linked`
+                                : 'No channels linked to this gateway'}
+                        </CardDescription>
+                    </div>
+                    <GatewayChannelDialog gatewayUid={gatewayUid} linkedChannelUids={linkedChannelUids} />
+                </div>
+            </CardHeader>
+            <CardContent>
+                {mappings.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center gap-4 py-8">
+                        <p className="text-muted-foreground">
+                            This gateway does not route any channels yet.
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="rounded-lg border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Channel</TableHead>
+                                        <TableHead>Pay Code</TableHead>
+                                        <TableHead>Provider</TableHead>
+                                        <TableHead>Active</TableHead>
+                                        <TableHead>Updated</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {mappings.map((mapping) => (
+                                        <TableRow key={mapping.id}>
+                                            <TableCell>
+                                                <div className="font-medium">{mapping.payment_channel_name || '-'}</div>
+                                                <div className="font-mono text-xs text-muted-foreground">{mapping.payment_channel_code}</div>
+                                            </TableCell>
+                                            <TableCell className="font-mono text-sm">{mapping.pay_code || '-'}</TableCell>
+                                            <TableCell>{mapping.provider || '-'}</TableCell>
+                                            <TableCell>
+                                                <ChannelLinkToggle mapping={mapping} />
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {formatDate(mapping.updated_at ?? mapping.created_at)}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <GatewayChannelDialog
+                                                    gatewayUid={gatewayUid}
+                                                    mapping={mapping}
+                                                    trigger={
+                                                        <Button variant="ghost" size="sm">
+                                                            Edit
+                                                        </Button>
+                                                    }
+                                                />
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        {/* Pagination */}
+                        {paginationMeta.totalPages > 1 && (
+                            <div className="flex items-center justify-between mt-4">
+                                <div className="text-sm text-muted-foreground">
+                                    Page {paginationMeta.pageNumber} of {paginationMeta.totalPages}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setPage(1)}
+                                        disabled={paginationMeta.first}
+                                    >
+                                        <IconChevronsLeft className="size-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setPage(page - 1)}
+                                        disabled={paginationMeta.first}
+                                    >
+                                        <IconChevronLeft className="size-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setPage(page + 1)}
+                                        disabled={paginationMeta.last}
+                                    >
+                                        <IconChevronRight className="size-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setPage(paginationMeta.totalPages)}
+                                        disabled={paginationMeta.last}
+                                    >
+                                        <IconChevronsRight className="size-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
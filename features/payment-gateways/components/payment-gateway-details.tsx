@@ -0,0 +1,102 @@
+'use client';
+
+import { useTRPC } from '@/lib/trpc/client';
+import { useQuery } from '@tanstack/react-query';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { IconArrowLeft, IconLoader } from '@tabler/icons-react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import PaymentGatewayOverviewTab from './payment-gateway-overview-tab';
+import GatewayChannelsTab from './gateway-channels-tab';
+
+interface PaymentGatewayDetailsProps {
+    gatewayUid: string;
+}
+
+export default function PaymentGatewayDetails({ gatewayUid }: PaymentGatewayDetailsProps) {
+    const router = useRouter();
+    const trpc = useTRPC();
+    const { data: gateway, isLoading, error } = useQuery(
+        trpc.gateways.getByUid.queryOptions({ uid: gatewayUid })
+    );
+
+    if (isLoading) {
+        return (
+            <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+                <div className="flex items-center gap-4 px-4 lg:px-6">
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => router.push('/gateways')}
+                    >
+                        <IconArrowLeft className="size-4" />
+                    </Button>
+                    <div className="flex items-center gap-2">
+                        <IconLoader className="size-4 animate-spin" />
+                        <span className="text-muted-foreground">Loading gateway details...</span>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !gateway) {
+        return (
+            <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+                <div className="flex items-center gap-4 px-4 lg:px-6">
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => router.push('/gateways')}
+                    >
+                        <IconArrowLeft className="size-4" />
+                    </Button>
+                    <div className="text-destructive">
+                        {error instanceof Error ? error.message : 'Failed to load gateway details'}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center gap-4 px-4 lg:px-6">
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => router.push('/gateways')}
+                >
+                    <IconArrowLeft className="size-4" />
+                </Button>
+                <div>
+                    <div className="flex items-center gap-2">
+                        <h1 className="text-2xl font-bold tracking-tight">{gateway.name}</h1>
+                        <Badge variant={gateway.is_active ? 'default' : 'secondary'}>
+                            {gateway.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                    </div>
+                    <p className="text-muted-foreground">
+                        {gateway.code} • {gateway.uid}
+                    </p>
+                </div>
+            </div>
+
+            <Tabs defaultValue="overview" className="flex flex-1 flex-col gap-4 px-4 lg:px-6">
+                <TabsList>
+                    <TabsTrigger value="overview">Overview</TabsTrigger>
+                    <TabsTrigger value="channels">Channels</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="overview" className="flex-1">
+                    <PaymentGatewayOverviewTab gateway={gateway} />
+                </TabsContent>
+
+                <TabsContent value="channels" className="flex-1">
+                    <GatewayChannelsTab gatewayUid={gatewayUid} />
+                </TabsContent>
+            </Tabs>
+        </div>
+    );
+}
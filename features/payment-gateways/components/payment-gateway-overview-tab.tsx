@@ -0,0 +1,98 @@
+'use client';
+
+import { PaymentGateway } from '@/lib/definitions';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+
+interface PaymentGatewayOverviewTabProps {
+    gateway: PaymentGateway;
+}
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+export default function PaymentGatewayOverviewTab({ gateway }: PaymentGatewayOverviewTabProps) {
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Basic Information */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Basic Information</CardTitle>
+                    <CardDescription>Payment gateway configuration</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div>
+                        <p className="text-sm text-muted-foreground">Gateway ID</p>
+                        <p className="font-mono text-sm">{gateway.id}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">UID</p>
+                        <p className="font-mono text-sm">{gateway.uid}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">Code</p>
+                        <p className="font-mono">{gateway.code}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">Name</p>
+                        <p className="font-medium">{gateway.name}</p>
+                    </div>
+                    <div className="md:col-span-2">
+                        <p className="text-sm text-muted-foreground mb-1">Supported Methods</p>
+                        <div className="flex flex-wrap gap-1">
+                            {gateway.supported_methods.length > 0 ? (
+                                gateway.supported_methods.map((method) => (
+                                    <Badge key={method} variant="outline">{method}</Badge>
+                                ))
+                            ) : (
+                                <span className="text-muted-foreground">-</span>
+                            )}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* API URLs */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>API URLs</CardTitle>
+                    <CardDescription>Provider endpoints used by the engine</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div>
+                        <p className="text-sm text-muted-foreground">Production</p>
+                        <p className="font-mono text-sm break-all">{gateway.api_base_url_production || '-'}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">Sandbox</p>
+                        <p className="font-mono text-sm break-all">{gateway.api_base_url_sandbox || '-'}</p>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Timestamps */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Timestamps</CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div>
+                        <p className="text-sm text-muted-foreground">Created</p>
+                        <p>{formatDate(gateway.created_at)}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground">Updated</p>
+                        <p>{formatDate(gateway.updated_at)}</p>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
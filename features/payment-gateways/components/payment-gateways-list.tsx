@@ -1,46 +1,24 @@
 'use client';
 
-import { useEffect, useMemo } from 'react';
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { PaymentGatewaysTable } from './payment-gateways-table';
 import { NewPaymentGatewayDrawer } from './new-payment-gateway-drawer';
-import { usePaymentGatewaysTableStore } from '@/lib/stores/payment-gateways-table-store';
+import {
+    usePaymentGatewaysTableStore,
+    paymentGatewaysUrlState,
+    toPaymentGatewaysListInput,
+} from '@/lib/stores/payment-gateways-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedPaymentGatewayResponse } from '@/lib/definitions';
 
 export default function PaymentGatewaysList() {
     const trpc = useTRPC();
-    const { pagination, sorting, columnFilters, setPagination } = usePaymentGatewaysTableStore();
 
-    // Reset to first page when sorting or filtering changes
-    useEffect(() => {
-        const currentPagination = usePaymentGatewaysTableStore.getState().pagination;
-        setPagination({ ...currentPagination, pageIndex: 0 });
-    }, [sorting, columnFilters, setPagination]);
-
-    // Convert column filters to query parameters
-    const filterParams = useMemo(() => {
-        const params: { is_active?: string; search?: string } = {};
-
-        columnFilters.forEach(filter => {
-            if (filter.id === 'is_active' && Array.isArray(filter.value)) {
-                // For is_active filter, convert boolean strings to string for API
-                const activeValues = filter.value as string[];
-                if (activeValues.length > 0) {
-                    params.is_active = activeValues[0];
-                }
-            } else if (filter.id === 'search' && typeof filter.value === 'string') {
-                params.search = filter.value;
-            }
-        });
-
-        return params;
-    }, [columnFilters]);
+    const { pagination, sorting, columnFilters } = useTableUrlState(usePaymentGatewaysTableStore, paymentGatewaysUrlState);
 
     // Build query params for tRPC
-    const queryParams = useMemo(() => ({
-        ...filterParams,
-    }), [filterParams]);
+    const queryParams = toPaymentGatewaysListInput({ pagination, sorting, columnFilters });
 
     // Use tRPC query with Suspense
     const queryResult = useSuspenseQuery(
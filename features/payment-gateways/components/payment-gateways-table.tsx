@@ -23,6 +23,7 @@ import {
     useReactTable,
 } from "@tanstack/react-table"
 import { format } from "date-fns"
+import { useRouter } from "next/navigation"
 
 import { useIsMobile } from "@/hooks/use-mobile"
 import { PaymentGateway, PaymentGatewaySchema } from "@/lib/definitions"
@@ -118,6 +119,7 @@ function SortableHeader({
 
 // Action cell component with hooks
 function ActionCell({ gateway }: { gateway: PaymentGateway }) {
+    const router = useRouter()
     const trpc = useTRPC()
     const queryClient = useQueryClient()
 
@@ -171,6 +173,9 @@ function ActionCell({ gateway }: { gateway: PaymentGateway }) {
                         </DropdownMenuItem>
                     }
                 />
+                <DropdownMenuItem onClick={() => router.push(`/gateways/${gateway.uid}`)}>
+                    Manage Channels
+                </DropdownMenuItem>
                 <DropdownMenuItem>Edit</DropdownMenuItem>
                 <DropdownMenuSeparator />
                 {gateway.is_active ? (
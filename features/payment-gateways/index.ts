@@ -2,5 +2,5 @@ export { default as PaymentGatewaysList } from './components/payment-gateways-li
 export { PaymentGatewaysTable } from './components/payment-gateways-table';
 export { NewPaymentGatewayDrawer } from './components/new-payment-gateway-drawer';
 export { NewPaymentGatewayForm } from './components/new-payment-gateway-form';
-
-
+export { default as PaymentGatewayDetails } from './components/payment-gateway-details';
+export { GatewayChannelDialog } from './components/gateway-channel-dialog';
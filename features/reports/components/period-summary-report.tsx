@@ -0,0 +1,279 @@
+'use client';
+
+import { IconDownload } from '@tabler/icons-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import type { PeriodSummary } from '@/lib/definitions';
+import type { ReportSection } from '../utils/report-csv';
+
+interface PeriodSummaryReportProps {
+    summary: PeriodSummary;
+    /** Plural noun for the summarised records, e.g. 'Transactions' */
+    entityLabel: string;
+    onExport: (section: ReportSection) => void;
+}
+
+const chartConfig = {
+    value: {
+        label: 'Volume',
+        color: 'var(--chart-1)',
+    },
+} satisfies ChartConfig;
+
+function formatNumber(value: number): string {
+    return new Intl.NumberFormat('en-US').format(value);
+}
+
+function formatCurrency(value: number, currency: string | null): string {
+    if (!currency) {
+        return new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+    }
+    try {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+        }).format(value);
+    } catch {
+        // Unknown currency code
+        return `${currency} ${formatNumber(value)}`;
+    }
+}
+
+function formatPercentage(value: number | null): string {
+    return value === null ? '-' : `${value.toFixed(2)}%`;
+}
+
+function ExportButton({ onClick }: { onClick: () => void }) {
+    return (
+        <Button variant="ghost" size="sm" onClick={onClick}>
+            <IconDownload />
+            CSV
+        </Button>
+    );
+}
+
+function EmptyBreakdown() {
+    return (
+        <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            No data for this period
+        </div>
+    );
+}
+
+export function PeriodSummaryReport({ summary, entityLabel, onExport }: PeriodSummaryReportProps) {
+    const { currency } = summary;
+
+    const overview = [
+        { label: `Total ${entityLabel}`, value: formatNumber(summary.totalCount) },
+        { label: 'Total Amount', value: formatCurrency(summary.totalAmount, currency) },
+        { label: 'Success Rate', value: formatPercentage(summary.successRate) },
+        { label: 'Average Amount', value: formatCurrency(summary.averageAmount, currency) },
+    ];
+
+    const details = [
+        { label: 'Successful', value: formatNumber(summary.successfulCount) },
+        { label: 'Failed', value: formatNumber(summary.failedCount) },
+        { label: 'Pending', value: formatNumber(summary.pendingCount) },
+        { label: 'Cancelled', value: formatNumber(summary.cancelledCount) },
+        { label: 'Successful Amount', value: formatCurrency(summary.successfulAmount, currency) },
+        { label: 'Failure Rate', value: formatPercentage(summary.failureRate) },
+        { label: 'Growth Rate', value: formatPercentage(summary.growthRate) },
+        { label: 'Avg. Processing Time', value: summary.averageProcessingTime ?? '-' },
+        { label: 'Peak Hour', value: summary.peakHour ?? '-' },
+        { label: 'Peak Day', value: summary.peakDay ?? '-' },
+        { label: 'Unique Merchants', value: summary.uniqueMerchants === null ? '-' : formatNumber(summary.uniqueMerchants) },
+        { label: 'Trend', value: summary.trend ?? '-' },
+    ];
+
+    return (
+        <div className="space-y-4">
+            {/* Overview */}
+            <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs @xl/main:grid-cols-2 @3xl/main:grid-cols-4">
+                {overview.map((item) => (
+                    <Card key={item.label} className="@container/card">
+                        <CardHeader>
+                            <CardDescription>{item.label}</CardDescription>
+                            <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+                                {item.value}
+                            </CardTitle>
+                        </CardHeader>
+                    </Card>
+                ))}
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Overview</CardTitle>
+                    <CardDescription>
+                        {summary.periodStart} to {summary.periodEnd}
+                        {summary.generatedAt && ` - generated ${summary.generatedAt}`}
+                        {!currency && ' - amounts in mixed or unreported currencies'}
+                    </CardDescription>
+                    <CardAction>
+                        <ExportButton onClick={() => onExport('overview')} />
+                    </CardAction>
+                </CardHeader>
+                <CardContent>
+                    <dl className="grid grid-cols-2 gap-4 text-sm @xl/main:grid-cols-3 @3xl/main:grid-cols-6">
+                        {details.map((item) => (
+                            <div key={item.label}>
+                                <dt className="text-muted-foreground">{item.label}</dt>
+                                <dd className="font-medium tabular-nums">{item.value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                </CardContent>
+            </Card>
+
+            {/* Breakdown charts */}
+            <div className="grid grid-cols-1 gap-4 @3xl/main:grid-cols-2">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Hourly Breakdown</CardTitle>
+                        <CardDescription>Volume by hour of day</CardDescription>
+                        <CardAction>
+                            <ExportButton onClick={() => onExport('hourly')} />
+                        </CardAction>
+                    </CardHeader>
+                    <CardContent>
+                        {summary.hourly.length === 0 ? (
+                            <EmptyBreakdown />
+                        ) : (
+                            <ChartContainer config={chartConfig} className="aspect-auto h-[250px] w-full">
+                                <BarChart data={summary.hourly}>
+                                    <CartesianGrid vertical={false} />
+                                    <XAxis dataKey="hour" tickLine={false} axisLine={false} tickMargin={8} />
+                                    <YAxis tickLine={false} axisLine={false} width={48} />
+                                    <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                                    <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                                </BarChart>
+                            </ChartContainer>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Daily Breakdown</CardTitle>
+                        <CardDescription>Volume by day</CardDescription>
+                        <CardAction>
+                            <ExportButton onClick={() => onExport('daily')} />
+                        </CardAction>
+                    </CardHeader>
+                    <CardContent>
+                        {summary.daily.length === 0 ? (
+                            <EmptyBreakdown />
+                        ) : (
+                            <ChartContainer config={chartConfig} className="aspect-auto h-[250px] w-full">
+                                <BarChart data={summary.daily}>
+                                    <CartesianGrid vertical={false} />
+                                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                                    <YAxis tickLine={false} axisLine={false} width={48} />
+                                    <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                                    <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                                </BarChart>
+                            </ChartContainer>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Gateways and merchants */}
+            <div className="grid grid-cols-1 gap-4 @3xl/main:grid-cols-2">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Gateway Success Rates</CardTitle>
+                        <CardDescription>{summary.gateways.length} gateways</CardDescription>
+                        <CardAction>
+                            <ExportButton onClick={() => onExport('gateways')} />
+                        </CardAction>
+                    </CardHeader>
+                    <CardContent>
+                        {summary.gateways.length === 0 ? (
+                            <EmptyBreakdown />
+                        ) : (
+                            <div className="rounded-lg border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Gateway</TableHead>
+                                            <TableHead className="text-right">Count</TableHead>
+                                            <TableHead className="text-right">Amount</TableHead>
+                                            <TableHead className="text-right">Success Rate</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {summary.gateways.map((gateway) => (
+                                            <TableRow key={gateway.gateway}>
+                                                <TableCell className="font-medium">{gateway.gateway}</TableCell>
+                                                <TableCell className="text-right tabular-nums">{formatNumber(gateway.count)}</TableCell>
+                                                <TableCell className="text-right tabular-nums">{formatCurrency(gateway.amount, currency)}</TableCell>
+                                                <TableCell className="text-right">
+                                                    {gateway.successRate === null ? '-' : (
+                                                        <Badge variant={gateway.successRate >= 90 ? 'secondary' : gateway.successRate >= 70 ? 'outline' : 'destructive'}>
+                                                            {formatPercentage(gateway.successRate)}
+                                                        </Badge>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Top Merchants</CardTitle>
+                        <CardDescription>By volume for the period</CardDescription>
+                        <CardAction>
+                            <ExportButton onClick={() => onExport('merchants')} />
+                        </CardAction>
+                    </CardHeader>
+                    <CardContent>
+                        {summary.topMerchants.length === 0 ? (
+                            <EmptyBreakdown />
+                        ) : (
+                            <div className="rounded-lg border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead className="w-12">#</TableHead>
+                                            <TableHead>Merchant</TableHead>
+                                            <TableHead className="text-right">Volume</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {summary.topMerchants.map((merchant, index) => (
+                                            <TableRow key={merchant.merchant}>
+                                                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                                                <TableCell className="font-medium">{merchant.merchant}</TableCell>
+                                                <TableCell className="text-right tabular-nums">{formatNumber(merchant.value)}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { skipToken, useQuery } from '@tanstack/react-query';
+import { IconDownload, IconLoader } from '@tabler/icons-react';
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek, subDays } from 'date-fns';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useTRPC } from '@/lib/trpc/client';
+import { downloadCsv } from '@/lib/csv';
+import { PeriodSummaryReport } from './period-summary-report';
+import { REPORT_SECTION_LABELS, reportSectionToCsv, reportToCsv, type ReportSection } from '../utils/report-csv';
+
+type ReportEntity = 'transactions' | 'disbursements';
+type ReportPeriod = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+const ENTITY_LABELS: Record<ReportEntity, string> = {
+    transactions: 'Transactions',
+    disbursements: 'Disbursements',
+};
+
+const REPORT_PERIODS: { value: ReportPeriod; label: string }[] = [
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'custom', label: 'Custom' },
+];
+
+interface ReportsViewProps {
+    canViewTransactions: boolean;
+    canViewDisbursements: boolean;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Date range (yyyy-MM-dd, inclusive) of the period containing the anchor date; weeks start on Monday
+ */
+function getPeriodRange(
+    period: ReportPeriod,
+    anchorDate: string,
+    customRange: { startDate: string; endDate: string }
+): { startDate: string; endDate: string } {
+    const anchor = parseISO(anchorDate);
+    switch (period) {
+        case 'daily':
+            return { startDate: anchorDate, endDate: anchorDate };
+        case 'weekly':
+            return {
+                startDate: toDateString(startOfWeek(anchor, { weekStartsOn: 1 })),
+                endDate: toDateString(endOfWeek(anchor, { weekStartsOn: 1 })),
+            };
+        case 'monthly':
+            return { startDate: toDateString(startOfMonth(anchor)), endDate: toDateString(endOfMonth(anchor)) };
+        case 'custom':
+            return customRange;
+    }
+}
+
+export default function ReportsView({ canViewTransactions, canViewDisbursements }: ReportsViewProps) {
+    const entities = (Object.keys(ENTITY_LABELS) as ReportEntity[]).filter((key) =>
+        key === 'transactions' ? canViewTransactions : canViewDisbursements
+    );
+    const [entity, setEntity] = useState<ReportEntity>(entities[0] ?? 'transactions');
+    const [period, setPeriod] = useState<ReportPeriod>('daily');
+    const [anchorDate, setAnchorDate] = useState(() => toDateString(new Date()));
+    const [customRange, setCustomRange] = useState(() => ({
+        startDate: toDateString(subDays(new Date(), 29)),
+        endDate: toDateString(new Date()),
+    }));
+    const trpc = useTRPC();
+
+    const range = getPeriodRange(period, anchorDate, customRange);
+    const rangeError = !range.startDate || !range.endDate
+        ? 'Select a date'
+        : range.startDate > range.endDate
+            ? 'The start date must be on or before the end date'
+            : null;
+
+    const transactionsSummary = useQuery(
+        trpc.transactions.summary.queryOptions(entity === 'transactions' && !rangeError ? range : skipToken)
+    );
+    const disbursementsSummary = useQuery(
+        trpc.disbursements.summary.queryOptions(entity === 'disbursements' && !rangeError ? range : skipToken)
+    );
+    const { data: summary, isLoading, error } = entity === 'transactions' ? transactionsSummary : disbursementsSummary;
+
+    const handleExport = (section?: ReportSection) => {
+        if (!summary) return;
+        const name = section ? `-${section}` : '';
+        downloadCsv(
+            section ? reportSectionToCsv(summary, section) : reportToCsv(summary),
+            `${entity}-summary${name}-${range.startDate}_${range.endDate}.csv`
+        );
+        toast.success(`Exported ${section ? REPORT_SECTION_LABELS[section] : `${ENTITY_LABELS[entity]} summary`}`);
+    };
+
+    return (
+        <div className="@container/main flex flex-1 flex-col gap-2 py-2">
+            <div className="flex items-center justify-between gap-4 px-4 lg:px-6">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight">Reports</h1>
+                    <p className="text-muted-foreground">
+                        Period summaries with hourly and daily breakdowns, gateway success rates and top merchants.
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleExport()} disabled={!summary}>
+                    <IconDownload />
+                    Export Report (CSV)
+                </Button>
+            </div>
+
+            <div className="flex flex-col gap-4 px-4 lg:px-6">
+                <div className="flex flex-wrap items-end gap-4">
+                    {entities.length > 1 && (
+                        <Tabs value={entity} onValueChange={(value) => setEntity(value as ReportEntity)}>
+                            <TabsList>
+                                {entities.map((key) => (
+                                    <TabsTrigger key={key} value={key}>
+                                        {ENTITY_LABELS[key]}
+                                    </TabsTrigger>
+                                ))}
+                            </TabsList>
+                        </Tabs>
+                    )}
+
+                    <Tabs value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+                        <TabsList>
+                            {REPORT_PERIODS.map((option) => (
+                                <TabsTrigger key={option.value} value={option.value}>
+                                    {option.label}
+                                </TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+
+                    {period === 'custom' ? (
+                        <>
+                            <div className="space-y-1">
+                                <Label htmlFor="report-start-date" className="text-xs text-muted-foreground">From</Label>
+                                <Input
+                                    id="report-start-date"
+                                    type="date"
+                                    className="h-9 w-40"
+                                    value={customRange.startDate}
+                                    onChange={(e) => setCustomRange((current) => ({ ...current, startDate: e.target.value }))}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="report-end-date" className="text-xs text-muted-foreground">To</Label>
+                                <Input
+                                    id="report-end-date"
+                                    type="date"
+                                    className="h-9 w-40"
+                                    value={customRange.endDate}
+                                    onChange={(e) => setCustomRange((current) => ({ ...current, endDate: e.target.value }))}
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <div className="space-y-1">
+                            <Label htmlFor="report-anchor-date" className="text-xs text-muted-foreground">
+                                {period === 'daily' ? 'Day' : period === 'weekly' ? 'Any day in the week' : 'Any day in the month'}
+                            </Label>
+                            <Input
+                                id="report-anchor-date"
+                                type="date"
+                                className="h-9 w-40"
+                                value={anchorDate}
+                                onChange={(e) => setAnchorDate(e.target.value)}
+                            />
+                        </div>
+                    )}
+
+                    {!rangeError && (
+                        <p className="pb-2 text-sm text-muted-foreground">
+                            {range.startDate === range.endDate ? range.startDate : `${range.startDate} to ${range.endDate}`}
+                        </p>
+                    )}
+                </div>
+
+                {rangeError ? (
+                    <div className="text-destructive py-8 text-center">{rangeError}</div>
+                ) : isLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                        <IconLoader className="size-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <div className="text-destructive py-8 text-center">
+                        {error.message || 'Failed to load summary'}
+                    </div>
+                ) : summary ? (
+                    <PeriodSummaryReport summary={summary} entityLabel={ENTITY_LABELS[entity]} onExport={handleExport} />
+                ) : null}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+import type { PeriodSummary } from '@/lib/definitions';
+import { toCsv } from '@/lib/csv';
+
+export type ReportSection = 'overview' | 'hourly' | 'daily' | 'gateways' | 'merchants';
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+    overview: 'Overview',
+    hourly: 'Hourly Breakdown',
+    daily: 'Daily Breakdown',
+    gateways: 'Gateway Success Rates',
+    merchants: 'Top Merchants',
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '' : rate.toFixed(2));
+
+/**
+ * One section of a period summary as CSV
+ */
+export function reportSectionToCsv(summary: PeriodSummary, section: ReportSection): string {
+    switch (section) {
+        case 'overview':
+            return toCsv(['Metric', 'Value'], [
+                ['Period Start', summary.periodStart],
+                ['Period End', summary.periodEnd],
+                ['Currency', summary.currency ?? 'Mixed / unreported'],
+                ['Total Count', String(summary.totalCount)],
+                ['Successful', String(summary.successfulCount)],
+                ['Failed', String(summary.failedCount)],
+                ['Pending', String(summary.pendingCount)],
+                ['Cancelled', String(summary.cancelledCount)],
+                ['Total Amount', String(summary.totalAmount)],
+                ['Successful Amount', String(summary.successfulAmount)],
+                ['Average Amount', String(summary.averageAmount)],
+                ['Success Rate (%)', formatRate(summary.successRate)],
+                ['Failure Rate (%)', formatRate(summary.failureRate)],
+                ['Growth Rate (%)', formatRate(summary.growthRate)],
+                ['Average Processing Time', summary.averageProcessingTime ?? ''],
+                ['Peak Hour', summary.peakHour ?? ''],
+                ['Peak Day', summary.peakDay ?? ''],
+                ['Unique Merchants', summary.uniqueMerchants === null ? '' : String(summary.uniqueMerchants)],
+            ]);
+        case 'hourly':
+            return toCsv(['Hour', 'Value'], summary.hourly.map((entry) => [entry.hour, String(entry.value)]));
+        case 'daily':
+            return toCsv(['Date', 'Value'], summary.daily.map((entry) => [entry.date, String(entry.value)]));
+        case 'gateways':
+            return toCsv(
+                ['Gateway', 'Count', 'Amount', 'Success Rate (%)'],
+                summary.gateways.map((gateway) => [
+                    gateway.gateway,
+                    String(gateway.count),
+                    String(gateway.amount),
+                    formatRate(gateway.successRate),
+                ])
+            );
+        case 'merchants':
+            return toCsv(['Merchant', 'Value'], summary.topMerchants.map((merchant) => [merchant.merchant, String(merchant.value)]));
+    }
+}
+
+/**
+ * Every section of a period summary in one CSV, each headed by its name and separated by a blank line
+ */
+export function reportToCsv(summary: PeriodSummary): string {
+    return (Object.keys(REPORT_SECTION_LABELS) as ReportSection[])
+        .map((section) => `${REPORT_SECTION_LABELS[section]}\r\n${reportSectionToCsv(summary, section)}`)
+        .join('\r\n\r\n');
+}
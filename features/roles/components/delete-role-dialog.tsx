@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { useTRPC } from '@/lib/trpc/client';
+import type { Role } from '../types';
+
+interface DeleteRoleDialogProps {
+    role: Role;
+    trigger: React.ReactNode;
+}
+
+export function DeleteRoleDialog({ role, trigger }: DeleteRoleDialogProps) {
+    const [open, setOpen] = useState(false);
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+
+    const deleteMutation = useMutation(
+        trpc.users.roles.delete.mutationOptions({
+            onSuccess: (data) => {
+                toast.success(data.message);
+                setOpen(false);
+                queryClient.invalidateQueries({ queryKey: trpc.users.roles.list.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.users.roles.all.queryKey() });
+            },
+            onError: (error) => {
+                toast.error(error.message || 'Failed to delete role');
+            },
+        })
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Delete Role</DialogTitle>
+                    <DialogDescription>
+                        {role.displayName || role.name} will be permanently deleted. Users holding this role will lose
+                        the permissions it grants. This action cannot be undone.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => setOpen(false)}
+                        disabled={deleteMutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={() => deleteMutation.mutate({ id: role.id })}
+                        disabled={deleteMutation.isPending}
+                    >
+                        {deleteMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Delete
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+
+interface PermissionGroup {
+    key: string;
+    label: string;
+    permissions: string[];
+}
+
+/**
+ * Permission groups derived from the PERMISSIONS constant.
+ * Wildcard entries (e.g. 'users.*', '*') are not selectable on their own.
+ */
+export const PERMISSION_GROUPS: PermissionGroup[] = Object.entries(PERMISSIONS).map(([key, group]) => ({
+    key,
+    label: key
+        .split('_')
+        .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+        .join(' '),
+    permissions: Object.entries(group)
+        .filter(([name]) => name !== 'ALL')
+        .map(([, permission]) => permission as string),
+}));
+
+const ALL_PERMISSIONS = PERMISSION_GROUPS.flatMap((group) => group.permissions);
+
+/**
+ * Expand wildcard permissions ('*', 'users.*') into the concrete permissions they grant
+ */
+export function expandPermissions(permissions: string[]): string[] {
+    if (permissions.includes(PERMISSIONS.SYSTEM.ALL)) {
+        return ALL_PERMISSIONS;
+    }
+
+    const expanded = new Set<string>();
+    permissions.forEach((permission) => {
+        if (permission.endsWith('.*')) {
+            const prefix = permission.slice(0, -1);
+            ALL_PERMISSIONS.filter((p) => p.startsWith(prefix)).forEach((p) => expanded.add(p));
+        } else {
+            expanded.add(permission);
+        }
+    });
+
+    return Array.from(expanded);
+}
+
+function formatPermission(permission: string): string {
+    const action = permission.split('.').pop() ?? permission;
+    return action.charAt(0).toUpperCase() + action.slice(1).replace(/_/g, ' ');
+}
+
+interface PermissionMatrixProps {
+    value: string[];
+    onChange: (permissions: string[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Grouped checkbox matrix for editing a role's permission set
+ */
+export function PermissionMatrix({ value, onChange, disabled }: PermissionMatrixProps) {
+    const selected = new Set(value);
+
+    const togglePermission = (permission: string, checked: boolean) => {
+        onChange(checked
+            ? [...value, permission]
+            : value.filter((p) => p !== permission)
+        );
+    };
+
+    const toggleGroup = (group: PermissionGroup, checked: boolean) => {
+        const rest = value.filter((p) => !group.permissions.includes(p));
+        onChange(checked ? [...rest, ...group.permissions] : rest);
+    };
+
+    return (
+        <div className="grid gap-4 sm:grid-cols-2">
+            {PERMISSION_GROUPS.map((group) => {
+                const selectedCount = group.permissions.filter((p) => selected.has(p)).length;
+                const groupState = selectedCount === group.permissions.length
+                    ? true
+                    : selectedCount > 0 ? 'indeterminate' : false;
+
+                return (
+                    <div key={group.key} className="space-y-3 rounded-md border p-3">
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id={`permission-group-${group.key}`}
+                                checked={groupState}
+                                onCheckedChange={(checked) => toggleGroup(group, checked === true)}
+                                disabled={disabled}
+                            />
+                            <Label htmlFor={`permission-group-${group.key}`} className="font-semibold">
+                                {group.label}
+                            </Label>
+                            <span className="ml-auto text-xs text-muted-foreground">
+                                {selectedCount}/{group.permissions.length}
+                            </span>
+                        </div>
+                        <div className="grid gap-2 pl-6">
+                            {group.permissions.map((permission) => (
+                                <div key={permission} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`permission-${permission}`}
+                                        checked={selected.has(permission)}
+                                        onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                                        disabled={disabled}
+                                    />
+                                    <Label htmlFor={`permission-${permission}`} className="font-normal" title={permission}>
+                                        {formatPermission(permission)}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
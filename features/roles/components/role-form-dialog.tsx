@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { getRolePermissions } from '@/lib/auth/permissions';
+import { useTRPC } from '@/lib/trpc/client';
+import { RoleFormSchema, type Role, type RoleFormInput } from '../types';
+import { expandPermissions, PermissionMatrix } from './permission-matrix';
+
+interface RoleFormDialogProps {
+    /** Role to edit; omit to create a new role */
+    role?: Role;
+    trigger: React.ReactNode;
+}
+
+/**
+ * Watches the role name and checks its availability via roles.exists after the user stops typing
+ */
+function useRoleNameAvailability(name: string, currentName: string | undefined) {
+    const trpc = useTRPC();
+    const [debouncedName, setDebouncedName] = useState('');
+    const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+    useEffect(() => {
+        if (timeoutRef.current) {
+            clearTimeout(timeoutRef.current);
+        }
+
+        timeoutRef.current = setTimeout(() => {
+            setDebouncedName(name.trim());
+        }, 400);
+
+        return () => {
+            if (timeoutRef.current) {
+                clearTimeout(timeoutRef.current);
+            }
+        };
+    }, [name]);
+
+    const needsCheck = (value: string) =>
+        value !== currentName && RoleFormSchema.shape.name.safeParse(value).success;
+    const shouldCheck = needsCheck(debouncedName);
+    const isDebouncing = name.trim() !== debouncedName && needsCheck(name.trim());
+
+    const { data, isFetching } = useQuery({
+        ...trpc.users.roles.exists.queryOptions({ name: debouncedName }),
+        enabled: shouldCheck,
+    });
+
+    return {
+        isChecking: isDebouncing || (shouldCheck && isFetching),
+        isTaken: !isDebouncing && shouldCheck && data?.exists === true,
+        isAvailable: !isDebouncing && shouldCheck && data?.exists === false,
+    };
+}
+
+function RoleForm({ role, formId, onSuccess, onPendingChange }: {
+    role?: Role;
+    formId: string;
+    onSuccess: () => void;
+    onPendingChange: (isPending: boolean) => void;
+}) {
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+
+    const form = useForm<RoleFormInput>({
+        resolver: zodResolver(RoleFormSchema),
+        defaultValues: {
+            name: role?.name ?? '',
+            displayName: role?.displayName ?? '',
+            description: role?.description ?? '',
+            permissions: expandPermissions(role?.permissions ?? (role ? getRolePermissions(role.name) : [])),
+        },
+    });
+
+    const name = useWatch({ control: form.control, name: 'name' });
+    const availability = useRoleNameAvailability(name, role?.name);
+
+    const mutationOptions = {
+        onSuccess: (data: { message: string }) => {
+            toast.success(data.message);
+            queryClient.invalidateQueries({ queryKey: trpc.users.roles.list.queryKey() });
+            queryClient.invalidateQueries({ queryKey: trpc.users.roles.all.queryKey() });
+            onSuccess();
+        },
+        onError: (error: { message: string }) => {
+            toast.error(error.message || `Failed to ${role ? 'update' : 'create'} role`);
+        },
+    };
+
+    const createMutation = useMutation(trpc.users.roles.create.mutationOptions(mutationOptions));
+    const updateMutation = useMutation(trpc.users.roles.update.mutationOptions(mutationOptions));
+    const isPending = createMutation.isPending || updateMutation.isPending;
+
+    useEffect(() => {
+        onPendingChange(isPending);
+    }, [isPending, onPendingChange]);
+
+    const onSubmit = (data: RoleFormInput) => {
+        if (availability.isTaken) {
+            form.setError('name', { message: 'A role with this name already exists' });
+            return;
+        }
+
+        if (role) {
+            updateMutation.mutate({ id: role.id, ...data });
+        } else {
+            createMutation.mutate(data);
+        }
+    };
+
+    return (
+        <Form {...form}>
+            <form id={formId} onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Name</FormLabel>
+                                <FormControl>
+                                    <Input
+                                        placeholder="PAYMENT_OPERATOR"
+                                        {...field}
+                                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                                    />
+                                </FormControl>
+                                {availability.isChecking ? (
+                                    <FormDescription>Checking availability...</FormDescription>
+                                ) : availability.isTaken ? (
+                                    <p className="text-sm text-destructive">A role with this name already exists</p>
+                                ) : availability.isAvailable ? (
+                                    <FormDescription>Name is available</FormDescription>
+                                ) : null}
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+
+                    <FormField
+                        control={form.control}
+                        name="displayName"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Display Name</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="Payment Operator" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+
+                <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Description</FormLabel>
+                            <FormControl>
+                                <Textarea rows={2} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+
+                <FormField
+                    control={form.control}
+                    name="permissions"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Permissions</FormLabel>
+                            <ScrollArea className="h-80 rounded-md border">
+                                <div className="p-3">
+                                    <PermissionMatrix
+                                        value={field.value}
+                                        onChange={field.onChange}
+                                        disabled={isPending}
+                                    />
+                                </div>
+                            </ScrollArea>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+            </form>
+        </Form>
+    );
+}
+
+/**
+ * Dialog for creating a role or editing an existing role's name, details and permission set
+ */
+export function RoleFormDialog({ role, trigger }: RoleFormDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [isPending, setIsPending] = useState(false);
+    const trpc = useTRPC();
+    const formId = role ? `edit-role-form-${role.id}` : 'create-role-form';
+
+    // The list payload may omit permissions, so load the full role before editing
+    const { data: roleDetail, isLoading } = useQuery({
+        ...trpc.users.roles.getByName.queryOptions({ name: role?.name ?? '' }),
+        enabled: open && !!role,
+    });
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{role ? 'Edit Role' : 'New Role'}</DialogTitle>
+                    <DialogDescription>
+                        {role
+                            ? `Update details and permissions for ${role.displayName || role.name}.`
+                            : 'Create a role and choose the permissions it grants.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Mount the form only while open so it picks up the latest role data */}
+                {open && (role && isLoading ? (
+                    <div className="flex items-center justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <RoleForm
+                        role={role ? { ...role, ...roleDetail } : undefined}
+                        formId={formId}
+                        onSuccess={() => setOpen(false)}
+                        onPendingChange={setIsPending}
+                    />
+                ))}
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => setOpen(false)}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        form={formId}
+                        disabled={isPending || (!!role && isLoading)}
+                    >
+                        {isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {role ? 'Save Changes' : 'Create Role'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,55 +2,30 @@
 
 import { useEffect, useMemo } from 'react';
 import { useSuspenseQuery, useQueryClient } from '@tanstack/react-query';
-import { RolesTable } from './roles-table';
-import { useRolesTableStore } from '@/lib/stores/roles-table-store';
+import { IconPlus } from '@tabler/icons-react';
+import { Button } from '@/components/ui/button';
+import { RoleFormDialog } from './role-form-dialog';
+import { RolesTable, type RoleActionPermissions } from './roles-table';
+import { useRolesTableStore, rolesUrlState, toRolesListInput } from '@/lib/stores/roles-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedRoleResponse } from '@/features/roles/types';
 
-export default function RolesList() {
-    const queryClient = useQueryClient();
-    const { pagination, sorting, columnFilters, setPagination } = useRolesTableStore();
-    const trpc = useTRPC();
+interface RolesListProps {
+    permissions?: RoleActionPermissions & { create: boolean };
+}
 
-    // Reset to first page when sorting or filtering changes
-    useEffect(() => {
-        const currentPagination = useRolesTableStore.getState().pagination;
-        setPagination({ ...currentPagination, pageIndex: 0 }); // 0-based for TanStack React Table
-    }, [sorting, columnFilters, setPagination]);
-
-    // Convert 0-based pageIndex to 1-based page number for API
-    const page = pagination.pageIndex + 1;
-    const per_page = pagination.pageSize;
-
-    // Convert sorting state to sort parameter format (e.g., "name,asc,displayName,desc")
-    const sortParams = useMemo(() => {
-        if (sorting.length === 0) return undefined;
-        return sorting.map(sort => {
-            const direction = sort.desc ? 'desc' : 'asc';
-            return `${sort.id},${direction}`;
-        }).join(',');
-    }, [sorting]);
-
-    // Convert column filters to query parameters
-    const filterParams = useMemo(() => {
-        const params: { search?: string } = {};
-
-        columnFilters.forEach(filter => {
-            if (filter.id === 'name' && typeof filter.value === 'string') {
-                params.search = filter.value;
-            }
-        });
+export default function RolesList({ permissions }: RolesListProps) {
+    const queryClient = useQueryClient();
 
-        return params;
-    }, [columnFilters]);
+    const { pagination, sorting, columnFilters } = useTableUrlState(useRolesTableStore, rolesUrlState);
+    const trpc = useTRPC();
 
     // Build query params for tRPC
-    const queryParams = useMemo(() => ({
-        page: page.toString(),
-        per_page: per_page.toString(),
-        ...(sortParams && { sort: sortParams }),
-        ...filterParams,
-    }), [page, per_page, sortParams, filterParams]);
+    const queryParams = useMemo(
+        () => toRolesListInput({ pagination, sorting, columnFilters }),
+        [pagination, sorting, columnFilters]
+    );
 
     // Use useSuspenseQuery for Suspense support
     const queryResult = useSuspenseQuery(
@@ -131,7 +106,7 @@ export default function RolesList() {
         first: data.first,
     } : {
         pageNumber: pagination.pageIndex,
-        pageSize: per_page,
+        pageSize: pagination.pageSize,
         totalElements: 0,
         totalPages: 0,
         last: true,
@@ -142,10 +117,21 @@ export default function RolesList() {
         <div className="@container/main flex flex-1 flex-col gap-2 py-2">
             <div className="flex items-center justify-between px-4 lg:px-6">
                 <h1 className="text-2xl font-semibold">Roles</h1>
+                {permissions?.create && (
+                    <RoleFormDialog
+                        trigger={
+                            <Button>
+                                <IconPlus className="size-4" />
+                                New Role
+                            </Button>
+                        }
+                    />
+                )}
             </div>
             <RolesTable
                 data={roles}
                 paginationMeta={paginationMeta}
+                permissions={permissions}
             />
         </div>
     )
@@ -23,6 +23,8 @@ import {
 
 import { Role } from "../types"
 import { useRolesTableStore } from "@/lib/stores/roles-table-store"
+import { DeleteRoleDialog } from "./delete-role-dialog"
+import { RoleFormDialog } from "./role-form-dialog"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -88,6 +90,15 @@ function SortableHeader({
     )
 }
 
+export interface RoleActionPermissions {
+    update: boolean
+    delete: boolean
+}
+
+interface RolesTableMeta {
+    permissions?: RoleActionPermissions
+}
+
 const columns: ColumnDef<Role>[] = [
     {
         id: "select",
@@ -178,7 +189,10 @@ const columns: ColumnDef<Role>[] = [
     },
     {
         id: "actions",
-        cell: ({ row }) => {
+        cell: ({ row, table }) => {
+            const role = row.original;
+            const permissions = (table.options.meta as RolesTableMeta | undefined)?.permissions;
+            const preventClose = (e: Event) => e.preventDefault();
             return (
                 <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -193,9 +207,29 @@ const columns: ColumnDef<Role>[] = [
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" className="w-40">
                         <DropdownMenuItem>View Details</DropdownMenuItem>
-                        <DropdownMenuItem>Edit</DropdownMenuItem>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem variant="destructive">Delete</DropdownMenuItem>
+                        {permissions?.update && (
+                            <RoleFormDialog
+                                role={role}
+                                trigger={
+                                    <DropdownMenuItem onSelect={preventClose}>
+                                        Edit
+                                    </DropdownMenuItem>
+                                }
+                            />
+                        )}
+                        {permissions?.delete && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DeleteRoleDialog
+                                    role={role}
+                                    trigger={
+                                        <DropdownMenuItem variant="destructive" onSelect={preventClose}>
+                                            Delete
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            </>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
             );
@@ -216,9 +250,11 @@ interface PaginationMeta {
 export function RolesTable({
     data,
     paginationMeta,
+    permissions,
 }: {
     data: Role[];
     paginationMeta: PaginationMeta;
+    permissions?: RoleActionPermissions;
 }) {
     "use no memo";
     const {
@@ -246,6 +282,7 @@ export function RolesTable({
             pagination: paginationState,
         },
         getRowId: (row) => row.id.toString(),
+        meta: { permissions } satisfies RolesTableMeta,
         enableRowSelection: true,
         onRowSelectionChange: setRowSelection,
         onSortingChange: (updater) => {
@@ -9,10 +9,27 @@ export const RoleSchema = z.object({
     name: z.string(),
     displayName: z.string(),
     description: z.string(),
+    permissions: z.array(z.string()).optional(),
 });
 
 export type Role = z.infer<typeof RoleSchema>;
 
+/**
+ * Role Form Schema
+ * Used by the create/edit role dialog
+ */
+export const RoleFormSchema = z.object({
+    name: z
+        .string()
+        .min(1, 'Name is required')
+        .regex(/^[A-Z][A-Z0-9_]*$/, 'Use upper-case letters, digits and underscores (e.g. PAYMENT_OPERATOR)'),
+    displayName: z.string().min(1, 'Display name is required'),
+    description: z.string(),
+    permissions: z.array(z.string()),
+});
+
+export type RoleFormInput = z.infer<typeof RoleFormSchema>;
+
 /**
  * Paginated Role Response
  * Matches the API response structure with pagination metadata
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+
+import { Badge } from '@/components/ui/badge';
+import { StaleQueue, type StaleQueueColumn } from '@/components/stale-queue';
+import { useTRPC } from '@/lib/trpc/client';
+import { DEFAULT_STALE_THRESHOLD_MINUTES } from '@/lib/stale-queue';
+import type { Transaction } from '@/lib/definitions';
+
+interface StaleTransactionsQueueProps {
+    canProcess: boolean;
+}
+
+function formatAmount(amount: string, currency: string): string {
+    const formatted = parseFloat(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency ? `${currency} ${formatted}` : formatted;
+}
+
+function formatDate(dateString: string | null | undefined): string {
+    if (!dateString) return '-';
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+const STALE_TRANSACTION_COLUMNS: StaleQueueColumn<Transaction>[] = [
+    {
+        header: 'Transaction',
+        cell: (transaction) => (
+            <div className="font-mono text-xs">{transaction.internalTransactionId || transaction.uid}</div>
+        ),
+    },
+    {
+        header: 'Merchant',
+        cell: (transaction) => transaction.merchantName || '-',
+    },
+    {
+        header: 'Gateway',
+        cell: (transaction) => transaction.pgoName || '-',
+    },
+    {
+        header: 'Amount',
+        className: 'text-right',
+        cell: (transaction) => (
+            <span className="font-medium whitespace-nowrap">{formatAmount(transaction.amount, transaction.currency)}</span>
+        ),
+    },
+    {
+        header: 'Status',
+        cell: (transaction) => <Badge variant="outline">{transaction.status}</Badge>,
+    },
+    {
+        header: 'Created',
+        cell: (transaction) => (
+            <span className="text-sm text-muted-foreground whitespace-nowrap">{formatDate(transaction.createdAt)}</span>
+        ),
+    },
+];
+
+export default function StaleTransactionsQueue({ canProcess }: StaleTransactionsQueueProps) {
+    const [thresholdMinutes, setThresholdMinutes] = useState(DEFAULT_STALE_THRESHOLD_MINUTES);
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    const { data, isLoading, isFetching, error, dataUpdatedAt, refetch } = useQuery(
+        trpc.transactions.stale.queryOptions({ thresholdMinutes })
+    );
+
+    const processStaleMutation = useMutation(
+        trpc.transactions.processStale.mutationOptions({
+            onSuccess: () => {
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.stale.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.search.queryKey() });
+            },
+        })
+    );
+
+    return (
+        <StaleQueue
+            title="Stale Transactions"
+            description="Transactions stuck in PENDING or PROCESSING longer than expected."
+            entityName="transactions"
+            thresholdMinutes={thresholdMinutes}
+            onThresholdChange={setThresholdMinutes}
+            rows={(data ?? []) as Transaction[]}
+            isLoading={isLoading}
+            isFetching={isFetching}
+            error={error}
+            fetchedAt={dataUpdatedAt}
+            onRefresh={() => void refetch()}
+            getId={(transaction) => transaction.uid}
+            getCreatedAt={(transaction) => transaction.createdAt}
+            getHref={(transaction) => `/transactions/${transaction.uid}`}
+            columns={STALE_TRANSACTION_COLUMNS}
+            canProcess={canProcess}
+            processStale={(reason) => processStaleMutation.mutateAsync({ thresholdMinutes, reason })}
+        />
+    );
+}
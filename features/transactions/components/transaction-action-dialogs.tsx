@@ -1,8 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Loader2, RefreshCw, CheckCircle, XCircle } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, RefreshCw, CheckCircle, XCircle, ArrowRightLeft } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -17,7 +17,18 @@ import {
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import { useTRPC } from '@/lib/trpc/client';
+import { getAllowedTransactionTransitions, type TransactionOverrideStatus } from '@/lib/transaction-transitions';
+import { useNotifySensitiveActionResult } from '@/features/approvals/hooks/use-notify-sensitive-action-result';
 
 interface TransactionDialogProps {
     transactionId: string;
@@ -27,8 +38,13 @@ interface TransactionDialogProps {
     trigger?: React.ReactNode;
 }
 
+function formatMoney(value: string, currency?: string | null): string {
+    const formatted = parseFloat(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency ? `${currency} ${formatted}` : formatted;
+}
+
 /**
- * Dialog for refunding a transaction
+ * Dialog for refunding all or part of a transaction, up to its remaining refundable balance
  */
 export function RefundTransactionDialog({
     transactionId,
@@ -39,29 +55,53 @@ export function RefundTransactionDialog({
 }: TransactionDialogProps) {
     const [open, setOpen] = useState(false);
     const [reason, setReason] = useState('');
+    // null until the operator edits the amount, so it defaults to the remaining balance
+    const [amountInput, setAmountInput] = useState<string | null>(null);
     const queryClient = useQueryClient();
     const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
+
+    const { data: refundSummary, isLoading: isLoadingSummary } = useQuery({
+        ...trpc.transactions.refundSummary.queryOptions({ id: transactionId }),
+        enabled: open,
+    });
 
     const refundMutation = useMutation(
         trpc.transactions.refund.mutationOptions()
     );
 
+    // Unknown when the history records a refund without an amount; the backend still enforces its limit
+    const remainingAmount = refundSummary?.remainingAmount != null ? parseFloat(refundSummary.remainingAmount) : undefined;
+    const displayCurrency = refundSummary?.currency || currency;
+    const refundAmount = amountInput ?? refundSummary?.remainingAmount ?? '';
+
+    const parsedRefundAmount = parseFloat(refundAmount);
+    const amountError = !refundAmount
+        ? null
+        : !Number.isFinite(parsedRefundAmount) || parsedRefundAmount <= 0
+            ? 'Enter an amount greater than zero'
+            : remainingAmount !== undefined && parsedRefundAmount > remainingAmount
+                ? `Amount exceeds the remaining refundable balance of ${formatMoney(String(remainingAmount), displayCurrency)}`
+                : null;
+
     const handleRefundMutation = () => {
-        if (!amount) {
-            toast.error('Transaction amount is required for refund');
+        if (!refundAmount || amountError) {
+            toast.error(amountError || 'Refund amount is required');
             return;
         }
         refundMutation.mutate(
             {
                 id: transactionId,
-                refundAmount: amount,
+                refundAmount,
                 reason: reason || undefined,
             },
             {
                 onSuccess: (data) => {
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.getByUid.queryKey({ id: transactionId }) });
-                    toast.success(data.message || 'Transaction refunded successfully');
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.refundSummary.queryKey({ id: transactionId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.auditTrail.queryKey({ id: transactionId }) });
+                    notifySensitiveActionResult(data, 'Transaction refunded successfully');
                     handleClose();
                 },
                 onError: (error) => {
@@ -78,12 +118,11 @@ export function RefundTransactionDialog({
     const handleClose = () => {
         setOpen(false);
         setReason('');
+        setAmountInput(null);
         refundMutation.reset();
     };
 
-    const formattedAmount = amount && currency
-        ? `${currency} ${parseFloat(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
-        : null;
+    const nothingToRefund = remainingAmount !== undefined && remainingAmount <= 0;
 
     return (
         <Dialog open={open} onOpenChange={(isOpen) => {
@@ -105,10 +144,10 @@ export function RefundTransactionDialog({
                 <DialogHeader>
                     <DialogTitle>Refund Transaction</DialogTitle>
                     <DialogDescription>
-                        Are you sure you want to refund this transaction?
-                        {formattedAmount && (
+                        Refund all or part of this transaction.
+                        {amount && (
                             <span className="block mt-2 font-semibold text-foreground">
-                                Amount: {formattedAmount}
+                                Amount: {formatMoney(amount, currency)}
                             </span>
                         )}
                         <span className="block mt-1 font-mono text-xs">
@@ -117,16 +156,72 @@ export function RefundTransactionDialog({
                     </DialogDescription>
                 </DialogHeader>
 
-                <div className="space-y-2">
-                    <Label htmlFor="refund-reason">Reason (optional)</Label>
-                    <Textarea
-                        id="refund-reason"
-                        placeholder="Enter reason for refund..."
-                        value={reason}
-                        onChange={(e) => setReason(e.target.value)}
-                        rows={3}
-                    />
-                </div>
+                {isLoadingSummary ? (
+                    <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {refundSummary && (
+                            <div className="grid grid-cols-2 gap-4 rounded-md border p-3 text-sm">
+                                <div>
+                                    <p className="text-muted-foreground">Already refunded</p>
+                                    <p className="font-medium">
+                                        {refundSummary.refundedAmount === null ? 'Unknown' : formatMoney(refundSummary.refundedAmount, displayCurrency)}
+                                    </p>
+                                </div>
+                                <div>
+                                    <p className="text-muted-foreground">Remaining refundable</p>
+                                    <p className="font-medium">
+                                        {refundSummary.remainingAmount === null ? 'Unknown' : formatMoney(refundSummary.remainingAmount, displayCurrency)}
+                                    </p>
+                                </div>
+                                {refundSummary.remainingAmount === null && (
+                                    <p className="col-span-2 text-muted-foreground">
+                                        The history records a refund without an amount, so the refundable balance cannot be worked out here.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {nothingToRefund ? (
+                            <p className="text-sm text-muted-foreground">
+                                This transaction has been fully refunded.
+                            </p>
+                        ) : (
+                            <>
+                                <div className="space-y-2">
+                                    <Label htmlFor="refund-amount">Refund amount{displayCurrency ? ` (${displayCurrency})` : ''}</Label>
+                                    <Input
+                                        id="refund-amount"
+                                        type="number"
+                                        inputMode="decimal"
+                                        min="0.01"
+                                        step="0.01"
+                                        max={refundSummary?.remainingAmount ?? undefined}
+                                        value={refundAmount}
+                                        onChange={(e) => setAmountInput(e.target.value)}
+                                        aria-invalid={!!amountError}
+                                    />
+                                    {amountError && (
+                                        <p className="text-sm text-destructive">{amountError}</p>
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="refund-reason">Reason (optional)</Label>
+                                    <Textarea
+                                        id="refund-reason"
+                                        placeholder="Enter reason for refund..."
+                                        value={reason}
+                                        onChange={(e) => setReason(e.target.value)}
+                                        rows={3}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
 
                 <DialogFooter>
                     <Button
@@ -139,12 +234,12 @@ export function RefundTransactionDialog({
                     <Button
                         variant="destructive"
                         onClick={handleRefund}
-                        disabled={refundMutation.isPending}
+                        disabled={refundMutation.isPending || isLoadingSummary || nothingToRefund || !refundAmount || !!amountError}
                     >
                         {refundMutation.isPending && (
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         )}
-                        Refund Transaction
+                        Refund {refundAmount && !amountError ? formatMoney(refundAmount, displayCurrency) : 'Transaction'}
                     </Button>
                 </DialogFooter>
             </DialogContent>
@@ -166,6 +261,7 @@ export function CompleteTransactionDialog({
     const [reason, setReason] = useState('');
     const queryClient = useQueryClient();
     const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
 
     const completeMutation = useMutation(
         trpc.transactions.complete.mutationOptions()
@@ -181,7 +277,7 @@ export function CompleteTransactionDialog({
                 onSuccess: (data) => {
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.getByUid.queryKey({ id: transactionId }) });
-                    toast.success(data.message || 'Transaction completed successfully');
+                    notifySensitiveActionResult(data, 'Transaction completed successfully');
                     handleClose();
                 },
                 onError: (error) => {
@@ -285,6 +381,7 @@ export function CancelTransactionDialog({
     const [reason, setReason] = useState('');
     const queryClient = useQueryClient();
     const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
 
     const cancelMutation = useMutation(
         trpc.transactions.cancel.mutationOptions()
@@ -300,7 +397,7 @@ export function CancelTransactionDialog({
                 onSuccess: (data) => {
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
                     queryClient.invalidateQueries({ queryKey: trpc.transactions.getByUid.queryKey({ id: transactionId }) });
-                    toast.success(data.message || 'Transaction cancelled successfully');
+                    notifySensitiveActionResult(data, 'Transaction cancelled successfully');
                     handleClose();
                 },
                 onError: (error) => {
@@ -391,3 +488,210 @@ export function CancelTransactionDialog({
     );
 }
 
+const STATUS_LABELS: Record<TransactionOverrideStatus, string> = {
+    PENDING: 'Pending',
+    PROCESSING: 'Processing',
+    SUCCESS: 'Success',
+    COMPLETED: 'Completed',
+    FAILED: 'Failed',
+    CANCELLED: 'Cancelled',
+    REFUNDED: 'Refunded',
+    TIMEOUT: 'Timeout',
+    ERROR: 'Error',
+};
+
+interface SetTransactionStatusDialogProps extends TransactionDialogProps {
+    currentStatus: string;
+    /** allowedActions from transactions.canUpdate */
+    allowedActions?: string[] | null;
+}
+
+/**
+ * Dialog for manually overriding a transaction's status, optionally notifying the merchant
+ */
+export function SetTransactionStatusDialog({
+    transactionId,
+    transactionRef,
+    currentStatus,
+    allowedActions,
+    trigger,
+}: SetTransactionStatusDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [status, setStatus] = useState<TransactionOverrideStatus | ''>('');
+    const [reason, setReason] = useState('');
+    const [responseCode, setResponseCode] = useState('');
+    const [externalTransactionId, setExternalTransactionId] = useState('');
+    const [sendCallback, setSendCallback] = useState(false);
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const notifySensitiveActionResult = useNotifySensitiveActionResult();
+
+    const statusOptions = getAllowedTransactionTransitions(currentStatus, allowedActions);
+
+    const updateStatusMutation = useMutation(
+        trpc.transactions.updateStatus.mutationOptions()
+    );
+
+    const handleSetStatus = () => {
+        if (!status) {
+            toast.error('Select a target status');
+            return;
+        }
+        if (!reason.trim()) {
+            toast.error('A reason is required to override the status');
+            return;
+        }
+
+        updateStatusMutation.mutate(
+            {
+                id: transactionId,
+                status,
+                reason: reason.trim(),
+                responseCode: responseCode.trim() || undefined,
+                externalTransactionId: externalTransactionId.trim() || undefined,
+                sendCallback,
+            },
+            {
+                onSuccess: (data) => {
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.getByUid.queryKey({ id: transactionId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.canUpdate.queryKey({ id: transactionId }) });
+                    queryClient.invalidateQueries({ queryKey: trpc.transactions.auditTrail.queryKey({ id: transactionId }) });
+                    notifySensitiveActionResult(data, 'Transaction status updated successfully');
+                    handleClose();
+                },
+                onError: (error) => {
+                    toast.error(error.message || 'Failed to update transaction status');
+                },
+            }
+        );
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setStatus('');
+        setReason('');
+        setResponseCode('');
+        setExternalTransactionId('');
+        setSendCallback(false);
+        updateStatusMutation.reset();
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            if (!isOpen) {
+                handleClose();
+            } else {
+                setOpen(true);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="ghost" size="sm">
+                        <ArrowRightLeft className="h-4 w-4 mr-2" />
+                        Set Status
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Set Transaction Status</DialogTitle>
+                    <DialogDescription>
+                        Manually override the status of this transaction. The change is recorded in the audit trail.
+                        <span className="block mt-2 font-semibold text-foreground">
+                            Current status: {currentStatus || 'Unknown'}
+                        </span>
+                        <span className="block mt-1 font-mono text-xs">
+                            Ref: {transactionRef}
+                        </span>
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="status-override-status">New status</Label>
+                        <Select
+                            value={status}
+                            onValueChange={(value) => setStatus(value as TransactionOverrideStatus)}
+                            disabled={statusOptions.length === 0}
+                        >
+                            <SelectTrigger id="status-override-status" className="w-full">
+                                <SelectValue placeholder={statusOptions.length > 0 ? 'Select status' : 'No status can be set manually'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {statusOptions.map((option) => (
+                                    <SelectItem key={option} value={option}>
+                                        {STATUS_LABELS[option]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="status-override-reason">Reason</Label>
+                        <Textarea
+                            id="status-override-reason"
+                            placeholder="Enter reason for the status change..."
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={3}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="status-override-response-code">Response code (optional)</Label>
+                            <Input
+                                id="status-override-response-code"
+                                value={responseCode}
+                                onChange={(e) => setResponseCode(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="status-override-external-id">External transaction ID (optional)</Label>
+                            <Input
+                                id="status-override-external-id"
+                                value={externalTransactionId}
+                                onChange={(e) => setExternalTransactionId(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                        <div className="space-y-1">
+                            <Label htmlFor="status-override-callback">Send merchant callback</Label>
+                            <p className="text-xs text-muted-foreground">
+                                Notify the merchant of the new status via their callback URL
+                            </p>
+                        </div>
+                        <Switch
+                            id="status-override-callback"
+                            checked={sendCallback}
+                            onCheckedChange={setSendCallback}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={updateStatusMutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSetStatus}
+                        disabled={updateStatusMutation.isPending || !status || !reason.trim()}
+                    >
+                        {updateStatusMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Set Status
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,454 @@
+'use client';
+
+import * as React from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { IconAdjustmentsHorizontal } from '@tabler/icons-react';
+import { useQuery } from '@tanstack/react-query';
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '@/components/ui/command';
+import {
+    Drawer,
+    DrawerContent,
+    DrawerDescription,
+    DrawerHeader,
+    DrawerTitle,
+    DrawerTrigger,
+} from '@/components/ui/drawer';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { PaymentChannelTypeEnum } from '@/lib/definitions';
+import {
+    useTransactionsTableStore,
+    countAdvancedCriteria,
+    type AdvancedSearchCriteria,
+} from '@/lib/stores/transactions-table-store';
+import { useTRPC } from '@/lib/trpc/client';
+
+// Predefined status options
+const STATUS_OPTIONS = [
+    { value: 'PENDING', label: 'Pending' },
+    { value: 'PROCESSING', label: 'Processing' },
+    { value: 'SUCCESS', label: 'Success' },
+    { value: 'COMPLETED', label: 'Completed' },
+    { value: 'FAILED', label: 'Failed' },
+    { value: 'CANCELLED', label: 'Cancelled' },
+    { value: 'REFUNDED', label: 'Refunded' },
+    { value: 'TIMEOUT', label: 'Timeout' },
+    { value: 'ERROR', label: 'Error' },
+];
+
+const INCLUDE_OPTIONS = [
+    { field: 'includeProduction', label: 'Production transactions' },
+    { field: 'includeTest', label: 'Test transactions' },
+    { field: 'includeDisbursements', label: 'Linked disbursements' },
+    { field: 'includeAuditTrail', label: 'Audit trail' },
+] as const;
+
+type TextField = {
+    [K in keyof AdvancedSearchCriteria]-?: AdvancedSearchCriteria[K] extends string | undefined ? K : never
+}[keyof AdvancedSearchCriteria];
+
+type FieldConfig = { field: TextField; label: string; type?: string };
+
+const FIELD_SECTIONS: { title: string; fields: FieldConfig[] }[] = [
+    {
+        title: 'Identifiers',
+        fields: [
+            { field: 'internalTransactionId', label: 'Internal transaction ID' },
+            { field: 'externalTransactionId', label: 'External transaction ID' },
+            { field: 'merchantTransactionId', label: 'Merchant transaction ID' },
+            { field: 'errorCode', label: 'Error code' },
+            { field: 'responseCode', label: 'Response code' },
+        ],
+    },
+    {
+        title: 'Payment',
+        fields: [
+            { field: 'provider', label: 'Provider' },
+            { field: 'paymentMethod', label: 'Payment method' },
+            { field: 'payCode', label: 'Pay code' },
+        ],
+    },
+    {
+        title: 'Customer',
+        fields: [
+            { field: 'customerName', label: 'Customer name' },
+            { field: 'customerEmail', label: 'Customer email', type: 'email' },
+            { field: 'customerPhone', label: 'Customer phone', type: 'tel' },
+            { field: 'accountNumber', label: 'Account number' },
+        ],
+    },
+    {
+        title: 'Device',
+        fields: [
+            { field: 'ipAddress', label: 'IP address' },
+            { field: 'deviceId', label: 'Device ID' },
+        ],
+    },
+    {
+        title: 'Status Updated',
+        fields: [
+            { field: 'statusUpdatedFrom', label: 'From', type: 'date' },
+            { field: 'statusUpdatedTo', label: 'To', type: 'date' },
+        ],
+    },
+];
+
+/**
+ * Drop empty strings and lists so they are not sent to the backend
+ */
+function compactCriteria(criteria: AdvancedSearchCriteria): AdvancedSearchCriteria {
+    return Object.fromEntries(
+        Object.entries(criteria).filter(([, value]) =>
+            value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+        )
+    ) as AdvancedSearchCriteria;
+}
+
+/**
+ * Searchable merchant picker backed by merchants.lookup
+ */
+function MerchantPicker({ value, onChange }: {
+    value?: string;
+    onChange: (merchantId: string | undefined) => void;
+}) {
+    const trpc = useTRPC();
+    const [open, setOpen] = React.useState(false);
+    const [search, setSearch] = React.useState('');
+    const [debouncedSearch, setDebouncedSearch] = React.useState('');
+    const searchTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
+
+    const handleSearchChange = (term: string) => {
+        setSearch(term);
+
+        if (searchTimeoutRef.current) {
+            clearTimeout(searchTimeoutRef.current);
+        }
+
+        searchTimeoutRef.current = setTimeout(() => {
+            setDebouncedSearch(term.trim());
+        }, 300);
+    };
+
+    React.useEffect(() => {
+        return () => {
+            if (searchTimeoutRef.current) {
+                clearTimeout(searchTimeoutRef.current);
+            }
+        };
+    }, []);
+
+    const { data: results, isFetching } = useQuery({
+        ...trpc.merchants.lookup.queryOptions({ q: debouncedSearch || undefined, size: '20' }),
+        enabled: open,
+    });
+
+    // Resolve the label of the selected merchant (it may not be in the current results)
+    const { data: selected } = useQuery({
+        ...trpc.merchants.lookup.queryOptions({ id: value }),
+        enabled: !!value,
+    });
+    const selectedMerchant = selected?.data.find((merchant) => String(merchant.id) === value);
+
+    return (
+        <div className="flex items-center gap-1">
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button
+                        id="advanced-merchant"
+                        variant="outline"
+                        role="combobox"
+                        aria-expanded={open}
+                        className={cn('flex-1 justify-between font-normal', !value && 'text-muted-foreground')}
+                    >
+                        <span className="truncate">
+                            {value ? selectedMerchant?.name || `Merchant #${value}` : 'Any merchant'}
+                        </span>
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+                    <Command shouldFilter={false}>
+                        <CommandInput
+                            placeholder="Search merchants..."
+                            value={search}
+                            onValueChange={handleSearchChange}
+                        />
+                        <CommandList>
+                            <CommandEmpty>{isFetching ? 'Searching...' : 'No merchants found.'}</CommandEmpty>
+                            <CommandGroup>
+                                {results?.data.map((merchant) => (
+                                    <CommandItem
+                                        key={merchant.id}
+                                        value={String(merchant.id)}
+                                        onSelect={() => {
+                                            onChange(String(merchant.id));
+                                            setOpen(false);
+                                        }}
+                                    >
+                                        <Check
+                                            className={cn(
+                                                'mr-2 h-4 w-4',
+                                                String(merchant.id) === value ? 'opacity-100' : 'opacity-0'
+                                            )}
+                                        />
+                                        <span className="truncate">{merchant.name}</span>
+                                        {merchant.code && (
+                                            <span className="ml-auto font-mono text-xs text-muted-foreground">
+                                                {merchant.code}
+                                            </span>
+                                        )}
+                                    </CommandItem>
+                                ))}
+                            </CommandGroup>
+                        </CommandList>
+                    </Command>
+                </PopoverContent>
+            </Popover>
+            {value && (
+                <Button variant="ghost" size="icon" onClick={() => onChange(undefined)}>
+                    <X className="h-4 w-4" />
+                </Button>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Payment gateway picker backed by gateways.list; the value is the gateway code
+ */
+function GatewayPicker({ value, onChange }: {
+    value?: string;
+    onChange: (gatewayCode: string | undefined) => void;
+}) {
+    const trpc = useTRPC();
+    const { data: gateways, isLoading } = useQuery(trpc.gateways.list.queryOptions({}));
+
+    return (
+        <Select
+            value={value || 'all'}
+            onValueChange={(code) => onChange(code === 'all' ? undefined : code)}
+        >
+            <SelectTrigger id="advanced-gateway" className="w-full">
+                <SelectValue placeholder={isLoading ? 'Loading gateways...' : 'Any gateway'} />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value="all">Any gateway</SelectItem>
+                {gateways?.data.map((gateway) => (
+                    <SelectItem key={gateway.uid} value={gateway.code}>
+                        {gateway.name}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
+
+/**
+ * Drawer for searching transactions by any TransactionSearchCriteriaDto field.
+ * Applied criteria are combined with the basic filters and sent to the POST search endpoint.
+ */
+export function TransactionAdvancedSearch() {
+    const { filters, setAdvancedCriteria } = useTransactionsTableStore();
+    const [open, setOpen] = React.useState(false);
+    const [draft, setDraft] = React.useState<AdvancedSearchCriteria>(filters.advanced);
+
+    const appliedCount = countAdvancedCriteria(filters.advanced);
+
+    const handleOpenChange = (isOpen: boolean) => {
+        // Start each session from the applied criteria
+        if (isOpen) {
+            setDraft(filters.advanced);
+        }
+        setOpen(isOpen);
+    };
+
+    const updateField = <K extends keyof AdvancedSearchCriteria>(field: K, value: AdvancedSearchCriteria[K]) => {
+        setDraft((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const toggleStatus = (status: string, checked: boolean) => {
+        const statuses = draft.statuses ?? [];
+        updateField('statuses', checked ? [...statuses, status] : statuses.filter((s) => s !== status));
+    };
+
+    const handleApply = () => {
+        setAdvancedCriteria(compactCriteria(draft));
+        setOpen(false);
+    };
+
+    return (
+        <Drawer direction="right" open={open} onOpenChange={handleOpenChange}>
+            <DrawerTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn('font-normal', appliedCount === 0 && 'text-muted-foreground')}
+                >
+                    <IconAdjustmentsHorizontal className="mr-2 h-4 w-4" />
+                    Advanced
+                    {appliedCount > 0 && (
+                        <Badge variant="secondary" className="ml-2 h-5 min-w-5 px-1 flex items-center justify-center">
+                            {appliedCount}
+                        </Badge>
+                    )}
+                </Button>
+            </DrawerTrigger>
+            <DrawerContent className="h-full max-h-screen">
+                <DrawerHeader className="border-b">
+                    <DrawerTitle>Advanced Search</DrawerTitle>
+                    <DrawerDescription>
+                        Narrow transactions by any search criteria. These are applied together with the status,
+                        date, amount and text filters.
+                    </DrawerDescription>
+                </DrawerHeader>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                    {/* Statuses */}
+                    <section className="space-y-3">
+                        <h4 className="text-sm font-medium">Statuses</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                            {STATUS_OPTIONS.map((status) => (
+                                <div key={status.value} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`advanced-status-${status.value}`}
+                                        checked={draft.statuses?.includes(status.value) ?? false}
+                                        onCheckedChange={(checked) => toggleStatus(status.value, checked === true)}
+                                    />
+                                    <Label htmlFor={`advanced-status-${status.value}`} className="font-normal">
+                                        {status.label}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+
+                    {/* Merchant & Gateway */}
+                    <section className="space-y-3">
+                        <h4 className="text-sm font-medium">Merchant &amp; Gateway</h4>
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="advanced-merchant">Merchant</Label>
+                            <MerchantPicker
+                                value={draft.merchantId}
+                                onChange={(merchantId) => updateField('merchantId', merchantId)}
+                            />
+                        </div>
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="advanced-gateway">Payment gateway</Label>
+                            <GatewayPicker
+                                value={draft.paymentGatewayCode}
+                                onChange={(code) => updateField('paymentGatewayCode', code)}
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="advanced-channel-type">Channel type</Label>
+                                <Select
+                                    value={draft.paymentChannelType || 'all'}
+                                    onValueChange={(type) => updateField('paymentChannelType', type === 'all' ? undefined : type)}
+                                >
+                                    <SelectTrigger id="advanced-channel-type" className="w-full">
+                                        <SelectValue placeholder="Any type" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">Any type</SelectItem>
+                                        {PaymentChannelTypeEnum.options.map((type) => (
+                                            <SelectItem key={type} value={type}>
+                                                {type}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid gap-1.5">
+                                <Label htmlFor="advanced-currencies">Currencies</Label>
+                                <Input
+                                    id="advanced-currencies"
+                                    placeholder="TZS, USD"
+                                    value={draft.currencies?.join(', ') ?? ''}
+                                    onChange={(e) => updateField(
+                                        'currencies',
+                                        e.target.value
+                                            .split(',')
+                                            .map((currency) => currency.trim().toUpperCase())
+                                            .filter(Boolean)
+                                    )}
+                                />
+                            </div>
+                        </div>
+                    </section>
+
+                    {FIELD_SECTIONS.map((section) => (
+                        <section key={section.title} className="space-y-3">
+                            <h4 className="text-sm font-medium">{section.title}</h4>
+                            <div className="grid grid-cols-2 gap-3">
+                                {section.fields.map(({ field, label, type }) => (
+                                    <div key={field} className="grid gap-1.5">
+                                        <Label htmlFor={`advanced-${field}`}>{label}</Label>
+                                        <Input
+                                            id={`advanced-${field}`}
+                                            type={type ?? 'text'}
+                                            value={draft[field] ?? ''}
+                                            onChange={(e) => updateField(field, e.target.value)}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    ))}
+
+                    {/* Include options */}
+                    <section className="space-y-3">
+                        <h4 className="text-sm font-medium">Include</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                            {INCLUDE_OPTIONS.map(({ field, label }) => (
+                                <div key={field} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`advanced-${field}`}
+                                        checked={draft[field] ?? false}
+                                        onCheckedChange={(checked) => updateField(field, checked === true ? true : undefined)}
+                                    />
+                                    <Label htmlFor={`advanced-${field}`} className="font-normal">
+                                        {label}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                </div>
+
+                <div className="flex gap-2 border-t p-4">
+                    <Button variant="outline" className="flex-1" onClick={() => setDraft({})}>
+                        Reset
+                    </Button>
+                    <Button className="flex-1" onClick={handleApply}>
+                        Apply
+                    </Button>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { IconCircleCheck, IconCircleX, IconRefresh } from '@tabler/icons-react';
+import { BulkActionsBar, type BulkActionConfig, type BulkExportColumn } from '@/components/bulk-actions-bar';
+import { useTRPC, useTRPCClient } from '@/lib/trpc/client';
+import type { Transaction } from '@/lib/definitions';
+
+// Statuses each bulk action applies to (same rules as the row actions)
+const RETRY_STATUSES = ['FAILED', 'TIMEOUT', 'ERROR'];
+const COMPLETE_STATUSES = ['PENDING', 'PROCESSING'];
+const CANCEL_STATUSES = ['PENDING', 'PROCESSING'];
+
+function statusSkipReason(row: Transaction, statuses: string[], verb: string): string | null {
+    return statuses.includes(row.status.toUpperCase())
+        ? null
+        : `${row.status} transactions cannot be ${verb}`;
+}
+
+const EXPORT_COLUMNS: BulkExportColumn<Transaction>[] = [
+    { header: 'UID', value: (t) => t.uid },
+    { header: 'Merchant Transaction ID', value: (t) => t.merchantTransactionId },
+    { header: 'Internal Transaction ID', value: (t) => t.internalTransactionId },
+    { header: 'External Transaction ID', value: (t) => t.externalTransactionId },
+    { header: 'Merchant', value: (t) => t.merchantName },
+    { header: 'Gateway', value: (t) => t.pgoName },
+    { header: 'Amount', value: (t) => t.amount },
+    { header: 'Currency', value: (t) => t.currency },
+    { header: 'Status', value: (t) => t.status },
+    { header: 'Error Code', value: (t) => t.errorCode },
+    { header: 'Error Message', value: (t) => t.errorMessage },
+    { header: 'Customer', value: (t) => t.customerName || t.customerIdentifier },
+    { header: 'Created At', value: (t) => t.createdAt },
+];
+
+interface TransactionBulkActionsProps {
+    rows: Transaction[];
+    onClearSelection: () => void;
+}
+
+/**
+ * Bulk retry, complete, cancel and export for the selected transactions
+ */
+export function TransactionBulkActions({ rows, onClearSelection }: TransactionBulkActionsProps) {
+    const trpc = useTRPC();
+    const trpcClient = useTRPCClient();
+    const queryClient = useQueryClient();
+
+    const actions = useMemo<BulkActionConfig<Transaction>[]>(() => [
+        {
+            key: 'retry',
+            label: 'Retry',
+            icon: <IconRefresh />,
+            getSkipReason: (row) => statusSkipReason(row, RETRY_STATUSES, 'retried'),
+            run: (row) => trpcClient.transactions.retry.mutate({ id: row.uid }),
+        },
+        {
+            key: 'complete',
+            label: 'Complete',
+            icon: <IconCircleCheck />,
+            reasonLabel: 'Reason (optional)',
+            getSkipReason: (row) => statusSkipReason(row, COMPLETE_STATUSES, 'completed'),
+            run: (row, reason) => trpcClient.transactions.complete.mutate({ id: row.uid, reason }),
+        },
+        {
+            key: 'cancel',
+            label: 'Cancel',
+            icon: <IconCircleX />,
+            destructive: true,
+            reasonLabel: 'Reason (optional)',
+            getSkipReason: (row) => statusSkipReason(row, CANCEL_STATUSES, 'cancelled'),
+            run: (row, reason) => trpcClient.transactions.cancel.mutate({ id: row.uid, reason }),
+        },
+    ], [trpcClient]);
+
+    return (
+        <BulkActionsBar
+            entityName="transactions"
+            rows={rows}
+            getId={(row) => row.uid}
+            getReference={(row) => row.merchantTransactionId || row.internalTransactionId || row.uid}
+            getStatus={(row) => row.status}
+            checkCanUpdate={(row) => trpcClient.transactions.canUpdate.query({ id: row.uid })}
+            actions={actions}
+            exportColumns={EXPORT_COLUMNS}
+            onCompleted={() => {
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.list.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.search.queryKey() });
+                queryClient.invalidateQueries({ queryKey: trpc.transactions.canUpdate.queryKey() });
+            }}
+            onClearSelection={onClearSelection}
+        />
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { TransactionDetailsSkeleton } from './transaction-details-skeleton';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
@@ -9,15 +9,23 @@ import { Button } from '@/components/ui/button';
 import TransactionOverviewTab from './transaction-overview-tab';
 import TransactionProcessingHistoryTab from './transaction-processing-history-tab';
 import TransactionAuditTrailTab from './transaction-audit-trail-tab';
+import TransactionDisbursementsTab from './transaction-disbursements-tab';
 import { useTRPC } from '@/lib/trpc/client';
 import type { Transaction } from '@/lib/definitions';
 
+const TABS = ['overview', 'processing-history', 'audit-trail', 'disbursements'];
+
 type Props = {
     transactionId: string;
+    /** Whether the user may manually override the transaction status */
+    canUpdateStatus?: boolean;
+    /** Whether the user may see the disbursements spawned from the transaction */
+    canViewDisbursements?: boolean;
 }
 
-function TransactionDetails({ transactionId }: Props) {
+function TransactionDetails({ transactionId, canUpdateStatus, canViewDisbursements }: Props) {
     const router = useRouter();
+    const searchParams = useSearchParams();
     const trpc = useTRPC();
     const { data: transactionData, isLoading, error } = useSuspenseQuery(
         trpc.transactions.getByUid.queryOptions({ id: transactionId })
@@ -60,6 +68,14 @@ function TransactionDetails({ transactionId }: Props) {
     // If transaction.id is not numeric, it means the backend returned a UID in the id field,
     // which is incorrect. The backend should always return the numeric ID in the id field.
     const transactionUid = transaction.uid || transaction.id;
+    // The linked disbursements endpoint takes the numeric transaction id rather than the UID
+    const numericTransactionId = /^\d+$/.test(transaction.id) ? Number(transaction.id) : null;
+
+    // Deep links (e.g. from a disbursement back to its source transaction) may open a specific tab
+    const requestedTab = searchParams.get('tab') ?? '';
+    const defaultTab = TABS.includes(requestedTab) && (requestedTab !== 'disbursements' || canViewDisbursements)
+        ? requestedTab
+        : 'overview';
 
     if (!transactionUid) {
         return (
@@ -99,11 +115,14 @@ function TransactionDetails({ transactionId }: Props) {
                 </div>
             </div>
 
-            <Tabs defaultValue="overview" className="flex flex-1 flex-col gap-4 px-4 lg:px-6">
+            <Tabs defaultValue={defaultTab} className="flex flex-1 flex-col gap-4 px-4 lg:px-6">
                 <TabsList>
                     <TabsTrigger value="overview">Overview</TabsTrigger>
                     <TabsTrigger value="processing-history">Processing History</TabsTrigger>
                     <TabsTrigger value="audit-trail">Audit Trail</TabsTrigger>
+                    {canViewDisbursements && (
+                        <TabsTrigger value="disbursements">Disbursements</TabsTrigger>
+                    )}
                 </TabsList>
 
                 <TabsContent value="overview" className="flex-1">
@@ -111,6 +130,7 @@ function TransactionDetails({ transactionId }: Props) {
                     <TransactionOverviewTab
                         transaction={transaction}
                         numericId={transactionUid}
+                        canUpdateStatus={canUpdateStatus}
                     />
                 </TabsContent>
 
@@ -123,6 +143,18 @@ function TransactionDetails({ transactionId }: Props) {
                     {/* Backend now uses UID */}
                     <TransactionAuditTrailTab transactionId={transactionUid} />
                 </TabsContent>
+
+                {canViewDisbursements && (
+                    <TabsContent value="disbursements" className="flex-1">
+                        {numericTransactionId !== null ? (
+                            <TransactionDisbursementsTab transactionId={numericTransactionId} />
+                        ) : (
+                            <p className="py-8 text-center text-muted-foreground">
+                                Linked disbursements are unavailable because the transaction has no numeric ID.
+                            </p>
+                        )}
+                    </TabsContent>
+                )}
             </Tabs>
         </div>
     )
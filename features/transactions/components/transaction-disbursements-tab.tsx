@@ -0,0 +1,229 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { IconExternalLink, IconLoader } from '@tabler/icons-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { useTRPC } from '@/lib/trpc/client';
+import type { Disbursement } from '@/lib/definitions';
+
+interface TransactionDisbursementsTabProps {
+    /** Numeric transaction id, as the backend's by-transaction endpoint expects */
+    transactionId: number;
+}
+
+const COMPLETED_STATUSES = ['COMPLETED', 'SUCCESS'];
+
+function formatDate(dateString: string): string {
+    try {
+        return format(new Date(dateString), 'MMM dd, yyyy HH:mm');
+    } catch {
+        return dateString;
+    }
+}
+
+function formatAmount(amount: number, currency: string): string {
+    return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getStatusBadgeVariant(status: string): "default" | "destructive" | "secondary" | "outline" {
+    const upperStatus = status.toUpperCase();
+    if (COMPLETED_STATUSES.includes(upperStatus)) {
+        return 'default';
+    }
+    if (upperStatus === 'FAILED' || upperStatus === 'ERROR') {
+        return 'destructive';
+    }
+    if (upperStatus === 'PENDING' || upperStatus === 'PROCESSING') {
+        return 'outline';
+    }
+    return 'secondary';
+}
+
+/**
+ * Count per status and amount totals per currency (all disbursements, and completed ones only)
+ */
+function summarize(disbursements: Disbursement[]) {
+    const statusCounts = new Map<string, number>();
+    const totals = new Map<string, { total: number; completed: number }>();
+
+    for (const disbursement of disbursements) {
+        const status = (disbursement.status || 'UNKNOWN').toUpperCase();
+        statusCounts.set(status, (statusCounts.get(status) ?? 0) + 1);
+
+        const amount = parseFloat(disbursement.amount) || 0;
+        const currencyTotals = totals.get(disbursement.currency) ?? { total: 0, completed: 0 };
+        currencyTotals.total += amount;
+        if (COMPLETED_STATUSES.includes(status)) {
+            currencyTotals.completed += amount;
+        }
+        totals.set(disbursement.currency, currencyTotals);
+    }
+
+    return { statusCounts: [...statusCounts], totals: [...totals] };
+}
+
+export default function TransactionDisbursementsTab({ transactionId }: TransactionDisbursementsTabProps) {
+    const trpc = useTRPC();
+    const { data, isLoading, error } = useQuery(
+        trpc.disbursements.byTransaction.queryOptions({ transactionId })
+    );
+
+    if (isLoading) {
+        return (
+            <Card>
+                <CardContent className="flex items-center justify-center py-8">
+                    <div className="flex items-center gap-2">
+                        <IconLoader className="size-4 animate-spin" />
+                        <span className="text-muted-foreground">Loading disbursements...</span>
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    if (error) {
+        return (
+            <Card>
+                <CardContent className="py-8">
+                    <div className="text-destructive">
+                        {error instanceof Error ? error.message : 'Failed to load disbursements'}
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const disbursements = data?.data ?? [];
+
+    if (disbursements.length === 0) {
+        return (
+            <Card>
+                <CardHeader>
+                    <CardTitle>Disbursements</CardTitle>
+                    <CardDescription>Disbursements spawned from this transaction</CardDescription>
+                </CardHeader>
+                <CardContent className="py-8">
+                    <div className="text-center text-muted-foreground">
+                        No disbursements linked to this transaction
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const { statusCounts, totals } = summarize(disbursements);
+    const totalElements = data?.totalElements ?? disbursements.length;
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Totals */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Totals</CardTitle>
+                    <CardDescription>
+                        {totalElements} disbursement{totalElements === 1 ? '' : 's'} spawned from this transaction
+                        {totalElements > disbursements.length && ` (showing the first ${disbursements.length})`}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div>
+                        <p className="text-sm text-muted-foreground">By Status</p>
+                        <div className="mt-1 flex flex-wrap gap-2">
+                            {statusCounts.map(([status, count]) => (
+                                <Badge key={status} variant={getStatusBadgeVariant(status)}>
+                                    {status}: {count}
+                                </Badge>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        {totals.map(([currency, amounts]) => (
+                            <div key={currency}>
+                                <p className="text-sm text-muted-foreground">Amount ({currency})</p>
+                                <p className="text-lg font-semibold">{formatAmount(amounts.total, currency)}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {formatAmount(amounts.completed, currency)} completed
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Disbursement list */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Disbursements</CardTitle>
+                    <CardDescription>Open a disbursement to follow the money to its recipient</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="rounded-lg border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Disbursement</TableHead>
+                                    <TableHead>Recipient</TableHead>
+                                    <TableHead className="text-right">Amount</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Created</TableHead>
+                                    <TableHead className="w-12" />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {disbursements.map((disbursement) => (
+                                    <TableRow key={disbursement.uid || disbursement.id}>
+                                        <TableCell>
+                                            <Link
+                                                href={`/disbursements/${disbursement.uid}`}
+                                                className="font-mono text-xs hover:underline"
+                                            >
+                                                {disbursement.merchantDisbursementId || disbursement.uid}
+                                            </Link>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="text-sm">{disbursement.recipientName || '-'}</div>
+                                            {disbursement.recipientAccount && (
+                                                <div className="font-mono text-xs text-muted-foreground">
+                                                    {disbursement.recipientAccount}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right font-semibold tabular-nums">
+                                            {formatAmount(parseFloat(disbursement.amount) || 0, disbursement.currency)}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={getStatusBadgeVariant(disbursement.status)}>
+                                                {disbursement.status}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-sm">{formatDate(disbursement.createdAt)}</TableCell>
+                                        <TableCell>
+                                            <Button variant="ghost" size="icon" className="size-8" asChild>
+                                                <Link href={`/disbursements/${disbursement.uid}`}>
+                                                    <IconExternalLink className="size-4" />
+                                                    <span className="sr-only">View disbursement</span>
+                                                </Link>
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
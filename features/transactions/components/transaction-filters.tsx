@@ -24,7 +24,8 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
-import { useTransactionsTableStore, hasActiveFilters } from '@/lib/stores/transactions-table-store';
+import { useTransactionsTableStore, hasActiveFilters, countAdvancedCriteria } from '@/lib/stores/transactions-table-store';
+import { TransactionAdvancedSearch } from './transaction-advanced-search';
 
 // Predefined status options
 const STATUS_OPTIONS = [
@@ -68,6 +69,31 @@ export function TransactionFilters() {
     const [amountMin, setAmountMin] = React.useState(filters.amountMin || '');
     const [amountMax, setAmountMax] = React.useState(filters.amountMax || '');
 
+    // Sync local inputs when filters change outside this component (saved views, back/forward navigation)
+    const [syncedFilters, setSyncedFilters] = React.useState(filters);
+    if (syncedFilters !== filters) {
+        setSyncedFilters(filters);
+
+        if (filters.search !== syncedFilters.search && filters.search !== (searchTerm.trim() || null)) {
+            setSearchTerm(filters.search || '');
+        }
+
+        const localStartDate = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+        const localEndDate = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : null;
+        if (filters.startDate !== localStartDate || filters.endDate !== localEndDate) {
+            setLocalDateRange(filters.startDate || filters.endDate ? {
+                from: filters.startDate ? new Date(filters.startDate) : undefined,
+                to: filters.endDate ? new Date(filters.endDate) : undefined,
+            } : undefined);
+        }
+
+        const amountsChanged = filters.amountMin !== syncedFilters.amountMin || filters.amountMax !== syncedFilters.amountMax;
+        if (amountsChanged && (filters.amountMin !== (amountMin || null) || filters.amountMax !== (amountMax || null))) {
+            setAmountMin(filters.amountMin || '');
+            setAmountMax(filters.amountMax || '');
+        }
+    }
+
     // Debounced search update
     const handleSearchChange = React.useCallback((value: string) => {
         setSearchTerm(value);
@@ -146,6 +172,7 @@ export function TransactionFilters() {
         if (filters.status) count++;
         if (filters.startDate || filters.endDate) count++;
         if (filters.amountMin || filters.amountMax) count++;
+        count += countAdvancedCriteria(filters.advanced);
         return count;
     }, [filters]);
 
@@ -321,6 +348,9 @@ export function TransactionFilters() {
                 </PopoverContent>
             </Popover>
 
+            {/* Advanced Search */}
+            <TransactionAdvancedSearch />
+
             {/* Clear All Filters */}
             {isFiltersActive && (
                 <Button
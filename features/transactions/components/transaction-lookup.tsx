@@ -0,0 +1,23 @@
+'use client';
+
+import { useQueryClient } from '@tanstack/react-query';
+import { ReferenceLookup } from '@/components/reference-lookup';
+import { useTRPC } from '@/lib/trpc/client';
+
+export function TransactionLookup() {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+
+    return (
+        <ReferenceLookup
+            entityName="transaction"
+            referenceKinds="UID, internal, external or merchant transaction ID, or PSP ID"
+            lookup={(reference) => queryClient.fetchQuery({
+                ...trpc.transactions.lookup.queryOptions({ reference }),
+                // A reference that was not found a moment ago may have been created since
+                staleTime: 0,
+            })}
+            getHref={(uid) => `/transactions/${uid}`}
+        />
+    );
+}
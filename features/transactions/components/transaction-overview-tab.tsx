@@ -4,12 +4,13 @@ import { Transaction } from '@/lib/definitions';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { IconCircleCheckFilled, IconCircleX, IconLoader, IconRefresh, IconCheck, IconX } from '@tabler/icons-react';
+import { IconCircleCheckFilled, IconCircleX, IconLoader, IconRefresh, IconCheck, IconX, IconArrowsExchange } from '@tabler/icons-react';
 import { format } from 'date-fns';
 import {
     RefundTransactionDialog,
     CompleteTransactionDialog,
     CancelTransactionDialog,
+    SetTransactionStatusDialog,
 } from './transaction-action-dialogs';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { toast } from 'sonner';
@@ -18,6 +19,8 @@ import { useTRPC } from '@/lib/trpc/client';
 interface TransactionOverviewTabProps {
     transaction: Transaction;
     numericId: string;   // The numeric ID required by backend APIs (Long type)
+    /** Whether the user holds transactions.update_status */
+    canUpdateStatus?: boolean;
 }
 
 function formatDate(dateString: string | null | undefined): string {
@@ -37,7 +40,7 @@ function formatAmount(amount: string): string {
     }).format(numAmount);
 }
 
-export default function TransactionOverviewTab({ transaction, numericId }: TransactionOverviewTabProps) {
+export default function TransactionOverviewTab({ transaction, numericId, canUpdateStatus = false }: TransactionOverviewTabProps) {
     const queryClient = useQueryClient();
     const trpc = useTRPC();
     // Use numeric ID for backend API calls that expect Long type
@@ -98,6 +101,12 @@ export default function TransactionOverviewTab({ transaction, numericId }: Trans
 
     const statusConfig = getStatusConfig();
 
+    const showRefundHistory = ['COMPLETED', 'SUCCESS', 'REFUNDED'].includes(status);
+    const { data: refundSummary } = useQuery({
+        ...trpc.transactions.refundSummary.queryOptions({ id: numericId }),
+        enabled: showRefundHistory,
+    });
+
     const retryMutation = useMutation(
         trpc.transactions.retry.mutationOptions()
     );
@@ -124,10 +133,11 @@ export default function TransactionOverviewTab({ transaction, numericId }: Trans
         : 'N/A';
 
     const canRetry = status === 'FAILED' || status === 'ERROR';
-    const canRefund = status === 'COMPLETED' || status === 'SUCCESS';
+    const hasRefundableBalance = refundSummary?.remainingAmount == null || parseFloat(refundSummary.remainingAmount) > 0;
+    const canRefund = (status === 'COMPLETED' || status === 'SUCCESS') && hasRefundableBalance;
     const canComplete = status === 'PENDING' || status === 'PROCESSING';
     const canCancel = status === 'PENDING' || status === 'PROCESSING';
-    const showActions = canRetry || canRefund || canComplete || canCancel;
+    const showActions = canRetry || canRefund || canComplete || canCancel || canUpdateStatus;
 
     return (
         <div className="flex flex-col gap-4">
@@ -354,6 +364,20 @@ export default function TransactionOverviewTab({ transaction, numericId }: Trans
                                     }
                                 />
                             )}
+                            {canUpdateStatus && canUpdate?.canUpdate && (
+                                <SetTransactionStatusDialog
+                                    transactionId={numericId}
+                                    transactionRef={transaction.uid || transaction.id}
+                                    currentStatus={status}
+                                    allowedActions={canUpdate.allowedActions}
+                                    trigger={
+                                        <Button variant="outline">
+                                            <IconArrowsExchange className="mr-2 h-4 w-4" />
+                                            Set Status
+                                        </Button>
+                                    }
+                                />
+                            )}
                         </div>
                         {canUpdate && !canUpdate.canUpdate && canUpdate.reason && (
                             <p className="text-sm text-muted-foreground mt-2">{canUpdate.reason}</p>
@@ -362,6 +386,43 @@ export default function TransactionOverviewTab({ transaction, numericId }: Trans
                 </Card>
             )}
 
+            {/* Refund History */}
+            {refundSummary && refundSummary.refunds.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Refund History</CardTitle>
+                        <CardDescription>
+                            {refundSummary.refundedAmount === null ? 'Unknown amount' : formatAmount(refundSummary.refundedAmount)} of {formatAmount(refundSummary.amount)} refunded
+                            {' • '}
+                            {refundSummary.remainingAmount === null ? 'unknown' : formatAmount(refundSummary.remainingAmount)} remaining
+                            {refundSummary.currency ? ` (${refundSummary.currency})` : ''}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="divide-y">
+                            {refundSummary.refunds.map((refund, index) => (
+                                <div key={`${refund.timestamp}-${index}`} className="flex items-start justify-between gap-4 py-2 first:pt-0 last:pb-0">
+                                    <div>
+                                        <p className="font-medium">
+                                            {refund.amount === null
+                                                ? 'Amount unknown'
+                                                : `${refundSummary.currency ? `${refundSummary.currency} ` : ''}${formatAmount(refund.amount)}`}
+                                        </p>
+                                        {refund.reason && (
+                                            <p className="text-sm text-muted-foreground">{refund.reason}</p>
+                                        )}
+                                    </div>
+                                    <div className="text-right text-sm text-muted-foreground">
+                                        <p>{formatDate(refund.timestamp)}</p>
+                                        {refund.performedBy && <p>{refund.performedBy}</p>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Timestamps */}
             <Card>
                 <CardHeader>
@@ -36,7 +36,10 @@ import {
     CancelTransactionDialog,
 } from "@/features/transactions/components/transaction-action-dialogs"
 import { TransactionFilters } from "@/features/transactions/components/transaction-filters"
-import { useTransactionsTableStore } from "@/lib/stores/transactions-table-store"
+import { useTransactionsTableStore, filtersToSearchCriteria } from "@/lib/stores/transactions-table-store"
+import { SavedViewsMenu } from "@/components/saved-views-menu"
+import { TransactionBulkActions } from "@/features/transactions/components/transaction-bulk-actions"
+import { TransactionLookup } from "@/features/transactions/components/transaction-lookup"
 import { toast } from "sonner"
 
 // Re-export schema for build compatibility
@@ -789,9 +792,11 @@ interface PaginationMeta {
 export function TransactionTable({
     data,
     paginationMeta,
+    userUid,
 }: {
     data: Transaction[];
     paginationMeta: PaginationMeta;
+    userUid: string;
 }) {
     "use no memo";
     // Get state from Zustand store
@@ -841,25 +846,8 @@ export function TransactionTable({
 
     const handleExport = React.useCallback(async (format: 'csv' | 'excel') => {
         try {
-            // Build search criteria from store filters
-            const searchCriteria: Record<string, unknown> = {}
-
-            // Add filters from store
-            if (filters.status) {
-                searchCriteria.status = filters.status
-            }
-            if (filters.startDate) {
-                searchCriteria.start_date = filters.startDate
-            }
-            if (filters.endDate) {
-                searchCriteria.end_date = filters.endDate
-            }
-            if (filters.amountMin) {
-                searchCriteria.amount_min = filters.amountMin
-            }
-            if (filters.amountMax) {
-                searchCriteria.amount_max = filters.amountMax
-            }
+            // Build search criteria from store filters, including advanced search criteria
+            const searchCriteria = filtersToSearchCriteria(filters, sorting)
 
             // Call tRPC export mutation
             const result = await exportMutation.mutateAsync({
@@ -888,7 +876,7 @@ export function TransactionTable({
             console.error('Export error:', error)
             toast.error(error instanceof Error ? error.message : 'Failed to export transactions')
         }
-    }, [filters, exportMutation])
+    }, [filters, sorting, exportMutation])
 
     return (
         <TransactionDrawerContext.Provider value={{ openTransactionUid, setOpenTransactionUid }}>
@@ -898,6 +886,15 @@ export function TransactionTable({
                     <TransactionFilters />
 
                     <div className="flex items-center gap-2">
+                        {/* Reference Lookup */}
+                        <TransactionLookup />
+
+                        {/* Saved Views */}
+                        <SavedViewsMenu
+                            table="transactions"
+                            userUid={userUid}
+                        />
+
                         {/* Customize Columns */}
                         <DropdownMenu>
                             <DropdownMenuTrigger asChild>
@@ -952,6 +949,13 @@ export function TransactionTable({
                         </DropdownMenu>
                     </div>
                 </div>
+
+                {/* Bulk actions for the selected rows */}
+                <TransactionBulkActions
+                    rows={table.getSelectedRowModel().rows.map((row) => row.original)}
+                    onClearSelection={() => setRowSelection({})}
+                />
+
                 <div className="relative flex flex-col gap-4 px-4 lg:px-6 min-w-0">
                     <div className="w-full overflow-x-auto rounded-lg border">
                         <div className="min-w-full inline-block">
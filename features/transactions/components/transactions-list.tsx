@@ -2,43 +2,34 @@
 
 import { useSuspenseQuery } from '@tanstack/react-query';
 import { TransactionTable } from './transaction-table';
-import { useTransactionsTableStore } from '@/lib/stores/transactions-table-store';
+import {
+    useTransactionsTableStore,
+    hasActiveFilters,
+    transactionsUrlState,
+    toTransactionsListInput,
+    toTransactionsSearchInput,
+} from '@/lib/stores/transactions-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedTransactionResponse } from '@/lib/definitions';
 
-export default function TransactionsList() {
-    // Get filter state from store
-    const { pagination, sorting, filters } = useTransactionsTableStore();
+interface TransactionsListProps {
+    /** session.uid of the current user, for saved views */
+    userUid: string;
+}
+
+export default function TransactionsList({ userUid }: TransactionsListProps) {
+    const { pagination, sorting, filters } = useTableUrlState(useTransactionsTableStore, transactionsUrlState);
     const trpc = useTRPC();
 
-    // Build query params from store state
-    // Ensure per_page is at least 1 (protect against corrupted persisted state)
-    const queryParams = {
-        // Pagination: convert 0-based pageIndex to 1-based page for API
-        page: Math.max(1, pagination.pageIndex + 1).toString(),
-        per_page: Math.max(1, pagination.pageSize || 10).toString(),
-        // Server-side filters
-        ...(filters.status && { status: filters.status }),
-        ...(filters.startDate && { start_date: filters.startDate }),
-        ...(filters.endDate && { end_date: filters.endDate }),
-        ...(filters.amountMin && { amount_min: filters.amountMin }),
-        ...(filters.amountMax && { amount_max: filters.amountMax }),
-        ...(filters.search && { search: filters.search }),
-        // Sorting: convert TanStack sorting format to API sort format
-        ...(sorting.length > 0 && {
-            sort: sorting.map(s => `${s.id},${s.desc ? 'desc' : 'asc'}`).join(',')
-        }),
-    };
+    // Unfiltered views use the plain list endpoint; any filter goes through the POST search
+    // endpoint so that status, date, amount and advanced criteria are all applied together
+    const queryOptions = hasActiveFilters(filters)
+        ? trpc.transactions.search.queryOptions(toTransactionsSearchInput({ pagination, sorting, filters }))
+        : trpc.transactions.list.queryOptions(toTransactionsListInput({ pagination, sorting, filters }));
 
     // Use useSuspenseQuery for Suspense support
-    const queryResult = useSuspenseQuery(
-        trpc.transactions.list.queryOptions(queryParams,
-        // {
-        //     staleTime: QUERY_CACHE.STALE_TIME_LIST,
-        //     gcTime: QUERY_CACHE.GC_TIME_DEFAULT,
-        //     refetchInterval: false,
-        // }
-    ));
+    const queryResult = useSuspenseQuery(queryOptions);
 
     // Type assertion needed because tRPC types may not be fully inferred in this context
     const data = queryResult.data as PaginatedTransactionResponse;
@@ -57,6 +48,7 @@ export default function TransactionsList() {
     return (
         <div className="@container/main flex flex-1 flex-col gap-2 py-2">
             <TransactionTable
+                userUid={userUid}
                 data={transactions}
                 paginationMeta={paginationMeta}
             />
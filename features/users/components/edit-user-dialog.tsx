@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import type { User } from '@/lib/definitions';
+import { useTRPC } from '@/lib/trpc/client';
+import { EditUserSchema, type EditUserInput } from '../utils/user-schemas';
+import { patchUsersListCache, restoreUsersListCache, type UsersListSnapshot } from '../utils/users-list-cache';
+
+interface EditUserDialogProps {
+    user: User;
+    trigger: React.ReactNode;
+}
+
+export function EditUserDialog({ user, trigger }: EditUserDialogProps) {
+    const [open, setOpen] = useState(false);
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const listQueryKey = trpc.users.list.queryKey();
+
+    const updateMutation = useMutation(
+        trpc.users.update.mutationOptions({
+            onMutate: async (variables) => {
+                const snapshot = await patchUsersListCache(queryClient, listQueryKey, user.id, (current) => ({
+                    ...current,
+                    first_name: variables.first_name ?? current.first_name,
+                    last_name: variables.last_name ?? current.last_name,
+                }));
+                return { snapshot };
+            },
+            onSuccess: (data) => {
+                toast.success(data.message);
+            },
+            onError: (error, _variables, context: { snapshot: UsersListSnapshot } | undefined) => {
+                restoreUsersListCache(queryClient, context?.snapshot);
+                toast.error(error.message || 'Failed to update user');
+            },
+            onSettled: () => {
+                queryClient.invalidateQueries({ queryKey: listQueryKey });
+            },
+        })
+    );
+
+    const form = useForm<EditUserInput>({
+        resolver: zodResolver(EditUserSchema),
+        defaultValues: {
+            first_name: user.first_name ?? '',
+            last_name: user.last_name ?? '',
+        },
+    });
+
+    const onSubmit = (data: EditUserInput) => {
+        updateMutation.mutate({ id: user.uid ?? user.id, ...data });
+        setOpen(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            setOpen(isOpen);
+            if (isOpen) {
+                form.reset({
+                    first_name: user.first_name ?? '',
+                    last_name: user.last_name ?? '',
+                });
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Edit User</DialogTitle>
+                    <DialogDescription>
+                        Update profile details for {user.username}.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...form}>
+                    <form id={`edit-user-form-${user.id}`} onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="first_name"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>First Name</FormLabel>
+                                        <FormControl>
+                                            <Input {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="last_name"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Last Name</FormLabel>
+                                        <FormControl>
+                                            <Input {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <p className="text-sm font-medium">Username</p>
+                                <Input value={user.username} disabled />
+                            </div>
+                            <div className="space-y-2">
+                                <p className="text-sm font-medium">Email</p>
+                                <Input value={user.email} disabled />
+                            </div>
+                        </div>
+                    </form>
+                </Form>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => setOpen(false)}
+                        disabled={updateMutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        form={`edit-user-form-${user.id}`}
+                        disabled={updateMutation.isPending || !form.formState.isDirty}
+                    >
+                        {updateMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save Changes
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { getRolesPermissions, normalizeRoles, type RolePermissionMap } from '@/lib/auth/permissions';
+import { normalizeUserType } from '@/lib/auth/user-types';
+import type { User } from '@/lib/definitions';
+import { useTRPC } from '@/lib/trpc/client';
+
+interface ManageRolesDialogProps {
+    user: User;
+    trigger: React.ReactNode;
+}
+
+function PermissionList({ title, permissions, variant }: {
+    title: string;
+    permissions: string[];
+    variant: 'default' | 'destructive';
+}) {
+    if (permissions.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm font-medium">
+                {title} ({permissions.length})
+            </p>
+            <div className="flex flex-wrap gap-1">
+                {permissions.map((permission) => (
+                    <Badge key={permission} variant={variant} className="font-mono text-xs">
+                        {permission}
+                    </Badge>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Dialog for assigning/removing user roles.
+ * Only roles the backend allows for the user's type are offered, and the resulting permission changes are previewed
+ * from the backend's role permissions before saving.
+ */
+export function ManageRolesDialog({ user, trigger }: ManageRolesDialogProps) {
+    const [open, setOpen] = useState(false);
+    const userType = normalizeUserType(user.user_type);
+    const currentRoles = useMemo(
+        () => normalizeRoles(user.roles && user.roles.length > 0 ? user.roles : user.role ? [user.role] : []),
+        [user.roles, user.role]
+    );
+    const [selectedRoles, setSelectedRoles] = useState<string[]>(currentRoles);
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const userUid = user.uid ?? user.id;
+
+    const { data: assignableRoles = [], isLoading: assignableLoading } = useQuery({
+        ...trpc.users.roles.byUserType.queryOptions({ userType: userType ?? '' }),
+        enabled: open && !!userType,
+    });
+    const { data: allRoles = [], isLoading: allRolesLoading } = useQuery({
+        ...trpc.users.roles.all.queryOptions(),
+        enabled: open,
+    });
+    const rolesLoading = assignableLoading || allRolesLoading;
+
+    // Roles without backend permissions fall back to the static ROLE_PERMISSIONS map
+    const rolePermissions = useMemo<RolePermissionMap>(
+        () => Object.fromEntries(
+            allRoles.flatMap((role) => (role.permissions ? [[role.name, role.permissions]] : []))
+        ),
+        [allRoles]
+    );
+
+    const addedRoles = selectedRoles.filter((role) => !currentRoles.includes(role));
+    const removedRoles = currentRoles.filter((role) => !selectedRoles.includes(role));
+    const hasChanges = addedRoles.length > 0 || removedRoles.length > 0;
+
+    const permissionDiff = useMemo(() => {
+        const before = new Set(getRolesPermissions(currentRoles, undefined, rolePermissions));
+        const after = new Set(getRolesPermissions(selectedRoles, undefined, rolePermissions));
+        return {
+            gained: [...after].filter((permission) => !before.has(permission)).sort(),
+            lost: [...before].filter((permission) => !after.has(permission)).sort(),
+        };
+    }, [currentRoles, selectedRoles, rolePermissions]);
+
+    const assignMutation = useMutation(trpc.users.assignRoles.mutationOptions());
+    const removeMutation = useMutation(trpc.users.removeRoles.mutationOptions());
+    const isPending = assignMutation.isPending || removeMutation.isPending;
+
+    const toggleRole = (role: string, checked: boolean) => {
+        setSelectedRoles((previous) =>
+            checked ? [...previous, role] : previous.filter((selected) => selected !== role)
+        );
+    };
+
+    const handleSave = async () => {
+        try {
+            if (addedRoles.length > 0) {
+                await assignMutation.mutateAsync({ id: userUid, roles: addedRoles });
+            }
+            if (removedRoles.length > 0) {
+                await removeMutation.mutateAsync({ id: userUid, roles: removedRoles });
+            }
+            toast.success(`Roles updated for ${user.username}`);
+            setOpen(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update roles');
+        } finally {
+            queryClient.invalidateQueries({ queryKey: trpc.users.list.queryKey() });
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            setOpen(isOpen);
+            if (isOpen) {
+                setSelectedRoles(currentRoles);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Manage Roles</DialogTitle>
+                    <DialogDescription>
+                        Choose the roles for {user.username}
+                        {userType ? ` (${userType})` : ''}. Only roles valid for this user type are listed.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!userType ? (
+                    <p className="text-sm text-destructive">
+                        This user has no user type, so roles cannot be managed.
+                    </p>
+                ) : rolesLoading ? (
+                    <div className="flex items-center justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <ScrollArea className="max-h-60 rounded-md border">
+                            <div className="space-y-3 p-3">
+                                {assignableRoles.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No roles available for this user type.</p>
+                                ) : (
+                                    assignableRoles.map((role) => (
+                                        <div key={role.name} className="flex items-start gap-3">
+                                            <Checkbox
+                                                id={`role-${user.id}-${role.name}`}
+                                                checked={selectedRoles.includes(role.name)}
+                                                onCheckedChange={(checked) => toggleRole(role.name, checked === true)}
+                                                disabled={isPending}
+                                            />
+                                            <div className="grid gap-0.5">
+                                                <Label htmlFor={`role-${user.id}-${role.name}`}>{role.displayName}</Label>
+                                                {role.description && (
+                                                    <p className="text-xs text-muted-foreground">{role.description}</p>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </ScrollArea>
+
+                        {hasChanges && (
+                            <>
+                                <Separator />
+                                <div className="space-y-3">
+                                    <p className="text-sm text-muted-foreground">Effective permission changes</p>
+                                    {permissionDiff.gained.length === 0 && permissionDiff.lost.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">No change in effective permissions.</p>
+                                    ) : (
+                                        <>
+                                            <PermissionList title="Granted" permissions={permissionDiff.gained} variant="default" />
+                                            <PermissionList title="Revoked" permissions={permissionDiff.lost} variant="destructive" />
+                                        </>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => setOpen(false)}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={isPending || !hasChanges || !userType}
+                    >
+                        {isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save Roles
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -21,12 +21,12 @@ import { Label } from '@/components/ui/label';
 import { useTRPC } from '@/lib/trpc/client';
 
 interface ResetPasswordDialogProps {
-    userId: string;
+    userUid: string;
     username: string;
     trigger?: React.ReactNode;
 }
 
-export function ResetPasswordDialog({ userId, username, trigger }: ResetPasswordDialogProps) {
+export function ResetPasswordDialog({ userUid, username, trigger }: ResetPasswordDialogProps) {
     const [open, setOpen] = useState(false);
     const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
@@ -39,7 +39,7 @@ export function ResetPasswordDialog({ userId, username, trigger }: ResetPassword
 
     const handleReset = () => {
         resetPasswordMutation.mutate(
-            { id: userId },
+            { id: userUid },
             {
                 onSuccess: (data) => {
                     queryClient.invalidateQueries({ queryKey: trpc.users.list.queryKey() });
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { User } from '@/lib/definitions';
+import { useTRPC } from '@/lib/trpc/client';
+import { patchUsersListCache, restoreUsersListCache, type UsersListSnapshot } from '../utils/users-list-cache';
+
+export type UserLifecycleAction = 'activate' | 'deactivate' | 'lock' | 'unlock' | 'delete';
+
+const ACTION_CONFIG: Record<UserLifecycleAction, {
+    title: string;
+    confirmLabel: string;
+    description: (username: string) => string;
+    destructive: boolean;
+    /** Optimistic change applied to the cached list row; null removes the row */
+    apply: (user: User) => User | null;
+}> = {
+    activate: {
+        title: 'Activate User',
+        confirmLabel: 'Activate',
+        description: (username) => `${username} will be able to sign in again.`,
+        destructive: false,
+        apply: (user) => ({ ...user, is_active: true }),
+    },
+    deactivate: {
+        title: 'Deactivate User',
+        confirmLabel: 'Deactivate',
+        description: (username) => `${username} will no longer be able to sign in until reactivated.`,
+        destructive: true,
+        apply: (user) => ({ ...user, is_active: false }),
+    },
+    lock: {
+        title: 'Lock User',
+        confirmLabel: 'Lock',
+        description: (username) => `${username} will be locked out immediately.`,
+        destructive: true,
+        apply: (user) => ({ ...user, is_locked: true }),
+    },
+    unlock: {
+        title: 'Unlock User',
+        confirmLabel: 'Unlock',
+        description: (username) => `${username} will be able to sign in again.`,
+        destructive: false,
+        apply: (user) => ({ ...user, is_locked: false }),
+    },
+    delete: {
+        title: 'Delete User',
+        confirmLabel: 'Delete',
+        description: (username) => `${username} will be permanently deleted. This action cannot be undone.`,
+        destructive: true,
+        apply: () => null,
+    },
+};
+
+interface UserActionDialogProps {
+    user: User;
+    action: UserLifecycleAction;
+    trigger: React.ReactNode;
+}
+
+/**
+ * Confirmation dialog for user lifecycle actions; the list is updated optimistically
+ */
+export function UserActionDialog({ user, action, trigger }: UserActionDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [reason, setReason] = useState('');
+    const queryClient = useQueryClient();
+    const trpc = useTRPC();
+    const config = ACTION_CONFIG[action];
+    const listQueryKey = trpc.users.list.queryKey();
+
+    const mutationOptions = {
+        onMutate: async () => {
+            setOpen(false);
+            const snapshot = await patchUsersListCache(queryClient, listQueryKey, user.id, config.apply);
+            return { snapshot };
+        },
+        onSuccess: (data: { message: string }) => {
+            toast.success(data.message);
+            setReason('');
+        },
+        onError: (error: { message: string }, _variables: unknown, context: { snapshot: UsersListSnapshot } | undefined) => {
+            restoreUsersListCache(queryClient, context?.snapshot);
+            toast.error(error.message || `Failed to ${action} user`);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: listQueryKey });
+        },
+    };
+
+    const procedure = {
+        activate: trpc.users.activate,
+        deactivate: trpc.users.deactivate,
+        lock: trpc.users.lock,
+        unlock: trpc.users.unlock,
+        delete: trpc.users.delete,
+    }[action];
+    const mutation = useMutation(procedure.mutationOptions(mutationOptions));
+
+    const trimmedReason = reason.trim();
+
+    const handleConfirm = () => {
+        if (!trimmedReason) {
+            toast.error('A reason is required');
+            return;
+        }
+        // DELETE /users/{id} takes the numeric id; every other lifecycle endpoint takes the uid
+        mutation.mutate({ id: action === 'delete' ? user.id : user.uid ?? user.id, reason: trimmedReason });
+    };
+
+    const handleClose = () => {
+        setOpen(false);
+        setReason('');
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            if (!isOpen) {
+                handleClose();
+            } else {
+                setOpen(true);
+            }
+        }}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{config.title}</DialogTitle>
+                    <DialogDescription>
+                        {config.description(user.username)}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <Label htmlFor={`user-${action}-reason`}>Reason</Label>
+                    <Textarea
+                        id={`user-${action}-reason`}
+                        placeholder="Enter the reason for this change..."
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        maxLength={500}
+                        rows={3}
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={mutation.isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        variant={config.destructive ? 'destructive' : 'default'}
+                        onClick={handleConfirm}
+                        disabled={mutation.isPending || !trimmedReason}
+                    >
+                        {mutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {config.confirmLabel}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
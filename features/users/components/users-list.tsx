@@ -2,66 +2,28 @@
 
 import { useEffect, useMemo } from 'react';
 import { useSuspenseQuery, useQueryClient } from '@tanstack/react-query';
-import { UsersTable } from './users-table';
+import { UsersTable, type UserActionPermissions } from './users-table';
 import { NewUserDrawer } from './new-user-drawer';
-import { useUsersTableStore } from '@/lib/stores/users-table-store';
+import { useUsersTableStore, usersUrlState, toUsersListInput } from '@/lib/stores/users-table-store';
+import { useTableUrlState } from '@/hooks/use-table-url-state';
 import { useTRPC } from '@/lib/trpc/client';
 import type { PaginatedUserResponse } from '@/lib/definitions';
 
-export default function UsersList() {
-    const queryClient = useQueryClient();
-    const { pagination, sorting, columnFilters, setPagination } = useUsersTableStore();
-    const trpc = useTRPC();
+interface UsersListProps {
+    permissions?: UserActionPermissions;
+}
 
-    // Reset to first page when sorting or filtering changes
-    useEffect(() => {
-        const currentPagination = useUsersTableStore.getState().pagination;
-        setPagination({ ...currentPagination, pageIndex: 0 }); // 0-based for TanStack React Table
-    }, [sorting, columnFilters, setPagination]);
-
-    // Convert 0-based pageIndex to 1-based page number for API
-    const page = pagination.pageIndex + 1;
-    const per_page = pagination.pageSize;
-
-    // Convert sorting state to sort parameter format (e.g., "username,asc,email,desc")
-    const sortParams = useMemo(() => {
-        if (sorting.length === 0) return undefined;
-        return sorting.map(sort => {
-            const direction = sort.desc ? 'desc' : 'asc';
-            return `${sort.id},${direction}`;
-        }).join(',');
-    }, [sorting]);
-
-    // Convert column filters to query parameters
-    const filterParams = useMemo(() => {
-        const params: { role?: string; status?: string } = {};
-
-        columnFilters.forEach(filter => {
-            if (filter.id === 'role' && Array.isArray(filter.value)) {
-                // For role filter, join multiple values with comma (or use first value)
-                // Adjust based on backend API expectations
-                params.role = filter.value.join(',');
-            } else if (filter.id === 'is_active' && Array.isArray(filter.value)) {
-                // Convert status filter values to backend format
-                // The filter uses combined values like 'active-unlocked', 'active-locked', etc.
-                // Backend might expect different format - adjust as needed
-                const statusValues = filter.value as string[];
-                if (statusValues.length > 0) {
-                    params.status = statusValues.join(',');
-                }
-            }
-        });
+export default function UsersList({ permissions }: UsersListProps) {
+    const queryClient = useQueryClient();
 
-        return params;
-    }, [columnFilters]);
+    const { pagination, sorting, columnFilters } = useTableUrlState(useUsersTableStore, usersUrlState);
+    const trpc = useTRPC();
 
     // Build query params for tRPC
-    const queryParams = useMemo(() => ({
-        page: page.toString(),
-        per_page: per_page.toString(),
-        ...(sortParams && { sort: sortParams }),
-        ...filterParams,
-    }), [page, per_page, sortParams, filterParams]);
+    const queryParams = useMemo(
+        () => toUsersListInput({ pagination, sorting, columnFilters }),
+        [pagination, sorting, columnFilters]
+    );
 
     // Use useSuspenseQuery for Suspense support
     const queryResult = useSuspenseQuery(
@@ -142,7 +104,7 @@ export default function UsersList() {
         first: data.first,
     } : {
         pageNumber: pagination.pageIndex,
-        pageSize: per_page,
+        pageSize: pagination.pageSize,
         totalElements: 0,
         totalPages: 0,
         last: true,
@@ -158,6 +120,7 @@ export default function UsersList() {
             <UsersTable
                 data={users}
                 paginationMeta={paginationMeta}
+                permissions={permissions}
             />
         </div>
     )
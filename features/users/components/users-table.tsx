@@ -78,6 +78,26 @@ import {
     TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { ResetPasswordDialog } from "./reset-password-dialog"
+import { EditUserDialog } from "./edit-user-dialog"
+import { UserActionDialog } from "./user-action-dialog"
+import { ManageRolesDialog } from "./manage-roles-dialog"
+
+/**
+ * Which row actions the current user may perform (resolved server-side from PERMISSIONS.USERS.*)
+ */
+export interface UserActionPermissions {
+    update: boolean
+    delete: boolean
+    activate: boolean
+    deactivate: boolean
+    lock: boolean
+    unlock: boolean
+    assignRoles: boolean
+}
+
+interface UsersTableMeta {
+    permissions?: UserActionPermissions
+}
 
 // Helper function to format date
 function formatDate(dateString: string | null): string {
@@ -328,8 +348,10 @@ const columns: ColumnDef<User>[] = [
     },
     {
         id: "actions",
-        cell: ({ row }) => {
+        cell: ({ row, table }) => {
             const user = row.original;
+            const permissions = (table.options.meta as UsersTableMeta | undefined)?.permissions;
+            const preventClose = (e: Event) => e.preventDefault();
             return (
                 <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -344,19 +366,102 @@ const columns: ColumnDef<User>[] = [
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" className="w-40">
                         <DropdownMenuItem>View Details</DropdownMenuItem>
-                        <DropdownMenuItem>Edit</DropdownMenuItem>
+                        {permissions?.update && (
+                            <EditUserDialog
+                                user={user}
+                                trigger={
+                                    <DropdownMenuItem onSelect={preventClose}>
+                                        Edit
+                                    </DropdownMenuItem>
+                                }
+                            />
+                        )}
+                        {permissions?.assignRoles && (
+                            <ManageRolesDialog
+                                user={user}
+                                trigger={
+                                    <DropdownMenuItem onSelect={preventClose}>
+                                        Manage Roles
+                                    </DropdownMenuItem>
+                                }
+                            />
+                        )}
                         <DropdownMenuSeparator />
                         <ResetPasswordDialog
-                            userId={user.id}
+                            userUid={user.uid ?? user.id}
                             username={user.username}
                             trigger={
-                                <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                                <DropdownMenuItem onSelect={preventClose}>
                                     Reset Password
                                 </DropdownMenuItem>
                             }
                         />
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem variant="destructive">Delete</DropdownMenuItem>
+                        {user.is_active ? (
+                            permissions?.deactivate && (
+                                <UserActionDialog
+                                    user={user}
+                                    action="deactivate"
+                                    trigger={
+                                        <DropdownMenuItem onSelect={preventClose}>
+                                            Deactivate
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            )
+                        ) : (
+                            permissions?.activate && (
+                                <UserActionDialog
+                                    user={user}
+                                    action="activate"
+                                    trigger={
+                                        <DropdownMenuItem onSelect={preventClose}>
+                                            Activate
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            )
+                        )}
+                        {user.is_locked ? (
+                            permissions?.unlock && (
+                                <UserActionDialog
+                                    user={user}
+                                    action="unlock"
+                                    trigger={
+                                        <DropdownMenuItem onSelect={preventClose}>
+                                            <IconLockOpen />
+                                            Unlock
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            )
+                        ) : (
+                            permissions?.lock && (
+                                <UserActionDialog
+                                    user={user}
+                                    action="lock"
+                                    trigger={
+                                        <DropdownMenuItem onSelect={preventClose}>
+                                            <IconLock />
+                                            Lock
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            )
+                        )}
+                        {permissions?.delete && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <UserActionDialog
+                                    user={user}
+                                    action="delete"
+                                    trigger={
+                                        <DropdownMenuItem variant="destructive" onSelect={preventClose}>
+                                            Delete
+                                        </DropdownMenuItem>
+                                    }
+                                />
+                            </>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
             );
@@ -377,9 +482,11 @@ interface PaginationMeta {
 export function UsersTable({
     data,
     paginationMeta,
+    permissions,
 }: {
     data: User[];
     paginationMeta: PaginationMeta;
+    permissions?: UserActionPermissions;
 }) {
     "use no memo";
     const {
@@ -407,6 +514,7 @@ export function UsersTable({
             pagination: paginationState,
         },
         getRowId: (row) => row.id,
+        meta: { permissions } satisfies UsersTableMeta,
         enableRowSelection: true,
         onRowSelectionChange: setRowSelection,
         onSortingChange: (updater) => {
@@ -38,3 +38,13 @@ export const CreateUserSchema = z.object({
 });
 
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
+
+/**
+ * Edit User Schema for form validation
+ */
+export const EditUserSchema = z.object({
+    first_name: z.string().min(1, 'First name is required'),
+    last_name: z.string().min(1, 'Last name is required'),
+});
+
+export type EditUserInput = z.infer<typeof EditUserSchema>;
@@ -0,0 +1,57 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { PaginatedUserResponse, User } from '@/lib/definitions';
+
+export type UsersListSnapshot = [QueryKey, PaginatedUserResponse | undefined][];
+
+/**
+ * Optimistically patch every cached users list page.
+ * Returning null from the updater removes the user from the page.
+ *
+ * @returns Snapshot of the previous cache entries for rollback
+ */
+export async function patchUsersListCache(
+    queryClient: QueryClient,
+    queryKey: QueryKey,
+    userId: string,
+    updater: (user: User) => User | null,
+): Promise<UsersListSnapshot> {
+    await queryClient.cancelQueries({ queryKey });
+
+    const snapshot = queryClient.getQueriesData<PaginatedUserResponse>({ queryKey });
+
+    queryClient.setQueriesData<PaginatedUserResponse>({ queryKey }, (old) => {
+        if (!old) return old;
+
+        const data: User[] = [];
+        let removed = 0;
+        old.data.forEach((user) => {
+            if (user.id !== userId) {
+                data.push(user);
+                return;
+            }
+            const next = updater(user);
+            if (next) {
+                data.push(next);
+            } else {
+                removed += 1;
+            }
+        });
+
+        return {
+            ...old,
+            data,
+            totalElements: Math.max(0, old.totalElements - removed),
+        };
+    });
+
+    return snapshot;
+}
+
+/**
+ * Restore users list cache entries captured by patchUsersListCache
+ */
+export function restoreUsersListCache(queryClient: QueryClient, snapshot: UsersListSnapshot | undefined) {
+    snapshot?.forEach(([key, data]) => {
+        queryClient.setQueryData(key, data);
+    });
+}
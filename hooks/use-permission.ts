@@ -1,7 +1,7 @@
 'use client'
 
 import { useMemo } from 'react'
-import { hasAnyPermission, getRolesPermissions } from '@/lib/auth/permissions'
+import { hasAnyPermission, getRolesPermissions, type RolePermissionMap } from '@/lib/auth/permissions'
 
 interface UsePermissionOptions {
   permission?: string
@@ -14,12 +14,14 @@ interface UsePermissionOptions {
  * @param roles - Array of user roles
  * @param options - Permission options (permission, permissions, requireAll)
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend role -> permission mapping from the session
  * @returns boolean indicating if user has the required permission(s)
  */
 export function usePermission(
   roles: string[] | undefined,
   options: UsePermissionOptions | string,
-  userType?: string | null
+  userType?: string | null,
+  rolePermissions?: RolePermissionMap
 ): boolean {
   return useMemo(() => {
     if (!roles || roles.length === 0) {
@@ -33,47 +35,52 @@ export function usePermission(
 
     // Single permission check
     if (opts.permission) {
-      return hasAnyPermission(roles, opts.permission, userType)
+      return hasAnyPermission(roles, opts.permission, userType, rolePermissions)
     }
 
     // Multiple permissions check
     if (opts.permissions && opts.permissions.length > 0) {
       if (opts.requireAll) {
         return opts.permissions.every(permission => 
-          hasAnyPermission(roles, permission, userType)
+          hasAnyPermission(roles, permission, userType, rolePermissions)
         )
       } else {
         return opts.permissions.some(permission => 
-          hasAnyPermission(roles, permission, userType)
+          hasAnyPermission(roles, permission, userType, rolePermissions)
         )
       }
     }
 
     return false
-  }, [roles, options, userType])
+  }, [roles, options, userType, rolePermissions])
 }
 
 /**
  * Hook to get all permissions for user's roles
  * @param roles - Array of user roles
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend role -> permission mapping from the session
  * @returns Array of permission strings
  */
-export function usePermissions(roles: string[] | undefined, userType?: string | null): string[] {
+export function usePermissions(
+  roles: string[] | undefined,
+  userType?: string | null,
+  rolePermissions?: RolePermissionMap
+): string[] {
   return useMemo(() => {
     if (!roles || roles.length === 0) {
       return []
     }
-    return getRolesPermissions(roles, userType)
-  }, [roles, userType])
+    return getRolesPermissions(roles, userType, rolePermissions)
+  }, [roles, userType, rolePermissions])
 }
 
 // Backward compatibility exports
-export function useAnyPermission(roles: string[] | undefined, permissions: string[], userType?: string | null): boolean {
-  return usePermission(roles, { permissions }, userType)
+export function useAnyPermission(roles: string[] | undefined, permissions: string[], userType?: string | null, rolePermissions?: RolePermissionMap): boolean {
+  return usePermission(roles, { permissions }, userType, rolePermissions)
 }
 
-export function useAllPermissions(roles: string[] | undefined, permissions: string[], userType?: string | null): boolean {
-  return usePermission(roles, { permissions, requireAll: true }, userType)
+export function useAllPermissions(roles: string[] | undefined, permissions: string[], userType?: string | null, rolePermissions?: RolePermissionMap): boolean {
+  return usePermission(roles, { permissions, requireAll: true }, userType, rolePermissions)
 }
 
@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import type { TableStoreApi, TableUrlSlice, TableUrlState } from '@/lib/stores/url-state'
+
+/**
+ * Keep a table store's pagination, sorting and filters in sync with the query string,
+ * so a refresh or a shared link restores the same view. Query params that do not belong
+ * to the table are left untouched.
+ *
+ * Returns the synced slice to query with. Until the URL has been applied to the store
+ * (in an effect, never during render) that is the slice read from the URL, so the first
+ * render already queries with the same input the page component prefetched.
+ *
+ * @param useStore - Zustand table store
+ * @param urlState - URL mapping for the store (see createTableUrlState)
+ */
+export function useTableUrlState<TSlice extends TableUrlSlice>(
+  useStore: TableStoreApi<TSlice>,
+  urlState: TableUrlState<TSlice>
+): TSlice {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const [initialSlice] = useState(() => urlState.parse(searchParams))
+  const [hydrated, setHydrated] = useState(false)
+  const storeSlice = useSyncExternalStore(useStore.subscribe, useStore.getState, useStore.getState)
+
+  // URL -> store on mount and on back/forward navigation
+  useEffect(() => {
+    const fromUrl = urlState.parse(searchParams)
+    if (urlState.serialize(fromUrl).toString() !== urlState.serialize(useStore.getState()).toString()) {
+      useStore.setState(fromUrl)
+    }
+    // The store holds the URL from here on
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setHydrated(true)
+  }, [searchParams, useStore, urlState])
+
+  // store -> URL
+  useEffect(() => useStore.subscribe((state) => {
+    const current = new URLSearchParams(window.location.search)
+    const currentTableParams = urlState.serialize(urlState.parse(current))
+    const nextTableParams = urlState.serialize(state)
+
+    if (nextTableParams.toString() === currentTableParams.toString()) {
+      return
+    }
+
+    currentTableParams.forEach((_, key) => current.delete(key))
+    nextTableParams.forEach((value, key) => current.set(key, value))
+
+    const query = current.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }), [pathname, router, useStore, urlState])
+
+  return hydrated ? storeSlice : initialSlice
+}
@@ -0,0 +1,68 @@
+import type { ApprovalAction, ApprovalRequest, ApprovalStatus } from '@/lib/definitions';
+
+/**
+ * Maker-checker approvals: refunds, completions, cancellations, force retries and manual status changes above
+ * the approval threshold are held as requests until a second user approves them
+ */
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+    TRANSACTION_REFUND: 'Refund transaction',
+    TRANSACTION_COMPLETE: 'Complete transaction',
+    TRANSACTION_CANCEL: 'Cancel transaction',
+    TRANSACTION_UPDATE_STATUS: 'Set transaction status',
+    DISBURSEMENT_COMPLETE: 'Complete disbursement',
+    DISBURSEMENT_CANCEL: 'Cancel disbursement',
+    DISBURSEMENT_FORCE_RETRY: 'Force retry disbursement',
+    DISBURSEMENT_UPDATE_STATUS: 'Set disbursement status',
+};
+
+/**
+ * Approvals stay off until the backend ships the approvals API: set APPROVALS_ENABLED=true on the server to hold
+ * actions above the threshold and show the approval queue. While off, every action runs right away as before.
+ */
+export function isApprovalFlowEnabled(): boolean {
+    return process.env.APPROVALS_ENABLED === 'true';
+}
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+    PENDING: 'Pending',
+    EXECUTING: 'Executing',
+    EXECUTED: 'Executed',
+    FAILED: 'Failed',
+    REJECTED: 'Rejected',
+    EXPIRED: 'Expired',
+};
+
+export const APPROVAL_EVENT_LABELS: Record<ApprovalRequest['events'][number]['type'], string> = {
+    REQUESTED: 'Requested',
+    APPROVED: 'Approved',
+    REJECTED: 'Rejected',
+    EXPIRED: 'Expired',
+    EXECUTED: 'Executed',
+    FAILED: 'Execution failed',
+};
+
+export function isApprovalExpired(approval: Pick<ApprovalRequest, 'status' | 'expiresAt'>, now = Date.now()): boolean {
+    return approval.status === 'PENDING' && new Date(approval.expiresAt).getTime() <= now;
+}
+
+/**
+ * Whether `userUid` may decide on the request: it must be pending and raised by someone else (four eyes)
+ */
+export function canDecideApproval(approval: ApprovalRequest, userUid: string, now = Date.now()): boolean {
+    return approval.status === 'PENDING' && !isApprovalExpired(approval, now) && approval.requestedBy.uid !== userUid;
+}
+
+export function formatApprovalAmount(approval: Pick<ApprovalRequest, 'amount' | 'currency'>): string {
+    const formatted = parseFloat(approval.amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return approval.currency ? `${approval.currency} ${formatted}` : formatted;
+}
+
+/**
+ * Detail page of the transaction or disbursement the request applies to
+ */
+export function getApprovalEntityHref(approval: Pick<ApprovalRequest, 'entityType' | 'entityUid'>): string {
+    return approval.entityType === 'TRANSACTION'
+        ? `/transactions/${approval.entityUid}`
+        : `/disbursements/${approval.entityUid}`;
+}
@@ -0,0 +1,37 @@
+import { format, parseISO, subDays } from 'date-fns';
+
+/**
+ * Helpers for archiving old transactions and disbursements
+ */
+
+// Records younger than this can still be refunded, retried or disputed, so they are never archived
+export const MIN_ARCHIVE_AGE_DAYS = 90;
+
+// Word the operator types to confirm an archive run
+export const ARCHIVE_CONFIRMATION_WORD = 'ARCHIVE';
+
+/**
+ * Latest cutoff date (yyyy-MM-dd) an archive run may use
+ */
+export function getLatestArchiveCutoff(now: Date = new Date()): string {
+    return format(subDays(now, MIN_ARCHIVE_AGE_DAYS), 'yyyy-MM-dd');
+}
+
+export function isValidArchiveCutoff(cutoffDate: string, now: Date = new Date()): boolean {
+    // yyyy-MM-dd strings compare in date order
+    return /^\d{4}-\d{2}-\d{2}$/.test(cutoffDate) && cutoffDate <= getLatestArchiveCutoff(now);
+}
+
+/**
+ * Backend archiveThreshold (LocalDateTime): records created before the start of the cutoff date
+ */
+export function toArchiveThreshold(cutoffDate: string): string {
+    return `${cutoffDate}T00:00:00`;
+}
+
+/**
+ * Inclusive `createdTo` search bound matching the records an archive run with this cutoff would touch
+ */
+export function toArchiveSearchCreatedTo(cutoffDate: string): string {
+    return `${format(subDays(parseISO(cutoffDate), 1), 'yyyy-MM-dd')}T23:59:59`;
+}
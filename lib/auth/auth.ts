@@ -16,9 +16,11 @@ async function getValidatedSession() {
       return null
     }
 
-    // Validate user type and roles
+    // Validate user type and roles. Roles in the backend mapping were validated for the user type at login.
     if (session.userType) {
-      const validation = validateRolesForUserType(session.roles, session.userType)
+      const rolePermissions = session.rolePermissions
+      const staticRoles = session.roles.filter(role => !(rolePermissions && role in rolePermissions))
+      const validation = validateRolesForUserType(staticRoles, session.userType)
       if (!validation.isValid) {
         return null
       }
@@ -39,7 +41,7 @@ async function getValidatedSession() {
 export async function checkPermission(permission: string): Promise<boolean> {
   const session = await getValidatedSession()
   if (!session) return false
-  return hasAnyPermission(session.roles, permission, session.userType)
+  return hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
 }
 
 /**
@@ -55,7 +57,7 @@ export async function requirePermission(permission: string): Promise<void> {
     redirect('/unauthorized')
   }
 
-  const hasAccess = hasAnyPermission(session.roles, permission, session.userType)
+  const hasAccess = hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
   if (!hasAccess) {
     redirect('/unauthorized')
   }
@@ -73,7 +75,7 @@ export async function requireAnyPermission(permissions: string[]): Promise<void>
   }
 
   const hasAccess = permissions.some(permission =>
-    hasAnyPermission(session.roles, permission, session.userType)
+    hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
   )
 
   if (!hasAccess) {
@@ -93,7 +95,7 @@ export async function requireAllPermissions(permissions: string[]): Promise<void
   }
 
   const hasAccess = permissions.every(permission =>
-    hasAnyPermission(session.roles, permission, session.userType)
+    hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
   )
 
   if (!hasAccess) {
@@ -108,7 +110,7 @@ export async function requireAllPermissions(permissions: string[]): Promise<void
 export async function getCurrentUserPermissions(): Promise<string[]> {
   const session = await getValidatedSession()
   if (!session) return []
-  return getRolesPermissions(session.roles, session.userType)
+  return getRolesPermissions(session.roles, session.userType, session.rolePermissions)
 }
 
 /**
@@ -120,7 +122,7 @@ export async function checkAnyPermission(permissions: string[]): Promise<boolean
   const session = await getValidatedSession()
   if (!session) return false
   return permissions.some(permission =>
-    hasAnyPermission(session.roles, permission, session.userType)
+    hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
   )
 }
 
@@ -133,7 +135,7 @@ export async function checkAllPermissions(permissions: string[]): Promise<boolea
   const session = await getValidatedSession()
   if (!session) return false
   return permissions.every(permission =>
-    hasAnyPermission(session.roles, permission, session.userType)
+    hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions)
   )
 }
 
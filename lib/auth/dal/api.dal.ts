@@ -8,7 +8,7 @@ import { API_CONFIG } from '@/lib/config/api'
 import { API_ENDPOINTS } from '@/lib/config/api'
 import { buildEndpointUrl } from '@/lib/config/endpoints'
 import { User, ApiResponse } from '@/lib/types'
-import { AuthApiResponse, LoginCredentials } from '../types'
+import { AuthApiResponse, LoginCredentials, RolePermissionConfig } from '../types'
 
 /**
  * Authenticate user with external API
@@ -77,9 +77,84 @@ export async function fetchUserData(userId: string, token: string): Promise<User
   }
 }
 
+/**
+ * Fetch role -> permission mappings from the external API
+ * Combines /roles/all (role permissions) with /config (role display names) and, when a user type is given,
+ * the roles the backend allows for that user type.
+ * Any source may fail or omit data; missing parts are returned empty (or null for the user type roles).
+ */
+export async function fetchRolePermissionConfig(token: string, userType?: string): Promise<RolePermissionConfig> {
+  const headers = {
+    ...API_CONFIG.headers,
+    Authorization: `Bearer ${token}`,
+  }
+
+  const [rolesResult, configResult, userTypeRolesResult] = await Promise.allSettled([
+    fetch(`${API_CONFIG.baseURL}${API_ENDPOINTS.roles.all}`, { headers, cache: 'no-store' })
+      .then(response => (response.ok ? response.json() : null)),
+    fetch(`${API_CONFIG.baseURL}${API_ENDPOINTS.config.get}`, { headers, cache: 'no-store' })
+      .then(response => (response.ok ? response.json() : null)),
+    userType
+      ? fetch(`${API_CONFIG.baseURL}${buildEndpointUrl.rolesByUserType(userType)}`, { headers, cache: 'no-store' })
+        .then(response => (response.ok ? response.json() : null))
+      : Promise.resolve(null),
+  ])
+
+  const config: RolePermissionConfig = {
+    rolePermissions: {},
+    displayNameToCode: {},
+    userTypeRoles: null,
+  }
+
+  if (rolesResult.status === 'fulfilled') {
+    const roles: unknown = rolesResult.value?.data ?? rolesResult.value
+    if (Array.isArray(roles)) {
+      roles.forEach((role: { name?: string; displayName?: string; permissions?: unknown }) => {
+        if (!role?.name) return
+        if (role.displayName) {
+          config.displayNameToCode[role.displayName] = role.name
+        }
+        if (Array.isArray(role.permissions)) {
+          config.rolePermissions[role.name] = role.permissions.filter(
+            (permission): permission is string => typeof permission === 'string'
+          )
+        }
+      })
+    }
+  } else {
+    console.error('Failed to fetch roles', rolesResult.reason)
+  }
+
+  if (configResult.status === 'fulfilled') {
+    const userRoles: unknown = configResult.value?.data?.userRoles
+    if (Array.isArray(userRoles)) {
+      userRoles.forEach((item: { value?: string; displayName?: string }) => {
+        if (item?.value && item.displayName) {
+          config.displayNameToCode[item.displayName] = item.value
+        }
+      })
+    }
+  } else {
+    console.error('Failed to fetch admin config', configResult.reason)
+  }
+
+  if (userTypeRolesResult.status === 'fulfilled') {
+    const roles: unknown = userTypeRolesResult.value?.data
+    if (Array.isArray(roles)) {
+      config.userTypeRoles = roles
+        .map((role: { name?: unknown }) => role?.name)
+        .filter((name): name is string => typeof name === 'string')
+    }
+  } else {
+    console.error('Failed to fetch roles for user type', userTypeRolesResult.reason)
+  }
+
+  return config
+}
+
 /**
  * Refresh authentication token
- * TODO: Implement when refresh token endpoint is ready
+ * Exchanges the refresh token for a new access token
  */
 export async function refreshToken(refreshToken: string): Promise<AuthApiResponse> {
   const controller = new AbortController()
@@ -3,7 +3,7 @@
  * Define all available permissions in the system
  */
 
-import { filterValidRoles, isRoleValidForUserType } from './user-types'
+import { isRoleValidForUserType } from './user-types'
 
 export const PERMISSIONS = {
     // User Management
@@ -44,6 +44,7 @@ export const PERMISSIONS = {
         DELETE: 'disbursements.delete',
         UPDATE_STATUS: 'disbursements.update_status',
         RETRY: 'disbursements.retry',
+        FORCE_RETRY: 'disbursements.force_retry',
         COMPLETE: 'disbursements.complete',
         CANCEL: 'disbursements.cancel',
         EXPORT: 'disbursements.export',
@@ -83,6 +84,14 @@ export const PERMISSIONS = {
         ALL: 'payment_gateways.*',
     },
 
+    // Maker-checker approvals of money-moving actions above the approval threshold.
+    // Not in the backend's role seed yet; see withApprovalPermissionFallback
+    APPROVALS: {
+        VIEW: 'approvals.view',
+        APPROVE: 'approvals.approve',
+        ALL: 'approvals.*',
+    },
+
     // audit and logs
     AUDIT_AND_LOGS: {
         VIEW: 'audit_and_logs.view',
@@ -159,6 +168,7 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
         PERMISSIONS.DISBURSEMENTS.UPDATE,
         PERMISSIONS.DISBURSEMENTS.UPDATE_STATUS,
         PERMISSIONS.PAYMENT_GATEWAYS.VIEW,
+        PERMISSIONS.APPROVALS.VIEW,
         // PERMISSIONS.AUDIT_AND_LOGS.VIEW,
     ],
 
@@ -169,6 +179,7 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
         PERMISSIONS.MERCHANTS.VIEW,
         PERMISSIONS.PAYMENT_GATEWAYS.VIEW,
         PERMISSIONS.AUDIT_AND_LOGS.VIEW,
+        PERMISSIONS.APPROVALS.ALL,
     ],
 
     // Compliance Administrator - Regulatory compliance and KYC/AML
@@ -178,6 +189,7 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
         PERMISSIONS.TRANSACTIONS.VIEW,
         PERMISSIONS.DISBURSEMENTS.VIEW,
         PERMISSIONS.AUDIT_AND_LOGS.VIEW,
+        PERMISSIONS.APPROVALS.VIEW,
     ],
 
     // Merchant Administrator - Merchant onboarding and management
@@ -225,10 +237,38 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
         PERMISSIONS.DISBURSEMENTS.COMPLETE,
         PERMISSIONS.DISBURSEMENTS.CANCEL,
         PERMISSIONS.PAYMENT_GATEWAYS.VIEW,
+        PERMISSIONS.APPROVALS.VIEW,
         // PERMISSIONS.AUDIT_AND_LOGS.VIEW,
     ],
 }
 
+/**
+ * Role code to permissions mapping resolved from the backend
+ * Stored with the session; roles missing from it fall back to ROLE_PERMISSIONS
+ */
+export type RolePermissionMap = Record<string, string[]>
+
+/**
+ * Approval permissions were added by the dashboard before the backend's role seed knew them.
+ * Until any backend role grants an approvals.* permission, each backend role keeps the approval permissions
+ * ROLE_PERMISSIONS gives it; once the backend grants one to any role, its mapping alone decides who may view
+ * and decide approval requests.
+ */
+export function withApprovalPermissionFallback(rolePermissions: RolePermissionMap): RolePermissionMap {
+    const isApprovalPermission = (permission: string) => permission.startsWith('approvals.')
+    const seeded = Object.values(rolePermissions).some(permissions => permissions.some(isApprovalPermission))
+    if (seeded) {
+        return rolePermissions
+    }
+
+    return Object.fromEntries(
+        Object.entries(rolePermissions).map(([role, permissions]) => [
+            role,
+            [...permissions, ...(ROLE_PERMISSIONS[role] ?? []).filter(isApprovalPermission)],
+        ])
+    )
+}
+
 /**
  * Convert role display names to role codes
  * @param roles - Array of role display names or codes
@@ -245,23 +285,39 @@ export function normalizeRoles(roles: string[]): string[] {
     })
 }
 
+/**
+ * Whether a role counts for the user type.
+ * Roles in the backend mapping were already validated against the backend's roles for the user type at login,
+ * so only roles missing from it fall back to the static USER_TYPE_ROLES table.
+ */
+function isRoleAllowed(role: string, userType: string, rolePermissions?: RolePermissionMap): boolean {
+    if (rolePermissions && role in rolePermissions) {
+        return true
+    }
+    return isRoleValidForUserType(role, userType)
+}
+
 /**
  * Check if a role has a specific permission
  * @param role - The role name to check
  * @param permission - The permission to check (e.g., 'users.create' or 'users.*')
  * @param userType - Optional user type to validate role against
+ * @param rolePermissions - Optional backend mapping that takes precedence over ROLE_PERMISSIONS
  * @returns true if the role has the permission, false otherwise
  */
-export function hasPermission(role: string, permission: string, userType?: string | null): boolean {
+export function hasPermission(
+    role: string,
+    permission: string,
+    userType?: string | null,
+    rolePermissions?: RolePermissionMap
+): boolean {
     // If user type is provided, validate that role is valid for user type
     if (userType) {
-        if (!isRoleValidForUserType(role, userType)) {
+        if (!isRoleAllowed(ROLE_DISPLAY_NAME_TO_CODE[role] || role, userType, rolePermissions)) {
             return false
         }
     }
-    // Normalize role (convert display name to code if needed)
-    const normalizedRole = ROLE_DISPLAY_NAME_TO_CODE[role] || role
-    const permissions = ROLE_PERMISSIONS[normalizedRole] || []
+    const permissions = getRolePermissions(role, rolePermissions)
 
     // Check for super admin (all permissions)
     if (permissions.includes(PERMISSIONS.SYSTEM.ALL)) {
@@ -288,18 +344,24 @@ export function hasPermission(role: string, permission: string, userType?: strin
  * @param roles - Array of role names
  * @param permission - The permission to check
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend mapping that takes precedence over ROLE_PERMISSIONS
  * @returns true if any role has the permission
  */
-export function hasAnyPermission(roles: string[], permission: string, userType?: string | null): boolean {
+export function hasAnyPermission(
+    roles: string[],
+    permission: string,
+    userType?: string | null,
+    rolePermissions?: RolePermissionMap
+): boolean {
     // Normalize roles before checking
     let normalizedRoles = normalizeRoles(roles)
 
     // If user type is provided, filter roles to only include valid ones
     if (userType) {
-        normalizedRoles = filterValidRoles(normalizedRoles, userType)
+        normalizedRoles = normalizedRoles.filter(role => isRoleAllowed(role, userType, rolePermissions))
     }
 
-    return normalizedRoles.some(role => hasPermission(role, permission, userType))
+    return normalizedRoles.some(role => hasPermission(role, permission, userType, rolePermissions))
 }
 
 /**
@@ -307,28 +369,39 @@ export function hasAnyPermission(roles: string[], permission: string, userType?:
  * @param roles - Array of role names
  * @param permission - The permission to check
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend mapping that takes precedence over ROLE_PERMISSIONS
  * @returns true if all roles have the permission
  */
-export function hasAllPermissions(roles: string[], permission: string, userType?: string | null): boolean {
+export function hasAllPermissions(
+    roles: string[],
+    permission: string,
+    userType?: string | null,
+    rolePermissions?: RolePermissionMap
+): boolean {
     // Normalize roles before checking
     let normalizedRoles = normalizeRoles(roles)
 
     // If user type is provided, filter roles to only include valid ones
     if (userType) {
-        normalizedRoles = filterValidRoles(normalizedRoles, userType)
+        normalizedRoles = normalizedRoles.filter(role => isRoleAllowed(role, userType, rolePermissions))
     }
 
-    return normalizedRoles.length > 0 && normalizedRoles.every(role => hasPermission(role, permission, userType))
+    return normalizedRoles.length > 0 && normalizedRoles.every(role => hasPermission(role, permission, userType, rolePermissions))
 }
 
 /**
  * Get all permissions for a role
+ * Uses the backend mapping when it defines the role, otherwise the static ROLE_PERMISSIONS
  * @param role - The role name
+ * @param rolePermissions - Optional backend mapping that takes precedence over ROLE_PERMISSIONS
  * @returns Array of permission strings
  */
-export function getRolePermissions(role: string): string[] {
+export function getRolePermissions(role: string, rolePermissions?: RolePermissionMap): string[] {
     // Normalize role (convert display name to code if needed)
     const normalizedRole = ROLE_DISPLAY_NAME_TO_CODE[role] || role
+    if (rolePermissions && normalizedRole in rolePermissions) {
+        return rolePermissions[normalizedRole]
+    }
     return ROLE_PERMISSIONS[normalizedRole] || []
 }
 
@@ -336,21 +409,26 @@ export function getRolePermissions(role: string): string[] {
  * Get all permissions for multiple roles (union of all permissions)
  * @param roles - Array of role names
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend mapping that takes precedence over ROLE_PERMISSIONS
  * @returns Array of unique permission strings
  */
-export function getRolesPermissions(roles: string[], userType?: string | null): string[] {
+export function getRolesPermissions(
+    roles: string[],
+    userType?: string | null,
+    rolePermissions?: RolePermissionMap
+): string[] {
     // Normalize roles before checking
     let normalizedRoles = normalizeRoles(roles)
 
     // If user type is provided, filter roles to only include valid ones
     if (userType) {
-        normalizedRoles = filterValidRoles(normalizedRoles, userType)
+        normalizedRoles = normalizedRoles.filter(role => isRoleAllowed(role, userType, rolePermissions))
     }
 
     const allPermissions = new Set<string>()
 
     normalizedRoles.forEach(role => {
-        const rolePerms = getRolePermissions(role)
+        const rolePerms = getRolePermissions(role, rolePermissions)
         rolePerms.forEach(perm => allPermissions.add(perm))
     })
 
@@ -11,8 +11,8 @@ import { SessionPayload } from '@/lib/definitions'
 import { SessionData, LoginCredentials } from '../types'
 import * as sessionDal from '../dal/session.dal'
 import * as apiDal from '../dal/api.dal'
-import { getRolesPermissions, normalizeRoles } from '../permissions'
-import { normalizeUserType } from '../user-types'
+import { getRolesPermissions, normalizeRoles, withApprovalPermissionFallback } from '../permissions'
+import { isRoleValidForUserType, normalizeUserType } from '../user-types'
 import { User } from '@/lib/types'
 
 /**
@@ -51,12 +51,32 @@ export async function login(credentials: LoginCredentials): Promise<LoginResult>
 
     const requirePasswordChange = data.requirePasswordChange || false;
 
+    // Normalize userType (handle different API formats)
+    const normalizedUserType = normalizeUserType(data.userType)
+
+    // Load role -> permission mappings from the backend so role changes don't need a frontend deploy
+    const roleConfig = await apiDal.fetchRolePermissionConfig(data.token, normalizedUserType)
+
     // Normalize roles (convert display names to codes if needed)
     const rawRoles = Array.isArray(data.roles) ? data.roles : []
-    const normalizedRoles = normalizeRoles(rawRoles)
+    const normalizedRoles = normalizeRoles(
+        rawRoles.map(role => roleConfig.displayNameToCode[role] || role)
+    )
 
-    // Normalize userType (handle different API formats)
-    const normalizedUserType = normalizeUserType(data.userType)
+    // The backend's roles for the user type decide which roles are valid; the static table is the fallback
+    const isValidForUserType = (role: string) => roleConfig.userTypeRoles
+        ? roleConfig.userTypeRoles.includes(role)
+        : isRoleValidForUserType(role, normalizedUserType)
+
+    const backendRolePermissions = withApprovalPermissionFallback(roleConfig.rolePermissions)
+
+    // Keep only the user's valid roles to keep the session cookie small.
+    // Permission checks trust every role in this map, including roles the static table doesn't know.
+    const rolePermissions = Object.fromEntries(
+        normalizedRoles
+            .filter(role => role in backendRolePermissions && (!normalizedUserType || isValidForUserType(role)))
+            .map(role => [role, backendRolePermissions[role]])
+    )
 
     // Prepare session data
     const sessionData: SessionData = {
@@ -68,6 +88,8 @@ export async function login(credentials: LoginCredentials): Promise<LoginResult>
         name: data.name || data.username,
         email: data.email || '',
         roles: normalizedRoles, // Store normalized role codes
+        // Omitted when the backend has no mappings, so the static ROLE_PERMISSIONS map applies
+        rolePermissions: Object.keys(rolePermissions).length > 0 ? rolePermissions : undefined,
         userType: normalizedUserType, // Store normalized userType
         requirePasswordChange,
     }
@@ -100,6 +122,66 @@ export async function createSession(sessionData: SessionData): Promise<void> {
     await sessionDal.writeSessionCookie(sessionToken, expiresAt)
 }
 
+// In-flight and recently completed refreshes keyed by refresh token (single-flight)
+const refreshes = new Map<string, Promise<SessionPayload | null>>()
+
+/**
+ * Refresh the backend access token using the session's refresh token
+ * Concurrent callers holding the same refresh token share one refresh call.
+ * The session cookie is rewritten when the request context allows it.
+ * Returns the refreshed session, or null if the session cannot be refreshed
+ */
+export function refreshSession(session: SessionPayload): Promise<SessionPayload | null> {
+    const { refreshToken } = session
+    if (!refreshToken) {
+        return Promise.resolve(null)
+    }
+
+    const existing = refreshes.get(refreshToken)
+    if (existing) {
+        return existing
+    }
+
+    const refresh = (async (): Promise<SessionPayload | null> => {
+        try {
+            const apiResult = await apiDal.refreshToken(refreshToken)
+            if (!apiResult.status || !apiResult.data?.token) {
+                return null
+            }
+
+            const { SESSION } = await import('@/lib/config/constants');
+            const refreshed: SessionPayload = {
+                ...session,
+                token: apiResult.data.token,
+                refreshToken: apiResult.data.refreshToken || refreshToken,
+                expiresAt: Date.now() + SESSION.EXPIRY_MS,
+            }
+
+            try {
+                // createSession stamps the cookie with its own expiry
+                await createSession(refreshed)
+            } catch (error) {
+                // Cookies are read-only while rendering Server Components; the new token is still used for this request
+                console.error('Failed to persist refreshed session', error)
+            }
+
+            return refreshed
+        } catch (error) {
+            console.error('Failed to refresh access token', error)
+            return null
+        }
+    })()
+
+    refreshes.set(refreshToken, refresh)
+    refresh.finally(async () => {
+        // Keep the result briefly so requests still sending the old cookie reuse it instead of refreshing again
+        const { SESSION } = await import('@/lib/config/constants');
+        setTimeout(() => refreshes.delete(refreshToken), SESSION.REFRESH_REUSE_MS)
+    })
+
+    return refresh
+}
+
 /**
  * Get current session from cookie
  * Returns null if session doesn't exist or is invalid
@@ -177,7 +259,7 @@ export const getUserPermissions = cache(async (): Promise<string[]> => {
     if (!session?.roles || session.roles.length === 0) {
         return []
     }
-    return getRolesPermissions(session.roles)
+    return getRolesPermissions(session.roles, session.userType, session.rolePermissions)
 })
 
 /**
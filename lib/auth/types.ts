@@ -34,6 +34,18 @@ export interface AuthApiResponse {
   }
 }
 
+/**
+ * Role configuration resolved from the backend at login
+ */
+export interface RolePermissionConfig {
+  /** Role code -> permissions, only for roles the backend returned permissions for */
+  rolePermissions: Record<string, string[]>
+  /** Role display name -> role code */
+  displayNameToCode: Record<string, string>
+  /** Role codes the backend allows for the user's type, or null when they couldn't be loaded */
+  userTypeRoles: string[] | null
+}
+
 /**
  * Session data without expiresAt (used when creating session)
  */
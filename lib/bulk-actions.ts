@@ -0,0 +1,51 @@
+/**
+ * Helpers for running an action over many table rows and reporting the per-row outcome
+ */
+
+import { toCsv } from './csv';
+
+// Number of rows processed at the same time, to avoid flooding the backend (and the PSPs behind it)
+export const BULK_ACTION_CONCURRENCY = 4;
+
+// pending_approval: held for a second user's approval instead of being run
+export type BulkRowOutcome = 'succeeded' | 'pending_approval' | 'skipped' | 'failed';
+
+export interface BulkRowResult {
+    id: string;
+    reference: string;
+    status: string;
+    outcome: BulkRowOutcome;
+    message: string;
+}
+
+/**
+ * Run `worker` for every item with at most `limit` in flight, preserving input order in the results
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    async function runNext(): Promise<void> {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+    return results;
+}
+
+/**
+ * Per-row bulk action report as CSV
+ */
+export function bulkResultsToCsv(action: string, results: BulkRowResult[]): string {
+    return toCsv(
+        ['Action', 'UID', 'Reference', 'Status Before', 'Outcome', 'Message'],
+        results.map((r) => [action, r.id, r.reference, r.status, r.outcome, r.message])
+    );
+}
@@ -65,6 +65,7 @@ export const API_ENDPOINTS = {
     exists: "/admin/v1/roles/exists/{name}",
     available: "/admin/v1/roles/available",
     all: "/admin/v1/roles/all",
+    byUserType: "/admin/v1/roles/user-types/{userType}/roles",
   },
 
   // Transaction Management endpoints
@@ -192,6 +193,7 @@ export const API_ENDPOINTS = {
     activate: "/admin/v1/merchants/uid/{uid}/activate",
     deactivate: "/admin/v1/merchants/uid/{uid}/deactivate",
     verifyKYC: "/admin/v1/merchants/uid/{uid}/verify-kyc",
+    kycDecision: "/admin/v1/merchants/uid/{uid}/kyc/decision",
     updateStatus: "/admin/v1/merchants/uid/{uid}/status",
 
     // Bank Accounts
@@ -233,6 +235,7 @@ export const API_ENDPOINTS = {
   paymentGateways: {
     list: "/admin/v1/payment-gateways",
     getById: "/admin/v1/payment-gateways/{id}",
+    getByUid: "/admin/v1/payment-gateways/uid/{uid}",
     create: "/admin/v1/payment-gateways",
     update: "/admin/v1/payment-gateways/{id}",
     delete: "/admin/v1/payment-gateways/{id}",
@@ -247,6 +250,29 @@ export const API_ENDPOINTS = {
     available: "/admin/v1/available-payment-gateways",
   },
 
+  // Payment Channels endpoints
+  paymentChannels: {
+    list: "/admin/v1/payment-channels",
+    getById: "/admin/v1/payment-channels/{id}",
+    getByUid: "/admin/v1/payment-channels/uid/{uid}",
+    create: "/admin/v1/payment-channels",
+    update: "/admin/v1/payment-channels/uid/{uid}",
+    count: "/admin/v1/payment-channels/count",
+    getAll: "/admin/v1/payment-channels/all",
+    activate: "/admin/v1/payment-channels/uid/{uid}/activate",
+    deactivate: "/admin/v1/payment-channels/uid/{uid}/deactivate",
+  },
+
+  // Gateway-Channel mapping endpoints
+  gatewayChannels: {
+    byGateway: "/admin/v1/gateway-channels/gateway/uid/{gatewayUid}",
+    assign: "/admin/v1/gateway-channels/gateway/uid/{gatewayUid}/channel/uid/{channelUid}",
+    update: "/admin/v1/gateway-channels/{id}",
+    activate: "/admin/v1/gateway-channels/{id}/activate",
+    deactivate: "/admin/v1/gateway-channels/{id}/deactivate",
+    count: "/admin/v1/gateway-channels/count",
+  },
+
   // Reports endpoints
   reports: {
     transactionsMonthly: "/admin/v1/reports/transactions/monthly",
@@ -258,10 +284,26 @@ export const API_ENDPOINTS = {
     auditLogs: "/admin/v1/audit-logs"
   },
 
+  // Maker-checker approval endpoints (not in swagger yet; contract documented in lib/trpc/approval-store.ts)
+  approvals: {
+    list: "/admin/v1/approvals",
+    create: "/admin/v1/approvals",
+    getByUid: "/admin/v1/approvals/uid/{uid}",
+    approve: "/admin/v1/approvals/uid/{uid}/approve",
+    reject: "/admin/v1/approvals/uid/{uid}/reject",
+    outcome: "/admin/v1/approvals/uid/{uid}/outcome",
+    events: "/admin/v1/approvals/events",
+  },
+
   // Dashboard endpoints
   dashboard: {
     stats: "/admin/v1/dashboard/stats",
   },
+
+  // Admin configuration (user types, roles, statuses)
+  config: {
+    get: "/admin/v1/config",
+  },
 };
 
 export const PAGINATION_DEFAULTS = {
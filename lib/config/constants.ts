@@ -15,6 +15,8 @@ export const SESSION = {
     EXPIRY_MS: 5 * 60 * 60 * 1000,
     /** Session cookie expiry as string for JWT (5h) */
     EXPIRY_STRING: '5h',
+    /** How long a completed token refresh is reused for requests still carrying the old token (30 seconds) */
+    REFRESH_REUSE_MS: 30 * 1000,
 } as const;
 
 /**
@@ -82,6 +84,20 @@ export const PAGINATION = {
     PREFETCH_PAGES_AHEAD: 2,
 } as const;
 
+// =============================================================================
+// APPROVAL CONSTANTS
+// =============================================================================
+
+/**
+ * Maker-checker approval defaults, overridable with the APPROVAL_* environment variables
+ */
+export const APPROVALS = {
+    /** Amount above which money-moving actions need a second user's approval */
+    DEFAULT_THRESHOLD_AMOUNT: 1_000_000,
+    /** How long a request can wait for a decision before it expires (hours) */
+    DEFAULT_EXPIRY_HOURS: 24,
+} as const;
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
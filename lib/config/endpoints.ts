@@ -13,7 +13,7 @@ export const buildEndpointUrl = {
   userByUid: (uid: string) =>
     API_ENDPOINTS.users.getByUid.replace("{uid}", uid),
   updateUser: (uid: string) => API_ENDPOINTS.users.update.replace("{uid}", uid),
-  deleteUser: (uid: string) => API_ENDPOINTS.users.delete.replace("{uid}", uid),
+  deleteUser: (id: string) => API_ENDPOINTS.users.delete.replace("{id}", id),
   activateUser: (uid: string) =>
     API_ENDPOINTS.users.activate.replace("{uid}", uid),
   deactivateUser: (uid: string) =>
@@ -27,6 +27,10 @@ export const buildEndpointUrl = {
   removeUserRoles: (uid: string) =>
     API_ENDPOINTS.users.removeRoles.replace("{uid}", uid),
 
+  // Role endpoints
+  rolesByUserType: (userType: string) =>
+    API_ENDPOINTS.roles.byUserType.replace("{userType}", encodeURIComponent(userType)),
+
   // Auth endpoints with ID replacement
   adminResetPassword: (userId: string) =>
     API_ENDPOINTS.auth.resetPassword.replace("{userId}", userId),
@@ -119,6 +123,16 @@ export const buildEndpointUrl = {
     ),
   disbursementMerchantAll: (merchantId: string) =>
     API_ENDPOINTS.disbursements.merchantAll.replace("{merchantId}", merchantId),
+
+  // Approval endpoints with UID replacement
+  approvalByUid: (uid: string) =>
+    API_ENDPOINTS.approvals.getByUid.replace("{uid}", uid),
+  approveApproval: (uid: string) =>
+    API_ENDPOINTS.approvals.approve.replace("{uid}", uid),
+  rejectApproval: (uid: string) =>
+    API_ENDPOINTS.approvals.reject.replace("{uid}", uid),
+  approvalOutcome: (uid: string) =>
+    API_ENDPOINTS.approvals.outcome.replace("{uid}", uid),
 };
 
 // Pagination query builder
@@ -0,0 +1,45 @@
+/**
+ * Helpers for building CSV documents and downloading them from the browser
+ */
+
+// Leading characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell when needed, after prefixing values a spreadsheet would run as a formula with `'`
+ */
+function escapeCsvValue(value: string): string {
+    const safeValue = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: string[][]): string {
+    return [headers, ...rows]
+        .map((row) => row.map((value) => escapeCsvValue(value ?? '')).join(','))
+        .join('\r\n');
+}
+
+/**
+ * Trigger a browser download of a CSV document
+ */
+export function downloadCsv(content: string, filename: string): void {
+    const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+}
+
+/**
+ * File-name friendly timestamp, e.g. 2025-06-01T10-15-00
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+    return date.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+}
@@ -27,6 +27,8 @@ export interface SessionPayload {
   name: string
   email: string
   roles: string[]
+  // Backend role -> permissions mapping for the user's roles, resolved at login
+  rolePermissions?: Record<string, string[]>
   userType?: string
   requirePasswordChange?: boolean
   expiresAt: number // Store as timestamp for JWT compatibility
@@ -63,6 +65,49 @@ export const TransactionSchema = z.object({
 
 export type Transaction = z.infer<typeof TransactionSchema>
 
+// Transaction Search Criteria Schema (backend TransactionSearchCriteriaDto)
+// Dates are LocalDateTime strings (yyyy-MM-ddTHH:mm:ss); plain yyyy-MM-dd dates are widened by the router
+export const TransactionSearchCriteriaSchema = z.object({
+  searchTerm: z.string(),
+  status: z.string(),
+  statuses: z.array(z.string()),
+  internalTransactionId: z.string(),
+  externalTransactionId: z.string(),
+  merchantTransactionId: z.string(),
+  merchantId: z.string(),
+  merchantName: z.string(),
+  errorCode: z.string(),
+  responseCode: z.string(),
+  paymentGatewayCode: z.string(),
+  paymentGatewayName: z.string(),
+  paymentChannelType: z.string(),
+  provider: z.string(),
+  paymentMethod: z.string(),
+  payCode: z.string(),
+  currency: z.string(),
+  currencies: z.array(z.string()),
+  customerName: z.string(),
+  customerEmail: z.string(),
+  customerPhone: z.string(),
+  accountNumber: z.string(),
+  ipAddress: z.string(),
+  deviceId: z.string(),
+  createdFrom: z.string(),
+  createdTo: z.string(),
+  statusUpdatedFrom: z.string(),
+  statusUpdatedTo: z.string(),
+  minAmount: z.string(),
+  maxAmount: z.string(),
+  includeProduction: z.boolean(),
+  includeTest: z.boolean(),
+  includeDisbursements: z.boolean(),
+  includeAuditTrail: z.boolean(),
+  sortBy: z.string(),
+  sortDirection: z.enum(['ASC', 'DESC']),
+}).partial()
+
+export type TransactionSearchCriteria = z.infer<typeof TransactionSearchCriteriaSchema>
+
 export const DisbursementSchema = z.object({
   id: z.string(),
   uid: z.string(),
@@ -92,6 +137,9 @@ export const DisbursementSchema = z.object({
   pgoName: z.string(),
   // Merchant info
   merchantId: z.string(),
+  // Retry chain
+  retryAttempts: z.coerce.number().nullish(),
+  parentDisbursementId: z.string().nullish(),
   // Timestamps
   createdAt: z.string(),
   updatedAt: z.string(),
@@ -99,6 +147,34 @@ export const DisbursementSchema = z.object({
 
 export type Disbursement = z.infer<typeof DisbursementSchema>
 
+// Disbursement advanced search criteria (the backend DisbursementSearchCriteriaDto fields not covered by the basic filters)
+// Dates are yyyy-MM-dd (widened to LocalDateTime by the router); retry counts are digit strings so they round-trip through the URL
+export const DisbursementAdvancedCriteriaSchema = z.object({
+  destinationBankCode: z.string(),
+  destinationInstitutionCode: z.string(),
+  recipientPhone: z.string(),
+  transferType: z.string(),
+  minRetryAttempts: z.string().regex(/^\d+$/, 'Retry attempts must be a whole number'),
+  maxRetryAttempts: z.string().regex(/^\d+$/, 'Retry attempts must be a whole number'),
+  lastRetryFrom: z.string(),
+  lastRetryTo: z.string(),
+  scheduleEpoch: z.string(),
+  includeScheduled: z.boolean(),
+  includeImmediate: z.boolean(),
+}).partial()
+
+export type DisbursementAdvancedCriteria = z.infer<typeof DisbursementAdvancedCriteriaSchema>
+
+// Force retry bypasses the backend's retry guards, so it needs a written justification
+export const FORCE_RETRY_MIN_JUSTIFICATION_LENGTH = 10
+
+// A transaction or disbursement resolved from a reference quoted to support (uid, external, merchant or PSP ID)
+export type ReferenceMatch = {
+  uid: string
+  // Which kind of reference matched, e.g. 'merchant disbursement ID'
+  matchedBy: string
+}
+
 export const UserSchema = z.object({
   id: z.string(),
   username: z.string(),
@@ -109,6 +185,11 @@ export const UserSchema = z.object({
   associated_merchant_id: z.string().nullable(),
   last_login_at: z.string().nullable(),
   created_at: z.string().nullable(),
+  first_name: z.string().nullable().optional(),
+  last_name: z.string().nullable().optional(),
+  uid: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+  user_type: z.string().nullable().optional(),
 })
 
 export type User = z.infer<typeof UserSchema>
@@ -228,6 +309,36 @@ export const CreateMerchantRequestSchema = z.object({
 
 export type CreateMerchantRequest = z.infer<typeof CreateMerchantRequestSchema>
 
+// Edit Merchant Form Schema - code, role and parent are managed separately and cannot be edited here.
+// Only changed fields are sent, so business name and email may stay as loaded, and null clears a limit.
+export const EditMerchantFormSchema = CreateMerchantRequestSchema.omit({
+  merchantCode: true,
+  merchantRole: true,
+  parentMerchantId: true,
+}).extend({
+  businessName: z.string().optional(),
+  contactEmail: z.string().email('Invalid email address').optional().or(z.literal('')),
+  singleTransactionLimit: z.number().positive('Must be greater than 0').nullable().optional(),
+  dailyTransactionLimit: z.number().positive('Must be greater than 0').nullable().optional(),
+  monthlyTransactionLimit: z.number().positive('Must be greater than 0').nullable().optional(),
+})
+
+export type EditMerchantFormInput = z.infer<typeof EditMerchantFormSchema>
+
+// Fields the edit form lets stay blank as loaded, but which follow the create rules once changed: clearing them
+// would blank a required attribute
+export const ChangedMerchantFieldsSchema = CreateMerchantRequestSchema.pick({
+  businessName: true,
+  contactEmail: true,
+})
+
+// Update Merchant Request Schema - backend requires merchantName, every other field is sent only when changed
+export const UpdateMerchantRequestSchema = EditMerchantFormSchema.partial()
+  .required({ merchantName: true })
+  .extend(ChangedMerchantFieldsSchema.partial().shape)
+
+export type UpdateMerchantRequest = z.infer<typeof UpdateMerchantRequestSchema>
+
 export const AuditLogSchema = z.object({
   id: z.number(),
   userUid: z.string().nullable(),
@@ -283,6 +394,42 @@ export interface PaginatedPaymentGatewayResponse {
   first: boolean;
 }
 
+// Payment Channel Schema
+export const PaymentChannelTypeEnum = z.enum(['MNO', 'BANK', 'CARD', 'WALLET'])
+
+export const PaymentChannelSchema = z.object({
+  id: z.string(),
+  uid: z.string(),
+  code: z.string(),
+  name: z.string(),
+  payment_channel_type: z.string(),
+  is_active: z.boolean(),
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+})
+
+export type PaymentChannelType = z.infer<typeof PaymentChannelTypeEnum>
+export type PaymentChannel = z.infer<typeof PaymentChannelSchema>
+
+// Gateway-Channel mapping Schema (a channel linked to a payment gateway)
+export const GatewayChannelSchema = z.object({
+  id: z.string(),
+  uid: z.string(),
+  payment_gateway_uid: z.string(),
+  payment_gateway_code: z.string().nullable().optional(),
+  payment_gateway_name: z.string().nullable().optional(),
+  payment_channel_uid: z.string(),
+  payment_channel_code: z.string().nullable().optional(),
+  payment_channel_name: z.string().nullable().optional(),
+  pay_code: z.string().nullable().optional(),
+  provider: z.string().nullable().optional(),
+  is_active: z.boolean(),
+  created_at: z.string().nullable().optional(),
+  updated_at: z.string().nullable().optional(),
+})
+
+export type GatewayChannel = z.infer<typeof GatewayChannelSchema>
+
 // Breakdown item schema for reports (count and value)
 const BreakdownItemSchema = z.object({
   count: z.number(),
@@ -339,6 +486,8 @@ export type PaginatedDisbursementResponse = PaginatedApiResponse<Disbursement>
 export type PaginatedUserResponse = PaginatedApiResponse<User>
 export type PaginatedMerchantResponse = PaginatedApiResponse<Merchant>
 export type PaginatedTransactionResponse = PaginatedApiResponse<Transaction>
+export type PaginatedPaymentChannelResponse = PaginatedApiResponse<PaymentChannel>
+export type PaginatedGatewayChannelResponse = PaginatedApiResponse<GatewayChannel>
 
 // Merchant Activity Summary Schema
 export const MerchantActivitySummarySchema = z.object({
@@ -443,6 +592,148 @@ export const AuditTrailEntrySchema = z.object({
 
 export type AuditTrailEntry = z.infer<typeof AuditTrailEntrySchema>;
 
+// Refund recorded against a transaction (from its audit trail or processing history)
+export const RefundRecordSchema = z.object({
+  // null when the entry records a refund without a structured amount
+  amount: z.string().nullable(),
+  timestamp: z.string(),
+  reason: z.string().nullable(),
+  performedBy: z.string().nullable(),
+});
+
+export type RefundRecord = z.infer<typeof RefundRecordSchema>;
+
+// Refund Summary Schema - amounts are decimal strings, like Transaction.amount
+export const RefundSummarySchema = z.object({
+  amount: z.string(),
+  currency: z.string().nullable(),
+  // null (unknown) when a refund was recorded without an amount
+  refundedAmount: z.string().nullable(),
+  remainingAmount: z.string().nullable(),
+  refunds: z.array(RefundRecordSchema),
+});
+
+export type RefundSummary = z.infer<typeof RefundSummarySchema>;
+
+// Archive Preview Schema - what an archive run with a cutoff date would touch
+export const ArchivePreviewSchema = z.object({
+  // Backend archiveThreshold (LocalDateTime); records created before it are archived
+  archiveThreshold: z.string(),
+  // All-time totals per selected status, from the count endpoints
+  statusCounts: z.array(z.object({ status: z.string(), total: z.number() })),
+  // Records created before the cutoff in the selected statuses
+  matchingCount: z.number(),
+  // Records created before the cutoff in any status - the archive endpoint is not status-scoped
+  beforeCutoffCount: z.number(),
+});
+
+export type ArchivePreview = z.infer<typeof ArchivePreviewSchema>;
+
+export const ArchiveEntityEnum = z.enum(['transactions', 'disbursements']);
+
+export type ArchiveEntity = z.infer<typeof ArchiveEntityEnum>;
+
+// Archive Run Schema - an archive call as recorded in the backend audit log
+export const ArchiveRunSchema = z.object({
+  id: z.string(),
+  entity: ArchiveEntityEnum,
+  // archiveThreshold sent with the call, when the audit log kept the query string
+  archiveThreshold: z.string().nullable(),
+  succeeded: z.boolean().nullable(),
+  details: z.string().nullable(),
+  runBy: z.string().nullable(),
+  runAt: z.string().nullable(),
+});
+
+export type ArchiveRun = z.infer<typeof ArchiveRunSchema>;
+
+// Maker-checker approvals: money-moving actions above the approval threshold wait for a second user
+export const ApprovalActionEnum = z.enum([
+  'TRANSACTION_REFUND',
+  'TRANSACTION_COMPLETE',
+  'TRANSACTION_CANCEL',
+  'TRANSACTION_UPDATE_STATUS',
+  'DISBURSEMENT_COMPLETE',
+  'DISBURSEMENT_CANCEL',
+  'DISBURSEMENT_FORCE_RETRY',
+  'DISBURSEMENT_UPDATE_STATUS',
+]);
+
+export type ApprovalAction = z.infer<typeof ApprovalActionEnum>;
+
+// PENDING -> EXECUTING (approved, action running) -> EXECUTED | FAILED, or PENDING -> REJECTED | EXPIRED.
+// A request left EXECUTING ran its action but its outcome was never recorded.
+export const ApprovalStatusEnum = z.enum(['PENDING', 'EXECUTING', 'EXECUTED', 'FAILED', 'REJECTED', 'EXPIRED']);
+
+export type ApprovalStatus = z.infer<typeof ApprovalStatusEnum>;
+
+export const ApprovalActorSchema = z.object({
+  uid: z.string(),
+  name: z.string(),
+});
+
+// Field of the record as it is now and as the action would leave it
+export const ApprovalChangeSchema = z.object({
+  field: z.string(),
+  before: z.string().nullable(),
+  after: z.string().nullable(),
+});
+
+export type ApprovalChange = z.infer<typeof ApprovalChangeSchema>;
+
+// Audit log entry of an approval request; actor is null for system events (expiry)
+export const ApprovalEventSchema = z.object({
+  type: z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'EXPIRED', 'EXECUTED', 'FAILED']),
+  actor: ApprovalActorSchema.nullable(),
+  comment: z.string().nullable(),
+  timestamp: z.string(),
+});
+
+export type ApprovalEvent = z.infer<typeof ApprovalEventSchema>;
+
+export const ApprovalRequestSchema = z.object({
+  uid: z.string(),
+  action: ApprovalActionEnum,
+  status: ApprovalStatusEnum,
+  entityType: z.enum(['TRANSACTION', 'DISBURSEMENT']),
+  entityUid: z.string(),
+  // Decimal string, like Transaction.amount
+  amount: z.string(),
+  currency: z.string().nullable(),
+  reason: z.string().nullable(),
+  changes: z.array(ApprovalChangeSchema),
+  // Input of the mutation that was held back, replayed once approved
+  payload: z.record(z.string(), z.unknown()),
+  requestedBy: ApprovalActorSchema,
+  requestedAt: z.string(),
+  expiresAt: z.string(),
+  decidedBy: ApprovalActorSchema.nullable(),
+  decidedAt: z.string().nullable(),
+  decisionComment: z.string().nullable(),
+  // Backend response (or error) when the approved action was run
+  executionMessage: z.string().nullable(),
+  events: z.array(ApprovalEventSchema),
+});
+
+export type ApprovalRequest = z.infer<typeof ApprovalRequestSchema>;
+
+// Audit log row: an approval event with the request it belongs to
+export const ApprovalAuditEntrySchema = ApprovalEventSchema.extend(
+  ApprovalRequestSchema.pick({ uid: true, action: true, entityType: true, entityUid: true, amount: true, currency: true }).shape
+);
+
+export type ApprovalAuditEntry = z.infer<typeof ApprovalAuditEntrySchema>;
+
+// Result of a money-moving mutation: run right away, or held for approval when `approval` is set
+export interface SensitiveActionResult {
+  message: string;
+  data: unknown;
+  approval: ApprovalRequest | null;
+}
+
+// Rejecting a request needs a comment explaining why
+export const APPROVAL_REJECTION_MIN_COMMENT_LENGTH = 5;
+
 // Can Update Response Schema
 export const CanUpdateResponseSchema = z.object({
   canUpdate: z.boolean(),
@@ -509,6 +800,86 @@ export const DisbursementStatsItemSchema = z.object({
 
 export type DisbursementStatsItem = z.infer<typeof DisbursementStatsItemSchema>;
 
+// Transaction Summary Schema (backend TransactionSummaryDto) - every field is a string;
+// breakdowns (gatewayCounts, hourlyBreakdown, topMerchants, ...) are JSON-encoded maps
+export const TransactionSummaryItemSchema = z.object({
+  periodStart: z.string().optional(),
+  periodEnd: z.string().optional(),
+  periodType: z.string().optional(),
+  periodLabel: z.string().optional(),
+  totalTransactions: z.string().optional(),
+  successfulTransactions: z.string().optional(),
+  failedTransactions: z.string().optional(),
+  pendingTransactions: z.string().optional(),
+  cancelledTransactions: z.string().optional(),
+  refundedTransactions: z.string().optional(),
+  totalAmount: z.string().optional(),
+  successfulAmount: z.string().optional(),
+  failedAmount: z.string().optional(),
+  pendingAmount: z.string().optional(),
+  refundedAmount: z.string().optional(),
+  averageAmount: z.string().optional(),
+  minAmount: z.string().optional(),
+  maxAmount: z.string().optional(),
+  primaryCurrency: z.string().optional(),
+  currencyBreakdown: z.string().optional(),
+  gatewayCounts: z.string().optional(),
+  gatewayAmounts: z.string().optional(),
+  gatewaySuccessRates: z.string().optional(),
+  uniqueMerchants: z.string().optional(),
+  topMerchants: z.string().optional(),
+  successRate: z.string().optional(),
+  failureRate: z.string().optional(),
+  averageProcessingTime: z.string().optional(),
+  retriedTransactions: z.string().optional(),
+  peakHour: z.string().optional(),
+  peakDay: z.string().optional(),
+  hourlyBreakdown: z.string().optional(),
+  dailyBreakdown: z.string().optional(),
+  uniqueCustomers: z.string().optional(),
+  growthRate: z.string().optional(),
+  trend: z.string().optional(),
+  generatedAt: z.string().optional(),
+});
+
+export type TransactionSummaryItem = z.infer<typeof TransactionSummaryItemSchema>;
+
+// Period Summary Schema - a transaction or disbursement summary with its breakdowns parsed for the Reports page
+export const PeriodSummarySchema = z.object({
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  // null when the period has no single reported currency
+  currency: z.string().nullable(),
+  totalCount: z.number(),
+  successfulCount: z.number(),
+  failedCount: z.number(),
+  pendingCount: z.number(),
+  cancelledCount: z.number(),
+  totalAmount: z.number(),
+  successfulAmount: z.number(),
+  averageAmount: z.number(),
+  successRate: z.number(),
+  failureRate: z.number(),
+  growthRate: z.number().nullable(),
+  averageProcessingTime: z.string().nullable(),
+  peakHour: z.string().nullable(),
+  peakDay: z.string().nullable(),
+  trend: z.string().nullable(),
+  uniqueMerchants: z.number().nullable(),
+  hourly: z.array(z.object({ hour: z.string(), value: z.number() })),
+  daily: z.array(z.object({ date: z.string(), value: z.number() })),
+  gateways: z.array(z.object({
+    gateway: z.string(),
+    count: z.number(),
+    amount: z.number(),
+    successRate: z.number().nullable(),
+  })),
+  topMerchants: z.array(z.object({ merchant: z.string(), value: z.number() })),
+  generatedAt: z.string().nullable(),
+});
+
+export type PeriodSummary = z.infer<typeof PeriodSummarySchema>;
+
 // Disbursement Stats Response Schema
 export const DisbursementStatsResponseSchema = z.object({
   status: z.boolean(),
@@ -0,0 +1,49 @@
+import { STATUS_DISPLAY } from '@/lib/config/constants';
+
+/**
+ * Manual disbursement status transitions, used after out-of-band confirmations from the bank
+ * (e.g. a reversal, or a recipient compensated outside the platform)
+ */
+
+export type DisbursementStatusCode = keyof typeof STATUS_DISPLAY;
+
+// Target statuses an operator may set manually, by current status
+export const DISBURSEMENT_STATUS_TRANSITIONS: Partial<Record<DisbursementStatusCode, readonly DisbursementStatusCode[]>> = {
+    // Paid out: the bank may return the funds, or the payout may be disputed
+    SUCCESS: ['REVERSED', 'ON_HOLD'],
+    // Not paid out: the recipient may be compensated manually
+    FAILED: ['REIMBURSED', 'ON_HOLD'],
+    REJECTED: ['REIMBURSED', 'ON_HOLD'],
+    CANCELLED: ['REIMBURSED'],
+    // In flight: only held for investigation, the PSP outcome is still to come
+    PENDING: ['ON_HOLD'],
+    PROCESSING: ['ON_HOLD'],
+    RETRY_ATTEMPTED: ['ON_HOLD'],
+    // Funds returned: the recipient may still be compensated manually
+    REVERSED: ['REIMBURSED'],
+    // Released once the bank confirms the outcome
+    ON_HOLD: ['SUCCESS', 'FAILED', 'REVERSED', 'REIMBURSED'],
+};
+
+// Statuses some backends report as aliases of the ones in STATUS_DISPLAY
+const STATUS_ALIASES: Record<string, DisbursementStatusCode> = {
+    COMPLETED: 'SUCCESS',
+    ERROR: 'FAILED',
+    CANCELED: 'CANCELLED',
+};
+
+function normalizeStatus(status: string): string {
+    const upperStatus = status.toUpperCase();
+    return STATUS_ALIASES[upperStatus] ?? upperStatus;
+}
+
+/**
+ * Statuses a disbursement in `status` may be moved to manually
+ */
+export function getAllowedDisbursementTransitions(status: string): readonly DisbursementStatusCode[] {
+    return DISBURSEMENT_STATUS_TRANSITIONS[normalizeStatus(status) as DisbursementStatusCode] ?? [];
+}
+
+export function isAllowedDisbursementTransition(from: string, to: string): boolean {
+    return getAllowedDisbursementTransitions(from).includes(normalizeStatus(to) as DisbursementStatusCode);
+}
@@ -1,5 +1,6 @@
 import { PERMISSIONS } from './auth/permissions';
 import { USER_TYPES } from './auth/user-types';
+import { isApprovalFlowEnabled } from './approvals';
 
 /**
  * Menu Item Interface
@@ -14,6 +15,7 @@ export interface MenuItem {
     permissions?: string[]     // Multiple permissions (OR logic)
     requireAll?: boolean       // If true, requires ALL permissions (AND logic)
     allowedUserTypes?: string[] // Restrict menu item to specific user types (e.g., ['SYSTEM_USER', 'ROOT_USER'])
+    enabled?: boolean          // Set to false to hide the item while its feature is switched off
     subItems?: MenuItem[]      // Sub-menu items
 }
 
@@ -35,6 +37,12 @@ export const menuConfig = {
             icon: "IconListDetails",
             permission: PERMISSIONS.TRANSACTIONS.VIEW,
         },
+        {
+            title: "Stale Transactions",
+            url: "/transactions/stale",
+            icon: "IconClockExclamation",
+            permission: PERMISSIONS.TRANSACTIONS.VIEW,
+        },
         {
             title: "Gateways",
             url: "/gateways",
@@ -42,12 +50,25 @@ export const menuConfig = {
             permission: PERMISSIONS.PAYMENT_GATEWAYS.VIEW,
             allowedUserTypes: [USER_TYPES.SYSTEM_USER, USER_TYPES.ROOT_USER], // Only system users can see gateways
         },
+        {
+            title: "Payment Channels",
+            url: "/payment-channels",
+            icon: "IconArrowsExchange",
+            permission: PERMISSIONS.PAYMENT_GATEWAYS.VIEW,
+            allowedUserTypes: [USER_TYPES.SYSTEM_USER, USER_TYPES.ROOT_USER], // Only system users can configure channels
+        },
         {
             title: "Merchants",
             url: "/merchants",
             icon: "IconUsers",
             permission: PERMISSIONS.MERCHANTS.VIEW,
         },
+        {
+            title: "KYC Review",
+            url: "/merchants/kyc",
+            icon: "IconShieldCheck",
+            permission: PERMISSIONS.MERCHANTS.VERIFY_KYC,
+        },
         {
             title: "Users & Roles",
             url: "/users",
@@ -73,6 +94,25 @@ export const menuConfig = {
             icon: "IconFolder",
             permission: PERMISSIONS.DISBURSEMENTS.VIEW,
         },
+        {
+            title: "Stale Disbursements",
+            url: "/disbursements/stale",
+            icon: "IconClockExclamation",
+            permission: PERMISSIONS.DISBURSEMENTS.VIEW,
+        },
+        {
+            title: "Approvals",
+            url: "/approvals",
+            icon: "IconChecklist",
+            permission: PERMISSIONS.APPROVALS.VIEW,
+            enabled: isApprovalFlowEnabled(),
+        },
+        {
+            title: "Reports",
+            url: "/reports",
+            icon: "IconReportAnalytics",
+            permissions: [PERMISSIONS.TRANSACTIONS.VIEW, PERMISSIONS.DISBURSEMENTS.VIEW],
+        },
         {
             title: "Logs",
             url: "/logs",
@@ -80,5 +120,12 @@ export const menuConfig = {
             permission: PERMISSIONS.AUDIT_AND_LOGS.VIEW,
             allowedUserTypes: [USER_TYPES.SYSTEM_USER, USER_TYPES.ROOT_USER], // Only system users can see logs
         },
+        {
+            title: "Archive",
+            url: "/archive",
+            icon: "IconArchive",
+            permission: PERMISSIONS.SYSTEM.ADMIN,
+            allowedUserTypes: [USER_TYPES.SYSTEM_USER, USER_TYPES.ROOT_USER], // Only system admins can archive records
+        },
     ] as MenuItem[],
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import 'server-only'
 
-import { hasAnyPermission } from './auth/permissions'
+import { hasAnyPermission, type RolePermissionMap } from './auth/permissions'
 import { MenuItem } from './menu-config'
 
 /**
@@ -9,19 +9,24 @@ import { MenuItem } from './menu-config'
  * @param items - Array of menu items to filter
  * @param roles - Array of user roles
  * @param userType - Optional user type to validate roles against
+ * @param rolePermissions - Optional backend role -> permission mapping from the session
  * @returns Filtered array of menu items that the user has access to
  */
 export function filterMenuItems<T extends MenuItem>(
   items: T[],
   roles: string[],
-  userType?: string | null
+  userType?: string | null,
+  rolePermissions?: RolePermissionMap
 ): T[] {
+  // Items whose feature is switched off are hidden from everyone
+  const enabledItems = items.filter(item => item.enabled !== false)
+
   if (!roles || roles.length === 0) {
     // If no roles, only return items without permission requirements
-    return items.filter(item => !item.permission && !item.permissions)
+    return enabledItems.filter(item => !item.permission && !item.permissions)
   }
 
-  return items.filter(item => {
+  return enabledItems.filter(item => {
     // Check user type restriction first
     if (item.allowedUserTypes && item.allowedUserTypes.length > 0) {
       if (!userType || !item.allowedUserTypes.includes(userType)) {
@@ -36,18 +41,18 @@ export function filterMenuItems<T extends MenuItem>(
 
     // Single permission check
     if (item.permission) {
-      return hasAnyPermission(roles, item.permission, userType)
+      return hasAnyPermission(roles, item.permission, userType, rolePermissions)
     }
 
     // Multiple permissions check
     if (item.permissions && item.permissions.length > 0) {
       if (item.requireAll) {
         return item.permissions.every(permission =>
-          hasAnyPermission(roles, permission, userType)
+          hasAnyPermission(roles, permission, userType, rolePermissions)
         )
       } else {
         return item.permissions.some(permission =>
-          hasAnyPermission(roles, permission, userType)
+          hasAnyPermission(roles, permission, userType, rolePermissions)
         )
       }
     }
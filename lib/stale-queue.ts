@@ -0,0 +1,70 @@
+import { format, subMinutes } from 'date-fns';
+
+/**
+ * Helpers for the stale transaction and disbursement queues: records stuck in PENDING/PROCESSING
+ * for longer than a threshold, grouped by how long they have been waiting
+ */
+
+export const STALE_THRESHOLD_OPTIONS = [
+    { minutes: 15, label: '15 min' },
+    { minutes: 30, label: '30 min' },
+    { minutes: 60, label: '1 hour' },
+    { minutes: 240, label: '4 hours' },
+    { minutes: 1440, label: '24 hours' },
+] as const;
+
+export const DEFAULT_STALE_THRESHOLD_MINUTES = 30;
+
+// Upper bound accepted by the routers, so a typo cannot sweep up a week of in-flight records
+export const MAX_STALE_THRESHOLD_MINUTES = 7 * 24 * 60;
+
+export interface StaleAgeBucket {
+    key: string;
+    label: string;
+    /** Exclusive upper bound of the bucket, in minutes */
+    maxMinutes: number;
+}
+
+export const STALE_AGE_BUCKETS: StaleAgeBucket[] = [
+    { key: 'under-1h', label: 'Under 1 hour', maxMinutes: 60 },
+    { key: '1h-4h', label: '1 - 4 hours', maxMinutes: 240 },
+    { key: '4h-24h', label: '4 - 24 hours', maxMinutes: 1440 },
+    { key: 'over-24h', label: 'Over 24 hours', maxMinutes: Infinity },
+];
+
+/**
+ * Backend staleThreshold (LocalDateTime): in-flight records created before this are considered stale
+ */
+export function toStaleThreshold(thresholdMinutes: number, now: Date = new Date()): string {
+    return format(subMinutes(now, thresholdMinutes), "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+/**
+ * Whole minutes between `createdAt` and `now`, or null when the date cannot be parsed
+ */
+export function getAgeMinutes(createdAt: string | null | undefined, now: number): number | null {
+    if (!createdAt) return null;
+    const created = new Date(createdAt).getTime();
+    return Number.isNaN(created) ? null : Math.max(0, Math.floor((now - created) / 60000));
+}
+
+export function getStaleAgeBucket(ageMinutes: number): StaleAgeBucket {
+    return STALE_AGE_BUCKETS.find((bucket) => ageMinutes < bucket.maxMinutes) ?? STALE_AGE_BUCKETS[STALE_AGE_BUCKETS.length - 1];
+}
+
+/**
+ * Compact age, e.g. 45m, 3h 10m, 2d 4h
+ */
+export function formatAge(ageMinutes: number): string {
+    if (ageMinutes < 60) return `${ageMinutes}m`;
+
+    const hours = Math.floor(ageMinutes / 60);
+    if (hours < 24) {
+        const minutes = ageMinutes % 60;
+        return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+    }
+
+    const days = Math.floor(hours / 24);
+    const remainingHours = hours % 24;
+    return remainingHours ? `${days}d ${remainingHours}h` : `${days}d`;
+}
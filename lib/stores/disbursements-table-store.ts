@@ -1,17 +1,21 @@
 import { create } from 'zustand';
 import { SortingState, VisibilityState } from '@tanstack/react-table';
+import type { DisbursementAdvancedCriteria } from '@/lib/definitions';
+import { createTableUrlState, objectParams, param } from './url-state';
 
 /**
  * Server-side filter state for disbursements
  * These filters are sent to the API and processed server-side
  */
-interface ServerSideFilters {
+export interface ServerSideFilters {
     status: string | null;
     startDate: string | null;
     endDate: string | null;
     amountMin: string | null;
     amountMax: string | null;
     search: string | null;
+    /** Criteria set from the advanced search drawer (destination bank, retries, scheduling) */
+    advanced: DisbursementAdvancedCriteria;
 }
 
 interface DisbursementsTableState {
@@ -41,6 +45,7 @@ interface DisbursementsTableActions {
     setDateRange: (startDate: string | null, endDate: string | null) => void;
     setAmountRange: (amountMin: string | null, amountMax: string | null) => void;
     setSearch: (search: string | null) => void;
+    setAdvancedCriteria: (advanced: DisbursementAdvancedCriteria) => void;
     clearFilters: () => void;
     // Local UI state
     setColumnFilters: (filters: unknown) => void;
@@ -57,6 +62,7 @@ const initialFilters: ServerSideFilters = {
     amountMin: null,
     amountMax: null,
     search: null,
+    advanced: {},
 };
 
 const initialState: DisbursementsTableState = {
@@ -88,6 +94,7 @@ export const useDisbursementsTableStore = create<DisbursementsTableState & Disbu
         // Sorting action
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         // Server-side filter actions
@@ -111,6 +118,11 @@ export const useDisbursementsTableStore = create<DisbursementsTableState & Disbu
             pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
+        setAdvancedCriteria: (advanced) => set((state) => ({
+            filters: { ...state.filters, advanced },
+            pagination: { ...state.pagination, pageIndex: 0 },
+        })),
+
         clearFilters: () => set((state) => ({
             filters: initialFilters,
             pagination: { ...state.pagination, pageIndex: 0 },
@@ -134,6 +146,13 @@ export const useDisbursementsTableStore = create<DisbursementsTableState & Disbu
     })
 );
 
+/**
+ * Number of advanced search criteria that are set (empty strings are ignored)
+ */
+export function countAdvancedCriteria(advanced: DisbursementAdvancedCriteria): number {
+    return Object.values(advanced).filter((value) => value !== undefined && value !== '').length;
+}
+
 /**
  * Helper function to check if any filters are active
  */
@@ -144,7 +163,8 @@ export function hasActiveFilters(filters: ServerSideFilters): boolean {
         filters.endDate ||
         filters.amountMin ||
         filters.amountMax ||
-        filters.search
+        filters.search ||
+        countAdvancedCriteria(filters.advanced) > 0
     );
 }
 
@@ -161,3 +181,73 @@ export function filtersToQueryParams(filters: ServerSideFilters): Record<string,
         search_term: filters.search || undefined,
     };
 }
+
+/**
+ * The part of the store that is kept in the URL
+ */
+export type DisbursementsUrlSlice = Pick<DisbursementsTableState, 'pagination' | 'sorting' | 'filters'>;
+
+const basicFilterParams = objectParams<Omit<ServerSideFilters, 'advanced'>>({
+    status: ['status', param.string],
+    startDate: ['from', param.string],
+    endDate: ['to', param.string],
+    amountMin: ['min', param.string],
+    amountMax: ['max', param.string],
+    search: ['q', param.string],
+});
+
+const advancedFilterParams = objectParams<DisbursementAdvancedCriteria>({
+    destinationBankCode: ['bank', param.string],
+    destinationInstitutionCode: ['institution', param.string],
+    recipientPhone: ['recipientPhone', param.string],
+    transferType: ['transferType', param.string],
+    minRetryAttempts: ['minRetries', param.string],
+    maxRetryAttempts: ['maxRetries', param.string],
+    lastRetryFrom: ['lastRetryFrom', param.string],
+    lastRetryTo: ['lastRetryTo', param.string],
+    scheduleEpoch: ['scheduleEpoch', param.string],
+    includeScheduled: ['includeScheduled', param.boolean],
+    includeImmediate: ['includeImmediate', param.boolean],
+});
+
+/**
+ * URL mapping for the disbursements table, e.g. `?status=FAILED&from=2025-06-01&bank=CRDB&minRetries=3&page=2`
+ */
+export const disbursementsUrlState = createTableUrlState<DisbursementsUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: (params) => ({
+        filters: {
+            ...initialFilters,
+            ...basicFilterParams.read(params),
+            advanced: advancedFilterParams.read(params),
+        },
+    }),
+    serializeFilters: ({ filters }, params) => {
+        basicFilterParams.write(params, filters);
+        advancedFilterParams.write(params, filters.advanced);
+    },
+});
+
+/**
+ * disbursements.list input for the given table state
+ */
+export function toDisbursementsListInput({ pagination, sorting, filters }: DisbursementsUrlSlice) {
+    return {
+        // Pagination: convert 0-based pageIndex to 1-based page for API
+        // Ensure per_page is at least 1 (protect against corrupted state)
+        page: Math.max(1, pagination.pageIndex + 1),
+        per_page: Math.max(1, pagination.pageSize || 10),
+        // Server-side filters
+        ...(filters.status && { status: filters.status }),
+        ...(filters.startDate && { start_date: filters.startDate }),
+        ...(filters.endDate && { end_date: filters.endDate }),
+        ...(filters.amountMin && { amount_min: filters.amountMin }),
+        ...(filters.amountMax && { amount_max: filters.amountMax }),
+        ...(filters.search && { search: filters.search }),
+        ...(countAdvancedCriteria(filters.advanced) > 0 && { advanced: filters.advanced }),
+        // Sorting: convert TanStack sorting format to API sort format
+        ...(sorting.length > 0 && {
+            sort: sorting.map(s => `${s.id},${s.desc ? 'desc' : 'asc'}`)
+        }),
+    };
+}
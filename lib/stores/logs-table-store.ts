@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
+import { columnFilterParams, createTableUrlState } from './url-state';
 
 interface LogsTableState {
     pagination: {
@@ -40,10 +41,12 @@ export const useLogsTableStore = create<LogsTableState & LogsTableActions>()(
 
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
         })),
 
         setColumnFilters: (filters) => set((state) => ({
             columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         setColumnVisibility: (visibility) => set((state) => ({
@@ -58,3 +61,64 @@ export const useLogsTableStore = create<LogsTableState & LogsTableActions>()(
     })
 );
 
+/**
+ * The part of the store that is kept in the URL
+ */
+export type LogsUrlSlice = Pick<LogsTableState, 'pagination' | 'sorting' | 'columnFilters'>;
+
+const filterParams = columnFilterParams({
+    eventType: ['event', 'list'],
+    userUid: ['user', 'string'],
+    merchantUid: ['merchant', 'string'],
+    search_term: ['q', 'string'],
+    startDate: ['from', 'string'],
+    endDate: ['to', 'string'],
+});
+
+/**
+ * URL mapping for the audit logs table, e.g. `?event=LOGIN&user=<uid>&from=2025-06-01`
+ */
+export const logsUrlState = createTableUrlState<LogsUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: filterParams.parseFilters,
+    serializeFilters: filterParams.serializeFilters,
+});
+
+/**
+ * logs.list input for the given table state (using frontend param names)
+ */
+export function toLogsListInput({ pagination, sorting, columnFilters }: LogsUrlSlice) {
+    // Use pageIndex directly (0-based) - backend uses 0-based pagination
+    const params: Record<string, string> = {
+        page: pagination.pageIndex.toString(),
+        per_page: pagination.pageSize.toString(),
+    };
+
+    // Convert sorting state to sort parameter format (e.g., "name,asc,code,desc")
+    if (sorting.length > 0) {
+        params.sort = sorting.map(sort => `${sort.id},${sort.desc ? 'desc' : 'asc'}`).join(',');
+    }
+
+    // Convert column filters to query parameters for audit logs
+    columnFilters.forEach(filter => {
+        if (filter.id === 'eventType' && Array.isArray(filter.value)) {
+            // For eventType filter, join multiple values with comma
+            const eventTypeValues = filter.value as string[];
+            if (eventTypeValues.length > 0) {
+                params.action_type = eventTypeValues.join(',');
+            }
+        } else if (filter.id === 'userUid' && filter.value) {
+            params.user_id = filter.value as string;
+        } else if (filter.id === 'merchantUid' && filter.value) {
+            params.merchant_id = filter.value as string;
+        } else if (filter.id === 'search_term' && filter.value) {
+            params.search_term = filter.value as string;
+        } else if (filter.id === 'startDate' && filter.value) {
+            params.start_date = filter.value as string;
+        } else if (filter.id === 'endDate' && filter.value) {
+            params.end_date = filter.value as string;
+        }
+    });
+
+    return params;
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
+import { columnFilterParams, createTableUrlState } from './url-state';
 
 interface MerchantsTableState {
     pagination: {
@@ -40,10 +41,12 @@ export const useMerchantsTableStore = create<MerchantsTableState & MerchantsTabl
 
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
         })),
 
         setColumnFilters: (filters) => set((state) => ({
             columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         setColumnVisibility: (visibility) => set((state) => ({
@@ -58,3 +61,54 @@ export const useMerchantsTableStore = create<MerchantsTableState & MerchantsTabl
     })
 );
 
+/**
+ * The part of the store that is kept in the URL
+ */
+export type MerchantsUrlSlice = Pick<MerchantsTableState, 'pagination' | 'sorting' | 'columnFilters'>;
+
+const filterParams = columnFilterParams({
+    status: ['status', 'list'],
+    merchant_type: ['type', 'list'],
+    kyc_verified: ['kyc', 'list'],
+});
+
+/**
+ * URL mapping for the merchants table, e.g. `?status=ACTIVE&type=AGGREGATOR&page=2`
+ */
+export const merchantsUrlState = createTableUrlState<MerchantsUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: filterParams.parseFilters,
+    serializeFilters: filterParams.serializeFilters,
+});
+
+/**
+ * merchants.list input for the given table state
+ */
+export function toMerchantsListInput({ pagination, sorting, columnFilters }: MerchantsUrlSlice) {
+    // Use pageIndex directly (0-based) - backend uses 0-based pagination
+    const params: Record<string, string | undefined> = {
+        page: pagination.pageIndex.toString(),
+        per_page: pagination.pageSize.toString(),
+    };
+
+    columnFilters.forEach(filter => {
+        if (!Array.isArray(filter.value) || filter.value.length === 0) return;
+        const values = filter.value as string[];
+
+        if (filter.id === 'status') {
+            params.status = values.join(',');
+        } else if (filter.id === 'merchant_type') {
+            params.merchantType = values.join(',');
+        } else if (filter.id === 'kyc_verified') {
+            // KYC filter holds boolean strings - use first value
+            params.kyc_verified = (values[0] === 'true').toString();
+        }
+    });
+
+    // Convert sorting state to sort parameter format (e.g., "name,asc,code,desc")
+    if (sorting.length > 0) {
+        params.sort = sorting.map(sort => `${sort.id},${sort.desc ? 'desc' : 'asc'}`).join(',');
+    }
+
+    return params;
+}
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
+import { createTableUrlState } from './url-state';
+
+interface PaymentChannelsTableState {
+    pagination: {
+        pageIndex: number;
+        pageSize: number;
+    };
+    sorting: SortingState;
+    columnFilters: ColumnFiltersState;
+    columnVisibility: VisibilityState;
+    rowSelection: Record<string, boolean>;
+}
+
+interface PaymentChannelsTableActions {
+    setPagination: (pagination: { pageIndex: number; pageSize: number }) => void;
+    setSorting: (sorting: SortingState | ((prev: SortingState) => SortingState)) => void;
+    setColumnFilters: (filters: ColumnFiltersState | ((prev: ColumnFiltersState) => ColumnFiltersState)) => void;
+    setColumnVisibility: (visibility: VisibilityState | ((prev: VisibilityState) => VisibilityState)) => void;
+    setRowSelection: (selection: Record<string, boolean> | ((prev: Record<string, boolean>) => Record<string, boolean>)) => void;
+    resetTableState: () => void;
+}
+
+const initialState: PaymentChannelsTableState = {
+    pagination: {
+        pageIndex: 0,
+        pageSize: 15,
+    },
+    sorting: [],
+    columnFilters: [],
+    columnVisibility: {},
+    rowSelection: {},
+};
+
+export const usePaymentChannelsTableStore = create<PaymentChannelsTableState & PaymentChannelsTableActions>()(
+    (set) => ({
+        ...initialState,
+
+        setPagination: (pagination) => set({ pagination }),
+
+        setSorting: (sorting) => set((state) => ({
+            sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
+        })),
+
+        setColumnFilters: (filters) => set((state) => ({
+            columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
+        })),
+
+        setColumnVisibility: (visibility) => set((state) => ({
+            columnVisibility: typeof visibility === 'function' ? visibility(state.columnVisibility) : visibility,
+        })),
+
+        setRowSelection: (selection) => set((state) => ({
+            rowSelection: typeof selection === 'function' ? selection(state.rowSelection) : selection,
+        })),
+
+        resetTableState: () => set(initialState),
+    })
+);
+
+/**
+ * The part of the store that is kept in the URL (the channels list has no server-side filters)
+ */
+export type PaymentChannelsUrlSlice = Pick<PaymentChannelsTableState, 'pagination' | 'sorting'>;
+
+/**
+ * URL mapping for the payment channels table, e.g. `?sort=code:asc&page=2`
+ */
+export const paymentChannelsUrlState = createTableUrlState<PaymentChannelsUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: () => ({}),
+    serializeFilters: () => {},
+});
+
+/**
+ * channels.list input for the given table state (1-based page for API)
+ */
+export function toPaymentChannelsListInput({ pagination, sorting }: PaymentChannelsUrlSlice) {
+    return {
+        page: (pagination.pageIndex + 1).toString(),
+        per_page: pagination.pageSize.toString(),
+        // Convert sorting state to sort parameter format (e.g., "code,asc")
+        ...(sorting.length > 0 && {
+            sort: sorting.map(sort => `${sort.id},${sort.desc ? 'desc' : 'asc'}`).join(','),
+        }),
+    };
+}
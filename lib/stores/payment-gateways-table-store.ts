@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
+import { columnFilterParams, createTableUrlState } from './url-state';
 
 interface PaymentGatewaysTableState {
     pagination: {
@@ -40,10 +41,12 @@ export const usePaymentGatewaysTableStore = create<PaymentGatewaysTableState & P
 
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
         })),
 
         setColumnFilters: (filters) => set((state) => ({
             columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         setColumnVisibility: (visibility) => set((state) => ({
@@ -58,17 +61,42 @@ export const usePaymentGatewaysTableStore = create<PaymentGatewaysTableState & P
     })
 );
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+/**
+ * The part of the store that is kept in the URL
+ */
+export type PaymentGatewaysUrlSlice = Pick<PaymentGatewaysTableState, 'pagination' | 'sorting' | 'columnFilters'>;
+
+const filterParams = columnFilterParams({
+    is_active: ['active', 'list'],
+    search: ['q', 'string'],
+});
+
+/**
+ * URL mapping for the payment gateways table, e.g. `?active=true&q=mpesa`
+ */
+export const paymentGatewaysUrlState = createTableUrlState<PaymentGatewaysUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: filterParams.parseFilters,
+    serializeFilters: filterParams.serializeFilters,
+});
+
+/**
+ * gateways.list input for the given table state (the endpoint is not paginated)
+ */
+export function toPaymentGatewaysListInput({ columnFilters }: PaymentGatewaysUrlSlice) {
+    const params: { is_active?: string; search?: string } = {};
+
+    columnFilters.forEach(filter => {
+        if (filter.id === 'is_active' && Array.isArray(filter.value)) {
+            // For is_active filter, convert boolean strings to string for API
+            const activeValues = filter.value as string[];
+            if (activeValues.length > 0) {
+                params.is_active = activeValues[0];
+            }
+        } else if (filter.id === 'search' && typeof filter.value === 'string') {
+            params.search = filter.value;
+        }
+    });
+
+    return params;
+}
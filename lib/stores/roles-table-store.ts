@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
 import { PAGINATION } from '@/lib/config/constants';
+import { columnFilterParams, createTableUrlState } from './url-state';
 
 interface RolesTableState {
     pagination: {
@@ -41,10 +42,12 @@ export const useRolesTableStore = create<RolesTableState & RolesTableActions>()(
 
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
         })),
 
         setColumnFilters: (filters) => set((state) => ({
             columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         setColumnVisibility: (visibility) => set((state) => ({
@@ -59,3 +62,44 @@ export const useRolesTableStore = create<RolesTableState & RolesTableActions>()(
     })
 );
 
+/**
+ * The part of the store that is kept in the URL
+ */
+export type RolesUrlSlice = Pick<RolesTableState, 'pagination' | 'sorting' | 'columnFilters'>;
+
+const filterParams = columnFilterParams({
+    name: ['q', 'string'],
+});
+
+/**
+ * URL mapping for the roles table, e.g. `?q=admin&sort=name:asc`
+ */
+export const rolesUrlState = createTableUrlState<RolesUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: filterParams.parseFilters,
+    serializeFilters: filterParams.serializeFilters,
+});
+
+/**
+ * users.roles.list input for the given table state
+ */
+export function toRolesListInput({ pagination, sorting, columnFilters }: RolesUrlSlice) {
+    // Convert 0-based pageIndex to 1-based page number for API
+    const params: Record<string, string> = {
+        page: (pagination.pageIndex + 1).toString(),
+        per_page: pagination.pageSize.toString(),
+    };
+
+    // Convert sorting state to sort parameter format (e.g., "name,asc,displayName,desc")
+    if (sorting.length > 0) {
+        params.sort = sorting.map(sort => `${sort.id},${sort.desc ? 'desc' : 'asc'}`).join(',');
+    }
+
+    columnFilters.forEach(filter => {
+        if (filter.id === 'name' && typeof filter.value === 'string') {
+            params.search = filter.value;
+        }
+    });
+
+    return params;
+}
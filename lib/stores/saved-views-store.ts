@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { VisibilityState } from '@tanstack/react-table';
+
+/**
+ * Tables that support saved views
+ */
+export type SavedViewTable = 'transactions' | 'disbursements' | 'logs';
+
+export interface SavedView {
+    id: string;
+    name: string;
+    table: SavedViewTable;
+    // Filters, sorting and page size as written by the table's URL state (see url-state.ts)
+    query: string;
+    columnVisibility: VisibilityState;
+    isDefault: boolean;
+    createdAt: string;
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'table' | 'query' | 'columnVisibility' | 'isDefault'>;
+
+interface SavedViewsState {
+    // Views per user, keyed by session.uid
+    viewsByUser: Record<string, SavedView[]>;
+}
+
+interface SavedViewsActions {
+    saveView: (userUid: string, view: SavedViewInput) => SavedView;
+    deleteView: (userUid: string, id: string) => void;
+    setDefaultView: (userUid: string, table: SavedViewTable, id: string | null) => void;
+}
+
+/**
+ * Named filter presets, persisted in localStorage per user.
+ *
+ * Hydration is skipped on creation so the server and first client render match;
+ * call `useSavedViewsStore.persist.rehydrate()` once mounted.
+ */
+export const useSavedViewsStore = create<SavedViewsState & SavedViewsActions>()(
+    persist(
+        (set, get) => ({
+            viewsByUser: {},
+
+            // Saving under an existing name for the same table replaces that view
+            saveView: (userUid, input) => {
+                const views = get().viewsByUser[userUid] ?? [];
+                const existing = views.find((v) => v.table === input.table && v.name === input.name);
+                const view: SavedView = {
+                    ...input,
+                    id: existing?.id ?? crypto.randomUUID(),
+                    createdAt: existing?.createdAt ?? new Date().toISOString(),
+                };
+
+                const next = views
+                    .filter((v) => v.id !== view.id)
+                    // Only one default view per table
+                    .map((v) => (view.isDefault && v.table === view.table ? { ...v, isDefault: false } : v));
+
+                set((state) => ({
+                    viewsByUser: { ...state.viewsByUser, [userUid]: [...next, view] },
+                }));
+                return view;
+            },
+
+            deleteView: (userUid, id) => set((state) => ({
+                viewsByUser: {
+                    ...state.viewsByUser,
+                    [userUid]: (state.viewsByUser[userUid] ?? []).filter((v) => v.id !== id),
+                },
+            })),
+
+            // Pass null to clear the table's default view
+            setDefaultView: (userUid, table, id) => set((state) => ({
+                viewsByUser: {
+                    ...state.viewsByUser,
+                    [userUid]: (state.viewsByUser[userUid] ?? []).map((v) =>
+                        v.table === table ? { ...v, isDefault: v.id === id } : v
+                    ),
+                },
+            })),
+        }),
+        {
+            name: 'saved-table-views',
+            version: 1,
+            skipHydration: true,
+        }
+    )
+);
+
+/**
+ * A user's views for one table, sorted by name
+ */
+export function getViewsForTable(viewsByUser: SavedViewsState['viewsByUser'], userUid: string, table: SavedViewTable): SavedView[] {
+    return (viewsByUser[userUid] ?? [])
+        .filter((v) => v.table === table)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,17 +1,29 @@
 import { create } from 'zustand';
 import { SortingState, VisibilityState } from '@tanstack/react-table';
+import type { TransactionSearchCriteria } from '@/lib/definitions';
+import { createTableUrlState, objectParams, param } from './url-state';
+
+/**
+ * Criteria set from the advanced search panel. The basic filters below cover
+ * status, the created-date range, the amount range and free text.
+ */
+export type AdvancedSearchCriteria = Omit<
+    TransactionSearchCriteria,
+    'searchTerm' | 'status' | 'createdFrom' | 'createdTo' | 'minAmount' | 'maxAmount' | 'sortBy' | 'sortDirection'
+>;
 
 /**
  * Server-side filter state for transactions
  * These filters are sent to the API and processed server-side
  */
-interface ServerSideFilters {
+export interface ServerSideFilters {
     status: string | null;
     startDate: string | null;
     endDate: string | null;
     amountMin: string | null;
     amountMax: string | null;
     search: string | null;
+    advanced: AdvancedSearchCriteria;
 }
 
 interface TransactionsTableState {
@@ -41,6 +53,7 @@ interface TransactionsTableActions {
     setDateRange: (startDate: string | null, endDate: string | null) => void;
     setAmountRange: (amountMin: string | null, amountMax: string | null) => void;
     setSearch: (search: string | null) => void;
+    setAdvancedCriteria: (advanced: AdvancedSearchCriteria) => void;
     clearFilters: () => void;
     // Local UI state
     setColumnVisibility: (visibility: VisibilityState | ((prev: VisibilityState) => VisibilityState)) => void;
@@ -56,6 +69,7 @@ const initialFilters: ServerSideFilters = {
     amountMin: null,
     amountMax: null,
     search: null,
+    advanced: {},
 };
 
 const initialState: TransactionsTableState = {
@@ -87,6 +101,7 @@ export const useTransactionsTableStore = create<TransactionsTableState & Transac
         // Sorting action
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         // Server-side filter actions
@@ -110,6 +125,11 @@ export const useTransactionsTableStore = create<TransactionsTableState & Transac
             pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
+        setAdvancedCriteria: (advanced) => set((state) => ({
+            filters: { ...state.filters, advanced },
+            pagination: { ...state.pagination, pageIndex: 0 },
+        })),
+
         clearFilters: () => set((state) => ({
             filters: initialFilters,
             pagination: { ...state.pagination, pageIndex: 0 },
@@ -129,6 +149,15 @@ export const useTransactionsTableStore = create<TransactionsTableState & Transac
     })
 );
 
+/**
+ * Number of advanced search criteria that are set (empty strings and lists are ignored)
+ */
+export function countAdvancedCriteria(advanced: AdvancedSearchCriteria): number {
+    return Object.values(advanced).filter((value) =>
+        value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+    ).length;
+}
+
 /**
  * Helper function to check if any filters are active
  */
@@ -139,7 +168,8 @@ export function hasActiveFilters(filters: ServerSideFilters): boolean {
         filters.endDate ||
         filters.amountMin ||
         filters.amountMax ||
-        filters.search
+        filters.search ||
+        countAdvancedCriteria(filters.advanced) > 0
     );
 }
 
@@ -156,3 +186,112 @@ export function filtersToQueryParams(filters: ServerSideFilters): Record<string,
         search: filters.search || undefined,
     };
 }
+
+/**
+ * Helper to convert store filters and sorting to search criteria for the POST search/export endpoints
+ */
+export function filtersToSearchCriteria(filters: ServerSideFilters, sorting: SortingState = []): TransactionSearchCriteria {
+    const [sort] = sorting;
+
+    return {
+        ...filters.advanced,
+        ...(filters.search && { searchTerm: filters.search }),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.startDate && { createdFrom: filters.startDate }),
+        ...(filters.endDate && { createdTo: filters.endDate }),
+        ...(filters.amountMin && { minAmount: filters.amountMin }),
+        ...(filters.amountMax && { maxAmount: filters.amountMax }),
+        ...(sort && { sortBy: sort.id, sortDirection: sort.desc ? 'DESC' : 'ASC' }),
+    };
+}
+
+/**
+ * The part of the store that is kept in the URL
+ */
+export type TransactionsUrlSlice = Pick<TransactionsTableState, 'pagination' | 'sorting' | 'filters'>;
+
+const basicFilterParams = objectParams<Omit<ServerSideFilters, 'advanced'>>({
+    status: ['status', param.string],
+    startDate: ['from', param.string],
+    endDate: ['to', param.string],
+    amountMin: ['min', param.string],
+    amountMax: ['max', param.string],
+    search: ['q', param.string],
+});
+
+const advancedFilterParams = objectParams<AdvancedSearchCriteria>({
+    statuses: ['statuses', param.list],
+    merchantId: ['merchant', param.string],
+    merchantName: ['merchantName', param.string],
+    paymentGatewayCode: ['gateway', param.string],
+    paymentGatewayName: ['gatewayName', param.string],
+    paymentChannelType: ['channel', param.string],
+    currency: ['currency', param.string],
+    currencies: ['currencies', param.list],
+    internalTransactionId: ['internalTransactionId', param.string],
+    externalTransactionId: ['externalTransactionId', param.string],
+    merchantTransactionId: ['merchantTransactionId', param.string],
+    errorCode: ['errorCode', param.string],
+    responseCode: ['responseCode', param.string],
+    provider: ['provider', param.string],
+    paymentMethod: ['paymentMethod', param.string],
+    payCode: ['payCode', param.string],
+    customerName: ['customerName', param.string],
+    customerEmail: ['customerEmail', param.string],
+    customerPhone: ['customerPhone', param.string],
+    accountNumber: ['accountNumber', param.string],
+    ipAddress: ['ipAddress', param.string],
+    deviceId: ['deviceId', param.string],
+    statusUpdatedFrom: ['statusUpdatedFrom', param.string],
+    statusUpdatedTo: ['statusUpdatedTo', param.string],
+    includeProduction: ['includeProduction', param.boolean],
+    includeTest: ['includeTest', param.boolean],
+    includeDisbursements: ['includeDisbursements', param.boolean],
+    includeAuditTrail: ['includeAuditTrail', param.boolean],
+});
+
+/**
+ * URL mapping for the transactions table, e.g. `?status=FAILED&gateway=MPESA&from=2025-06-01&page=3`
+ */
+export const transactionsUrlState = createTableUrlState<TransactionsUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: (params) => ({
+        filters: {
+            ...initialFilters,
+            ...basicFilterParams.read(params),
+            advanced: advancedFilterParams.read(params),
+        },
+    }),
+    serializeFilters: ({ filters }, params) => {
+        basicFilterParams.write(params, filters);
+        advancedFilterParams.write(params, filters.advanced);
+    },
+});
+
+/**
+ * transactions.list input for an unfiltered view
+ */
+export function toTransactionsListInput({ pagination, sorting }: TransactionsUrlSlice) {
+    return {
+        // Pagination: convert 0-based pageIndex to 1-based page for API
+        // Ensure per_page is at least 1 (protect against corrupted state)
+        page: Math.max(1, pagination.pageIndex + 1).toString(),
+        per_page: Math.max(1, pagination.pageSize || 10).toString(),
+        // Sorting: convert TanStack sorting format to API sort format
+        ...(sorting.length > 0 && {
+            sort: sorting.map(s => `${s.id},${s.desc ? 'desc' : 'asc'}`).join(','),
+        }),
+    };
+}
+
+/**
+ * transactions.search input for a filtered view
+ */
+export function toTransactionsSearchInput({ pagination, sorting, filters }: TransactionsUrlSlice) {
+    const { page, per_page } = toTransactionsListInput({ pagination, sorting: [], filters });
+    return {
+        page,
+        per_page,
+        searchCriteria: filtersToSearchCriteria(filters, sorting),
+    };
+}
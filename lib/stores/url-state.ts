@@ -0,0 +1,208 @@
+import type { ColumnFiltersState, SortingState } from '@tanstack/react-table';
+import type { StoreApi } from 'zustand';
+
+/**
+ * Search params as received by a page component (`searchParams` prop) or from useSearchParams()
+ */
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+/**
+ * Pagination and sorting shared by every table store
+ */
+export interface TableUrlSlice {
+    pagination: {
+        pageIndex: number;
+        pageSize: number;
+    };
+    sorting: SortingState;
+}
+
+/**
+ * Typed mapping between the URL-synced slice of a table store and the query string.
+ * Used by page components (to prefetch with the same input the client will use) and by useTableUrlState.
+ */
+export interface TableUrlState<TSlice extends TableUrlSlice> {
+    /** Read the slice from search params; missing or invalid params fall back to defaults */
+    parse: (input: SearchParamsInput) => TSlice;
+    /** Write the slice to search params, omitting default values */
+    serialize: (slice: TSlice) => URLSearchParams;
+}
+
+/**
+ * The parts of a zustand table store used to sync it with the URL, narrowed to the synced slice
+ */
+export type TableStoreApi<TSlice> = Pick<StoreApi<TSlice>, 'getState' | 'subscribe'> & {
+    setState: (partial: TSlice) => void;
+};
+
+/**
+ * Reads and writes a single query param value
+ */
+export interface ParamCodec<T> {
+    read: (params: URLSearchParams, name: string) => T | undefined;
+    write: (params: URLSearchParams, name: string, value: T | null | undefined) => void;
+}
+
+const PAGE_PARAM = 'page';
+const SIZE_PARAM = 'size';
+const SORT_PARAM = 'sort';
+const MAX_PAGE_SIZE = 100;
+
+export function toURLSearchParams(input: SearchParamsInput): URLSearchParams {
+    if (input instanceof URLSearchParams) {
+        return new URLSearchParams(input);
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(input).forEach(([key, value]) => {
+        if (Array.isArray(value)) {
+            value.forEach((v) => params.append(key, v));
+        } else if (value !== undefined) {
+            params.set(key, value);
+        }
+    });
+    return params;
+}
+
+function readPositiveInt(params: URLSearchParams, name: string): number | undefined {
+    const value = Number(params.get(name));
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Query param codecs for filter values
+ */
+export const param = {
+    string: {
+        read: (params, name) => params.get(name)?.trim() || undefined,
+        write: (params, name, value) => {
+            if (value) params.set(name, value);
+        },
+    } satisfies ParamCodec<string>,
+
+    /** Comma-separated list, e.g. `status=FAILED,TIMEOUT` */
+    list: {
+        read: (params, name) => {
+            const values = params.get(name)?.split(',').map((v) => v.trim()).filter(Boolean);
+            return values && values.length > 0 ? values : undefined;
+        },
+        write: (params, name, value) => {
+            if (value && value.length > 0) params.set(name, value.join(','));
+        },
+    } satisfies ParamCodec<string[]>,
+
+    /** `true`/`false`; anything else is ignored */
+    boolean: {
+        read: (params, name) => {
+            const value = params.get(name);
+            return value === 'true' ? true : value === 'false' ? false : undefined;
+        },
+        write: (params, name, value) => {
+            if (value !== null && value !== undefined) params.set(name, String(value));
+        },
+    } satisfies ParamCodec<boolean>,
+};
+
+/**
+ * Map the fields of a filter object to query params.
+ * Empty values are omitted when writing; missing params are omitted when reading.
+ */
+export function objectParams<T extends object>(
+    fields: { [K in keyof T]-?: readonly [name: string, codec: ParamCodec<NonNullable<T[K]>>] }
+) {
+    const entries = Object.entries(fields) as [keyof T, readonly [string, ParamCodec<unknown>]][];
+
+    return {
+        read(params: URLSearchParams): Partial<T> {
+            const result: Partial<T> = {};
+            entries.forEach(([key, [name, codec]]) => {
+                const value = codec.read(params, name);
+                if (value !== undefined) {
+                    result[key] = value as T[keyof T];
+                }
+            });
+            return result;
+        },
+        write(params: URLSearchParams, value: Partial<T>) {
+            entries.forEach(([key, [name, codec]]) => codec.write(params, name, value[key]));
+        },
+    };
+}
+
+/**
+ * Map TanStack column filters to query params, keyed by column id.
+ * `list` columns hold string[] filter values (faceted filters); `string` columns hold a single string.
+ */
+export function columnFilterParams(columns: Record<string, readonly [name: string, kind: 'list' | 'string']>) {
+    return {
+        parseFilters(params: URLSearchParams): { columnFilters: ColumnFiltersState } {
+            const columnFilters: ColumnFiltersState = [];
+            Object.entries(columns).forEach(([id, [name, kind]]) => {
+                const value = param[kind].read(params, name);
+                if (value !== undefined) {
+                    columnFilters.push({ id, value });
+                }
+            });
+            return { columnFilters };
+        },
+        serializeFilters(slice: { columnFilters: ColumnFiltersState }, params: URLSearchParams) {
+            slice.columnFilters.forEach(({ id, value }) => {
+                const column = columns[id];
+                if (!column) return;
+
+                const [name, kind] = column;
+                if (kind === 'list' && Array.isArray(value)) {
+                    param.list.write(params, name, value.map(String));
+                } else if (kind === 'string' && typeof value === 'string') {
+                    param.string.write(params, name, value.trim());
+                }
+            });
+        },
+    };
+}
+
+/**
+ * Create the URL mapping for a table store.
+ *
+ * Pagination is written as a 1-based `page` plus `size`, sorting as `sort=field:desc,other:asc`;
+ * filters are read and written by the given functions.
+ */
+export function createTableUrlState<TSlice extends TableUrlSlice>(options: {
+    defaultPageSize: number;
+    parseFilters: (params: URLSearchParams) => Omit<TSlice, keyof TableUrlSlice>;
+    serializeFilters: (slice: TSlice, params: URLSearchParams) => void;
+}): TableUrlState<TSlice> {
+    return {
+        parse(input) {
+            const params = toURLSearchParams(input);
+            const page = readPositiveInt(params, PAGE_PARAM) ?? 1;
+            const pageSize = Math.min(readPositiveInt(params, SIZE_PARAM) ?? options.defaultPageSize, MAX_PAGE_SIZE);
+
+            const sorting: SortingState = (param.list.read(params, SORT_PARAM) ?? [])
+                .map((entry) => entry.split(':'))
+                .filter(([id, direction]) => /^[\w.]+$/.test(id) && (!direction || direction === 'asc' || direction === 'desc'))
+                .map(([id, direction]) => ({ id, desc: direction === 'desc' }));
+
+            return {
+                pagination: { pageIndex: page - 1, pageSize },
+                sorting,
+                ...options.parseFilters(params),
+            } as TSlice;
+        },
+
+        serialize(slice) {
+            const params = new URLSearchParams();
+            options.serializeFilters(slice, params);
+
+            param.list.write(params, SORT_PARAM, slice.sorting.map((s) => `${s.id}:${s.desc ? 'desc' : 'asc'}`));
+            if (slice.pagination.pageIndex > 0) {
+                params.set(PAGE_PARAM, String(slice.pagination.pageIndex + 1));
+            }
+            if (slice.pagination.pageSize !== options.defaultPageSize) {
+                params.set(SIZE_PARAM, String(slice.pagination.pageSize));
+            }
+
+            return params;
+        },
+    };
+}
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { ColumnFiltersState, SortingState, VisibilityState } from '@tanstack/react-table';
 import { PAGINATION } from '@/lib/config/constants';
+import { columnFilterParams, createTableUrlState } from './url-state';
 
 interface UsersTableState {
     pagination: {
@@ -41,10 +42,12 @@ export const useUsersTableStore = create<UsersTableState & UsersTableActions>()(
 
         setSorting: (sorting) => set((state) => ({
             sorting: typeof sorting === 'function' ? sorting(state.sorting) : sorting,
+            pagination: { ...state.pagination, pageIndex: 0 }, // Reset to first page
         })),
 
         setColumnFilters: (filters) => set((state) => ({
             columnFilters: typeof filters === 'function' ? filters(state.columnFilters) : filters,
+            pagination: { ...state.pagination, pageIndex: 0 },
         })),
 
         setColumnVisibility: (visibility) => set((state) => ({
@@ -58,3 +61,49 @@ export const useUsersTableStore = create<UsersTableState & UsersTableActions>()(
         resetTableState: () => set(initialState),
     })
 );
+
+/**
+ * The part of the store that is kept in the URL
+ */
+export type UsersUrlSlice = Pick<UsersTableState, 'pagination' | 'sorting' | 'columnFilters'>;
+
+const filterParams = columnFilterParams({
+    role: ['role', 'list'],
+    is_active: ['status', 'list'],
+});
+
+/**
+ * URL mapping for the users table, e.g. `?role=ADMIN&status=active-locked`
+ */
+export const usersUrlState = createTableUrlState<UsersUrlSlice>({
+    defaultPageSize: initialState.pagination.pageSize,
+    parseFilters: filterParams.parseFilters,
+    serializeFilters: filterParams.serializeFilters,
+});
+
+/**
+ * users.list input for the given table state
+ */
+export function toUsersListInput({ pagination, sorting, columnFilters }: UsersUrlSlice) {
+    // Convert 0-based pageIndex to 1-based page number for API
+    const params: Record<string, string> = {
+        page: (pagination.pageIndex + 1).toString(),
+        per_page: pagination.pageSize.toString(),
+    };
+
+    // Convert sorting state to sort parameter format (e.g., "username,asc,email,desc")
+    if (sorting.length > 0) {
+        params.sort = sorting.map(sort => `${sort.id},${sort.desc ? 'desc' : 'asc'}`).join(',');
+    }
+
+    columnFilters.forEach(filter => {
+        if (filter.id === 'role' && Array.isArray(filter.value)) {
+            params.role = filter.value.join(',');
+        } else if (filter.id === 'is_active' && Array.isArray(filter.value) && filter.value.length > 0) {
+            // The filter uses combined values like 'active-unlocked', 'active-locked', etc.
+            params.status = filter.value.join(',');
+        }
+    });
+
+    return params;
+}
@@ -0,0 +1,48 @@
+/**
+ * Manual transaction status overrides, limited by the backend's canUpdate answer
+ */
+
+// Statuses an operator can set manually
+export const TRANSACTION_OVERRIDE_STATUSES = [
+    'PENDING',
+    'PROCESSING',
+    'SUCCESS',
+    'COMPLETED',
+    'FAILED',
+    'CANCELLED',
+    'REFUNDED',
+    'TIMEOUT',
+    'ERROR',
+] as const;
+
+export type TransactionOverrideStatus = (typeof TRANSACTION_OVERRIDE_STATUSES)[number];
+
+// Status each action name in canUpdate.allowedActions leads to
+const ACTION_TARGET_STATUSES: Record<string, TransactionOverrideStatus> = {
+    COMPLETE: 'SUCCESS',
+    CANCEL: 'CANCELLED',
+    REFUND: 'REFUNDED',
+    FAIL: 'FAILED',
+};
+
+function toTargetStatus(allowedAction: string): TransactionOverrideStatus | null {
+    const upperAction = allowedAction.toUpperCase();
+    const status = TRANSACTION_OVERRIDE_STATUSES.find((option) => option === upperAction);
+    return status ?? ACTION_TARGET_STATUSES[upperAction] ?? null;
+}
+
+/**
+ * Statuses a transaction in `status` may be set to. When the backend lists allowedActions, only the statuses
+ * they name or lead to are offered, so actions without a known status offer none; without a list, any other
+ * status is.
+ */
+export function getAllowedTransactionTransitions(
+    status: string,
+    allowedActions?: string[] | null
+): TransactionOverrideStatus[] {
+    const targets = allowedActions
+        ? allowedActions.map(toTargetStatus).filter((target) => target !== null)
+        : TRANSACTION_OVERRIDE_STATUSES;
+
+    return TRANSACTION_OVERRIDE_STATUSES.filter((option) => option !== status.toUpperCase() && targets.includes(option));
+}
@@ -0,0 +1,158 @@
+import 'server-only';
+
+import type { BackendClient, BackendPage } from './backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { buildEndpointUrl } from '@/lib/config/endpoints';
+import {
+    ApprovalAuditEntrySchema,
+    ApprovalRequestSchema,
+    type ApprovalAction,
+    type ApprovalAuditEntry,
+    type ApprovalRequest,
+    type ApprovalStatus,
+} from '@/lib/definitions';
+
+/**
+ * Approval requests and their audit log, kept by the backend so every server instance sees the same requests.
+ *
+ * The approvals API is not in swagger yet; this is the contract the backend implements:
+ * - POST /admin/v1/approvals                       store a new PENDING request (body: ApprovalRequest); 409 when
+ *                                                  the same action is already pending for the same entity
+ * - GET  /admin/v1/approvals?status=&action=&entityUid=&page=&size=
+ *                                                  page of requests newest first, optionally filtered (`status`
+ *                                                  may repeat); pending requests past `expiresAt` come back EXPIRED
+ * - GET  /admin/v1/approvals/events?page=&size=    page of events across all requests newest first, each with
+ *                                                  its request's uid, action, entity, amount and currency
+ * - GET  /admin/v1/approvals/uid/{uid}             one request
+ * - POST /admin/v1/approvals/uid/{uid}/approve     { actor, comment }: PENDING -> EXECUTING, recorded before the
+ *                                                  held action runs
+ * - POST /admin/v1/approvals/uid/{uid}/reject      { actor, comment }: PENDING -> REJECTED
+ * - POST /admin/v1/approvals/uid/{uid}/outcome     { status: EXECUTED | FAILED, actor, message }: EXECUTING -> status;
+ *                                                  repeating the outcome already recorded answers with the request
+ *
+ * Every transition is a single conditional update that appends its event to `events`, and answers 409 when the
+ * request is no longer in the status it moves from, so two approvers can never both claim the same request.
+ */
+
+type ApprovalActor = ApprovalRequest['requestedBy'];
+
+interface ApprovalFilter {
+    status?: ApprovalStatus[];
+    action?: ApprovalAction;
+    entityUid?: string;
+}
+
+/**
+ * Backend page to read (0-based)
+ */
+interface ApprovalPageRequest {
+    page: number;
+    size: number;
+}
+
+interface ApprovalDecision {
+    actor: ApprovalActor;
+    comment: string | null;
+}
+
+interface ApprovalOutcome {
+    status: Extract<ApprovalStatus, 'EXECUTED' | 'FAILED'>;
+    actor: ApprovalActor;
+    message: string | null;
+}
+
+/**
+ * A page of requests newest first, all of them or only those matching `filter`
+ */
+export function listApprovals(
+    api: BackendClient,
+    filter: ApprovalFilter,
+    { page, size }: ApprovalPageRequest
+): Promise<BackendPage<ApprovalRequest>> {
+    const query = new URLSearchParams({ page: String(page), size: String(size) });
+    filter.status?.forEach((status) => query.append('status', status));
+    if (filter.action) query.set('action', filter.action);
+    if (filter.entityUid) query.set('entityUid', filter.entityUid);
+
+    return api.getPage(API_ENDPOINTS.approvals.list, {
+        query,
+        schema: ApprovalRequestSchema,
+        errorMessage: 'Failed to fetch approval requests',
+    });
+}
+
+/**
+ * A page of request, decision, expiry and execution events across all requests, newest first
+ */
+export function listApprovalEvents(api: BackendClient, { page, size }: ApprovalPageRequest): Promise<BackendPage<ApprovalAuditEntry>> {
+    return api.getPage(API_ENDPOINTS.approvals.events, {
+        query: { page, size },
+        schema: ApprovalAuditEntrySchema,
+        errorMessage: 'Failed to fetch the approval audit log',
+    });
+}
+
+/**
+ * The request already waiting for a decision on `action` for the entity, if any
+ */
+export async function findPendingApproval(
+    api: BackendClient,
+    action: ApprovalAction,
+    entityUid: string
+): Promise<ApprovalRequest | null> {
+    const pending = await listApprovals(api, { status: ['PENDING'], action, entityUid }, { page: 0, size: 1 });
+    return pending.data.find((approval) => approval.action === action && approval.entityUid === entityUid) ?? null;
+}
+
+export function getApproval(api: BackendClient, uid: string): Promise<ApprovalRequest> {
+    return api.get(buildEndpointUrl.approvalByUid(uid), {
+        schema: ApprovalRequestSchema,
+        errorMessage: 'Approval request not found',
+    });
+}
+
+export async function createApproval(api: BackendClient, approval: ApprovalRequest): Promise<ApprovalRequest> {
+    const { data } = await api.post(API_ENDPOINTS.approvals.create, {
+        body: approval,
+        schema: ApprovalRequestSchema,
+        errorMessage: 'Failed to store the approval request',
+    });
+    return data;
+}
+
+/**
+ * Approve a pending request and mark it EXECUTING; fails with CONFLICT when someone else decided it first
+ */
+export async function claimApproval(api: BackendClient, uid: string, decision: ApprovalDecision): Promise<ApprovalRequest> {
+    const { data } = await api.post(buildEndpointUrl.approveApproval(uid), {
+        body: decision,
+        schema: ApprovalRequestSchema,
+        errorMessage: 'This request is no longer pending',
+    });
+    return data;
+}
+
+/**
+ * Reject a pending request; fails with CONFLICT when someone else decided it first
+ */
+export async function rejectApproval(api: BackendClient, uid: string, decision: ApprovalDecision): Promise<ApprovalRequest> {
+    const { data } = await api.post(buildEndpointUrl.rejectApproval(uid), {
+        body: decision,
+        schema: ApprovalRequestSchema,
+        errorMessage: 'This request is no longer pending',
+    });
+    return data;
+}
+
+/**
+ * Record how running an approved request went; the write is idempotent, so it is retried like a read
+ */
+export async function recordApprovalOutcome(api: BackendClient, uid: string, outcome: ApprovalOutcome): Promise<ApprovalRequest> {
+    const { data } = await api.post(buildEndpointUrl.approvalOutcome(uid), {
+        body: outcome,
+        idempotent: true,
+        schema: ApprovalRequestSchema,
+        errorMessage: 'Failed to record the approval outcome',
+    });
+    return data;
+}
@@ -0,0 +1,178 @@
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { BackendClient } from './backend-client';
+import { createApproval, findPendingApproval } from './approval-store';
+import { APPROVALS } from '@/lib/config/constants';
+import { isApprovalFlowEnabled } from '@/lib/approvals';
+import type {
+    ApprovalAction,
+    ApprovalChange,
+    ApprovalRequest,
+    SensitiveActionResult,
+    SessionPayload,
+} from '@/lib/definitions';
+
+/**
+ * The record a money-moving action applies to, read before running it: the amount checked against the
+ * approval threshold and the before/after the approver reviews
+ */
+export interface ApprovalSubject {
+    entityType: ApprovalRequest['entityType'];
+    entityUid: string;
+    amount: number;
+    /** Amount checked against the threshold when it is not `amount` alone, e.g. a refund plus earlier refunds */
+    thresholdAmount?: number;
+    currency: string | null;
+    reason: string | null;
+    changes: ApprovalChange[];
+}
+
+/**
+ * A mutation that needs a second user's approval above the threshold
+ */
+export interface SensitiveAction<TSchema extends z.ZodType<Record<string, unknown>>> {
+    action: ApprovalAction;
+    /** Mutation input; approved requests are re-validated with it before they are replayed */
+    input: TSchema;
+    describe: (api: BackendClient, input: z.output<TSchema>) => Promise<ApprovalSubject>;
+    /** Call the backend; `approval` is set when replaying an approved request */
+    execute: (
+        api: BackendClient,
+        input: z.output<TSchema>,
+        approval?: ApprovalRequest
+    ) => Promise<{ message: string; data: unknown }>;
+}
+
+/**
+ * Run an approved request: its stored payload is validated with the action's input schema, then executed
+ */
+export type ReplaySensitiveAction = (
+    api: BackendClient,
+    payload: unknown,
+    approval: ApprovalRequest
+) => Promise<{ message: string; data: unknown }>;
+
+export interface DefinedSensitiveAction<TSchema extends z.ZodType<Record<string, unknown>>> extends SensitiveAction<TSchema> {
+    replay: ReplaySensitiveAction;
+}
+
+export type SensitiveActionRegistry = Partial<Record<ApprovalAction, { replay: ReplaySensitiveAction }>>;
+
+export function defineSensitiveAction<TSchema extends z.ZodType<Record<string, unknown>>>(
+    action: SensitiveAction<TSchema>
+): DefinedSensitiveAction<TSchema> {
+    return {
+        ...action,
+        replay: (api, payload, approval) => action.execute(api, action.input.parse(payload), approval),
+    };
+}
+
+interface ApprovalContext {
+    api: BackendClient;
+    session: SessionPayload | null;
+}
+
+function readAmount(name: string): number | null {
+    const value = process.env[name];
+    if (!value) return null;
+    const amount = Number(value);
+    return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+/**
+ * Amount above which an action in `currency` needs approval: APPROVAL_THRESHOLD_AMOUNT_<CURRENCY>
+ * (e.g. APPROVAL_THRESHOLD_AMOUNT_USD), then APPROVAL_THRESHOLD_AMOUNT, then the default
+ */
+export function getApprovalThreshold(currency: string | null): number {
+    const currencyThreshold = currency ? readAmount(`APPROVAL_THRESHOLD_AMOUNT_${currency.toUpperCase()}`) : null;
+    return currencyThreshold ?? readAmount('APPROVAL_THRESHOLD_AMOUNT') ?? APPROVALS.DEFAULT_THRESHOLD_AMOUNT;
+}
+
+/**
+ * How long a request waits for a decision before it expires: APPROVAL_EXPIRY_HOURS, then the default
+ */
+export function getApprovalExpiryMs(): number {
+    const hours = readAmount('APPROVAL_EXPIRY_HOURS') || APPROVALS.DEFAULT_EXPIRY_HOURS;
+    return hours * 60 * 60 * 1000;
+}
+
+export function toApprovalActor(session: SessionPayload | null): ApprovalRequest['requestedBy'] {
+    if (!session?.uid) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'No valid session found' });
+    }
+    return { uid: session.uid, name: session.name || session.username };
+}
+
+/**
+ * Append the approval to the reason sent to the backend, so its audit trail shows both users
+ */
+export function withApprovalReference(reason: string, approval?: ApprovalRequest): string {
+    if (!approval) return reason;
+    const approvedBy = approval.decidedBy ? `, approved by ${approval.decidedBy.name}` : '';
+    return `${reason} [approval ${approval.uid}: requested by ${approval.requestedBy.name}${approvedBy}]`;
+}
+
+function formatMoney(amount: number, currency: string | null): string {
+    const formatted = amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return currency ? `${currency} ${formatted}` : formatted;
+}
+
+/**
+ * Run the action right away when approvals are off or its amount is within the approval threshold; otherwise
+ * hold it as a pending approval request and return that instead
+ */
+export async function runSensitiveAction<TSchema extends z.ZodType<Record<string, unknown>>>(
+    ctx: ApprovalContext,
+    action: SensitiveAction<TSchema>,
+    input: z.output<TSchema>
+): Promise<SensitiveActionResult> {
+    // Describing the action also validates it (refundable balance, allowed transitions), so it runs either way
+    const subject = await action.describe(ctx.api, input);
+    const threshold = getApprovalThreshold(subject.currency);
+    const checkedAmount = subject.thresholdAmount ?? subject.amount;
+
+    if (!isApprovalFlowEnabled() || checkedAmount <= threshold) {
+        const { message, data } = await action.execute(ctx.api, input);
+        return { message, data, approval: null };
+    }
+
+    const requestedBy = toApprovalActor(ctx.session);
+    if (await findPendingApproval(ctx.api, action.action, subject.entityUid)) {
+        throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This action is already waiting for approval on this record',
+        });
+    }
+
+    const requestedAt = new Date();
+    const approval = await createApproval(ctx.api, {
+        uid: randomUUID(),
+        action: action.action,
+        status: 'PENDING',
+        entityType: subject.entityType,
+        entityUid: subject.entityUid,
+        amount: subject.amount.toFixed(2),
+        currency: subject.currency,
+        reason: subject.reason,
+        changes: subject.changes,
+        payload: input,
+        requestedBy,
+        requestedAt: requestedAt.toISOString(),
+        expiresAt: new Date(requestedAt.getTime() + getApprovalExpiryMs()).toISOString(),
+        decidedBy: null,
+        decidedAt: null,
+        decisionComment: null,
+        executionMessage: null,
+        events: [{ type: 'REQUESTED', actor: requestedBy, comment: subject.reason, timestamp: requestedAt.toISOString() }],
+    });
+
+    return {
+        message: `${formatMoney(checkedAmount, subject.currency)} is above the approval threshold of `
+            + `${formatMoney(threshold, subject.currency)}; sent for approval`,
+        data: null,
+        approval,
+    };
+}
@@ -0,0 +1,196 @@
+import 'server-only';
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { BackendRecordSchema, type BackendClient } from './backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { API_TIMEOUT } from '@/lib/config/constants';
+import {
+    ARCHIVE_CONFIRMATION_WORD,
+    MIN_ARCHIVE_AGE_DAYS,
+    isValidArchiveCutoff,
+    toArchiveSearchCreatedTo,
+    toArchiveThreshold,
+} from '@/lib/archive';
+import type { ArchiveEntity, ArchivePreview, ArchiveRun } from '@/lib/definitions';
+
+/**
+ * Backend endpoints behind the archive tool for one record type
+ */
+export interface ArchiveEndpoints {
+    /** Plural noun used in messages, e.g. 'transactions' */
+    entityName: string;
+    archive: string;
+    search: string;
+    countByStatus: (status: string) => string;
+}
+
+export const ArchivePreviewInputSchema = z.object({
+    cutoffDate: z.string().refine((date) => isValidArchiveCutoff(date), {
+        message: `Cutoff date must be at least ${MIN_ARCHIVE_AGE_DAYS} days ago`,
+    }),
+    statuses: z.array(z.string().min(1)).min(1, 'Select at least one status'),
+});
+
+export const ArchiveRunInputSchema = ArchivePreviewInputSchema.extend({
+    confirmation: z.string(),
+});
+
+async function countCreatedBefore(
+    api: BackendClient,
+    endpoints: ArchiveEndpoints,
+    cutoffDate: string,
+    statuses?: string[]
+): Promise<number> {
+    const page = await api.postPage(endpoints.search, {
+        body: {
+            createdTo: toArchiveSearchCreatedTo(cutoffDate),
+            ...(statuses ? { statuses } : {}),
+            page: 0,
+            size: 1,
+        },
+        schema: BackendRecordSchema,
+        errorMessage: `Failed to count ${endpoints.entityName} to archive`,
+    });
+    return page.totalElements;
+}
+
+/**
+ * Count what an archive run would touch: per-status totals from the count endpoints, plus how many records
+ * created before the cutoff are in the selected statuses and in any status
+ */
+export async function getArchivePreview(
+    api: BackendClient,
+    endpoints: ArchiveEndpoints,
+    { cutoffDate, statuses }: z.infer<typeof ArchivePreviewInputSchema>
+): Promise<ArchivePreview> {
+    const [statusCounts, matchingCount, beforeCutoffCount] = await Promise.all([
+        Promise.all(statuses.map(async (status) => ({
+            status,
+            total: await api.get(endpoints.countByStatus(status), {
+                schema: z.coerce.number(),
+                errorMessage: `Failed to count ${status} ${endpoints.entityName}`,
+            }),
+        }))),
+        countCreatedBefore(api, endpoints, cutoffDate, statuses),
+        countCreatedBefore(api, endpoints, cutoffDate),
+    ]);
+
+    return {
+        archiveThreshold: toArchiveThreshold(cutoffDate),
+        statusCounts,
+        matchingCount,
+        beforeCutoffCount,
+    };
+}
+
+/**
+ * Archive every record created before the cutoff.
+ * The archive endpoint only takes a threshold, so the run is refused while records in other statuses
+ * would be swept up with the selected ones.
+ */
+export async function runArchive(
+    api: BackendClient,
+    endpoints: ArchiveEndpoints,
+    { confirmation, ...input }: z.infer<typeof ArchiveRunInputSchema>
+) {
+    if (confirmation !== ARCHIVE_CONFIRMATION_WORD) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Type ${ARCHIVE_CONFIRMATION_WORD} to confirm the archive run`,
+        });
+    }
+
+    const preview = await getArchivePreview(api, endpoints, input);
+    const otherStatusCount = preview.beforeCutoffCount - preview.matchingCount;
+    if (otherStatusCount > 0) {
+        throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: `${otherStatusCount} ${endpoints.entityName} created before ${input.cutoffDate} are in other statuses and would be archived too`,
+        });
+    }
+
+    const { data, message } = await api.post(endpoints.archive, {
+        query: { archiveThreshold: preview.archiveThreshold },
+        schema: z.number().nullish().transform((count) => count ?? 0),
+        errorMessage: `Failed to archive ${endpoints.entityName}`,
+        timeoutMs: API_TIMEOUT.LONG_MS,
+    });
+
+    return {
+        message: message || `${data} ${endpoints.entityName} archived`,
+        data: { archived: data, archiveThreshold: preview.archiveThreshold },
+    };
+}
+
+// Archive endpoints whose calls make up the archive history
+const ARCHIVE_PATHS: Record<ArchiveEntity, string> = {
+    transactions: API_ENDPOINTS.transactions.archive,
+    disbursements: API_ENDPOINTS.disbursements.archive,
+};
+
+// The audit log cannot be filtered by request path, so this many of its newest entries are scanned
+const ARCHIVE_HISTORY_PAGE_SIZE = 100;
+const ARCHIVE_HISTORY_MAX_PAGES = 5;
+
+/**
+ * Audit log entry as returned by the backend; only the fields describing an archive call are read
+ */
+const ArchiveAuditLogSchema = z.looseObject({
+    id: z.union([z.number(), z.string()]),
+    username: z.string().nullish(),
+    success: z.boolean().nullish(),
+    details: z.string().nullish(),
+    requestMethod: z.string().nullish(),
+    requestPath: z.string().nullish(),
+    createdAt: z.string().nullish(),
+});
+
+function toArchiveRun(entry: z.infer<typeof ArchiveAuditLogSchema>): ArchiveRun | null {
+    if (!entry.requestPath || (entry.requestMethod && entry.requestMethod.toUpperCase() !== 'POST')) {
+        return null;
+    }
+
+    const [path, queryString = ''] = entry.requestPath.split('?');
+    const entity = (Object.keys(ARCHIVE_PATHS) as ArchiveEntity[]).find((key) => path.endsWith(ARCHIVE_PATHS[key]));
+    if (!entity) {
+        return null;
+    }
+
+    return {
+        id: String(entry.id),
+        entity,
+        archiveThreshold: new URLSearchParams(queryString).get('archiveThreshold'),
+        succeeded: entry.success ?? null,
+        details: entry.details ?? null,
+        runBy: entry.username ?? null,
+        runAt: entry.createdAt ?? null,
+    };
+}
+
+/**
+ * Archive runs recorded in the backend audit log, newest first.
+ * Only the newest audit log entries are scanned, so older runs drop out of the history.
+ */
+export async function getArchiveHistory(api: BackendClient): Promise<ArchiveRun[]> {
+    const runs: ArchiveRun[] = [];
+
+    for (let page = 0; page < ARCHIVE_HISTORY_MAX_PAGES; page++) {
+        const entries = await api.getPage(API_ENDPOINTS.logs.auditLogs, {
+            query: { page, size: ARCHIVE_HISTORY_PAGE_SIZE, sort: 'createdAt,desc' },
+            schema: ArchiveAuditLogSchema,
+            errorMessage: 'Failed to fetch archive history',
+        });
+
+        for (const entry of entries.data) {
+            const run = toArchiveRun(entry);
+            if (run) runs.push(run);
+        }
+
+        if (entries.last || page + 1 >= entries.totalPages) {
+            break;
+        }
+    }
+
+    return runs;
+}
@@ -0,0 +1,55 @@
+import 'server-only';
+
+import { z } from 'zod';
+import type { BackendClient } from './backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import type { SessionPayload } from '@/lib/definitions';
+
+/**
+ * Admin operation recorded in the backend audit log, in its `AuditLog` fields
+ */
+export interface AuditEntry {
+    /** What was done, e.g. PROCESS_STALE_TRANSACTIONS */
+    event: string;
+    /** What it was done to, e.g. TRANSACTION */
+    resourceType: string;
+    resourceUid?: string;
+    /** Why the operator did it */
+    reason: string;
+    /** Outcome and parameters of the operation */
+    metadata: Record<string, unknown>;
+}
+
+interface AuditContext {
+    api: BackendClient;
+    session: SessionPayload | null;
+}
+
+/**
+ * Write an audit entry for an admin operation with the session user as the actor.
+ * The operation has already run by the time this is called, so a failed write is logged and reported as `false`
+ * instead of failing the request.
+ */
+export async function recordAuditEntry(ctx: AuditContext, entry: AuditEntry): Promise<boolean> {
+    try {
+        await ctx.api.post(API_ENDPOINTS.logs.auditLogs, {
+            body: {
+                userUid: ctx.session?.uid,
+                username: ctx.session?.username,
+                eventType: 'ADMIN_ACTION',
+                event: entry.event,
+                resourceType: entry.resourceType,
+                resourceUid: entry.resourceUid,
+                details: entry.reason,
+                success: true,
+                metadata: JSON.stringify(entry.metadata),
+            },
+            schema: z.unknown(),
+            errorMessage: 'Failed to write the audit log entry',
+        });
+        return true;
+    } catch (error) {
+        console.error(`Failed to write audit log entry ${entry.event}`, error);
+        return false;
+    }
+}
@@ -0,0 +1,345 @@
+import 'server-only';
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { API_CONFIG } from '@/lib/config/api';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export type BackendQuery = URLSearchParams | Record<string, QueryValue>;
+
+interface BackendRequestOptions<T> {
+    /** Schema the unwrapped response `data` must match */
+    schema: z.ZodType<T>;
+    /** Message used when the backend does not return one */
+    errorMessage: string;
+    query?: BackendQuery;
+    body?: unknown;
+    /** Overrides API_CONFIG.timeout for slow endpoints */
+    timeoutMs?: number;
+    /** Retry a write like a GET; only for writes the backend applies at most once */
+    idempotent?: boolean;
+}
+
+export type BackendQueryOptions<T> = Omit<BackendRequestOptions<T>, 'body'>;
+
+/**
+ * Mutation result: validated data plus the backend's message, if any
+ */
+export interface BackendResult<T> {
+    data: T;
+    message?: string;
+}
+
+/**
+ * Page of results as returned by the backend (0-based pageNumber)
+ */
+export interface BackendPage<T> {
+    data: T[];
+    pageNumber: number;
+    pageSize: number;
+    totalElements: number;
+    totalPages: number;
+    last: boolean;
+    first: boolean;
+}
+
+/**
+ * File returned by an export endpoint
+ */
+export interface BackendFile {
+    content: Buffer;
+    contentType: string | null;
+}
+
+const PageMetaSchema = z.object({
+    pageNumber: z.number().optional(),
+    pageSize: z.number().optional(),
+    totalElements: z.number().optional(),
+    totalPages: z.number().optional(),
+    last: z.boolean().optional(),
+    first: z.boolean().optional(),
+});
+
+/**
+ * Backend `ResponseWrapper*` / `PageResponseWrapper*` / `PagedMetaResponseWrapper*` envelope
+ */
+const ResponseWrapperSchema = z.looseObject({
+    status: z.boolean().optional(),
+    statusCode: z.number().optional(),
+    message: z.string().nullish(),
+    data: z.unknown(),
+    meta: PageMetaSchema.optional(),
+    ...PageMetaSchema.shape,
+});
+
+type ResponseWrapper = z.infer<typeof ResponseWrapperSchema>;
+
+/**
+ * Untyped backend DTO, for responses whose field names vary (camelCase/snake_case) between
+ * endpoints and are mapped by hand in the router
+ */
+export const BackendRecordSchema = z.record(z.string(), z.unknown());
+
+const RETRY_DELAY_MS = 300;
+
+/**
+ * Cause of the UNAUTHORIZED error thrown when the backend answers 401, telling an expired backend token apart
+ * from UNAUTHORIZED errors raised by the app itself
+ */
+export class BackendUnauthorizedError extends Error {}
+
+/**
+ * Whether `error` is the backend rejecting the access token
+ */
+export function isBackendUnauthorized(error: TRPCError): boolean {
+    return error.cause instanceof BackendUnauthorizedError;
+}
+
+/**
+ * Map a backend HTTP status to the matching tRPC error code
+ */
+function toErrorCode(status: number): TRPCError['code'] {
+    switch (status) {
+        case 400:
+        case 422:
+            return 'BAD_REQUEST';
+        case 401:
+            return 'UNAUTHORIZED';
+        case 403:
+            return 'FORBIDDEN';
+        case 404:
+            return 'NOT_FOUND';
+        case 408:
+            return 'TIMEOUT';
+        case 409:
+            return 'CONFLICT';
+        case 429:
+            return 'TOO_MANY_REQUESTS';
+        default:
+            return 'INTERNAL_SERVER_ERROR';
+    }
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+function buildUrl(path: string, query?: BackendQuery): string {
+    const params = query instanceof URLSearchParams ? query : new URLSearchParams();
+    if (query && !(query instanceof URLSearchParams)) {
+        Object.entries(query).forEach(([key, value]) => {
+            if (value !== undefined && value !== null && value !== '') {
+                params.set(key, String(value));
+            }
+        });
+    }
+
+    const queryString = params.toString();
+    return `${API_CONFIG.baseURL}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+async function readBody(response: Response): Promise<unknown> {
+    const text = await response.text().catch(() => '');
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function isWrapper(body: unknown): body is ResponseWrapper {
+    return typeof body === 'object'
+        && body !== null
+        && !Array.isArray(body)
+        && 'data' in body
+        && ('status' in body || 'statusCode' in body || 'message' in body)
+        && ResponseWrapperSchema.safeParse(body).success;
+}
+
+function errorMessageFrom(body: unknown, fallback: string): string {
+    if (typeof body === 'object' && body !== null) {
+        const { message, error } = body as { message?: unknown; error?: unknown };
+        if (typeof message === 'string' && message) return message;
+        if (typeof error === 'string' && error) return error;
+    }
+    return fallback;
+}
+
+function parseData<T>(schema: z.ZodType<T>, data: unknown, method: HttpMethod, path: string): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        console.error(`Unexpected backend response for ${method} ${path}:`, z.prettifyError(result.error));
+        throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Unexpected response format from backend',
+        });
+    }
+    return result.data;
+}
+
+function toPage<T>(body: unknown, schema: z.ZodType<T>, method: HttpMethod, path: string): BackendPage<T> {
+    const wrapped = isWrapper(body) ? body : undefined;
+    const items = parseData(z.array(schema), wrapped ? wrapped.data : body, method, path);
+    // Pagination fields sit either on the envelope itself or in its `meta` block
+    const meta = wrapped?.meta ?? wrapped;
+
+    const pageNumber = meta?.pageNumber ?? 0;
+    const pageSize = meta?.pageSize ?? items.length;
+    const totalElements = meta?.totalElements ?? items.length;
+    const totalPages = meta?.totalPages ?? (pageSize > 0 ? Math.ceil(totalElements / pageSize) : 1);
+
+    return {
+        data: items,
+        pageNumber,
+        pageSize,
+        totalElements,
+        totalPages,
+        last: meta?.last ?? pageNumber >= totalPages - 1,
+        first: meta?.first ?? pageNumber === 0,
+    };
+}
+
+/**
+ * Create a typed client for the backend API, authenticated with the given access token.
+ *
+ * - Applies API_CONFIG.timeout to every request and retries GETs and idempotent writes up to API_CONFIG.retries times
+ * - Maps backend 400/401/403/404/409 responses to the matching TRPCError codes
+ * - Unwraps `ResponseWrapper*` envelopes and validates `data` with the schema given per call
+ */
+export function createBackendClient(token: string | undefined) {
+    async function send(
+        method: HttpMethod,
+        path: string,
+        options: Omit<BackendRequestOptions<unknown>, 'schema'>,
+        parse: (response: Response) => Promise<unknown> = readBody,
+    ): Promise<unknown> {
+        const url = buildUrl(path, options.query);
+        const attempts = method === 'GET' || options.idempotent ? Math.max(0, API_CONFIG.retries) + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? API_CONFIG.timeout);
+
+            try {
+                const response = await fetch(url, {
+                    method,
+                    headers: {
+                        ...API_CONFIG.headers,
+                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                    },
+                    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+                    cache: 'no-store',
+                    signal: controller.signal,
+                });
+
+                if (response.ok) {
+                    return await parse(response);
+                }
+
+                if (attempt >= attempts || !isRetryableStatus(response.status)) {
+                    const message = errorMessageFrom(await readBody(response), options.errorMessage);
+                    throw new TRPCError({
+                        code: toErrorCode(response.status),
+                        message,
+                        cause: response.status === 401 ? new BackendUnauthorizedError(message) : undefined,
+                    });
+                }
+            } catch (error) {
+                if (error instanceof TRPCError) {
+                    throw error;
+                }
+
+                if (attempt >= attempts) {
+                    const timedOut = error instanceof Error && error.name === 'AbortError';
+                    console.error(`Backend request failed: ${method} ${path}`, error);
+                    throw new TRPCError({
+                        code: timedOut ? 'TIMEOUT' : 'INTERNAL_SERVER_ERROR',
+                        message: timedOut ? 'Request to backend timed out' : options.errorMessage,
+                        cause: error,
+                    });
+                }
+            } finally {
+                clearTimeout(timeoutId);
+            }
+
+            // Only reached when the attempt failed with a retryable error
+            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+    }
+
+    async function request<T>(method: HttpMethod, path: string, options: BackendRequestOptions<T>): Promise<BackendResult<T>> {
+        const body = await send(method, path, options);
+        const wrapped = isWrapper(body);
+
+        return {
+            data: parseData(options.schema, wrapped ? body.data : body, method, path),
+            message: wrapped ? body.message ?? undefined : undefined,
+        };
+    }
+
+    return {
+        /**
+         * GET a resource and return its validated data
+         */
+        async get<T>(path: string, options: BackendQueryOptions<T>): Promise<T> {
+            return (await request('GET', path, options)).data;
+        },
+
+        /**
+         * GET a paginated list; a bare array response is treated as a single page
+         */
+        async getPage<T>(path: string, options: BackendQueryOptions<T>): Promise<BackendPage<T>> {
+            return toPage(await send('GET', path, options), options.schema, 'GET', path);
+        },
+
+        /**
+         * POST a search request that returns a paginated list
+         */
+        async postPage<T>(path: string, options: BackendRequestOptions<T>): Promise<BackendPage<T>> {
+            return toPage(await send('POST', path, options), options.schema, 'POST', path);
+        },
+
+        /**
+         * POST a request whose response is a file (e.g. CSV/Excel export)
+         */
+        async download(path: string, options: Omit<BackendRequestOptions<unknown>, 'schema'>): Promise<BackendFile> {
+            return await send('POST', path, options, async (response) => ({
+                content: Buffer.from(await response.arrayBuffer()),
+                contentType: response.headers.get('Content-Type'),
+            })) as BackendFile;
+        },
+
+        post<T>(path: string, options: BackendRequestOptions<T>): Promise<BackendResult<T>> {
+            return request('POST', path, options);
+        },
+
+        put<T>(path: string, options: BackendRequestOptions<T>): Promise<BackendResult<T>> {
+            return request('PUT', path, options);
+        },
+
+        patch<T>(path: string, options: BackendRequestOptions<T>): Promise<BackendResult<T>> {
+            return request('PATCH', path, options);
+        },
+
+        delete<T>(path: string, options: BackendRequestOptions<T>): Promise<BackendResult<T>> {
+            return request('DELETE', path, options);
+        },
+    };
+}
+
+export type BackendClient = ReturnType<typeof createBackendClient>;
+
+/**
+ * Convert a backend page (0-based) to the 1-based page numbering used by most list views
+ */
+export function toOneBasedPage<T>(page: BackendPage<T>): BackendPage<T> {
+    return {
+        ...page,
+        pageNumber: page.pageNumber + 1,
+    };
+}
+
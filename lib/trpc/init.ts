@@ -1,7 +1,8 @@
 import { TRPCError, initTRPC } from '@trpc/server';
 import { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
 // import superjson from 'superjson';
-import { getSession } from '@/lib/auth/services/auth.service';
+import { getSession, refreshSession } from '@/lib/auth/services/auth.service';
+import { createBackendClient, isBackendUnauthorized } from './backend-client';
 
 export const createTRPCContext = async (opts: FetchCreateContextFnOptions) => {
   /**
@@ -32,9 +33,34 @@ export const createCallerFactory = t.createCallerFactory;
 export const baseProcedure = t.procedure;
 export const publicProcedure = t.procedure;
 
-export const protectedProcedure = t.procedure.use(async ({ next, ctx }) => {
+export const protectedProcedure = t.procedure.use(async ({ next, ctx, type }) => {
   if (!ctx?.session?.token) {
     throw new TRPCError({ code: 'UNAUTHORIZED', message: 'No valid session found' });
   }
-  return next({ ctx });
+
+  const result = await next({
+    ctx: {
+      ...ctx,
+      api: createBackendClient(ctx.session.token),
+    },
+  });
+  if (result.ok || !isBackendUnauthorized(result.error)) {
+    return result;
+  }
+
+  // Backend token expired: refresh it (shared across parallel calls) and replay the request once.
+  // Only queries are replayed; a mutation may have written before the 401, so it fails and the user retries it.
+  const session = await refreshSession(ctx.session);
+  if (!session || type !== 'query') {
+    return result;
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      session,
+      token: session.token,
+      api: createBackendClient(session.token),
+    },
+  });
 });
\ No newline at end of file
@@ -0,0 +1,47 @@
+import 'server-only';
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { ReferenceMatch } from '@/lib/definitions';
+
+export const ReferenceLookupInputSchema = z.object({
+    reference: z.string().trim().min(1, 'Reference is required').max(200),
+});
+
+/**
+ * Resolve to null when the backend has no record for the reference (404), or rejects it as malformed
+ * for that kind of identifier (400), so the next kind of reference can be tried
+ */
+export async function orNotFound<T>(request: Promise<T>): Promise<T | null> {
+    try {
+        return await request;
+    } catch (error) {
+        if (error instanceof TRPCError && (error.code === 'NOT_FOUND' || error.code === 'BAD_REQUEST')) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * First record whose reference field equals the reference exactly (ignoring case), checking the fields in order.
+ * Search endpoints match partially, so their results are narrowed with this.
+ */
+export function findExactReference<T extends { uid?: string | null }>(
+    records: T[],
+    reference: string,
+    fields: { field: keyof T; label: string }[]
+): ReferenceMatch | null {
+    const wanted = reference.toLowerCase();
+
+    for (const { field, label } of fields) {
+        const record = records.find((candidate) => {
+            const value = candidate[field];
+            return !!candidate.uid && typeof value === 'string' && value.toLowerCase() === wanted;
+        });
+        if (record?.uid) {
+            return { uid: record.uid, matchedBy: label };
+        }
+    }
+    return null;
+}
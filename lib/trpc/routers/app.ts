@@ -1,5 +1,7 @@
 import { createTRPCRouter } from '../init';
+import { approvalsRouter } from './approvals';
 import { authRouter } from './auth';
+import { channelsRouter } from './channels';
 import { dashboardRouter } from './dashboard';
 import { disbursementsRouter } from './disbursements';
 import { gatewaysRouter } from './gateways';
@@ -12,6 +14,8 @@ export const appRouter = createTRPCRouter({
   // Auth router
   auth: authRouter,
   // Feature routers
+  approvals: approvalsRouter,
+  channels: channelsRouter,
   dashboard: dashboardRouter,
   disbursements: disbursementsRouter,
   gateways: gatewaysRouter,
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure, createTRPCRouter } from '../init';
+import {
+    claimApproval,
+    getApproval,
+    listApprovalEvents,
+    listApprovals,
+    recordApprovalOutcome,
+    rejectApproval,
+} from '../approval-store';
+import { toApprovalActor, type SensitiveActionRegistry } from '../approvals';
+import { transactionSensitiveActions } from './transactions';
+import { disbursementSensitiveActions } from './disbursements';
+import { hasAnyPermission, PERMISSIONS } from '@/lib/auth/permissions';
+import { isApprovalExpired, isApprovalFlowEnabled } from '@/lib/approvals';
+import {
+    APPROVAL_REJECTION_MIN_COMMENT_LENGTH,
+    ApprovalStatusEnum,
+    type ApprovalRequest,
+    type SessionPayload,
+} from '@/lib/definitions';
+
+/**
+ * Every action that can be held for approval, by approval action
+ */
+const SENSITIVE_ACTIONS: SensitiveActionRegistry = {
+    ...transactionSensitiveActions,
+    ...disbursementSensitiveActions,
+};
+
+/**
+ * Statuses of decided or expired requests, listed in the history
+ */
+const HISTORY_STATUSES = ApprovalStatusEnum.options.filter((status) => status !== 'PENDING');
+
+const ApprovalPageInputSchema = z.object({
+    page: z.number().int().min(0).default(0),
+    size: z.number().int().min(1).max(100).default(15),
+});
+
+/**
+ * Approvals are behind a flag until the backend serves them; while off there is nothing to read or decide
+ */
+function assertApprovalsEnabled() {
+    if (!isApprovalFlowEnabled()) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Approvals are not enabled' });
+    }
+}
+
+/**
+ * Check the session's roles grant `permission`, like the pages do
+ */
+function assertPermission(session: SessionPayload | null, permission: string, message: string) {
+    const allowed = session?.roles
+        && hasAnyPermission(session.roles, permission, session.userType, session.rolePermissions);
+    if (!allowed) {
+        throw new TRPCError({ code: 'FORBIDDEN', message });
+    }
+}
+
+/**
+ * Requests show held payloads and who raised them, so reading them needs the view permission
+ */
+function assertCanView(session: SessionPayload | null) {
+    assertApprovalsEnabled();
+    assertPermission(session, PERMISSIONS.APPROVALS.VIEW, 'You do not have permission to view approval requests');
+}
+
+/**
+ * Decisions need the approver permission
+ */
+function assertCanDecide(session: SessionPayload | null) {
+    assertApprovalsEnabled();
+    assertPermission(session, PERMISSIONS.APPROVALS.APPROVE, 'You do not have permission to approve or reject requests');
+}
+
+/**
+ * Check a request can still be decided by `approverUid` (pending, not expired, raised by someone else).
+ * Run before the backend's atomic claim, which alone settles a race between two approvers.
+ */
+function assertDecidable(approval: ApprovalRequest, approverUid: string) {
+    if (approval.status !== 'PENDING' || isApprovalExpired(approval)) {
+        throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: `This request is ${approval.status.toLowerCase()} and can no longer be decided`,
+        });
+    }
+    if (approval.requestedBy.uid === approverUid) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You cannot approve or reject your own request',
+        });
+    }
+}
+
+export const approvalsRouter = createTRPCRouter({
+    /**
+     * A page of approval requests: pending ones awaiting a decision, or decided/expired ones
+     */
+    list: protectedProcedure
+        .input(ApprovalPageInputSchema.extend({ scope: z.enum(['pending', 'history']) }))
+        .query(async ({ input: { scope, ...page }, ctx }) => {
+            assertCanView(ctx.session);
+            return listApprovals(ctx.api, { status: scope === 'pending' ? ['PENDING'] : HISTORY_STATUSES }, page);
+        }),
+
+    /**
+     * Get an approval request by UID
+     */
+    getByUid: protectedProcedure
+        .input(z.object({ uid: z.string().min(1, 'Approval UID is required') }))
+        .query(async ({ input, ctx }) => {
+            assertCanView(ctx.session);
+            return getApproval(ctx.api, input.uid);
+        }),
+
+    /**
+     * A page of every request, decision, expiry and execution across all requests, newest first
+     */
+    auditLog: protectedProcedure
+        .input(ApprovalPageInputSchema)
+        .query(async ({ input, ctx }) => {
+            assertCanView(ctx.session);
+            return listApprovalEvents(ctx.api, input);
+        }),
+
+    /**
+     * Approve a pending request and run the held action with the approver's credentials.
+     * The outcome is recorded on the request; a failed execution is reported to the approver as well.
+     * The action is never run again: a request whose outcome could not be recorded stays EXECUTING.
+     */
+    approve: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'Approval UID is required'),
+                comment: z.string().trim().optional(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            assertCanDecide(ctx.session);
+            const approver = toApprovalActor(ctx.session);
+            const comment = input.comment || null;
+
+            assertDecidable(await getApproval(ctx.api, input.uid), approver.uid);
+            // Mark the request EXECUTING first, so it cannot be approved twice while the action runs
+            const approved = await claimApproval(ctx.api, input.uid, { actor: approver, comment });
+
+            let outcome: { message: string; data: unknown } | null = null;
+            let failure: string | null = null;
+            try {
+                const action = SENSITIVE_ACTIONS[approved.action];
+                if (!action) {
+                    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: `Unknown approval action ${approved.action}` });
+                }
+                outcome = await action.replay(ctx.api, approved.payload, approved);
+            } catch (error) {
+                failure = error instanceof Error ? error.message : 'Failed to run the approved action';
+            }
+
+            const executed = await recordApprovalOutcome(ctx.api, input.uid, {
+                status: outcome ? 'EXECUTED' : 'FAILED',
+                actor: approver,
+                message: outcome ? outcome.message : failure,
+            }).catch((error) => {
+                // Failing here would invite running the action again; the request is left EXECUTING instead
+                console.error(`Failed to record the outcome of approval ${input.uid}`, error);
+                return null;
+            });
+
+            if (!outcome) {
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: `Approved, but the action failed: ${failure}`,
+                });
+            }
+
+            return {
+                message: executed
+                    ? outcome.message
+                    : `${outcome.message}. The outcome could not be recorded, so the request still shows as executing.`,
+                data: executed ?? approved,
+            };
+        }),
+
+    /**
+     * Reject a pending request; the held action is never run
+     */
+    reject: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'Approval UID is required'),
+                comment: z.string().trim().min(
+                    APPROVAL_REJECTION_MIN_COMMENT_LENGTH,
+                    `A comment of at least ${APPROVAL_REJECTION_MIN_COMMENT_LENGTH} characters is required`
+                ),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            assertCanDecide(ctx.session);
+            const approver = toApprovalActor(ctx.session);
+
+            assertDecidable(await getApproval(ctx.api, input.uid), approver.uid);
+            const rejected = await rejectApproval(ctx.api, input.uid, { actor: approver, comment: input.comment });
+
+            return {
+                message: 'Request rejected',
+                data: rejected,
+            };
+        }),
+});
@@ -196,6 +196,7 @@ export const authRouter = createTRPCRouter({
                         name: session.name,
                         email: session.email,
                         roles: session.roles,
+                        rolePermissions: session.rolePermissions,
                         userType: session.userType,
                         requirePasswordChange: false, // Clear the flag
                     });
@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure, createTRPCRouter } from '../init';
+import { toOneBasedPage } from '../backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { PAGINATION } from '@/lib/config/constants';
+import {
+    PaymentChannelSchema,
+    PaymentChannelTypeEnum,
+    PaginatedPaymentChannelResponse,
+} from '@/lib/definitions';
+
+/**
+ * Payment channel as returned by the backend
+ */
+const BackendChannelSchema = z.looseObject({
+    id: z.union([z.string(), z.number()]),
+    uid: z.string().nullish(),
+    code: z.string(),
+    name: z.string(),
+    paymentChannelType: z.string().nullish(),
+    isActive: z.boolean().nullish(),
+    active: z.boolean().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+});
+
+/**
+ * Payment channel mapped to the frontend shape
+ */
+const ChannelResultSchema = BackendChannelSchema.transform((channel) => PaymentChannelSchema.parse(transformChannel(channel)));
+
+// Mutations only echo the channel back; an unexpected body must not fail a change the backend already made
+const ChannelMutationResultSchema = ChannelResultSchema.nullish().catch(null);
+
+/**
+ * Helper function to transform channel data from backend format to frontend format
+ */
+function transformChannel(channel: z.infer<typeof BackendChannelSchema>) {
+    return {
+        id: String(channel.id),
+        uid: channel.uid ?? String(channel.id),
+        code: channel.code,
+        name: channel.name,
+        payment_channel_type: channel.paymentChannelType ?? '',
+        is_active: channel.isActive ?? channel.active ?? false,
+        created_at: channel.createdAt ?? null,
+        updated_at: channel.updatedAt ?? null,
+    };
+}
+
+export const channelsRouter = createTRPCRouter({
+    /**
+     * List payment channels with pagination
+     */
+    list: protectedProcedure
+        .input(
+            z.object({
+                page: z.string().optional(),
+                per_page: z.string().optional(),
+                sort: z.string().optional(),
+            })
+        )
+        .query(async ({ input, ctx }): Promise<PaginatedPaymentChannelResponse> => {
+            // Frontend uses 1-based pagination, backend uses 0-based
+            const requestedPage = parseInt(input.page || String(PAGINATION.DEFAULT_PAGE), 10);
+            const requestedPerPage = parseInt(input.per_page || String(PAGINATION.DEFAULT_PAGE_SIZE), 10);
+
+            return toOneBasedPage(await ctx.api.getPage(API_ENDPOINTS.paymentChannels.list, {
+                query: {
+                    page: Math.max(0, requestedPage - 1),
+                    size: requestedPerPage,
+                    sort: input.sort,
+                },
+                schema: ChannelResultSchema,
+                errorMessage: 'Failed to fetch payment channels',
+            }));
+        }),
+
+    /**
+     * Get all payment channels (unpaginated), e.g. for select inputs
+     */
+    all: protectedProcedure
+        .query(async ({ ctx }) => {
+            return ctx.api.get(API_ENDPOINTS.paymentChannels.getAll, {
+                schema: z.array(ChannelResultSchema).nullish().transform((channels) => channels ?? []),
+                errorMessage: 'Failed to fetch payment channels',
+            });
+        }),
+
+    /**
+     * Count payment channels
+     */
+    count: protectedProcedure
+        .query(async ({ ctx }) => {
+            const count = await ctx.api.get(API_ENDPOINTS.paymentChannels.count, {
+                schema: z.coerce.number().nullish().transform((value) => value ?? 0),
+                errorMessage: 'Failed to count payment channels',
+            });
+
+            return { count };
+        }),
+
+    /**
+     * Get payment channel details by UID
+     */
+    getByUid: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'uid is required'),
+            })
+        )
+        .query(async ({ input, ctx }) => {
+            return ctx.api.get(API_ENDPOINTS.paymentChannels.getByUid.replace('{uid}', input.uid), {
+                schema: ChannelResultSchema,
+                errorMessage: 'Failed to fetch payment channel',
+            });
+        }),
+
+    /**
+     * Create a new payment channel
+     */
+    create: protectedProcedure
+        .input(
+            z.object({
+                code: z.string().min(1, 'code is required').max(20),
+                name: z.string().min(1, 'name is required').max(50),
+                payment_channel_type: PaymentChannelTypeEnum,
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            // Transform request body to backend format (camelCase)
+            const backendBody = {
+                code: input.code.trim(),
+                name: input.name.trim(),
+                paymentChannelType: input.payment_channel_type,
+            };
+
+            const { data: channel, message } = await ctx.api.post(API_ENDPOINTS.paymentChannels.create, {
+                body: backendBody,
+                schema: ChannelMutationResultSchema,
+                errorMessage: 'Failed to create payment channel',
+            });
+
+            return {
+                message: message || 'Payment channel created successfully',
+                payment_channel: channel ?? null,
+            };
+        }),
+
+    /**
+     * Update a payment channel
+     * The channel code is immutable, only name and type can change
+     */
+    update: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'uid is required'),
+                name: z.string().min(1).max(50).optional(),
+                payment_channel_type: PaymentChannelTypeEnum.optional(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const { uid, ...updateFields } = input;
+
+            if (updateFields.name === undefined && updateFields.payment_channel_type === undefined) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'At least one field must be provided for update',
+                });
+            }
+
+            const backendBody: Record<string, unknown> = {};
+            if (updateFields.name !== undefined) {
+                backendBody.name = updateFields.name.trim();
+            }
+            if (updateFields.payment_channel_type !== undefined) {
+                backendBody.paymentChannelType = updateFields.payment_channel_type;
+            }
+
+            const { data: channel, message } = await ctx.api.put(API_ENDPOINTS.paymentChannels.update.replace('{uid}', uid), {
+                body: backendBody,
+                schema: ChannelMutationResultSchema,
+                errorMessage: 'Failed to update payment channel',
+            });
+
+            return {
+                message: message || 'Payment channel updated successfully',
+                payment_channel: channel ?? null,
+            };
+        }),
+
+    /**
+     * Activate a payment channel
+     */
+    activate: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'uid is required'),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.paymentChannels.activate.replace('{uid}', input.uid), {
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to activate payment channel',
+            });
+
+            return {
+                message: message || 'Payment channel activated successfully',
+                data,
+            };
+        }),
+
+    /**
+     * Deactivate a payment channel
+     */
+    deactivate: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'uid is required'),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.paymentChannels.deactivate.replace('{uid}', input.uid), {
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to deactivate payment channel',
+            });
+
+            return {
+                message: message || 'Payment channel deactivated successfully',
+                data,
+            };
+        }),
+});
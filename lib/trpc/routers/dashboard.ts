@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
+import { API_ENDPOINTS } from '@/lib/config/api';
 import { DashboardStatsSchema } from '@/features/dashboard/types';
 
 /**
@@ -95,64 +95,12 @@ export const dashboardRouter = createTRPCRouter({
             }).optional()
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            // Build query string with params
-            const queryParams = new URLSearchParams();
-
-            if (input?.period) {
-                queryParams.set('period', input.period);
-            }
-            if (input?.start_date) {
-                queryParams.set('start_date', input.start_date);
-            }
-            if (input?.end_date) {
-                queryParams.set('end_date', input.end_date);
-            }
-            if (input?.merchant_id) {
-                queryParams.set('merchant_id', input.merchant_id);
-            }
-
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.dashboard.stats}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            const rawData = await ctx.api.get(API_ENDPOINTS.dashboard.stats, {
+                query: input,
+                schema: z.looseObject({}),
+                errorMessage: 'Failed to fetch dashboard stats',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch dashboard stats',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch dashboard stats',
-                });
-            }
-
-            const responseData = await response.json();
-
-            // Handle if data is wrapped in a data property
-            let rawData;
-            if (responseData.data && typeof responseData.data === 'object' && !Array.isArray(responseData.data)) {
-                rawData = responseData.data;
-            } else if (typeof responseData === 'object' && !Array.isArray(responseData)) {
-                rawData = responseData;
-            } else {
-                console.error('Unexpected response format from dashboard stats API:', JSON.stringify(responseData, null, 2));
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend API',
-                });
-            }
-
             // Transform the nested API response to the expected flat structure
             const statsData = transformDashboardStatsResponse(rawData);
 
@@ -1,17 +1,39 @@
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
+import { toOneBasedPage, type BackendClient } from '../backend-client';
+import { DisbursementSummaryResponseSchema, toPeriodSummary } from '../summary';
+import { ArchivePreviewInputSchema, ArchiveRunInputSchema, getArchivePreview, runArchive, type ArchiveEndpoints } from '../archive';
+import { ReferenceLookupInputSchema, findExactReference, orNotFound } from '../lookup';
+import { recordAuditEntry } from '../audit-log';
+import {
+  defineSensitiveAction,
+  runSensitiveAction,
+  withApprovalReference,
+  type ApprovalSubject,
+  type SensitiveActionRegistry,
+} from '../approvals';
+import { API_ENDPOINTS } from '@/lib/config/api';
 import { buildEndpointUrl } from '@/lib/config/endpoints';
+import { API_TIMEOUT } from '@/lib/config/constants';
 import {
   DisbursementSchema,
   ProcessingHistoryEntrySchema,
   AuditTrailEntrySchema,
   CanUpdateResponseSchema,
-  DisbursementStatsResponseSchema,
+  DisbursementStatsItemSchema,
   MonthlyDisbursementSummarySchema,
   PaymentGatewaySchema,
   PaginatedPaymentGatewayResponse,
+  FORCE_RETRY_MIN_JUSTIFICATION_LENGTH,
+  DisbursementAdvancedCriteriaSchema,
+  type ApprovalChange,
+  type Disbursement,
+  type DisbursementAdvancedCriteria,
+  type ReferenceMatch,
 } from '@/lib/definitions';
+import { MAX_STALE_THRESHOLD_MINUTES, toStaleThreshold } from '@/lib/stale-queue';
+import { getAllowedDisbursementTransitions, isAllowedDisbursementTransition } from '@/lib/disbursement-transitions';
 
 // Helper function to normalize disbursement fields
 function normalizeFieldDefaults(item: Record<string, unknown>) {
@@ -31,9 +53,129 @@ function normalizeFieldDefaults(item: Record<string, unknown>) {
   };
 }
 
+// Disbursement as returned by the backend, with nullable string fields defaulted
+const BackendDisbursementSchema = z.preprocess(
+  (item) => (typeof item === 'object' && item !== null ? normalizeFieldDefaults(item as Record<string, unknown>) : item),
+  DisbursementSchema,
+);
+
+// Payment gateway as returned by the backend, mapped to the frontend shape (credentials excluded)
+const BackendPaymentGatewaySchema = z.looseObject({
+  id: z.string(),
+  uid: z.string().nullish(),
+  name: z.string(),
+  code: z.string(),
+  productionApiBaseUrl: z.string().nullish(),
+  sandboxApiBaseUrl: z.string().nullish(),
+  supportedMethods: z.union([z.array(z.unknown()), z.string()]).nullish(),
+  activeStatus: z.string().nullish(),
+  isActive: z.boolean().nullish(),
+  active: z.boolean().nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish(),
+}).transform((gateway) => {
+  // Convert activeStatus string ('Active'/'Inactive') to boolean
+  let isActive = true;
+  if (gateway.activeStatus != null) {
+    isActive = gateway.activeStatus.toUpperCase() === 'ACTIVE';
+  } else if (gateway.isActive != null) {
+    isActive = gateway.isActive;
+  } else if (gateway.active != null) {
+    isActive = gateway.active;
+  }
+
+  // Ensure supportedMethods is an array of strings
+  let supportedMethods: string[] = [];
+  if (Array.isArray(gateway.supportedMethods)) {
+    supportedMethods = gateway.supportedMethods.filter((m): m is string => typeof m === 'string');
+  } else if (gateway.supportedMethods) {
+    supportedMethods = [gateway.supportedMethods];
+  }
+
+  return PaymentGatewaySchema.parse({
+    id: gateway.id,
+    uid: gateway.uid ?? gateway.id,
+    name: gateway.name,
+    code: gateway.code,
+    api_base_url_production: gateway.productionApiBaseUrl ?? null,
+    api_base_url_sandbox: gateway.sandboxApiBaseUrl ?? null,
+    supported_methods: supportedMethods,
+    is_active: isActive,
+    created_at: gateway.createdAt ?? null,
+    updated_at: gateway.updatedAt ?? null,
+  });
+});
+
+// Processing history / audit trail entries come back as strings or objects
+const HistoryEntriesSchema = z.array(z.unknown()).nullish().transform((entries) => entries ?? []);
+
+// Most disbursements fetched when looking for the attempts of a retry chain
+const RETRY_CHAIN_LIMIT = 50;
+
+// Most search results checked for an exact match when looking up a reference
+const REFERENCE_LOOKUP_LIMIT = 20;
+
+// Fetch a single disbursement by UID (typically UUID format) or numeric ID
+function fetchDisbursement(api: BackendClient, id: string) {
+  const isUid = id.includes('-') || id.length > 20;
+
+  const endpoint = isUid
+    ? buildEndpointUrl.disbursementByUid(id)
+    : buildEndpointUrl.disbursementById(id);
+
+  return api.get(endpoint, {
+    schema: BackendDisbursementSchema,
+    errorMessage: 'Failed to fetch disbursement',
+  });
+}
+
+// Whether two disbursements are attempts at the same payout (linked by parent, or same reference or recipient and amount)
+function isSameRetryChain(a: Disbursement, b: Disbursement): boolean {
+  const refs = (d: Disbursement) => [d.uid, d.id].filter(Boolean);
+  if (a.parentDisbursementId && refs(b).includes(a.parentDisbursementId)) return true;
+  if (b.parentDisbursementId && refs(a).includes(b.parentDisbursementId)) return true;
+  if (a.merchantDisbursementId && a.merchantDisbursementId === b.merchantDisbursementId) return true;
+  return !!a.recipientAccount
+    && a.recipientAccount === b.recipientAccount
+    && a.amount === b.amount
+    && a.currency === b.currency;
+}
+
+// Whether any advanced search criteria are set (empty strings are ignored)
+function hasAdvancedCriteria(advanced?: DisbursementAdvancedCriteria): advanced is DisbursementAdvancedCriteria {
+  return !!advanced && Object.values(advanced).some((value) => value !== undefined && value !== '');
+}
+
+// Map advanced search criteria to DisbursementSearchCriteriaDto fields
+function toAdvancedSearchCriteria(advanced: DisbursementAdvancedCriteria): Record<string, unknown> {
+  const searchCriteria: Record<string, unknown> = {};
+
+  if (advanced.destinationBankCode) searchCriteria.destinationBankCode = advanced.destinationBankCode;
+  if (advanced.destinationInstitutionCode) searchCriteria.destinationInstitutionCode = advanced.destinationInstitutionCode;
+  if (advanced.recipientPhone) searchCriteria.recipientPhone = advanced.recipientPhone;
+  if (advanced.transferType) searchCriteria.transferType = advanced.transferType;
+  if (advanced.minRetryAttempts) searchCriteria.minRetryAttempts = Number(advanced.minRetryAttempts);
+  if (advanced.maxRetryAttempts) searchCriteria.maxRetryAttempts = Number(advanced.maxRetryAttempts);
+  if (advanced.lastRetryFrom) {
+    searchCriteria.lastRetryFrom = advanced.lastRetryFrom.includes('T')
+      ? advanced.lastRetryFrom
+      : `${advanced.lastRetryFrom}T00:00:00`;
+  }
+  if (advanced.lastRetryTo) {
+    searchCriteria.lastRetryTo = advanced.lastRetryTo.includes('T')
+      ? advanced.lastRetryTo
+      : `${advanced.lastRetryTo}T23:59:59`;
+  }
+  if (advanced.scheduleEpoch) searchCriteria.scheduleEpoch = advanced.scheduleEpoch;
+  if (advanced.includeScheduled !== undefined) searchCriteria.includeScheduled = advanced.includeScheduled;
+  if (advanced.includeImmediate !== undefined) searchCriteria.includeImmediate = advanced.includeImmediate;
+
+  return searchCriteria;
+}
+
 // Helper function to handle search requests
 async function handleSearchRequest(
-  token: string,
+  api: BackendClient,
   params: {
     status?: string;
     startDate?: string;
@@ -44,15 +186,14 @@ async function handleSearchRequest(
     merchantId?: string;
     gatewayId?: string;
     transactionId?: string;
+    advanced?: DisbursementAdvancedCriteria;
     page: number;
     perPage: number;
     sort?: string[];
   }
 ) {
-  const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.search}`;
-
   // Build search criteria
-  const searchCriteria: Record<string, unknown> = {};
+  const searchCriteria: Record<string, unknown> = params.advanced ? toAdvancedSearchCriteria(params.advanced) : {};
 
   if (params.searchTerm) {
     searchCriteria.searchTerm = params.searchTerm;
@@ -101,48 +242,186 @@ async function handleSearchRequest(
     }
   }
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    },
-    body: JSON.stringify(searchCriteria),
-    cache: 'no-store',
-  });
-
-  if (!response.ok) {
-    let errorMessage = 'Failed to search disbursements';
-    try {
-      const errorData = await response.json();
-      errorMessage = errorData.message || errorData.error || errorMessage;
-    } catch {
-      errorMessage = response.statusText || errorMessage;
-    }
-    throw new Error(`${errorMessage} (Status: ${response.status})`);
-  }
-
-  const data = await response.json();
+  // Convert backend 0-based pageNumber to frontend 1-based
+  return toOneBasedPage(await api.postPage(API_ENDPOINTS.disbursements.search, {
+    body: searchCriteria,
+    schema: BackendDisbursementSchema,
+    errorMessage: 'Failed to search disbursements',
+  }));
+}
 
-  const disbursementsData = data.data || [];
-  const transformedData = disbursementsData.map((item: Record<string, unknown>) => normalizeFieldDefaults(item));
-  const parsed = z.array(DisbursementSchema).parse(transformedData);
+// Endpoints behind the archive tool
+const ARCHIVE_ENDPOINTS: ArchiveEndpoints = {
+  entityName: 'disbursements',
+  archive: API_ENDPOINTS.disbursements.archive,
+  search: API_ENDPOINTS.disbursements.search,
+  countByStatus: buildEndpointUrl.disbursementCountByStatus,
+};
 
-  // Convert backend 0-based pageNumber to frontend 1-based
-  const backendPageNumber = data.pageNumber ?? (params.page - 1);
-  const frontendPageNumber = backendPageNumber + 1;
+// Describe a money-moving action on a disbursement for the approver
+function toDisbursementSubject(disbursement: Disbursement, reason: string, changes: ApprovalChange[]): ApprovalSubject {
+  const amount = Number(disbursement.amount.replace(/,/g, ''));
 
   return {
-    data: parsed,
-    pageNumber: frontendPageNumber,
-    pageSize: data.pageSize ?? params.perPage,
-    totalElements: data.totalElements ?? parsed.length,
-    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? parsed.length) / (data.pageSize ?? params.perPage)),
-    last: data.last ?? false,
-    first: data.first ?? (backendPageNumber === 0),
+    entityType: 'DISBURSEMENT',
+    entityUid: disbursement.uid || disbursement.id,
+    amount: Number.isFinite(amount) ? amount : 0,
+    currency: disbursement.currency || null,
+    reason,
+    changes,
   };
 }
 
+// Reject manual status changes the disbursement's current status does not allow
+function assertDisbursementTransition(current: Disbursement, status: string) {
+  if (!isAllowedDisbursementTransition(current.status, status)) {
+    const allowed = getAllowedDisbursementTransitions(current.status);
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: allowed.length > 0
+        ? `A ${current.status} disbursement can only be moved to ${allowed.join(', ')}`
+        : `A ${current.status} disbursement cannot be moved manually`,
+    });
+  }
+}
+
+const forceRetryDisbursementAction = defineSensitiveAction({
+  action: 'DISBURSEMENT_FORCE_RETRY',
+  input: z.object({
+    id: z.string(),
+    justification: z.string().trim().min(
+      FORCE_RETRY_MIN_JUSTIFICATION_LENGTH,
+      `A justification of at least ${FORCE_RETRY_MIN_JUSTIFICATION_LENGTH} characters is required`
+    ),
+  }),
+  describe: async (api, input) => {
+    const current = await fetchDisbursement(api, input.id);
+    const attempts = current.retryAttempts ?? 0;
+
+    return toDisbursementSubject(current, input.justification, [
+      { field: 'Retry attempts', before: String(attempts), after: String(attempts + 1) },
+    ]);
+  },
+  execute: async (api, input, approval) => {
+    const { data, message } = await api.post(buildEndpointUrl.forceRetryDisbursement(input.id), {
+      query: { reason: withApprovalReference(input.justification, approval) },
+      schema: BackendDisbursementSchema.nullish(),
+      errorMessage: 'Failed to force retry disbursement',
+    });
+
+    return {
+      message: message || 'Disbursement force retry initiated successfully',
+      data,
+    };
+  },
+});
+
+const updateDisbursementStatusAction = defineSensitiveAction({
+  action: 'DISBURSEMENT_UPDATE_STATUS',
+  input: z.object({
+    id: z.string().min(1, 'Disbursement ID is required'),
+    status: z.string().min(1, 'Status is required'),
+    reason: z.string().trim().min(1, 'Reason is required'),
+    referenceNumber: z.string().trim().min(1, 'Reference number is required'),
+  }),
+  describe: async (api, input) => {
+    const current = await fetchDisbursement(api, input.id);
+    const status = input.status.toUpperCase();
+    assertDisbursementTransition(current, status);
+
+    return toDisbursementSubject(current, `${input.reason} (Ref: ${input.referenceNumber})`, [
+      { field: 'Status', before: current.status, after: status },
+    ]);
+  },
+  execute: async (api, input, approval) => {
+    const status = input.status.toUpperCase();
+
+    // The status may have moved on while the request waited for approval
+    if (approval) {
+      assertDisbursementTransition(await fetchDisbursement(api, input.id), status);
+    }
+
+    // DisbursementStatusUpdateDto has no reference field: it goes in notes, and is repeated in the reason so it
+    // shows in the audit trail
+    const { data, message } = await api.put(buildEndpointUrl.updateDisbursementStatus(input.id), {
+      body: {
+        status,
+        reason: withApprovalReference(`${input.reason} (Ref: ${input.referenceNumber})`, approval),
+        notes: `Reference number: ${input.referenceNumber}`,
+      },
+      schema: BackendDisbursementSchema.nullish(),
+      errorMessage: 'Failed to update disbursement status',
+    });
+
+    return {
+      message: message || `Disbursement status set to ${status}`,
+      data,
+    };
+  },
+});
+
+const completeDisbursementAction = defineSensitiveAction({
+  action: 'DISBURSEMENT_COMPLETE',
+  input: z.object({
+    id: z.string(),
+    reason: z.string().optional(),
+  }),
+  describe: async (api, input) => {
+    const current = await fetchDisbursement(api, input.id);
+
+    return toDisbursementSubject(current, input.reason || 'Manual completion', [
+      { field: 'Status', before: current.status, after: 'SUCCESS' },
+    ]);
+  },
+  execute: async (api, input, approval) => {
+    const { data, message } = await api.post(buildEndpointUrl.completeDisbursement(input.id), {
+      query: { reason: withApprovalReference(input.reason || 'Manual completion', approval) },
+      schema: BackendDisbursementSchema.nullish(),
+      errorMessage: 'Failed to complete disbursement',
+    });
+
+    return {
+      message: message || 'Disbursement completed successfully',
+      data,
+    };
+  },
+});
+
+const cancelDisbursementAction = defineSensitiveAction({
+  action: 'DISBURSEMENT_CANCEL',
+  input: z.object({
+    id: z.string(),
+    reason: z.string().optional(),
+  }),
+  describe: async (api, input) => {
+    const current = await fetchDisbursement(api, input.id);
+
+    return toDisbursementSubject(current, input.reason || 'Manual cancellation', [
+      { field: 'Status', before: current.status, after: 'CANCELLED' },
+    ]);
+  },
+  execute: async (api, input, approval) => {
+    const { data, message } = await api.post(buildEndpointUrl.cancelDisbursement(input.id), {
+      query: { reason: withApprovalReference(input.reason || 'Manual cancellation', approval) },
+      schema: BackendDisbursementSchema.nullish(),
+      errorMessage: 'Failed to cancel disbursement',
+    });
+
+    return {
+      message: message || 'Disbursement cancelled successfully',
+      data,
+    };
+  },
+});
+
+// Disbursement actions that are held for approval above the threshold, by approval action
+export const disbursementSensitiveActions: SensitiveActionRegistry = {
+  DISBURSEMENT_FORCE_RETRY: forceRetryDisbursementAction,
+  DISBURSEMENT_UPDATE_STATUS: updateDisbursementStatusAction,
+  DISBURSEMENT_COMPLETE: completeDisbursementAction,
+  DISBURSEMENT_CANCEL: cancelDisbursementAction,
+};
+
 export const disbursementsRouter = createTRPCRouter({
   // Get disbursements list with pagination and filters
   list: protectedProcedure
@@ -158,6 +437,8 @@ export const disbursementsRouter = createTRPCRouter({
       amount_max: z.string().optional(),
       search: z.string().optional(),
       source_transaction_id: z.string().optional(),
+      // Fields only the POST search endpoint supports, from the advanced search drawer
+      advanced: DisbursementAdvancedCriteriaSchema.optional(),
       sort: z.array(z.string()).optional(),
     }))
     .query(async ({ input, ctx }) => {
@@ -170,12 +451,9 @@ export const disbursementsRouter = createTRPCRouter({
 
       const activeFilterTypes = [hasStatusFilter, hasDateFilter, hasAmountFilter, hasSearchTerm, hasOtherFilters].filter(Boolean).length;
 
-      // If multiple filter types or search term, use POST search endpoint
-      if (activeFilterTypes > 1 || hasSearchTerm) {
-        if (!ctx.token) {
-          throw new Error('Unauthorized: No token available');
-        }
-        return await handleSearchRequest(ctx.token, {
+      // If multiple filter types, search term or advanced criteria, use POST search endpoint
+      if (activeFilterTypes > 1 || hasSearchTerm || hasAdvancedCriteria(input.advanced)) {
+        return await handleSearchRequest(ctx.api, {
           status: input.status,
           startDate: input.start_date,
           endDate: input.end_date,
@@ -185,6 +463,7 @@ export const disbursementsRouter = createTRPCRouter({
           merchantId: input.merchant_id,
           gatewayId: input.pgo_id,
           transactionId: input.source_transaction_id,
+          advanced: input.advanced,
           page: input.page,
           perPage: input.per_page,
           sort: input.sort,
@@ -192,7 +471,7 @@ export const disbursementsRouter = createTRPCRouter({
       }
 
       // Single filter type - use specific endpoint
-      let url: string;
+      let endpoint: string;
       const queryParams = new URLSearchParams();
 
       // Add pagination (backend uses 0-based, frontend uses 1-based)
@@ -202,15 +481,15 @@ export const disbursementsRouter = createTRPCRouter({
       if (hasStatusFilter && input.status) {
         // Use status-specific endpoint
         if (input.status.toUpperCase() === 'PENDING') {
-          url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.pending}`;
+          endpoint = API_ENDPOINTS.disbursements.pending;
         } else if (input.status.toUpperCase() === 'FAILED') {
-          url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.failed}`;
+          endpoint = API_ENDPOINTS.disbursements.failed;
         } else {
-          url = `${API_CONFIG.baseURL}${buildEndpointUrl.disbursementsByStatus(input.status.toUpperCase())}`;
+          endpoint = buildEndpointUrl.disbursementsByStatus(input.status.toUpperCase());
         }
       } else if (hasDateFilter) {
         // Use date-range endpoint
-        url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.byDateRange}`;
+        endpoint = API_ENDPOINTS.disbursements.byDateRange;
         if (input.start_date) {
           queryParams.set('startDate', input.start_date.includes('T') ? input.start_date : `${input.start_date}T00:00:00`);
         }
@@ -219,7 +498,7 @@ export const disbursementsRouter = createTRPCRouter({
         }
       } else if (hasAmountFilter) {
         // Use amount-range endpoint
-        url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.byAmountRange}`;
+        endpoint = API_ENDPOINTS.disbursements.byAmountRange;
         if (input.amount_min) {
           queryParams.set('minAmount', input.amount_min);
         }
@@ -228,7 +507,7 @@ export const disbursementsRouter = createTRPCRouter({
         }
       } else {
         // No filters - use list endpoint
-        url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.list}`;
+        endpoint = API_ENDPOINTS.disbursements.list;
       }
 
       // Add sorting if provided
@@ -236,86 +515,12 @@ export const disbursementsRouter = createTRPCRouter({
         queryParams.set('sort', input.sort.join(';'));
       }
 
-      const fullUrl = `${url}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-
-      const response = await fetch(fullUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
-      });
-
-      // To display the response body, you need to await and parse it (for example, as JSON or text).
-      // For easy debugging, you can clone the response and parse without consuming the original stream.
-      try {
-        const debugClone = response.clone();
-        const bodyText = await debugClone.text();
-        console.log('Disbursement Response:', {
-          status: response.status,
-          statusText: response.statusText,
-          headers: Object.fromEntries(response.headers.entries()),
-          body: bodyText,
-        });
-      } catch (e) {
-        console.log('Disbursement Response: Unable to display body', e);
-      }
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch disbursements';
-
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-
-        if (response.status === 401) {
-          throw new Error(`Unauthorized: ${errorMessage}`);
-        } else if (response.status === 403) {
-          throw new Error(`Forbidden: ${errorMessage}`);
-        }
-
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const responseData = await response.json();
-
-      // Handle both array response (legacy) and paginated response
-      if (Array.isArray(responseData)) {
-        const transformedData = responseData.map((item: Record<string, unknown>) => normalizeFieldDefaults(item));
-        const parsed = z.array(DisbursementSchema).parse(transformedData);
-
-        return {
-          data: parsed,
-          pageNumber: input.page,
-          pageSize: input.per_page,
-          totalElements: parsed.length,
-          totalPages: Math.ceil(parsed.length / input.per_page),
-          last: true,
-          first: input.page === 1,
-        };
-      } else {
-        const disbursementsData = responseData.data || [];
-        const transformedData = disbursementsData.map((item: Record<string, unknown>) => normalizeFieldDefaults(item));
-        const parsed = z.array(DisbursementSchema).parse(transformedData);
-
-        // Convert backend 0-based pageNumber to frontend 1-based
-        const backendPageNumber = responseData.pageNumber ?? (input.page - 1);
-        const frontendPageNumber = backendPageNumber + 1;
-
-        return {
-          data: parsed,
-          pageNumber: frontendPageNumber,
-          pageSize: responseData.pageSize ?? input.per_page,
-          totalElements: responseData.totalElements ?? parsed.length,
-          totalPages: responseData.totalPages ?? Math.ceil((responseData.totalElements ?? parsed.length) / (responseData.pageSize ?? input.per_page)),
-          last: responseData.last ?? false,
-          first: responseData.first ?? (backendPageNumber === 0),
-        };
-      }
+      // Handles both array response (legacy) and paginated response
+      return toOneBasedPage(await ctx.api.getPage(endpoint, {
+        query: queryParams,
+        schema: BackendDisbursementSchema,
+        errorMessage: 'Failed to fetch disbursements',
+      }));
     }),
 
   // Get single disbursement by ID
@@ -324,72 +529,103 @@ export const disbursementsRouter = createTRPCRouter({
       id: z.string(),
     }))
     .query(async ({ input, ctx }) => {
+      return fetchDisbursement(ctx.api, input.id);
+    }),
 
-      // Try to determine if it's a UID (typically UUID format) or numeric ID
-      const isUid = input.id.includes('-') || input.id.length > 20;
+  // Resolve a reference quoted to support (uid, external ID, merchant disbursement ID or PSP ID) to a disbursement
+  lookup: protectedProcedure
+    .input(ReferenceLookupInputSchema)
+    .query(async ({ input, ctx }): Promise<ReferenceMatch | null> => {
+      const { reference } = input;
 
-      let url: string;
-      if (isUid) {
-        const endpoint = buildEndpointUrl.disbursementByUid(input.id);
-        url = `${API_CONFIG.baseURL}${endpoint}`;
-      } else {
-        const endpoint = buildEndpointUrl.disbursementById(input.id);
-        url = `${API_CONFIG.baseURL}${endpoint}`;
+      const byUid = await orNotFound(fetchDisbursement(ctx.api, reference));
+      if (byUid) {
+        return { uid: byUid.uid, matchedBy: 'disbursement ID' };
       }
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch disbursement';
-
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
+      const exists = await orNotFound(ctx.api.get(buildEndpointUrl.disbursementExists(reference), {
+        schema: z.boolean(),
+        errorMessage: 'Failed to check disbursement reference',
+      }));
+      if (exists) {
+        const byExternalId = await orNotFound(ctx.api.get(buildEndpointUrl.disbursementByExternalId(reference), {
+          schema: BackendDisbursementSchema,
+          errorMessage: 'Failed to fetch disbursement',
+        }));
+        if (byExternalId) {
+          return { uid: byExternalId.uid, matchedBy: 'external ID' };
         }
+      }
 
-        if (response.status === 401) {
-          throw new Error(`Unauthorized: ${errorMessage}`);
-        } else if (response.status === 403) {
-          throw new Error(`Forbidden: ${errorMessage}`);
-        } else if (response.status === 404) {
-          throw new Error(`Not Found: ${errorMessage}`);
-        }
+      // Merchant and PSP references are only reachable through the (partial match) search
+      const { data } = await ctx.api.postPage(API_ENDPOINTS.disbursements.search, {
+        body: { searchTerm: reference, page: 0, size: REFERENCE_LOOKUP_LIMIT },
+        schema: BackendDisbursementSchema,
+        errorMessage: 'Failed to search disbursements',
+      });
+      return findExactReference(data, reference, [
+        { field: 'merchantDisbursementId', label: 'merchant disbursement ID' },
+        { field: 'pspDisbursementId', label: 'PSP ID' },
+      ]);
+    }),
 
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
+  // Disbursements spawned from a transaction (the transaction detail page's Disbursements tab)
+  byTransaction: protectedProcedure
+    .input(z.object({
+      transactionId: z.number().int().positive(),
+      size: z.number().min(1).max(500).default(100),
+    }))
+    .query(async ({ input, ctx }) => {
+      return toOneBasedPage(await ctx.api.getPage(buildEndpointUrl.disbursementsByTransaction(String(input.transactionId)), {
+        query: { page: 0, size: input.size },
+        schema: BackendDisbursementSchema,
+        errorMessage: 'Failed to fetch disbursements for transaction',
+      }));
+    }),
 
-      const data = await response.json();
-      const disbursementData = data.data || data;
+  // Every attempt at the same payout as a disbursement (its parent and retries), oldest first
+  retryChain: protectedProcedure
+    .input(z.object({
+      id: z.string().min(1, 'Disbursement ID is required'),
+    }))
+    .query(async ({ input, ctx }) => {
+      const current = await fetchDisbursement(ctx.api, input.id);
+
+      // DisbursementSearchCriteriaDto: retried attempts for the same source transaction (or reference/recipient)
+      const searchCriteria: Record<string, unknown> = {
+        minRetryAttempts: 1,
+        merchantId: current.merchantId,
+        sortBy: 'createdAt',
+        sortDirection: 'ASC',
+        page: 0,
+        size: RETRY_CHAIN_LIMIT,
+      };
+      if (current.sourceTransactionId) {
+        searchCriteria.transactionId = current.sourceTransactionId;
+      } else {
+        searchCriteria.searchTerm = current.merchantDisbursementId || current.recipientAccount;
+      }
 
-      // Normalize nullable string fields
-      function normalizeFieldDefaults(item: Record<string, unknown>) {
-        return {
-          ...item,
-          pspDisbursementId: item.pspDisbursementId ?? '',
-          merchantDisbursementId: item.merchantDisbursementId ?? '',
-          sourceTransactionId: item.sourceTransactionId ?? '',
-          disbursementChannel: item.disbursementChannel ?? '',
-          recipientAccount: item.recipientAccount ?? '',
-          recipientName: item.recipientName ?? '',
-          description: item.description ?? '',
-          responseCode: item.responseCode ?? '',
-          responseMessage: item.responseMessage ?? '',
-          errorCode: item.errorCode ?? '',
-          errorMessage: item.errorMessage ?? '',
-        };
+      const [retried, parent] = await Promise.all([
+        ctx.api.postPage(API_ENDPOINTS.disbursements.search, {
+          body: searchCriteria,
+          schema: BackendDisbursementSchema,
+          errorMessage: 'Failed to search retry attempts',
+        }),
+        // The original attempt has no retries, so the search above does not return it
+        current.parentDisbursementId
+          ? fetchDisbursement(ctx.api, current.parentDisbursementId).catch(() => null)
+          : null,
+      ]);
+
+      const attempts = new Map<string, Disbursement>();
+      for (const disbursement of [parent, current, ...retried.data]) {
+        if (disbursement && (disbursement === current || isSameRetryChain(current, disbursement))) {
+          attempts.set(disbursement.uid || disbursement.id, disbursement);
+        }
       }
 
-      const normalizedData = normalizeFieldDefaults(disbursementData);
-      return DisbursementSchema.parse(normalizedData);
+      return [...attempts.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
     }),
 
   // Search disbursements with advanced criteria
@@ -410,8 +646,6 @@ export const disbursementsRouter = createTRPCRouter({
       sortDirection: z.string().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.search}`;
-
       const searchCriteria: Record<string, unknown> = {};
       if (input.searchTerm) searchCriteria.searchTerm = input.searchTerm;
       if (input.status) searchCriteria.status = input.status.toUpperCase();
@@ -436,59 +670,11 @@ export const disbursementsRouter = createTRPCRouter({
       searchCriteria.page = input.page;
       searchCriteria.size = input.size;
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        body: JSON.stringify(searchCriteria),
-        cache: 'no-store',
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to search disbursements';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-
-      function normalizeFieldDefaults(item: Record<string, unknown>) {
-        return {
-          ...item,
-          pspDisbursementId: item.pspDisbursementId ?? '',
-          merchantDisbursementId: item.merchantDisbursementId ?? '',
-          sourceTransactionId: item.sourceTransactionId ?? '',
-          disbursementChannel: item.disbursementChannel ?? '',
-          recipientAccount: item.recipientAccount ?? '',
-          recipientName: item.recipientName ?? '',
-          description: item.description ?? '',
-          responseCode: item.responseCode ?? '',
-          responseMessage: item.responseMessage ?? '',
-          errorCode: item.errorCode ?? '',
-          errorMessage: item.errorMessage ?? '',
-        };
-      }
-
-      const disbursementsData = data.data || [];
-      const transformedData = disbursementsData.map((item: Record<string, unknown>) => normalizeFieldDefaults(item));
-      const parsed = z.array(DisbursementSchema).parse(transformedData);
-
-      return {
-        data: parsed,
-        pageNumber: (data.pageNumber ?? input.page) + 1, // Convert to 1-based
-        pageSize: data.pageSize ?? input.size,
-        totalElements: data.totalElements ?? parsed.length,
-        totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? parsed.length) / (data.pageSize ?? input.size)),
-        last: data.last ?? false,
-        first: (data.pageNumber ?? input.page) === 0,
-      };
+      return toOneBasedPage(await ctx.api.postPage(API_ENDPOINTS.disbursements.search, {
+        body: searchCriteria,
+        schema: BackendDisbursementSchema,
+        errorMessage: 'Failed to search disbursements',
+      }));
     }),
 
   // Retry a failed disbursement
@@ -498,113 +684,38 @@ export const disbursementsRouter = createTRPCRouter({
       reason: z.string().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.retryDisbursement(input.id);
-      const url = new URL(`${API_CONFIG.baseURL}${endpoint}`);
-      if (input.reason) {
-        url.searchParams.set('reason', input.reason);
-      } else {
-        url.searchParams.set('reason', 'Manual retry');
-      }
-
-      const response = await fetch(url.toString(), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
+      const { data, message } = await ctx.api.post(buildEndpointUrl.retryDisbursement(input.id), {
+        query: { reason: input.reason || 'Manual retry' },
+        schema: z.boolean().nullish(),
+        errorMessage: 'Failed to retry disbursement',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to retry disbursement';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
       return {
-        message: data.message || 'Disbursement retry initiated successfully',
-        data: data.data || data,
+        message: message || 'Disbursement retry initiated successfully',
+        data,
       };
     }),
 
-  // Complete a disbursement
-  complete: protectedProcedure
-    .input(z.object({
-      id: z.string(),
-      reason: z.string().optional(),
-    }))
-    .mutation(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.completeDisbursement(input.id);
-      const url = new URL(`${API_CONFIG.baseURL}${endpoint}`);
-      url.searchParams.set('reason', input.reason || 'Manual completion');
-
-      const response = await fetch(url.toString(), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-      });
+  // Force a retry past the backend's retry guards (e.g. retry limit reached); requires a justification.
+  // Held for approval above the threshold, like the other money-moving actions below
+  forceRetry: protectedProcedure
+    .input(forceRetryDisbursementAction.input)
+    .mutation(({ input, ctx }) => runSensitiveAction(ctx, forceRetryDisbursementAction, input)),
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to complete disbursement';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
+  // Manually move a disbursement to another status (e.g. REVERSED, REIMBURSED or ON_HOLD after a bank confirmation)
+  updateStatus: protectedProcedure
+    .input(updateDisbursementStatusAction.input)
+    .mutation(({ input, ctx }) => runSensitiveAction(ctx, updateDisbursementStatusAction, input)),
 
-      const data = await response.json();
-      return {
-        message: data.message || 'Disbursement completed successfully',
-        data: data.data || data,
-      };
-    }),
+  // Complete a disbursement
+  complete: protectedProcedure
+    .input(completeDisbursementAction.input)
+    .mutation(({ input, ctx }) => runSensitiveAction(ctx, completeDisbursementAction, input)),
 
   // Cancel a disbursement
   cancel: protectedProcedure
-    .input(z.object({
-      id: z.string(),
-      reason: z.string().optional(),
-    }))
-    .mutation(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.cancelDisbursement(input.id);
-      const url = new URL(`${API_CONFIG.baseURL}${endpoint}`);
-      url.searchParams.set('reason', input.reason || 'Manual cancellation');
-
-      const response = await fetch(url.toString(), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to cancel disbursement';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      return {
-        message: data.message || 'Disbursement cancelled successfully',
-        data: data.data || data,
-      };
-    }),
+    .input(cancelDisbursementAction.input)
+    .mutation(({ input, ctx }) => runSensitiveAction(ctx, cancelDisbursementAction, input)),
 
   // Get processing history
   processingHistory: protectedProcedure
@@ -612,32 +723,11 @@ export const disbursementsRouter = createTRPCRouter({
       id: z.string(),
     }))
     .query(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.disbursementProcessingHistory(input.id);
-      const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      const historyData = await ctx.api.get(buildEndpointUrl.disbursementProcessingHistory(input.id), {
+        schema: HistoryEntriesSchema,
+        errorMessage: 'Failed to fetch processing history',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch processing history';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      const historyData = Array.isArray(data) ? data : (data.data || []);
-
       // Transform string array into structured objects
       const transformedHistory = historyData.map((entry: unknown, index: number) => {
         // Use numeric index as ID (schema expects number or undefined)
@@ -719,32 +809,11 @@ export const disbursementsRouter = createTRPCRouter({
       id: z.string(),
     }))
     .query(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.disbursementAuditTrail(input.id);
-      const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      const auditTrailData = await ctx.api.get(buildEndpointUrl.disbursementAuditTrail(input.id), {
+        schema: HistoryEntriesSchema,
+        errorMessage: 'Failed to fetch audit trail',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch audit trail';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      const auditTrailData = Array.isArray(data) ? data : (data.data || []);
-
       // Transform string array into structured objects
       const transformedAuditTrail = auditTrailData.map((entry: unknown, index: number) => {
         // Use numeric index as ID (schema expects number or undefined)
@@ -852,32 +921,66 @@ export const disbursementsRouter = createTRPCRouter({
       id: z.string(),
     }))
     .query(async ({ input, ctx }) => {
-      const endpoint = buildEndpointUrl.disbursementCanUpdate(input.id);
-      const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      return ctx.api.get(buildEndpointUrl.disbursementCanUpdate(input.id), {
+        schema: CanUpdateResponseSchema,
+        errorMessage: 'Failed to check if disbursement can be updated',
       });
+    }),
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to check if disbursement can be updated';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
+  // List disbursements stuck in PENDING/PROCESSING for longer than the threshold
+  stale: protectedProcedure
+    .input(z.object({
+      thresholdMinutes: z.number().int().min(1).max(MAX_STALE_THRESHOLD_MINUTES),
+    }))
+    .query(async ({ input, ctx }) => {
+      return ctx.api.get(API_ENDPOINTS.disbursements.stale, {
+        query: { staleThreshold: toStaleThreshold(input.thresholdMinutes) },
+        schema: z.array(BackendDisbursementSchema).nullish().transform((data) => data ?? []),
+        errorMessage: 'Failed to fetch stale disbursements',
+      });
+    }),
+
+  // Mark every disbursement stale for longer than the threshold as failed, then write the run to the audit log
+  processStale: protectedProcedure
+    .input(z.object({
+      thresholdMinutes: z.number().int().min(1).max(MAX_STALE_THRESHOLD_MINUTES),
+      reason: z.string().trim().min(1, 'Reason is required'),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const staleThreshold = toStaleThreshold(input.thresholdMinutes);
+
+      const { data, message } = await ctx.api.post(API_ENDPOINTS.disbursements.processStale, {
+        query: { staleThreshold },
+        schema: z.number().nullish().transform((count) => count ?? 0),
+        errorMessage: 'Failed to process stale disbursements',
+        timeoutMs: API_TIMEOUT.LONG_MS,
+      });
+
+      const audited = await recordAuditEntry(ctx, {
+        event: 'PROCESS_STALE_DISBURSEMENTS',
+        resourceType: 'DISBURSEMENT',
+        reason: input.reason,
+        metadata: { action: 'MARK_FAILED', staleThreshold, processed: data },
+      });
 
-      const data = await response.json();
-      const canUpdateData = data.data || data;
-      return CanUpdateResponseSchema.parse(canUpdateData);
+      return {
+        message: message || `${data} stale disbursement${data === 1 ? '' : 's'} processed`,
+        data: { processed: data, staleThreshold, audited },
+      };
+    }),
+
+  // Preview how many disbursements an archive run with this cutoff date and status set would touch
+  archivePreview: protectedProcedure
+    .input(ArchivePreviewInputSchema)
+    .query(async ({ input, ctx }) => {
+      return getArchivePreview(ctx.api, ARCHIVE_ENDPOINTS, input);
+    }),
+
+  // Archive disbursements created before the cutoff date, once the typed confirmation matches
+  archive: protectedProcedure
+    .input(ArchiveRunInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return runArchive(ctx.api, ARCHIVE_ENDPOINTS, input);
     }),
 
   // Export disbursements
@@ -905,8 +1008,6 @@ export const disbursementsRouter = createTRPCRouter({
         excel: API_ENDPOINTS.disbursements.exportExcel,
       };
 
-      const url = `${API_CONFIG.baseURL}${formatEndpointMap[input.format]}`;
-
       const searchCriteria: Record<string, unknown> = {};
       if (input.searchTerm) searchCriteria.searchTerm = input.searchTerm;
       if (input.status) searchCriteria.status = input.status;
@@ -939,29 +1040,12 @@ export const disbursementsRouter = createTRPCRouter({
         if (sortDirection) searchCriteria.sortDirection = sortDirection.toUpperCase();
       }
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        body: JSON.stringify(searchCriteria),
+      const file = await ctx.api.download(formatEndpointMap[input.format], {
+        body: searchCriteria,
+        errorMessage: 'Failed to export disbursements',
+        timeoutMs: API_TIMEOUT.LONG_MS,
       });
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to export disbursements';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const blob = await response.blob();
-      const arrayBuffer = await blob.arrayBuffer();
-      const base64 = Buffer.from(arrayBuffer).toString('base64');
+      const base64 = file.content.toString('base64');
 
       const contentTypeMap: Record<'csv' | 'excel', string> = {
         csv: 'text/csv',
@@ -992,34 +1076,40 @@ export const disbursementsRouter = createTRPCRouter({
       gatewayId: z.string().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.volumeStats}`);
-      url.searchParams.set('startDate', input.startDate);
-      url.searchParams.set('endDate', input.endDate);
-      if (input.merchantId) url.searchParams.set('merchantId', input.merchantId);
-      if (input.gatewayId) url.searchParams.set('gatewayId', input.gatewayId);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      const data = await ctx.api.get(API_ENDPOINTS.disbursements.volumeStats, {
+        query: input,
+        schema: z.array(DisbursementStatsItemSchema),
+        errorMessage: 'Failed to fetch volume stats',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch volume stats';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
+      return { data };
+    }),
+
+  // Summary report for a period: totals, rates and hourly, daily, gateway and top merchant breakdowns
+  summary: protectedProcedure
+    .input(z.object({
+      startDate: z.string().min(1, 'startDate is required'),
+      endDate: z.string().min(1, 'endDate is required'),
+    }))
+    .query(async ({ input, ctx }) => {
+      // DisbursementSearchCriteriaDto
+      const { data } = await ctx.api.post(API_ENDPOINTS.disbursements.summary, {
+        body: {
+          createdFrom: `${input.startDate}T00:00:00`,
+          createdTo: `${input.endDate}T23:59:59`,
+        },
+        schema: DisbursementSummaryResponseSchema,
+        errorMessage: 'Failed to fetch disbursement summary',
+        timeoutMs: API_TIMEOUT.LONG_MS,
+      });
 
-      const data = await response.json();
-      return DisbursementStatsResponseSchema.parse(data);
+      return toPeriodSummary(data, {
+        total: data.totalDisbursements,
+        successful: data.successfulDisbursements,
+        failed: data.failedDisbursements,
+        pending: data.pendingDisbursements,
+        cancelled: data.cancelledDisbursements,
+      }, input);
     }),
 
   // Get status statistics
@@ -1031,34 +1121,13 @@ export const disbursementsRouter = createTRPCRouter({
       gatewayId: z.string().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.statusStats}`);
-      url.searchParams.set('startDate', input.startDate);
-      url.searchParams.set('endDate', input.endDate);
-      if (input.merchantId) url.searchParams.set('merchantId', input.merchantId);
-      if (input.gatewayId) url.searchParams.set('gatewayId', input.gatewayId);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      const data = await ctx.api.get(API_ENDPOINTS.disbursements.statusStats, {
+        query: input,
+        schema: z.array(DisbursementStatsItemSchema),
+        errorMessage: 'Failed to fetch status stats',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch status stats';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      return DisbursementStatsResponseSchema.parse(data);
+      return { data };
     }),
 
   // Get gateway statistics
@@ -1070,34 +1139,13 @@ export const disbursementsRouter = createTRPCRouter({
       gatewayId: z.string().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.disbursements.gatewayStats}`);
-      url.searchParams.set('startDate', input.startDate);
-      url.searchParams.set('endDate', input.endDate);
-      if (input.merchantId) url.searchParams.set('merchantId', input.merchantId);
-      if (input.gatewayId) url.searchParams.set('gatewayId', input.gatewayId);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      const data = await ctx.api.get(API_ENDPOINTS.disbursements.gatewayStats, {
+        query: input,
+        schema: z.array(DisbursementStatsItemSchema),
+        errorMessage: 'Failed to fetch gateway stats',
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch gateway stats';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      return DisbursementStatsResponseSchema.parse(data);
+      return { data };
     }),
 
   // Get monthly summary
@@ -1109,35 +1157,11 @@ export const disbursementsRouter = createTRPCRouter({
       pgo_id: z.string().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.reports.disbursementsMonthly}`);
-      url.searchParams.set('year', input.year.toString());
-      if (input.month) url.searchParams.set('month', input.month.toString());
-      if (input.merchant_id) url.searchParams.set('merchant_id', input.merchant_id);
-      if (input.pgo_id) url.searchParams.set('pgo_id', input.pgo_id);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
+      return ctx.api.get(API_ENDPOINTS.reports.disbursementsMonthly, {
+        query: input,
+        schema: MonthlyDisbursementSummarySchema,
+        errorMessage: 'Failed to fetch monthly disbursement summary',
       });
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch monthly disbursement summary';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-        throw new Error(`${errorMessage} (Status: ${response.status})`);
-      }
-
-      const data = await response.json();
-      const summaryData = data.data || data;
-      return MonthlyDisbursementSummarySchema.parse(summaryData);
     }),
 
   // Get all payment gateways
@@ -1147,180 +1171,13 @@ export const disbursementsRouter = createTRPCRouter({
       is_active: z.string().optional(),
       search: z.string().optional(),
     }).optional())
-    .query(async ({ input, ctx }) => {
-      const queryParams = new URLSearchParams();
-
-      // Add all query parameters if they exist
-      if (input?.is_active) {
-        queryParams.set('is_active', input.is_active);
-      }
-      if (input?.search) {
-        queryParams.set('search', input.search);
-      }
-
-      // Build the URL with query parameters
-      const queryString = queryParams.toString();
-      const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.list}${queryString ? `?${queryString}` : ''}`;
-
-      // Fetch from backend API
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        cache: 'no-store',
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({
-          message: response.statusText || 'Failed to fetch payment gateways',
-        }));
-
-        throw new Error(errorData.message || errorData.error || 'Failed to fetch payment gateways');
-      }
-
-      const data = await response.json();
-
+    .query(async ({ input, ctx }): Promise<PaginatedPaymentGatewayResponse> => {
       // Backend API returns: { data: PaymentGateway[], ... } or array
-      // Transform to exclude credentials field
-      if (data.data && Array.isArray(data.data)) {
-        const transformedData = data.data.map((gateway: {
-          id: string;
-          uid?: string;
-          name: string;
-          code: string;
-          productionApiBaseUrl?: string | null;
-          sandboxApiBaseUrl?: string | null;
-          supportedMethods?: string[];
-          activeStatus?: string;
-          isActive?: boolean;
-          active?: boolean;
-          createdAt?: string | null;
-          updatedAt?: string | null;
-        }) => {
-          // Convert activeStatus string ('Active'/'Inactive') to boolean
-          let isActive = true;
-          if (gateway.activeStatus !== undefined) {
-            isActive = gateway.activeStatus === 'Active' || gateway.activeStatus === 'ACTIVE' || gateway.activeStatus === 'active';
-          } else if (gateway.isActive !== undefined) {
-            isActive = gateway.isActive;
-          } else if (gateway.active !== undefined) {
-            isActive = gateway.active;
-          }
-
-          // Ensure supportedMethods is an array
-          let supportedMethods: string[] = [];
-          if (Array.isArray(gateway.supportedMethods)) {
-            supportedMethods = gateway.supportedMethods;
-          } else if (gateway.supportedMethods) {
-            supportedMethods = [String(gateway.supportedMethods)];
-          }
-
-          return {
-            id: gateway.id,
-            uid: gateway.uid ?? gateway.id,
-            name: gateway.name,
-            code: gateway.code,
-            api_base_url_production: gateway.productionApiBaseUrl ?? null,
-            api_base_url_sandbox: gateway.sandboxApiBaseUrl ?? null,
-            supported_methods: supportedMethods,
-            is_active: isActive,
-            created_at: gateway.createdAt ?? null,
-            updated_at: gateway.updatedAt ?? null,
-          };
-        });
-
-        const listResponse: PaginatedPaymentGatewayResponse = {
-          data: transformedData.map((item: {
-            id: string;
-            uid: string;
-            name: string;
-            code: string;
-            api_base_url_production: string | null;
-            api_base_url_sandbox: string | null;
-            supported_methods: string[];
-            is_active: boolean;
-            created_at: string | null;
-            updated_at: string | null;
-          }) => PaymentGatewaySchema.parse(item)),
-          pageNumber: data.pageNumber ?? 0,
-          pageSize: data.pageSize ?? 15,
-          totalElements: data.totalElements ?? transformedData.length,
-          totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedData.length) / (data.pageSize ?? 15)),
-          last: data.last ?? true,
-          first: data.first ?? (data.pageNumber === 0),
-        };
-
-        return listResponse;
-      } else if (Array.isArray(data)) {
-        // Backend returned just an array (legacy format)
-        const transformedData = data.map((gateway: {
-          id: string;
-          uid?: string;
-          name: string;
-          code: string;
-          productionApiBaseUrl?: string | null;
-          sandboxApiBaseUrl?: string | null;
-          supportedMethods?: string[];
-          activeStatus?: string;
-          isActive?: boolean;
-          active?: boolean;
-          createdAt?: string | null;
-          updatedAt?: string | null;
-        }) => {
-          // Convert activeStatus string ('Active'/'Inactive') to boolean
-          let isActive = true;
-          if (gateway.activeStatus !== undefined) {
-            isActive = gateway.activeStatus === 'Active' || gateway.activeStatus === 'ACTIVE';
-          } else if (gateway.isActive !== undefined) {
-            isActive = gateway.isActive;
-          } else if (gateway.active !== undefined) {
-            isActive = gateway.active;
-          }
-
-          return {
-            id: gateway.id,
-            uid: gateway.uid ?? gateway.id,
-            name: gateway.name,
-            code: gateway.code,
-            api_base_url_production: gateway.productionApiBaseUrl ?? null,
-            api_base_url_sandbox: gateway.sandboxApiBaseUrl ?? null,
-            supported_methods: Array.isArray(gateway.supportedMethods)
-              ? gateway.supportedMethods.filter((m): m is string => typeof m === 'string')
-              : [],
-            is_active: isActive,
-            created_at: gateway.createdAt ?? null,
-            updated_at: gateway.updatedAt ?? null,
-          };
-        });
-
-        const listResponse: PaginatedPaymentGatewayResponse = {
-          data: transformedData.map((item: {
-            id: string;
-            uid: string;
-            name: string;
-            code: string;
-            api_base_url_production: string | null;
-            api_base_url_sandbox: string | null;
-            supported_methods: string[];
-            is_active: boolean;
-            created_at: string | null;
-            updated_at: string | null;
-          }) => PaymentGatewaySchema.parse(item)),
-          pageNumber: 0,
-          pageSize: transformedData.length,
-          totalElements: transformedData.length,
-          totalPages: 1,
-          last: true,
-          first: true,
-        };
-
-        return listResponse;
-      } else {
-        // Fallback: return error
-        throw new Error('Unexpected response format from backend');
-      }
+      return ctx.api.getPage(API_ENDPOINTS.paymentGateways.list, {
+        query: input,
+        schema: BackendPaymentGatewaySchema,
+        errorMessage: 'Failed to fetch payment gateways',
+      });
     }),
 
   // Create a new payment gateway
@@ -1352,27 +1209,15 @@ export const disbursementsRouter = createTRPCRouter({
         backendBody.credentials = input.credentials;
       }
 
-      // Build the URL
-      const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.create}`;
-
       // Create payment gateway via backend API
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ctx.token}`,
-        },
-        body: JSON.stringify(backendBody),
+      const { data, message } = await ctx.api.post(API_ENDPOINTS.paymentGateways.create, {
+        body: backendBody,
+        schema: z.looseObject({ payment_gateway: z.record(z.string(), z.unknown()).optional() }).nullish(),
+        errorMessage: 'Failed to create payment gateway',
       });
 
-      const data = await response.json().catch(() => ({}));
-
-      if (!response.ok) {
-        throw new Error(data.message || data.error || 'Failed to create payment gateway');
-      }
-
       // Transform response to frontend format (exclude credentials)
-      const gateway = data.payment_gateway || data.data || data;
+      const gateway = data?.payment_gateway || data;
       const transformedGateway = gateway ? {
         id: gateway.id,
         uid: gateway.uid ?? gateway.id,
@@ -1386,7 +1231,7 @@ export const disbursementsRouter = createTRPCRouter({
       } : null;
 
       return {
-        message: data.message || 'Payment Gateway created successfully',
+        message: message || 'Payment Gateway created successfully',
         payment_gateway: transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null,
       };
     }),
@@ -1,33 +1,103 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
-import { PaymentGatewaySchema, PaymentGatewayDetailSchema, PaginatedPaymentGatewayResponse } from '@/lib/definitions';
+import { toOneBasedPage } from '../backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { PAGINATION } from '@/lib/config/constants';
+import {
+    PaymentGatewaySchema,
+    PaymentGatewayDetailSchema,
+    PaginatedPaymentGatewayResponse,
+    GatewayChannelSchema,
+    PaginatedGatewayChannelResponse,
+} from '@/lib/definitions';
+
+/**
+ * Payment gateway as returned by the backend list/detail endpoints
+ */
+const BackendGatewaySchema = z.looseObject({
+    id: z.union([z.string(), z.number()]).transform(String),
+    uid: z.string().nullish(),
+    name: z.string(),
+    code: z.string(),
+    productionApiBaseUrl: z.string().nullish(),
+    sandboxApiBaseUrl: z.string().nullish(),
+    supportedMethods: z.unknown(),
+    activeStatus: z.string().nullish(),
+    isActive: z.boolean().nullish(),
+    active: z.boolean().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+});
+
+// Older names some gateway endpoints still use, mapped to the PaymentGatewayResponseDto names
+const GATEWAY_FIELD_ALIASES: Record<string, string[]> = {
+    productionApiBaseUrl: ['apiBaseUrlProduction', 'api_base_url_production'],
+    sandboxApiBaseUrl: ['apiBaseUrlSandbox', 'api_base_url_sandbox'],
+    supportedMethods: ['supported_methods'],
+    isActive: ['is_active'],
+    createdAt: ['created_at'],
+    updatedAt: ['updated_at'],
+};
+
+/**
+ * Unwrap a gateway sent as `{ payment_gateway: ... }` and map older field names to the DTO names
+ */
+function normalizeGatewayResponse(data: unknown): unknown {
+    const gateway = typeof data === 'object' && data !== null && 'payment_gateway' in data && data.payment_gateway
+        ? data.payment_gateway
+        : data;
+    if (typeof gateway !== 'object' || gateway === null) return gateway;
+
+    const normalized: Record<string, unknown> = { ...gateway };
+    Object.entries(GATEWAY_FIELD_ALIASES).forEach(([field, aliases]) => {
+        const alias = aliases.find((name) => normalized[name] != null);
+        if (normalized[field] == null && alias) {
+            normalized[field] = normalized[alias];
+        }
+    });
+    return normalized;
+}
+
+/**
+ * Payment gateway as returned by the create/update/status and detail endpoints
+ */
+const BackendGatewayResultSchema = z.preprocess(normalizeGatewayResponse, BackendGatewaySchema);
+const BackendGatewayDetailSchema = z.preprocess(normalizeGatewayResponse, BackendGatewaySchema.extend({
+    credentials: z.record(z.string(), z.string().optional()).nullish(),
+}));
+
+/**
+ * Gateway-channel mapping as returned by the backend
+ */
+const BackendGatewayChannelSchema = z.looseObject({
+    id: z.union([z.string(), z.number()]),
+    uid: z.string().nullish(),
+    paymentGatewayUid: z.string().nullish(),
+    paymentGatewayCode: z.string().nullish(),
+    paymentGatewayName: z.string().nullish(),
+    paymentChannelUid: z.string().nullish(),
+    paymentChannelCode: z.string().nullish(),
+    paymentChannelName: z.string().nullish(),
+    payCode: z.string().nullish(),
+    provider: z.string().nullish(),
+    isActive: z.boolean().nullish(),
+    active: z.boolean().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+});
 
 /**
  * Helper function to transform gateway data from backend format to frontend format
  */
-function transformGateway(gateway: {
-    id: string;
-    uid?: string;
-    name: string;
-    code: string;
-    productionApiBaseUrl?: string | null;
-    sandboxApiBaseUrl?: string | null;
-    supportedMethods?: string[] | string | unknown;
-    activeStatus?: string;
-    isActive?: boolean;
-    active?: boolean;
-    createdAt?: string | null;
-    updatedAt?: string | null;
-}) {
+function transformGateway(gateway: z.infer<typeof BackendGatewaySchema>) {
     // Convert activeStatus string ('Active'/'Inactive') to boolean
     let isActive = true;
-    if (gateway.activeStatus !== undefined) {
+    if (gateway.activeStatus != null) {
         isActive = gateway.activeStatus === 'Active' || gateway.activeStatus === 'ACTIVE' || gateway.activeStatus === 'active';
-    } else if (gateway.isActive !== undefined) {
+    } else if (gateway.isActive != null) {
         isActive = gateway.isActive;
-    } else if (gateway.active !== undefined) {
+    } else if (gateway.active != null) {
         isActive = gateway.active;
     }
 
@@ -141,6 +211,35 @@ function transformGateway(gateway: {
     };
 }
 
+/**
+ * Helper function to transform gateway-channel mapping data from backend format to frontend format
+ */
+function transformGatewayChannel(mapping: z.infer<typeof BackendGatewayChannelSchema>) {
+    return {
+        id: String(mapping.id),
+        uid: mapping.uid ?? String(mapping.id),
+        payment_gateway_uid: mapping.paymentGatewayUid ?? '',
+        payment_gateway_code: mapping.paymentGatewayCode ?? null,
+        payment_gateway_name: mapping.paymentGatewayName ?? null,
+        payment_channel_uid: mapping.paymentChannelUid ?? '',
+        payment_channel_code: mapping.paymentChannelCode ?? null,
+        payment_channel_name: mapping.paymentChannelName ?? null,
+        pay_code: mapping.payCode ?? null,
+        provider: mapping.provider ?? null,
+        is_active: mapping.active ?? mapping.isActive ?? false,
+        created_at: mapping.createdAt ?? null,
+        updated_at: mapping.updatedAt ?? null,
+    };
+}
+
+// Mutations echo the changed gateway or mapping back, mapped to the frontend shape (credentials excluded)
+const GatewayResultSchema = BackendGatewayResultSchema
+    .transform((gateway) => PaymentGatewaySchema.parse(transformGateway(gateway)))
+    .nullish();
+const GatewayChannelResultSchema = BackendGatewayChannelSchema
+    .transform((mapping) => GatewayChannelSchema.parse(transformGatewayChannel(mapping)))
+    .nullish();
+
 export const gatewaysRouter = createTRPCRouter({
     /**
      * List all payment gateways
@@ -153,94 +252,14 @@ export const gatewaysRouter = createTRPCRouter({
                 search: z.string().optional(),
             })
         )
-        .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            // Build query parameters
-            const queryParams = new URLSearchParams();
-            const allowedParams = ['is_active', 'search'] as const;
-
-            allowedParams.forEach((param) => {
-                const value = input[param];
-                if (value !== null && value !== undefined && value !== '') {
-                    queryParams.set(param, value);
-                }
-            });
-
-            // Build the URL with query parameters
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.list}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch payment gateways',
-                }));
-
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: errorData.message || errorData.error || 'Unauthorized',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch payment gateways',
-                });
-            }
-
-            const data = await response.json();
-
+        .query(async ({ input, ctx }): Promise<PaginatedPaymentGatewayResponse> => {
             // Backend API returns: { data: PaymentGateway[], ... } or array
             // Transform to exclude credentials field
-            if (data.data && Array.isArray(data.data)) {
-                const transformedData = data.data.map(transformGateway);
-                const parsed = z.array(PaymentGatewaySchema).parse(transformedData);
-
-                const listResponse: PaginatedPaymentGatewayResponse = {
-                    data: parsed,
-                    pageNumber: data.pageNumber ?? 0,
-                    pageSize: data.pageSize ?? 15,
-                    totalElements: data.totalElements ?? transformedData.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedData.length) / (data.pageSize ?? 15)),
-                    last: data.last ?? true,
-                    first: data.first ?? (data.pageNumber === 0),
-                };
-
-                return listResponse;
-            } else if (Array.isArray(data)) {
-                // Backend returned just an array (legacy format)
-                const transformedData = data.map(transformGateway);
-                const parsed = z.array(PaymentGatewaySchema).parse(transformedData);
-
-                const listResponse: PaginatedPaymentGatewayResponse = {
-                    data: parsed,
-                    pageNumber: 0,
-                    pageSize: transformedData.length,
-                    totalElements: transformedData.length,
-                    totalPages: 1,
-                    last: true,
-                    first: true,
-                };
-
-                return listResponse;
-            } else {
-                // Fallback: return error
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
-            }
+            return ctx.api.getPage(API_ENDPOINTS.paymentGateways.list, {
+                query: input,
+                schema: BackendGatewaySchema.transform((gateway) => PaymentGatewaySchema.parse(transformGateway(gateway))),
+                errorMessage: 'Failed to fetch payment gateways',
+            });
         }),
 
     /**
@@ -264,8 +283,6 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-
             // Transform request body to backend format (camelCase)
             // Backend expects: productionApiBaseUrl, sandboxApiBaseUrl, active (not isActive)
             const backendBody: Record<string, unknown> = {
@@ -282,63 +299,16 @@ export const gatewaysRouter = createTRPCRouter({
                 backendBody.credentials = input.credentials;
             }
 
-            // Build the URL
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.create}`;
-
             // Create payment gateway via backend API
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(backendBody),
+            const { data: gateway, message } = await ctx.api.post(API_ENDPOINTS.paymentGateways.create, {
+                body: backendBody,
+                schema: GatewayResultSchema,
+                errorMessage: 'Failed to create payment gateway',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: data.message || data.error || 'Unauthorized',
-                    });
-                }
-
-                if (response.status === 400) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: data.message || data.error || 'Validation failed',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to create payment gateway',
-                });
-            }
-
-            // Transform response to frontend format (exclude credentials)
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = gateway
-                ? {
-                    id: gateway.id,
-                    uid: gateway.uid ?? gateway.id,
-                    name: gateway.name,
-                    code: gateway.code,
-                    api_base_url_production: gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                    api_base_url_sandbox: gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
-                    supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                    is_active: gateway.isActive ?? gateway.is_active ?? true,
-                    created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                }
-                : null;
-
-            const parsed = transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null;
-
             return {
-                message: data.message || 'Payment Gateway created successfully',
-                payment_gateway: parsed,
+                message: message || 'Payment Gateway created successfully',
+                payment_gateway: gateway ?? null,
             };
         }),
 
@@ -354,68 +324,17 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: gatewayUid } = input;
 
-            // Build the URL with gateway ID
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.getById.replace('{id}', gatewayUid)}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            const gateway = await ctx.api.get(API_ENDPOINTS.paymentGateways.getById.replace('{id}', gatewayUid), {
+                schema: BackendGatewayDetailSchema,
+                errorMessage: 'Failed to fetch payment gateway',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch payment gateway',
-                }));
-
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: errorData.message || errorData.error || 'Unauthorized',
-                    });
-                }
-
-                if (response.status === 404) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: errorData.message || errorData.error || 'Payment gateway not found',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch payment gateway',
-                });
-            }
-
-            const data = await response.json();
-
-            // Transform backend response to frontend format (include decrypted credentials)
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = {
-                id: gateway.id,
-                uid: gateway.uid ?? gateway.id,
-                name: gateway.name,
-                code: gateway.code,
-                api_base_url_production: gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                api_base_url_sandbox: gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
+            return PaymentGatewayDetailSchema.parse({
+                ...transformGateway(gateway),
                 credentials: gateway.credentials ?? {},
-                supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                is_active: gateway.isActive ?? gateway.is_active ?? true,
-                created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                updated_at: gateway.updatedAt ?? gateway.updated_at ?? null,
-            };
-
-            const parsed = PaymentGatewayDetailSchema.parse(transformedGateway);
-
-            return parsed;
+            });
         }),
 
     /**
@@ -436,7 +355,6 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: gatewayUid, ...updateFields } = input;
 
             // Validate that at least one field is provided for update
@@ -477,71 +395,16 @@ export const gatewaysRouter = createTRPCRouter({
                 backendBody.isActive = updateFields.is_active;
             }
 
-            // Build the URL
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.update.replace('{uid}', gatewayUid)}`;
-
             // Update payment gateway via backend API
-            const response = await fetch(url, {
-                method: 'PUT',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(backendBody),
+            const { data: gateway, message } = await ctx.api.put(API_ENDPOINTS.paymentGateways.update.replace('{uid}', gatewayUid), {
+                body: backendBody,
+                schema: GatewayResultSchema,
+                errorMessage: 'Failed to update payment gateway',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: data.message || data.error || 'Unauthorized',
-                    });
-                }
-
-                if (response.status === 400) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: data.message || data.error || 'Validation failed',
-                    });
-                }
-
-                if (response.status === 404) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: data.message || data.error || 'Payment gateway not found',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to update payment gateway',
-                });
-            }
-
-            // Transform response to frontend format (exclude credentials)
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = gateway
-                ? {
-                    id: gateway.id,
-                    uid: gateway.uid ?? gateway.id,
-                    name: gateway.name,
-                    code: gateway.code,
-                    api_base_url_production: gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                    api_base_url_sandbox: gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
-                    supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                    is_active: gateway.isActive ?? gateway.is_active ?? true,
-                    created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                    updated_at: gateway.updatedAt ?? gateway.updated_at ?? null,
-                }
-                : null;
-
-            const parsed = transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null;
-
             return {
-                message: data.message || 'Payment Gateway updated successfully',
-                payment_gateway: parsed,
+                message: message || 'Payment Gateway updated successfully',
+                payment_gateway: gateway ?? null,
             };
         }),
 
@@ -556,66 +419,17 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: uid } = input;
 
-            // Build the URL using the activate endpoint (backend expects uid)
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.activate.replace('{uid}', uid)}`;
-
-            // Activate payment gateway via backend API
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            // Activate payment gateway via backend API (backend expects uid)
+            const { data: gateway, message } = await ctx.api.post(API_ENDPOINTS.paymentGateways.activate.replace('{uid}', uid), {
+                schema: GatewayResultSchema,
+                errorMessage: 'Failed to activate payment gateway',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: data.message || data.error || 'Unauthorized',
-                    });
-                }
-
-                if (response.status === 404) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: data.message || data.error || 'Payment gateway not found',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to activate payment gateway',
-                });
-            }
-
-            // Transform response to frontend format
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = gateway
-                ? {
-                    id: gateway.id,
-                    uid: gateway.uid ?? gateway.id,
-                    name: gateway.name,
-                    code: gateway.code,
-                    api_base_url_production: gateway.productionApiBaseUrl ?? gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                    api_base_url_sandbox: gateway.sandboxApiBaseUrl ?? gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
-                    supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                    is_active: gateway.isActive ?? gateway.is_active ?? gateway.active ?? true,
-                    created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                    updated_at: gateway.updatedAt ?? gateway.updated_at ?? null,
-                }
-                : null;
-
-            const parsed = transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null;
-
             return {
-                message: data.message || 'Payment Gateway activated successfully',
-                payment_gateway: parsed,
+                message: message || 'Payment Gateway activated successfully',
+                payment_gateway: gateway ?? null,
             };
         }),
 
@@ -630,66 +444,17 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: uid } = input;
 
-            // Build the URL using the deactivate endpoint (backend expects uid)
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.deactivate.replace('{uid}', uid)}`;
-
-            // Deactivate payment gateway via backend API
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            // Deactivate payment gateway via backend API (backend expects uid)
+            const { data: gateway, message } = await ctx.api.post(API_ENDPOINTS.paymentGateways.deactivate.replace('{uid}', uid), {
+                schema: GatewayResultSchema,
+                errorMessage: 'Failed to deactivate payment gateway',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: data.message || data.error || 'Unauthorized',
-                    });
-                }
-
-                if (response.status === 404) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: data.message || data.error || 'Payment gateway not found',
-                    });
-                }
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to deactivate payment gateway',
-                });
-            }
-
-            // Transform response to frontend format
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = gateway
-                ? {
-                    id: gateway.id,
-                    uid: gateway.uid ?? gateway.id,
-                    name: gateway.name,
-                    code: gateway.code,
-                    api_base_url_production: gateway.productionApiBaseUrl ?? gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                    api_base_url_sandbox: gateway.sandboxApiBaseUrl ?? gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
-                    supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                    is_active: gateway.isActive ?? gateway.is_active ?? gateway.active ?? false,
-                    created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                    updated_at: gateway.updatedAt ?? gateway.updated_at ?? null,
-                }
-                : null;
-
-            const parsed = transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null;
-
             return {
-                message: data.message || 'Payment Gateway deactivated successfully',
-                payment_gateway: parsed,
+                message: message || 'Payment Gateway deactivated successfully',
+                payment_gateway: gateway ?? null,
             };
         }),
 
@@ -705,79 +470,185 @@ export const gatewaysRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: gatewayUid, is_active } = input;
 
-            // Transform request body to backend format
-            const backendBody = {
-                isActive: is_active,
-            };
+            // Update payment gateway status via backend API
+            const { data: gateway, message } = await ctx.api.patch(API_ENDPOINTS.paymentGateways.status.replace('{uid}', gatewayUid), {
+                body: { isActive: is_active },
+                schema: GatewayResultSchema,
+                errorMessage: 'Failed to update payment gateway status',
+            });
 
-            // Build the URL
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.paymentGateways.status.replace('{uid}', gatewayUid)}`;
+            return {
+                message: message || 'Payment Gateway status updated successfully',
+                payment_gateway: gateway ?? null,
+            };
+        }),
 
-            // Update payment gateway status via backend API
-            const response = await fetch(url, {
-                method: 'PATCH',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(backendBody),
+    /**
+     * Get payment gateway by UID
+     * Used by the gateway detail page
+     */
+    getByUid: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string().min(1, 'uid is required'),
+            })
+        )
+        .query(async ({ input, ctx }) => {
+            return ctx.api.get(API_ENDPOINTS.paymentGateways.getByUid.replace('{uid}', input.uid), {
+                schema: BackendGatewaySchema.transform((gateway) => PaymentGatewaySchema.parse(transformGateway(gateway))),
+                errorMessage: 'Failed to fetch payment gateway',
             });
+        }),
 
-            const data = await response.json().catch(() => ({}));
+    /**
+     * Gateway-channel mappings (which channels a gateway routes)
+     */
+    channels: {
+        /**
+         * List channels linked to a gateway
+         */
+        list: protectedProcedure
+            .input(
+                z.object({
+                    gatewayUid: z.string().min(1, 'gatewayUid is required'),
+                    page: z.string().optional(),
+                    per_page: z.string().optional(),
+                })
+            )
+            .query(async ({ input, ctx }): Promise<PaginatedGatewayChannelResponse> => {
+                // Frontend uses 1-based pagination, backend uses 0-based
+                const requestedPage = parseInt(input.page || String(PAGINATION.DEFAULT_PAGE), 10);
+                const requestedPerPage = parseInt(input.per_page || String(PAGINATION.DEFAULT_PAGE_SIZE), 10);
+
+                return toOneBasedPage(await ctx.api.getPage(API_ENDPOINTS.gatewayChannels.byGateway.replace('{gatewayUid}', input.gatewayUid), {
+                    query: {
+                        page: Math.max(0, requestedPage - 1),
+                        size: requestedPerPage,
+                    },
+                    schema: BackendGatewayChannelSchema.transform((mapping) => GatewayChannelSchema.parse(transformGatewayChannel(mapping))),
+                    errorMessage: 'Failed to fetch gateway channels',
+                }));
+            }),
+
+        /**
+         * Assign a payment channel to a gateway
+         */
+        assign: protectedProcedure
+            .input(
+                z.object({
+                    gatewayUid: z.string().min(1, 'gatewayUid is required'),
+                    channelUid: z.string().min(1, 'channelUid is required'),
+                    pay_code: z.string().min(1, 'pay_code is required'),
+                    provider: z.string().min(1, 'provider is required'),
+                })
+            )
+            .mutation(async ({ input, ctx }) => {
+                const endpoint = API_ENDPOINTS.gatewayChannels.assign
+                    .replace('{gatewayUid}', input.gatewayUid)
+                    .replace('{channelUid}', input.channelUid);
+
+                const { data, message } = await ctx.api.post(endpoint, {
+                    body: {
+                        payCode: input.pay_code.trim(),
+                        provider: input.provider.trim(),
+                    },
+                    schema: GatewayChannelResultSchema,
+                    errorMessage: 'Failed to assign channel to gateway',
+                });
 
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: data.message || data.error || 'Unauthorized',
-                    });
+                return {
+                    message: message || 'Channel assigned to gateway successfully',
+                    data,
+                };
+            }),
+
+        /**
+         * Update a gateway-channel mapping (pay code, provider, active flag)
+         */
+        update: protectedProcedure
+            .input(
+                z.object({
+                    id: z.string().min(1, 'id is required'),
+                    pay_code: z.string().optional(),
+                    provider: z.string().optional(),
+                    is_active: z.boolean().optional(),
+                })
+            )
+            .mutation(async ({ input, ctx }) => {
+                const { id, ...updateFields } = input;
+
+                const backendBody: Record<string, unknown> = {};
+                if (updateFields.pay_code !== undefined) {
+                    backendBody.payCode = updateFields.pay_code.trim();
                 }
-
-                if (response.status === 400) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: data.message || data.error || 'Validation failed',
-                    });
+                if (updateFields.provider !== undefined) {
+                    backendBody.provider = updateFields.provider.trim();
+                }
+                if (updateFields.is_active !== undefined) {
+                    backendBody.isActive = updateFields.is_active;
                 }
 
-                if (response.status === 404) {
+                if (Object.keys(backendBody).length === 0) {
                     throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: data.message || data.error || 'Payment gateway not found',
+                        code: 'BAD_REQUEST',
+                        message: 'At least one field must be provided for update',
                     });
                 }
 
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to update payment gateway status',
+                const { data, message } = await ctx.api.put(API_ENDPOINTS.gatewayChannels.update.replace('{id}', id), {
+                    body: backendBody,
+                    schema: GatewayChannelResultSchema,
+                    errorMessage: 'Failed to update gateway channel',
                 });
-            }
 
-            // Transform response to frontend format (exclude credentials)
-            const gateway = data.payment_gateway || data.data || data;
-            const transformedGateway = gateway
-                ? {
-                    id: gateway.id,
-                    uid: gateway.uid ?? gateway.id,
-                    name: gateway.name,
-                    code: gateway.code,
-                    api_base_url_production: gateway.apiBaseUrlProduction ?? gateway.api_base_url_production ?? null,
-                    api_base_url_sandbox: gateway.apiBaseUrlSandbox ?? gateway.api_base_url_sandbox ?? null,
-                    supported_methods: gateway.supportedMethods ?? gateway.supported_methods ?? [],
-                    is_active: gateway.isActive ?? gateway.is_active ?? true,
-                    created_at: gateway.createdAt ?? gateway.created_at ?? null,
-                    updated_at: gateway.updatedAt ?? gateway.updated_at ?? null,
-                }
-                : null;
+                return {
+                    message: message || 'Gateway channel updated successfully',
+                    data,
+                };
+            }),
+
+        /**
+         * Activate a gateway-channel mapping
+         */
+        activate: protectedProcedure
+            .input(
+                z.object({
+                    id: z.string().min(1, 'id is required'),
+                })
+            )
+            .mutation(async ({ input, ctx }) => {
+                const { data, message } = await ctx.api.post(API_ENDPOINTS.gatewayChannels.activate.replace('{id}', input.id), {
+                    schema: z.boolean().nullish(),
+                    errorMessage: 'Failed to activate gateway channel',
+                });
 
-            const parsed = transformedGateway ? PaymentGatewaySchema.parse(transformedGateway) : null;
+                return {
+                    message: message || 'Gateway channel activated successfully',
+                    data,
+                };
+            }),
+
+        /**
+         * Deactivate a gateway-channel mapping
+         */
+        deactivate: protectedProcedure
+            .input(
+                z.object({
+                    id: z.string().min(1, 'id is required'),
+                })
+            )
+            .mutation(async ({ input, ctx }) => {
+                const { data, message } = await ctx.api.post(API_ENDPOINTS.gatewayChannels.deactivate.replace('{id}', input.id), {
+                    schema: z.boolean().nullish(),
+                    errorMessage: 'Failed to deactivate gateway channel',
+                });
 
-            return {
-                message: data.message || 'Payment Gateway status updated successfully',
-                payment_gateway: parsed,
-            };
-        }),
+                return {
+                    message: message || 'Gateway channel deactivated successfully',
+                    data,
+                };
+            }),
+    },
 });
\ No newline at end of file
@@ -1,7 +1,17 @@
 import { z } from 'zod';
-import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { getArchiveHistory } from '../archive';
+
+/**
+ * Audit log entry as returned by the backend; fields beyond these are passed through
+ */
+const BackendAuditLogSchema = z.looseObject({
+    id: z.union([z.number(), z.string()]),
+    eventType: z.string().nullish(),
+    event: z.string().nullish(),
+    createdAt: z.string().nullish(),
+});
 
 export const logsRouter = createTRPCRouter({
     /**
@@ -23,8 +33,6 @@ export const logsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
             const queryParams = new URLSearchParams();
 
             // Handle pagination (frontend uses 0-based, backend also uses 0-based)
@@ -69,70 +77,19 @@ export const logsRouter = createTRPCRouter({
                 }
             });
 
-            // Build the URL with query parameters
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.logs.auditLogs}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.getPage(API_ENDPOINTS.logs.auditLogs, {
+                query: queryParams,
+                schema: BackendAuditLogSchema,
+                errorMessage: 'Failed to fetch audit logs',
             });
+        }),
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch audit logs',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch audit logs',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle response format from backend
-            // Backend API returns: { status, statusCode, message, data: AuditLog[], pageNumber, pageSize, totalElements, totalPages, last }
-            if (data.data && Array.isArray(data.data)) {
-                // Backend uses 0-based pagination, frontend also uses 0-based
-                const backendPageNumber = data.pageNumber ?? 0;
-                const perPage = parseInt(input.per_page || '15', 10);
-
-                return {
-                    data: data.data,
-                    pageNumber: backendPageNumber, // Keep 0-based
-                    pageSize: data.pageSize ?? perPage,
-                    totalElements: data.totalElements ?? data.data.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? data.data.length) / (data.pageSize ?? perPage)),
-                    last: data.last ?? false,
-                    first: data.first ?? (backendPageNumber === 0),
-                };
-            } else if (Array.isArray(data) && data.length > 0) {
-                // Backend returned just an array (legacy format)
-                const perPage = parseInt(input.per_page || '15', 10);
-                const page = parseInt(input.page || '0', 10);
-
-                return {
-                    data: data,
-                    pageNumber: page,
-                    pageSize: perPage,
-                    totalElements: data.length,
-                    totalPages: 1,
-                    last: true,
-                    first: page === 0,
-                };
-            } else {
-                // Fallback: return error
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
-            }
+    /**
+     * Transaction and disbursement archive runs, read from the audit log
+     */
+    archiveRuns: protectedProcedure
+        .query(async ({ ctx }) => {
+            return getArchiveHistory(ctx.api);
         }),
 });
 
@@ -1,84 +1,221 @@
 import { z } from 'zod';
-import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
+import { API_ENDPOINTS } from '@/lib/config/api';
 import {
     CreateMerchantRequestSchema,
+    UpdateMerchantRequestSchema,
     CreateBankAccountRequestSchema,
 } from '@/lib/definitions';
 
+// Ids and limits are documented as strings, but numbers occur in practice
+const StringLikeSchema = z.union([z.string(), z.number()]).transform(String);
+
+// The KYC queue walks at most this many merchant pages of this size
+const KYC_QUEUE_PAGE_SIZE = 100;
+const KYC_QUEUE_MAX_PAGES = 50;
+
+/**
+ * Older merchant endpoints answer in snake_case; copy those fields to their camelCase names so one schema covers both
+ */
+function toCamelCaseFields(item: unknown): unknown {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return item;
+
+    const normalized: Record<string, unknown> = { ...item };
+    Object.entries(item).forEach(([key, value]) => {
+        const camelKey = key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+        if (camelKey !== key && normalized[camelKey] == null) {
+            normalized[camelKey] = value;
+        }
+    });
+    return normalized;
+}
+
+/**
+ * MerchantResponseDto, plus the alternative names some endpoints use
+ */
+const BackendMerchantSchema = z.preprocess(toCamelCaseFields, z.looseObject({
+    id: StringLikeSchema,
+    uid: z.string(),
+    code: z.string().nullish(),
+    merchantCode: z.string().nullish(),
+    name: z.string().nullish(),
+    merchantName: z.string().nullish(),
+    businessName: z.string().nullish(),
+    businessRegistrationNumber: z.string().nullish(),
+    businessAddress: z.string().nullish(),
+    businessCity: z.string().nullish(),
+    businessState: z.string().nullish(),
+    businessPostalCode: z.string().nullish(),
+    businessCountry: z.string().nullish(),
+    contactEmail: z.string().nullish(),
+    contactPhone: z.string().nullish(),
+    websiteUrl: z.string().nullish(),
+    merchantType: z.string().nullish(),
+    status: z.string().nullish(),
+    activeStatus: z.string().nullish(),
+    active: z.boolean().nullish(),
+    statusReason: z.string().nullish(),
+    merchantRole: z.string().nullish(),
+    kycVerified: z.boolean().nullish(),
+    kycStatus: z.string().nullish(),
+    kycNotes: z.string().nullish(),
+    kycVerifiedAt: z.string().nullish(),
+    kycVerifiedBy: z.string().nullish(),
+    singleTransactionLimit: StringLikeSchema.nullish(),
+    dailyTransactionLimit: StringLikeSchema.nullish(),
+    monthlyTransactionLimit: StringLikeSchema.nullish(),
+    parentMerchantUid: z.string().nullish(),
+    parentMerchantName: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+}));
+
+/**
+ * MerchantBankAccountResponseDto, plus the alternative names some endpoints use
+ */
+const BackendBankAccountSchema = z.preprocess(toCamelCaseFields, z.looseObject({
+    id: StringLikeSchema.nullish(),
+    uid: z.string().nullish(),
+    bankName: z.string().nullish(),
+    accountName: z.string().nullish(),
+    accountNumber: z.string().nullish(),
+    bankCode: z.string().nullish(),
+    branchCode: z.string().nullish(),
+    accountType: z.string().nullish(),
+    swiftCode: z.string().nullish(),
+    iban: z.string().nullish(),
+    bankAddress: z.string().nullish(),
+    currency: z.string().nullish(),
+    status: z.string().nullish(),
+    isActive: z.boolean().nullish(),
+    active: z.boolean().nullish(),
+    primary: z.boolean().nullish(),
+    isPrimary: z.boolean().nullish(),
+    notes: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    updatedAt: z.string().nullish(),
+}));
+
+/**
+ * MerchantApiKeyResponseDto
+ */
+const BackendApiKeySchema = z.looseObject({
+    apiKey: z.string(),
+    secretKey: z.string().nullish(),
+    expiresAt: z.string().nullish(),
+    status: z.string().nullish(),
+});
+
+/**
+ * MerchantActivitySummaryDto
+ */
+const BackendMerchantActivitySchema = z.looseObject({
+    totalTransactions: z.number().nullish(),
+    successfulTransactions: z.number().nullish(),
+    failedTransactions: z.number().nullish(),
+    pendingTransactions: z.number().nullish(),
+    totalDisbursements: z.number().nullish(),
+    lastTransactionAt: z.string().nullish(),
+});
+
+/**
+ * MerchantLookupResponseDto
+ */
+const BackendMerchantLookupSchema = z.looseObject({
+    id: StringLikeSchema,
+    uid: z.string().nullish(),
+    name: z.string().nullish(),
+    code: z.string().nullish(),
+    status: z.string().nullish(),
+});
+
 /**
  * Helper function to transform merchant data from backend format to frontend format
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function transformMerchant(merchant: any) {
+function transformMerchant(merchant: z.infer<typeof BackendMerchantSchema>) {
     // Normalize status to uppercase (ACTIVE, SUSPENDED, INACTIVE)
     let normalizedStatus = merchant.status || merchant.activeStatus || '';
-    if (!normalizedStatus && merchant.active !== undefined) {
+    if (!normalizedStatus && merchant.active != null) {
         normalizedStatus = merchant.active ? 'ACTIVE' : 'INACTIVE';
     }
     // Ensure uppercase
     normalizedStatus = normalizedStatus.toUpperCase();
 
     return {
-        id: merchant.id?.toString() || merchant.id,
+        id: merchant.id,
         uid: merchant.uid,
-        code: merchant.code,
-        name: merchant.name,
-        business_name: merchant.businessName ?? merchant.business_name ?? null,
-        business_registration_number: merchant.businessRegistrationNumber ?? merchant.business_registration_number ?? null,
-        business_address: merchant.businessAddress ?? merchant.business_address ?? null,
-        business_city: merchant.businessCity ?? merchant.business_city ?? null,
-        business_state: merchant.businessState ?? merchant.business_state ?? null,
-        business_postal_code: merchant.businessPostalCode ?? merchant.business_postal_code ?? null,
-        business_country: merchant.businessCountry ?? merchant.business_country ?? null,
-        contact_email: merchant.contactEmail ?? merchant.contact_email ?? null,
-        contact_phone: merchant.contactPhone ?? merchant.contact_phone ?? null,
-        website_url: merchant.websiteUrl ?? merchant.website_url ?? null,
-        merchant_type: merchant.merchantType ?? merchant.merchant_type ?? null,
+        code: merchant.code ?? merchant.merchantCode ?? '',
+        name: merchant.name ?? merchant.merchantName ?? '',
+        business_name: merchant.businessName ?? null,
+        business_registration_number: merchant.businessRegistrationNumber ?? null,
+        business_address: merchant.businessAddress ?? null,
+        business_city: merchant.businessCity ?? null,
+        business_state: merchant.businessState ?? null,
+        business_postal_code: merchant.businessPostalCode ?? null,
+        business_country: merchant.businessCountry ?? null,
+        contact_email: merchant.contactEmail ?? null,
+        contact_phone: merchant.contactPhone ?? null,
+        website_url: merchant.websiteUrl ?? null,
+        merchant_type: merchant.merchantType ?? null,
         status: normalizedStatus || 'ACTIVE',
-        status_reason: merchant.statusReason ?? merchant.status_reason ?? null,
-        merchant_role: merchant.merchantRole ?? merchant.merchant_role ?? null,
-        kyc_verified: merchant.kycVerified ?? merchant.kyc_verified ?? false,
-        kyc_status: merchant.kycStatus ?? merchant.kyc_status ?? null,
-        kyc_notes: merchant.kycNotes ?? merchant.kyc_notes ?? null,
-        kyc_verified_at: merchant.kycVerifiedAt ?? merchant.kyc_verified_at ?? null,
-        kyc_verified_by: merchant.kycVerifiedBy ?? merchant.kyc_verified_by ?? null,
-        single_transaction_limit: merchant.singleTransactionLimit?.toString() ?? merchant.single_transaction_limit ?? null,
-        daily_transaction_limit: merchant.dailyTransactionLimit?.toString() ?? merchant.daily_transaction_limit ?? null,
-        monthly_transaction_limit: merchant.monthlyTransactionLimit?.toString() ?? merchant.monthly_transaction_limit ?? null,
-        parent_merchant_uid: merchant.parentMerchantUid ?? merchant.parent_merchant_uid ?? null,
-        parent_merchant_name: merchant.parentMerchantName ?? merchant.parent_merchant_name ?? null,
-        created_at: merchant.createdAt ?? merchant.created_at ?? null,
-        updated_at: merchant.updatedAt ?? merchant.updated_at ?? null,
+        status_reason: merchant.statusReason ?? null,
+        merchant_role: merchant.merchantRole ?? null,
+        kyc_verified: merchant.kycVerified ?? false,
+        kyc_status: merchant.kycStatus ?? null,
+        kyc_notes: merchant.kycNotes ?? null,
+        kyc_verified_at: merchant.kycVerifiedAt ?? null,
+        kyc_verified_by: merchant.kycVerifiedBy ?? null,
+        single_transaction_limit: merchant.singleTransactionLimit ?? null,
+        daily_transaction_limit: merchant.dailyTransactionLimit ?? null,
+        monthly_transaction_limit: merchant.monthlyTransactionLimit ?? null,
+        parent_merchant_uid: merchant.parentMerchantUid ?? null,
+        parent_merchant_name: merchant.parentMerchantName ?? null,
+        created_at: merchant.createdAt ?? null,
+        updated_at: merchant.updatedAt ?? null,
     };
 }
 
+// Mutations only echo the merchant back; an unexpected body must not fail a change the backend already made
+const MerchantResultSchema = BackendMerchantSchema.transform(transformMerchant).nullish().catch(null);
+
 /**
  * Helper function to transform bank account data from backend format to frontend format
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function transformBankAccount(account: any) {
+function transformBankAccount(account: z.infer<typeof BackendBankAccountSchema>) {
+    const isPrimary = account.primary ?? account.isPrimary ?? false;
+
     return {
         id: account.id ?? account.uid ?? '',
         uid: account.uid ?? account.id ?? '',
-        bank_name: account.bankName ?? account.bank_name ?? '',
-        account_name: account.accountName ?? account.account_name ?? '',
-        account_number: account.accountNumber ?? account.account_number ?? '',
-        bank_code: account.bankCode ?? account.bank_code ?? null,
-        branch_code: account.branchCode ?? account.branch_code ?? null,
-        account_type: account.accountType ?? account.account_type ?? null,
-        swift_code: account.swiftCode ?? account.swift_code ?? null,
+        bank_name: account.bankName ?? '',
+        account_name: account.accountName ?? '',
+        account_number: account.accountNumber ?? '',
+        bank_code: account.bankCode ?? null,
+        branch_code: account.branchCode ?? null,
+        account_type: account.accountType ?? null,
+        swift_code: account.swiftCode ?? null,
         iban: account.iban ?? null,
-        bank_address: account.bankAddress ?? account.bank_address ?? null,
+        bank_address: account.bankAddress ?? null,
         currency: account.currency ?? 'USD',
-        status: account.status ?? (account.isActive !== undefined ? (account.isActive ? 'ACTIVE' : 'INACTIVE') : null),
-        is_active: (account.status === 'ACTIVE' || account.isActive) ?? account.is_active ?? account.active ?? true,
-        primary: account.primary ?? account.isPrimary ?? account.is_primary ?? false,
-        is_primary: account.primary ?? account.isPrimary ?? account.is_primary ?? false,
+        status: account.status ?? (account.isActive != null ? (account.isActive ? 'ACTIVE' : 'INACTIVE') : null),
+        is_active: account.status === 'ACTIVE' || (account.isActive ?? account.active ?? true),
+        primary: isPrimary,
+        is_primary: isPrimary,
         notes: account.notes ?? null,
-        created_at: account.createdAt ?? account.created_at ?? null,
-        updated_at: account.updatedAt ?? account.updated_at ?? null,
+        created_at: account.createdAt ?? null,
+        updated_at: account.updatedAt ?? null,
+    };
+}
+
+/**
+ * Helper function to transform an API key from backend format to frontend format
+ */
+function transformApiKey(key: z.infer<typeof BackendApiKeySchema>) {
+    return {
+        apiKey: key.apiKey,
+        secretKey: key.secretKey || null,
+        expiresAt: key.expiresAt || null,
+        status: key.status || 'ACTIVE',
     };
 }
 
@@ -99,94 +236,60 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            // Build query parameters
-            const queryParams = new URLSearchParams();
-            const allowedParams = [
-                'page',
-                'per_page',
-                'search',
-                'status',
-                'merchantType',
-                'kyc_verified',
-                'sort',
-            ] as const;
-
-            allowedParams.forEach((param) => {
-                const value = input[param];
-                if (value !== null && value !== undefined && value !== '') {
-                    // Backend API uses 'size' instead of 'per_page'
-                    if (param === 'per_page') {
-                        queryParams.set('size', value);
-                    } else {
-                        queryParams.set(param, value);
-                    }
-                }
-            });
+            const { per_page, ...filters } = input;
 
-            // Build the URL with query parameters
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.list}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            // Backend API uses 'size' instead of 'per_page'
+            return ctx.api.getPage(API_ENDPOINTS.merchants.list, {
+                query: { ...filters, size: per_page },
+                schema: BackendMerchantSchema.transform(transformMerchant),
+                errorMessage: 'Failed to fetch merchants',
             });
+        }),
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch merchants',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch merchants',
+    /**
+     * Merchants in one KYC status, paginated over the filtered set.
+     * The backend cannot filter by KYC status, so its merchant pages are walked here and filtered.
+     */
+    kycQueue: protectedProcedure
+        .input(
+            z.object({
+                kycStatus: z.string().min(1, 'KYC status is required'),
+                page: z.number().int().min(0).default(0),
+                size: z.number().int().min(1).max(100).default(15),
+            })
+        )
+        .query(async ({ input, ctx }) => {
+            const kycStatus = input.kycStatus.toUpperCase();
+            const matching: ReturnType<typeof transformMerchant>[] = [];
+            let complete = false;
+
+            for (let backendPage = 0; backendPage < KYC_QUEUE_MAX_PAGES; backendPage++) {
+                const page = await ctx.api.getPage(API_ENDPOINTS.merchants.list, {
+                    query: { page: backendPage, size: KYC_QUEUE_PAGE_SIZE, sort: 'createdAt,asc' },
+                    schema: BackendMerchantSchema.transform(transformMerchant),
+                    errorMessage: 'Failed to fetch merchants',
                 });
-            }
+                matching.push(...page.data.filter((merchant) => merchant.kyc_status?.toUpperCase() === kycStatus));
 
-            const data = await response.json();
-
-            // Transform response
-            if (data.data && Array.isArray(data.data)) {
-                const transformedData = data.data.map(transformMerchant);
-                const backendPageNumber = data.pageNumber ?? parseInt(input.page || '0', 10);
-
-                return {
-                    data: transformedData,
-                    pageNumber: backendPageNumber,
-                    pageSize: data.pageSize ?? parseInt(input.per_page || '15'),
-                    totalElements: data.totalElements ?? transformedData.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedData.length) / (data.pageSize ?? parseInt(input.per_page || '15'))),
-                    last: data.last ?? false,
-                    first: backendPageNumber === 0,
-                };
-            } else if (Array.isArray(data)) {
-                // Legacy format
-                const page = parseInt(input.page || '0', 10);
-                const perPage = parseInt(input.per_page || '15', 10);
-                const transformedData = data.map(transformMerchant);
-
-                return {
-                    data: transformedData,
-                    pageNumber: page,
-                    pageSize: perPage,
-                    totalElements: transformedData.length,
-                    totalPages: 1,
-                    last: true,
-                    first: page === 0,
-                };
-            } else {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
+                if (page.last || backendPage + 1 >= page.totalPages) {
+                    complete = true;
+                    break;
+                }
             }
+
+            const totalPages = Math.ceil(matching.length / input.size);
+            const start = input.page * input.size;
+            return {
+                data: matching.slice(start, start + input.size),
+                pageNumber: input.page,
+                pageSize: input.size,
+                totalElements: matching.length,
+                totalPages,
+                first: input.page === 0,
+                last: input.page + 1 >= totalPages,
+                // False when more merchants exist than were scanned, so the queue may be missing some
+                complete,
+            };
         }),
 
     /**
@@ -195,35 +298,12 @@ export const merchantsRouter = createTRPCRouter({
     getByUid: protectedProcedure
         .input(z.object({ uid: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.getByUid.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.get(API_ENDPOINTS.merchants.getByUid.replace('{uid}', uid), {
+                schema: BackendMerchantSchema.transform(transformMerchant),
+                errorMessage: 'Failed to fetch merchant',
             });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch merchant',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch merchant',
-                });
-            }
-
-            const data = await response.json();
-            const merchant = data.data || data;
-
-            return transformMerchant(merchant);
         }),
 
     /**
@@ -232,77 +312,35 @@ export const merchantsRouter = createTRPCRouter({
     create: protectedProcedure
         .input(CreateMerchantRequestSchema)
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.create}`;
-
-            console.log('Creating merchant with payload:', JSON.stringify(input, null, 2));
-
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(input),
-            });
-
-            const data = await response.json().catch((parseError) => {
-                console.error('Failed to parse response JSON:', parseError);
-                return {};
+            const { data: merchant, message } = await ctx.api.post(API_ENDPOINTS.merchants.create, {
+                body: input,
+                schema: MerchantResultSchema,
+                errorMessage: 'Failed to create merchant',
             });
 
-            console.log('Merchant creation response status:', response.status);
-            console.log('Merchant creation response data:', JSON.stringify(data, null, 2));
-
-            if (!response.ok) {
-                console.error('Merchant creation failed:', {
-                    status: response.status,
-                    statusText: response.statusText,
-                    data: data,
-                });
-
-                // Use appropriate error code based on status
-                // TRPC error codes: PARSE_ERROR, BAD_REQUEST, UNAUTHORIZED, FORBIDDEN, NOT_FOUND, METHOD_NOT_SUPPORTED, TIMEOUT, CONFLICT, PRECONDITION_FAILED, PAYLOAD_TOO_LARGE, UNPROCESSABLE_CONTENT, INTERNAL_SERVER_ERROR
-                let errorCode: 'BAD_REQUEST' | 'INTERNAL_SERVER_ERROR' = 'INTERNAL_SERVER_ERROR';
-                if (response.status >= 400 && response.status < 500) {
-                    if (response.status === 401) {
-                        errorCode = 'BAD_REQUEST';
-                    } else if (response.status === 403) {
-                        errorCode = 'BAD_REQUEST';
-                    } else if (response.status === 404) {
-                        errorCode = 'BAD_REQUEST';
-                    } else {
-                        errorCode = 'BAD_REQUEST';
-                    }
-                }
+            return {
+                message: message || 'Merchant created successfully',
+                merchant,
+            };
+        }),
 
-                throw new TRPCError({
-                    code: errorCode,
-                    message: data.message || data.error || 'Failed to create merchant',
-                });
-            }
+    /**
+     * Update merchant profile details
+     */
+    update: protectedProcedure
+        .input(UpdateMerchantRequestSchema.extend({ uid: z.string() }))
+        .mutation(async ({ input, ctx }) => {
+            const { uid, ...payload } = input;
 
-            // Transform response
-            const merchant = data.data || data;
-            const transformedMerchant = merchant && merchant.id ? {
-                id: merchant.id,
-                uid: merchant.uid,
-                code: merchant.code || merchant.merchantCode,
-                name: merchant.name || merchant.merchantName,
-                type: merchant.type || merchant.merchantType || null,
-                status: merchant.status ?? 'ACTIVE',
-                kyc_verified: merchant.kycVerified ?? merchant.kyc_verified ?? false,
-                email: merchant.email || merchant.contactEmail || null,
-                contact_info: merchant.contactInfo ?? merchant.contact_info ?? merchant.contactPhone ?? null,
-                description: merchant.description ?? null,
-                created_at: merchant.createdAt ?? merchant.created_at ?? null,
-                updated_at: merchant.updatedAt ?? merchant.updated_at ?? null,
-            } : null;
+            const { data: merchant, message } = await ctx.api.put(API_ENDPOINTS.merchants.update.replace('{uid}', uid), {
+                body: payload,
+                schema: MerchantResultSchema,
+                errorMessage: 'Failed to update merchant',
+            });
 
             return {
-                message: data.message || 'Merchant created successfully',
-                merchant: transformedMerchant,
+                message: message || 'Merchant updated successfully',
+                merchant,
             };
         }),
 
@@ -312,30 +350,15 @@ export const merchantsRouter = createTRPCRouter({
     delete: protectedProcedure
         .input(z.object({ uid: z.string() }))
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.delete.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'DELETE',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            const { message } = await ctx.api.delete(API_ENDPOINTS.merchants.delete.replace('{uid}', uid), {
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to delete merchant',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to delete merchant',
-                });
-            }
-
             return {
-                message: data.message || 'Merchant deleted successfully',
+                message: message || 'Merchant deleted successfully',
             };
         }),
 
@@ -353,57 +376,30 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            const queryParams = new URLSearchParams();
-            if (input.q) queryParams.set('q', input.q);
-            if (input.uid) queryParams.set('uid', input.uid);
-            if (input.id) queryParams.set('id', input.id);
-            queryParams.set('page', input.page || '0');
-            queryParams.set('size', input.size || '50');
-
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.lookup}?${queryParams.toString()}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
+            const page = await ctx.api.getPage(API_ENDPOINTS.merchants.lookup, {
+                query: {
+                    ...input,
+                    page: input.page || '0',
+                    size: input.size || '50',
                 },
-                cache: 'no-store',
+                schema: BackendMerchantLookupSchema.transform((merchant) => ({
+                    id: merchant.id,
+                    uid: merchant.uid,
+                    name: merchant.name,
+                    code: merchant.code,
+                    status: merchant.status || null,
+                })),
+                errorMessage: 'Failed to lookup merchants',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to lookup merchants',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to lookup merchants',
-                });
-            }
-
-            const data = await response.json();
-            const merchants = data.data || [];
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const transformedMerchants = merchants.map((merchant: any) => ({
-                id: merchant.id?.toString() || merchant.id,
-                uid: merchant.uid,
-                name: merchant.name,
-                code: merchant.code,
-                status: merchant.status || null,
-            }));
-
             return {
-                data: transformedMerchants,
+                data: page.data,
                 meta: {
-                    pageNumber: data.meta?.pageNumber ?? parseInt(input.page || '0', 10),
-                    pageSize: data.meta?.pageSize ?? parseInt(input.size || '50', 10),
-                    totalElements: data.meta?.totalElements ?? transformedMerchants.length,
-                    totalPages: data.meta?.totalPages ?? Math.ceil((data.meta?.totalElements ?? transformedMerchants.length) / parseInt(input.size || '50', 10)),
-                    last: data.meta?.last ?? true,
+                    pageNumber: page.pageNumber,
+                    pageSize: page.pageSize,
+                    totalElements: page.totalElements,
+                    totalPages: page.totalPages,
+                    last: page.last,
                 },
             };
         }),
@@ -414,34 +410,13 @@ export const merchantsRouter = createTRPCRouter({
     activity: protectedProcedure
         .input(z.object({ uid: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.activity.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            const activity = await ctx.api.get(API_ENDPOINTS.merchants.activity.replace('{uid}', uid), {
+                schema: BackendMerchantActivitySchema,
+                errorMessage: 'Failed to fetch merchant activity',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch merchant activity',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch merchant activity',
-                });
-            }
-
-            const data = await response.json();
-            const activity = data.data || data;
-
             return {
                 totalTransactions: activity.totalTransactions ?? 0,
                 successfulTransactions: activity.successfulTransactions ?? 0,
@@ -464,51 +439,13 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, page = '0', per_page = '15' } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.getApiKeys.replace('{uid}', uid)}?page=${page}&size=${per_page}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.getPage(API_ENDPOINTS.merchants.getApiKeys.replace('{uid}', uid), {
+                query: { page, size: per_page },
+                schema: BackendApiKeySchema.transform(transformApiKey),
+                errorMessage: 'Failed to fetch API keys',
             });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch API keys',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch API keys',
-                });
-            }
-
-            const data = await response.json();
-            const apiKeys = data.data || [];
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const transformedApiKeys = apiKeys.map((key: any) => ({
-                apiKey: key.apiKey,
-                secretKey: key.secretKey || null,
-                expiresAt: key.expiresAt || null,
-                status: key.status || 'ACTIVE',
-            }));
-
-            return {
-                data: transformedApiKeys,
-                pageNumber: data.pageNumber ?? parseInt(page, 10),
-                pageSize: data.pageSize ?? parseInt(per_page, 10),
-                totalElements: data.totalElements ?? transformedApiKeys.length,
-                totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedApiKeys.length) / parseInt(per_page, 10)),
-                last: data.last ?? true,
-                first: data.first ?? (parseInt(page, 10) === 0),
-            };
         }),
 
     /**
@@ -519,44 +456,24 @@ export const merchantsRouter = createTRPCRouter({
             z.object({
                 uid: z.string(),
 
-                body: z.record(z.string(), z.any()).optional(),
+                // MerchantApiKeyCreateRequestDto
+                body: z.object({
+                    validityDays: z.number().int().min(1).max(1095).optional(),
+                }).optional(),
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, body = {} } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.createApiKey.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(body),
+            const { data: apiKey, message } = await ctx.api.post(API_ENDPOINTS.merchants.createApiKey.replace('{uid}', uid), {
+                body,
+                schema: BackendApiKeySchema.transform(transformApiKey),
+                errorMessage: 'Failed to create API key',
             });
 
-            const responseData = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: responseData.message || responseData.error || 'Failed to create API key',
-                });
-            }
-
-            const apiKey = responseData.data || responseData;
-            const transformedApiKey = {
-                apiKey: apiKey.apiKey,
-                secretKey: apiKey.secretKey || null,
-                expiresAt: apiKey.expiresAt || null,
-                status: apiKey.status || 'ACTIVE',
-            };
-
             return {
-                message: responseData.message || 'API key created successfully',
-                data: transformedApiKey,
+                message: message || 'API key created successfully',
+                data: apiKey,
             };
         }),
 
@@ -571,32 +488,17 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, apiKey } = input;
 
             const encodedApiKey = encodeURIComponent(apiKey);
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.revokeApiKey.replace('{uid}', uid).replace('{apiKey}', encodedApiKey)}`;
-
-            const response = await fetch(url, {
-                method: 'DELETE',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            const { data, message } = await ctx.api.delete(API_ENDPOINTS.merchants.revokeApiKey.replace('{uid}', uid).replace('{apiKey}', encodedApiKey), {
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to revoke API key',
             });
 
-            const responseData = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: responseData.message || responseData.error || 'Failed to revoke API key',
-                });
-            }
-
             return {
-                message: responseData.message || 'API key revoked successfully',
-                success: responseData.data ?? true,
+                message: message || 'API key revoked successfully',
+                success: data ?? true,
             };
         }),
 
@@ -612,57 +514,13 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, page = '0', per_page = '15' } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.subMerchants.replace('{uid}', uid)}?page=${page}&size=${per_page}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.getPage(API_ENDPOINTS.merchants.subMerchants.replace('{uid}', uid), {
+                query: { page, size: per_page },
+                schema: BackendMerchantSchema.transform(transformMerchant),
+                errorMessage: 'Failed to fetch sub-merchants',
             });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch sub-merchants',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch sub-merchants',
-                });
-            }
-
-            const data = await response.json();
-            const subMerchants = data.data || [];
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const transformedSubMerchants = subMerchants.map((merchant: any) => ({
-                id: merchant.id?.toString() || merchant.id,
-                uid: merchant.uid,
-                code: merchant.code,
-                name: merchant.name,
-                merchant_type: merchant.merchantType || merchant.merchant_type,
-                status: merchant.status,
-                kyc_verified: merchant.kycVerified ?? merchant.kyc_verified ?? false,
-                contact_email: merchant.contactEmail || merchant.contact_email,
-                created_at: merchant.createdAt || merchant.created_at,
-                updated_at: merchant.updatedAt || merchant.updated_at,
-            }));
-
-            return {
-                data: transformedSubMerchants,
-                pageNumber: data.pageNumber ?? parseInt(page, 10),
-                pageSize: data.pageSize ?? parseInt(per_page, 10),
-                totalElements: data.totalElements ?? transformedSubMerchants.length,
-                totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedSubMerchants.length) / parseInt(per_page, 10)),
-                last: data.last ?? true,
-                first: data.first ?? (parseInt(page, 10) === 0),
-            };
         }),
 
     /**
@@ -677,51 +535,49 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, status, reason = '' } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.updateStatus.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'PATCH',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify({
+            const { data: merchant, message } = await ctx.api.patch(API_ENDPOINTS.merchants.updateStatus.replace('{uid}', uid), {
+                body: {
                     status,
                     reason,
-                }),
+                },
+                schema: MerchantResultSchema,
+                errorMessage: 'Failed to update merchant status',
             });
 
-            const data = await response.json().catch(() => ({}));
+            return {
+                message: message || `Merchant status updated to ${status} successfully`,
+                merchant,
+            };
+        }),
 
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to update merchant status',
-                });
-            }
+    /**
+     * Record a KYC review decision (approve/reject) for a merchant
+     */
+    kycDecision: protectedProcedure
+        .input(
+            z.object({
+                uid: z.string(),
+                decision: z.enum(['APPROVED', 'REJECTED']),
+                reason: z.string().trim().min(1, 'A reason is required').max(500),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const { uid, decision, reason } = input;
 
-            const merchant = data.merchant || data.data || data;
-            const transformedMerchant = merchant && merchant.id ? {
-                id: merchant.id,
-                uid: merchant.uid,
-                code: merchant.code,
-                name: merchant.name,
-                type: merchant.type ?? null,
-                status: merchant.status ?? merchant.activeStatus ?? status,
-                kyc_verified: merchant.kycVerified ?? merchant.kyc_verified ?? false,
-                email: merchant.email ?? null,
-                contact_info: merchant.contactInfo ?? merchant.contact_info ?? null,
-                description: merchant.description ?? null,
-                created_at: merchant.createdAt ?? merchant.created_at ?? null,
-                updated_at: merchant.updatedAt ?? merchant.updated_at ?? null,
-            } : null;
+            const { data: merchant, message } = await ctx.api.post(API_ENDPOINTS.merchants.kycDecision.replace('{uid}', uid), {
+                body: {
+                    status: decision,
+                    notes: reason,
+                },
+                schema: MerchantResultSchema,
+                errorMessage: 'Failed to record KYC decision',
+            });
 
             return {
-                message: data.message || `Merchant status updated to ${status} successfully`,
-                merchant: transformedMerchant,
+                message: message || `KYC ${decision === 'APPROVED' ? 'approved' : 'rejected'} successfully`,
+                merchant,
             };
         }),
 
@@ -736,50 +592,19 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, parentMerchantUid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.updateParent.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'PATCH',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify({
+            const { data: merchant, message } = await ctx.api.patch(API_ENDPOINTS.merchants.updateParent.replace('{uid}', uid), {
+                body: {
                     parentMerchantUid: parentMerchantUid || null,
-                }),
+                },
+                schema: MerchantResultSchema,
+                errorMessage: 'Failed to update merchant parent',
             });
 
-            const responseData = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: responseData.message || responseData.error || 'Failed to update merchant parent',
-                });
-            }
-
-            const merchant = responseData.data || responseData;
-            const transformedMerchant = merchant && merchant.id ? {
-                id: merchant.id?.toString() || merchant.id,
-                uid: merchant.uid,
-                code: merchant.code,
-                name: merchant.name,
-                merchant_type: merchant.merchantType || merchant.merchant_type,
-                status: merchant.status,
-                kyc_verified: merchant.kycVerified ?? merchant.kyc_verified ?? false,
-                contact_email: merchant.contactEmail || merchant.contact_email,
-                parent_merchant_uid: merchant.parentMerchantUid || merchant.parent_merchant_uid,
-                parent_merchant_name: merchant.parentMerchantName || merchant.parent_merchant_name,
-                created_at: merchant.createdAt || merchant.created_at,
-                updated_at: merchant.updatedAt || merchant.updated_at,
-            } : null;
-
             return {
-                message: responseData.message || 'Merchant parent updated successfully',
-                merchant: transformedMerchant,
+                message: message || 'Merchant parent updated successfully',
+                merchant,
             };
         }),
 
@@ -789,36 +614,13 @@ export const merchantsRouter = createTRPCRouter({
     getBankAccounts: protectedProcedure
         .input(z.object({ uid: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.bankAccounts.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            const bankAccounts = await ctx.api.get(API_ENDPOINTS.merchants.bankAccounts.replace('{uid}', uid), {
+                schema: z.array(BackendBankAccountSchema.transform(transformBankAccount)).nullish().transform((accounts) => accounts ?? []),
+                errorMessage: 'Failed to fetch bank accounts',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch bank accounts',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch bank accounts',
-                });
-            }
-
-            const data = await response.json();
-            const bankAccountsRaw = Array.isArray(data) ? data : (data.data || []);
-
-            const bankAccounts = bankAccountsRaw.map(transformBankAccount);
-
             return {
                 data: bankAccounts,
                 total: bankAccounts.length,
@@ -836,39 +638,20 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, bankAccount } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.bankAccounts.replace('{uid}', uid)}`;
-
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(bankAccount),
-                cache: 'no-store',
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.merchants.bankAccounts.replace('{uid}', uid), {
+                body: bankAccount,
+                schema: z.union([z.array(BackendBankAccountSchema), BackendBankAccountSchema]).nullish(),
+                errorMessage: 'Failed to save bank account',
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to save bank account',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to save bank account',
-                });
-            }
-
-            const data = await response.json();
-            const bankAccountsRaw = Array.isArray(data.data) ? data.data : (data.data ? [data.data] : []);
+            const bankAccountsRaw = Array.isArray(data) ? data : (data ? [data] : []);
 
             const transformedBankAccounts = bankAccountsRaw.map(transformBankAccount);
 
             return {
-                message: data.message || 'Bank account saved successfully',
+                message: message || 'Bank account saved successfully',
                 data: transformedBankAccounts.length > 0 ? transformedBankAccounts[0] : null,
             };
         }),
@@ -884,32 +667,19 @@ export const merchantsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { uid, bankAccountUid } = input;
 
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.merchants.deactivateBankAccount
+            const endpoint = API_ENDPOINTS.merchants.deactivateBankAccount
                 .replace('{uid}', uid)
-                .replace('{bankAccountUid}', bankAccountUid)}`;
+                .replace('{bankAccountUid}', bankAccountUid);
 
-            const response = await fetch(url, {
-                method: 'DELETE',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            const { message } = await ctx.api.delete(endpoint, {
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to deactivate bank account',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to deactivate bank account',
-                });
-            }
-
             return {
-                message: data.message || 'Bank account deactivated successfully',
+                message: message || 'Bank account deactivated successfully',
             };
         }),
-});
+});
\ No newline at end of file
@@ -1,9 +1,34 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
+import { toOneBasedPage, type BackendClient } from '../backend-client';
+import { TransactionSummaryResponseSchema, toPeriodSummary } from '../summary';
+import { ArchivePreviewInputSchema, ArchiveRunInputSchema, getArchivePreview, runArchive, type ArchiveEndpoints } from '../archive';
+import { ReferenceLookupInputSchema, findExactReference, orNotFound } from '../lookup';
+import { recordAuditEntry } from '../audit-log';
+import {
+    defineSensitiveAction,
+    runSensitiveAction,
+    withApprovalReference,
+    type ApprovalSubject,
+    type SensitiveActionRegistry,
+} from '../approvals';
+import { API_ENDPOINTS } from '@/lib/config/api';
 import { buildEndpointUrl } from '@/lib/config/endpoints';
-import { CanUpdateResponseSchema } from '@/lib/definitions';
+import { API_TIMEOUT } from '@/lib/config/constants';
+import { CanUpdateResponseSchema, type CanUpdateResponse, type RefundRecord, type RefundSummary, type ReferenceMatch } from '@/lib/definitions';
+import { MAX_STALE_THRESHOLD_MINUTES, toStaleThreshold } from '@/lib/stale-queue';
+import { TRANSACTION_OVERRIDE_STATUSES, getAllowedTransactionTransitions } from '@/lib/transaction-transitions';
+
+/**
+ * Transaction as returned by the backend; fields beyond these are passed through
+ */
+const BackendTransactionSchema = z.looseObject({
+    id: z.union([z.string(), z.number()]),
+    uid: z.string().nullish(),
+    status: z.string().nullish(),
+    amount: z.union([z.string(), z.number()]).nullish(),
+});
 
 /**
  * Helper to convert date to LocalDateTime format for backend
@@ -12,6 +37,687 @@ import { CanUpdateResponseSchema } from '@/lib/definitions';
 const toStartDateTime = (date: string) => `${date}T00:00:00`;
 const toEndDateTime = (date: string) => `${date}T23:59:59`;
 
+/**
+ * Normalize processing history entries (JSON strings, plain strings or objects) into structured objects for the UI
+ */
+function normalizeProcessingHistory(historyData: unknown[]) {
+    // Transform string array into structured objects for the UI
+    const transformedHistory = historyData.map((entry: unknown, index: number) => {
+        const uniqueId = index + 1;
+
+        if (typeof entry === 'string') {
+            // Try to parse as JSON first
+            try {
+                const parsed = JSON.parse(entry);
+                if (typeof parsed === 'object' && parsed !== null) {
+                    const parsedId = parsed.id;
+                    const numericId = typeof parsedId === 'number' ? parsedId :
+                        (typeof parsedId === 'string' && /^\d+$/.test(parsedId) ? parseInt(parsedId, 10) : uniqueId);
+                    return {
+                        id: numericId,
+                        status: parsed.status || 'INFO',
+                        message: parsed.message || entry,
+                        timestamp: parsed.timestamp || new Date().toISOString(),
+                        ...parsed,
+                    };
+                }
+            } catch {
+                // Not JSON, treat as plain text message
+            }
+
+            // Plain string - convert to object
+            return {
+                id: uniqueId,
+                status: 'INFO',
+                message: entry,
+                timestamp: new Date().toISOString(),
+            };
+        }
+
+        // Already an object - ensure it has required fields
+        if (typeof entry === 'object' && entry !== null) {
+            const obj = entry as Record<string, unknown>;
+            const objId = obj.id;
+            const numericId = typeof objId === 'number' ? objId :
+                (typeof objId === 'string' && /^\d+$/.test(objId) ? parseInt(objId, 10) : uniqueId);
+            return {
+                id: numericId,
+                status: 'INFO',
+                timestamp: new Date().toISOString(),
+                ...obj,
+            };
+        }
+
+        // Fallback
+        return {
+            id: uniqueId,
+            status: 'INFO',
+            message: String(entry),
+            timestamp: new Date().toISOString(),
+        };
+    });
+
+    return transformedHistory;
+}
+
+/**
+ * Normalize audit trail entries (JSON strings, "ACTION: details" strings or objects) into structured objects for the UI
+ */
+function normalizeAuditTrail(auditTrailData: unknown[]) {
+    // First pass: Find the first valid timestamp to use as base for synthetic timestamps
+    let foundBaseTimestamp: number | null = null;
+    for (const entry of auditTrailData) {
+        if (typeof entry === 'string') {
+            try {
+                const parsed = JSON.parse(entry);
+                if (typeof parsed === 'object' && parsed !== null && parsed.timestamp) {
+                    const ts = new Date(parsed.timestamp).getTime();
+                    if (!isNaN(ts)) {
+                        foundBaseTimestamp = ts;
+                        break;
+                    }
+                }
+            } catch {
+                // Not JSON or invalid, continue
+            }
+        } else if (typeof entry === 'object' && entry !== null) {
+            const obj = entry as Record<string, unknown>;
+            if (obj.timestamp) {
+                const ts = new Date(obj.timestamp as string).getTime();
+                if (!isNaN(ts)) {
+                    foundBaseTimestamp = ts;
+                    break;
+                }
+            }
+        }
+    }
+    const baseTimestamp = foundBaseTimestamp ?? Date.now();
+
+    // Transform string array into structured objects for the UI
+    const transformedAuditTrail = auditTrailData.map((entry: unknown, index: number) => {
+        const uniqueId = index + 1;
+        const syntheticTimestamp = new Date(baseTimestamp + (index * 1000)).toISOString();
+
+        if (typeof entry === 'string') {
+            // Try to parse as JSON first
+            try {
+                const parsed = JSON.parse(entry);
+                if (typeof parsed === 'object' && parsed !== null) {
+                    const parsedId = parsed.id;
+                    const numericId = typeof parsedId === 'number' ? parsedId :
+                        (typeof parsedId === 'string' && /^\d+$/.test(parsedId) ? parseInt(parsedId, 10) : uniqueId);
+                    const timestamp = parsed.timestamp && !isNaN(new Date(parsed.timestamp).getTime())
+                        ? parsed.timestamp
+                        : syntheticTimestamp;
+                    return {
+                        id: numericId,
+                        action: parsed.action || 'CHANGE',
+                        timestamp,
+                        ...parsed,
+                    };
+                }
+            } catch {
+                // Not JSON, treat as plain text message
+            }
+
+            // Plain string - convert to object
+            // Try to extract action from string format "ACTION: details"
+            const colonIndex = entry.indexOf(':');
+            if (colonIndex > 0 && colonIndex < 50) {
+                const action = entry.substring(0, colonIndex).trim().toUpperCase();
+                const details = entry.substring(colonIndex + 1).trim();
+                return {
+                    id: uniqueId,
+                    action: action || 'CHANGE',
+                    reason: details,
+                    timestamp: syntheticTimestamp,
+                };
+            }
+
+            return {
+                id: uniqueId,
+                action: 'CHANGE',
+                reason: entry,
+                timestamp: syntheticTimestamp,
+            };
+        }
+
+        // Already an object - ensure it has required fields
+        if (typeof entry === 'object' && entry !== null) {
+            const obj = entry as Record<string, unknown>;
+            const objId = obj.id;
+            const numericId = typeof objId === 'number' ? objId :
+                (typeof objId === 'string' && /^\d+$/.test(objId) ? parseInt(objId, 10) : uniqueId);
+            const timestamp = obj.timestamp && typeof obj.timestamp === 'string' && !isNaN(new Date(obj.timestamp).getTime())
+                ? obj.timestamp
+                : syntheticTimestamp;
+            return {
+                id: numericId,
+                action: 'CHANGE',
+                timestamp,
+                ...obj,
+            };
+        }
+
+        // Fallback
+        return {
+            id: uniqueId,
+            action: 'CHANGE',
+            reason: String(entry),
+            timestamp: syntheticTimestamp,
+        };
+    });
+
+    return transformedAuditTrail;
+}
+
+/**
+ * Fetch and normalize the processing history of a transaction
+ */
+async function fetchProcessingHistory(api: BackendClient, transactionUid: string) {
+    const historyData = await api.get(buildEndpointUrl.transactionProcessingHistory(transactionUid), {
+        schema: z.array(z.unknown()).nullish().transform((entries) => entries ?? []),
+        errorMessage: 'Failed to fetch processing history',
+    });
+
+    return normalizeProcessingHistory(historyData);
+}
+
+/**
+ * Fetch and normalize the audit trail of a transaction
+ */
+async function fetchAuditTrail(api: BackendClient, transactionUid: string) {
+    const auditTrailData = await api.get(buildEndpointUrl.transactionAuditTrail(transactionUid), {
+        schema: z.array(z.unknown()).nullish().transform((entries) => entries ?? []),
+        errorMessage: 'Failed to fetch audit trail',
+    });
+
+    return normalizeAuditTrail(auditTrailData);
+}
+
+/**
+ * Map search criteria from the UI (TransactionSearchCriteriaDto fields, or the list filter
+ * names start_date/end_date/amount_min/amount_max/search/sort) to the backend's search criteria
+ */
+function toBackendCriteria(searchCriteria: Record<string, unknown>): Record<string, unknown> {
+    const backendCriteria: Record<string, unknown> = {};
+
+    // Map frontend filter names to backend search criteria
+    if (searchCriteria.searchTerm) {
+        backendCriteria.searchTerm = searchCriteria.searchTerm;
+    }
+    if (searchCriteria.search) {
+        backendCriteria.searchTerm = searchCriteria.search;
+    }
+    if (searchCriteria.status) {
+        backendCriteria.status = searchCriteria.status;
+    }
+    if (Array.isArray(searchCriteria.statuses) && searchCriteria.statuses.length > 0) {
+        backendCriteria.statuses = searchCriteria.statuses;
+    }
+
+    // Date range - convert to LocalDateTime format if needed
+    if (searchCriteria.start_date || searchCriteria.createdFrom) {
+        const startDate = (searchCriteria.createdFrom || searchCriteria.start_date) as string;
+        backendCriteria.createdFrom = startDate.includes('T')
+            ? startDate
+            : `${startDate}T00:00:00`;
+    }
+    if (searchCriteria.end_date || searchCriteria.createdTo) {
+        const endDate = (searchCriteria.createdTo || searchCriteria.end_date) as string;
+        backendCriteria.createdTo = endDate.includes('T')
+            ? endDate
+            : `${endDate}T23:59:59`;
+    }
+
+    // Amount range
+    if (searchCriteria.amount_min || searchCriteria.minAmount) {
+        backendCriteria.minAmount = searchCriteria.minAmount || searchCriteria.amount_min;
+    }
+    if (searchCriteria.amount_max || searchCriteria.maxAmount) {
+        backendCriteria.maxAmount = searchCriteria.maxAmount || searchCriteria.amount_max;
+    }
+
+    // Sorting
+    if (searchCriteria.sortBy) {
+        backendCriteria.sortBy = searchCriteria.sortBy;
+    }
+    if (searchCriteria.sortDirection) {
+        backendCriteria.sortDirection = searchCriteria.sortDirection;
+    }
+    // Handle sort array format from frontend (e.g., ["field,asc"])
+    if (searchCriteria.sort && Array.isArray(searchCriteria.sort) && searchCriteria.sort.length > 0) {
+        const [sortBy, sortDirection] = (searchCriteria.sort[0] as string).split(',');
+        if (sortBy) backendCriteria.sortBy = sortBy;
+        if (sortDirection) backendCriteria.sortDirection = sortDirection.toUpperCase();
+    }
+
+    // Pass through any other valid search criteria fields
+    const passthroughFields = [
+        'internalTransactionId',
+        'externalTransactionId',
+        'merchantTransactionId',
+        'merchantId',
+        'merchantName',
+        'errorCode',
+        'responseCode',
+        'paymentGatewayCode',
+        'paymentGatewayName',
+        'paymentChannelType',
+        'provider',
+        'paymentMethod',
+        'payCode',
+        'currency',
+        'currencies',
+        'customerName',
+        'customerEmail',
+        'customerPhone',
+        'statusUpdatedFrom',
+        'statusUpdatedTo',
+        'accountNumber',
+        'ipAddress',
+        'deviceId',
+        'includeProduction',
+        'includeTest',
+        'includeDisbursements',
+        'includeAuditTrail',
+    ];
+
+    passthroughFields.forEach((field) => {
+        const value = searchCriteria[field];
+        if (value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+            backendCriteria[field] = value;
+        }
+    });
+
+    // Status-updated range - widen plain dates to LocalDateTime like createdFrom/createdTo
+    if (typeof backendCriteria.statusUpdatedFrom === 'string' && !backendCriteria.statusUpdatedFrom.includes('T')) {
+        backendCriteria.statusUpdatedFrom = toStartDateTime(backendCriteria.statusUpdatedFrom);
+    }
+    if (typeof backendCriteria.statusUpdatedTo === 'string' && !backendCriteria.statusUpdatedTo.includes('T')) {
+        backendCriteria.statusUpdatedTo = toEndDateTime(backendCriteria.statusUpdatedTo);
+    }
+
+    return backendCriteria;
+}
+
+/**
+ * Round a currency amount to 2 decimal places
+ */
+const toMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read a positive amount from a number or a decimal string such as "150.00" / "1,500.00"
+ */
+function parseAmount(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value > 0 ? value : null;
+    }
+    if (typeof value !== 'string' || !/^\d+(?:\.\d+)?$/.test(value.trim().replace(/,/g, ''))) {
+        return null;
+    }
+
+    const amount = parseFloat(value.trim().replace(/,/g, ''));
+    return amount > 0 ? amount : null;
+}
+
+/**
+ * Audit trail actions / processing history statuses that record a completed refund.
+ * Failed, rejected or pending refund entries (REFUND_FAILED, REFUND_REJECTED, ...) are not refunds.
+ */
+const COMPLETED_REFUND_MARKERS = new Set([
+    'REFUND',
+    'REFUNDED',
+    'PARTIAL_REFUND',
+    'PARTIALLY_REFUNDED',
+    'REFUND_COMPLETED',
+    'REFUND_SUCCESS',
+    'REFUND_SUCCESSFUL',
+]);
+
+/**
+ * Find completed refunds recorded in normalized audit trail or processing history entries.
+ * The amount is only taken from a refundAmount/amount field (top-level or in metadata); it is
+ * null when the entry has none, rather than guessed from free text.
+ */
+function extractRefunds(entries: Record<string, unknown>[], kind: 'action' | 'status'): RefundRecord[] {
+    return entries.flatMap((entry) => {
+        const marker = String(entry[kind] ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+        if (!COMPLETED_REFUND_MARKERS.has(marker)) {
+            return [];
+        }
+
+        const metadata = (typeof entry.metadata === 'object' && entry.metadata !== null ? entry.metadata : {}) as Record<string, unknown>;
+        const amount = [
+            entry.refundAmount,
+            metadata.refundAmount,
+            entry.amount,
+            metadata.amount,
+        ].reduce<number | null>((found, candidate) => found ?? parseAmount(candidate), null);
+
+        const reason = typeof entry.reason === 'string' ? entry.reason : typeof metadata.reason === 'string' ? metadata.reason : null;
+        const performedBy = typeof entry.performedBy === 'string' ? entry.performedBy : null;
+
+        return [{
+            amount: amount === null ? null : toMoney(amount).toFixed(2),
+            timestamp: String(entry.timestamp),
+            reason,
+            performedBy,
+        }];
+    });
+}
+
+/**
+ * Work out how much of a transaction has already been refunded. Refunds are read from the
+ * audit trail, or from the processing history when the audit trail records none, so the
+ * same refund is never counted twice. The totals are null (unknown) when a refund was
+ * recorded without an amount, unless the transaction is fully refunded.
+ */
+async function getRefundSummary(api: BackendClient, transactionUid: string): Promise<RefundSummary> {
+    const [transaction, auditTrail, processingHistory] = await Promise.all([
+        api.get(buildEndpointUrl.transactionByUid(transactionUid), {
+            schema: BackendTransactionSchema,
+            errorMessage: 'Failed to fetch transaction',
+        }),
+        fetchAuditTrail(api, transactionUid),
+        fetchProcessingHistory(api, transactionUid),
+    ]);
+
+    const auditRefunds = extractRefunds(auditTrail, 'action');
+    const refunds = auditRefunds.length > 0 ? auditRefunds : extractRefunds(processingHistory, 'status');
+
+    const amount = toMoney(parseAmount(transaction.amount) ?? 0);
+    const fullyRefunded = String(transaction.status ?? '').toUpperCase() === 'REFUNDED';
+    const amountsKnown = refunds.every((refund) => refund.amount !== null);
+    const refundedAmount = fullyRefunded
+        ? amount
+        : amountsKnown
+            ? toMoney(refunds.reduce((total, refund) => total + parseFloat(refund.amount ?? '0'), 0))
+            : null;
+
+    return {
+        amount: amount.toFixed(2),
+        currency: typeof transaction.currency === 'string' ? transaction.currency : null,
+        refundedAmount: refundedAmount === null ? null : refundedAmount.toFixed(2),
+        remainingAmount: refundedAmount === null ? null : Math.max(0, toMoney(amount - refundedAmount)).toFixed(2),
+        refunds: refunds.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+    };
+}
+
+/**
+ * Most search results checked for an exact match when looking up a reference
+ */
+const REFERENCE_LOOKUP_LIMIT = 20;
+
+/**
+ * Reference fields a transaction can be looked up by, most specific first
+ */
+const TRANSACTION_REFERENCE_FIELDS = [
+    { field: 'internalTransactionId', label: 'internal transaction ID' },
+    { field: 'externalTransactionId', label: 'external transaction ID' },
+    { field: 'merchantTransactionId', label: 'merchant transaction ID' },
+    { field: 'pspTransactionId', label: 'PSP ID' },
+];
+
+/**
+ * Endpoints behind the archive tool
+ */
+const ARCHIVE_ENDPOINTS: ArchiveEndpoints = {
+    entityName: 'transactions',
+    archive: API_ENDPOINTS.transactions.archive,
+    search: API_ENDPOINTS.transactions.search,
+    countByStatus: buildEndpointUrl.transactionCountByStatus,
+};
+
+/**
+ * Fetch the transaction a money-moving action applies to, with the amount checked against the approval threshold
+ */
+async function fetchActionTransaction(api: BackendClient, transactionUid: string) {
+    if (!transactionUid?.trim()) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Transaction UID is required',
+        });
+    }
+
+    const transaction = await api.get(buildEndpointUrl.transactionByUid(transactionUid), {
+        schema: BackendTransactionSchema,
+        errorMessage: 'Failed to fetch transaction',
+    });
+
+    return {
+        status: transaction.status ?? null,
+        amount: toMoney(parseAmount(transaction.amount) ?? 0),
+        currency: typeof transaction.currency === 'string' ? transaction.currency : null,
+    };
+}
+
+/**
+ * Describe a manual status change of a transaction for the approver
+ */
+async function describeStatusChange(api: BackendClient, transactionUid: string, status: string, reason: string): Promise<ApprovalSubject> {
+    const transaction = await fetchActionTransaction(api, transactionUid);
+
+    return {
+        entityType: 'TRANSACTION',
+        entityUid: transactionUid,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        reason,
+        changes: [{ field: 'Status', before: transaction.status, after: status }],
+    };
+}
+
+/**
+ * Check a refund against the remaining refundable balance
+ */
+async function checkRefundable(api: BackendClient, transactionUid: string, refundAmount: string): Promise<RefundSummary> {
+    const requestedAmount = Number(refundAmount);
+    if (!refundAmount || !Number.isFinite(requestedAmount) || requestedAmount <= 0) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Refund amount must be a positive number',
+        });
+    }
+
+    // An unknown balance is left to the backend's own refund limit
+    const summary = await getRefundSummary(api, transactionUid);
+    if (summary.remainingAmount !== null && toMoney(requestedAmount) > parseFloat(summary.remainingAmount)) {
+        const { currency, remainingAmount } = summary;
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Refund amount exceeds the remaining refundable balance of ${currency ? `${currency} ` : ''}${remainingAmount}`,
+        });
+    }
+
+    return summary;
+}
+
+const cancelTransactionAction = defineSensitiveAction({
+    action: 'TRANSACTION_CANCEL',
+    input: z.object({
+        id: z.string(),
+        reason: z.string().optional(),
+    }),
+    describe: (api, { id, reason = 'Manual cancellation' }) => describeStatusChange(api, id, 'CANCELLED', reason),
+    execute: async (api, { id: transactionUid, reason = 'Manual cancellation' }, approval) => {
+        const { data, message } = await api.post(API_ENDPOINTS.transactions.cancel.replace('{uid}', transactionUid), {
+            query: { reason: withApprovalReference(reason, approval) },
+            schema: BackendTransactionSchema.nullish(),
+            errorMessage: 'Failed to cancel transaction',
+        });
+
+        return {
+            message: message || 'Transaction cancelled successfully',
+            data,
+        };
+    },
+});
+
+const completeTransactionAction = defineSensitiveAction({
+    action: 'TRANSACTION_COMPLETE',
+    input: z.object({
+        id: z.string(),
+        reason: z.string().optional(),
+    }),
+    describe: (api, { id, reason = 'Manual completion' }) => describeStatusChange(api, id, 'SUCCESS', reason),
+    execute: async (api, { id: transactionUid, reason = 'Manual completion' }, approval) => {
+        const { data, message } = await api.post(API_ENDPOINTS.transactions.complete.replace('{uid}', transactionUid), {
+            query: { reason: withApprovalReference(reason, approval) },
+            schema: BackendTransactionSchema.nullish(),
+            errorMessage: 'Failed to complete transaction',
+        });
+
+        return {
+            message: message || 'Transaction completed successfully',
+            data,
+        };
+    },
+});
+
+const refundTransactionAction = defineSensitiveAction({
+    action: 'TRANSACTION_REFUND',
+    input: z.object({
+        id: z.string(),
+        refundAmount: z.string(),
+        reason: z.string().optional(),
+    }),
+    describe: async (api, { id: transactionUid, refundAmount, reason = 'Manual refund' }) => {
+        if (!transactionUid?.trim()) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Transaction UID is required',
+            });
+        }
+
+        const summary = await checkRefundable(api, transactionUid, refundAmount);
+        const amount = toMoney(Number(refundAmount));
+        // Split refunds are checked together: everything refunded so far plus this refund, or the whole
+        // transaction amount when earlier refunds were recorded without an amount
+        const refundedTotal = summary.refundedAmount === null
+            ? parseFloat(summary.amount)
+            : toMoney(parseFloat(summary.refundedAmount) + amount);
+
+        return {
+            entityType: 'TRANSACTION',
+            entityUid: transactionUid,
+            amount,
+            thresholdAmount: refundedTotal,
+            currency: summary.currency,
+            reason,
+            changes: [
+                {
+                    field: 'Refunded amount',
+                    before: summary.refundedAmount,
+                    after: summary.refundedAmount === null ? null : refundedTotal.toFixed(2),
+                },
+                {
+                    field: 'Remaining refundable',
+                    before: summary.remainingAmount,
+                    after: summary.remainingAmount === null
+                        ? null
+                        : Math.max(0, toMoney(parseFloat(summary.remainingAmount) - amount)).toFixed(2),
+                },
+            ],
+        };
+    },
+    execute: async (api, { id: transactionUid, refundAmount, reason = 'Manual refund' }, approval) => {
+        // Other refunds may have been made while the request waited for approval
+        if (approval) {
+            await checkRefundable(api, transactionUid, refundAmount);
+        }
+
+        const { data, message } = await api.post(API_ENDPOINTS.transactions.refund.replace('{uid}', transactionUid), {
+            query: { refundAmount, reason: withApprovalReference(reason, approval) },
+            schema: BackendTransactionSchema.nullish(),
+            errorMessage: 'Failed to refund transaction',
+        });
+
+        return {
+            message: message || 'Transaction refunded successfully',
+            data,
+        };
+    },
+});
+
+/**
+ * Ask the backend whether a transaction can be updated; it returns data: boolean, some versions { canUpdate, reason }
+ */
+async function fetchCanUpdate(api: BackendClient, transactionUid: string): Promise<CanUpdateResponse> {
+    const data = await api.get(buildEndpointUrl.transactionCanUpdate(transactionUid), {
+        schema: z.union([z.boolean(), CanUpdateResponseSchema]),
+        errorMessage: 'Failed to check if transaction can be updated',
+    });
+
+    return typeof data === 'boolean' ? CanUpdateResponseSchema.parse({ canUpdate: data }) : data;
+}
+
+/**
+ * Reject manual status changes the backend's canUpdate answer does not allow
+ */
+async function assertTransactionTransition(api: BackendClient, transactionUid: string, status: string) {
+    const [transaction, canUpdate] = await Promise.all([
+        fetchActionTransaction(api, transactionUid),
+        fetchCanUpdate(api, transactionUid),
+    ]);
+    if (!canUpdate.canUpdate) {
+        throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: canUpdate.reason || 'This transaction cannot be updated',
+        });
+    }
+
+    const currentStatus = transaction.status ?? '';
+    const allowed = getAllowedTransactionTransitions(currentStatus, canUpdate.allowedActions);
+    if (!allowed.some((target) => target === status)) {
+        throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: allowed.length > 0
+                ? `A ${currentStatus} transaction can only be set to ${allowed.join(', ')}`
+                : `A ${currentStatus} transaction cannot be set to another status manually`,
+        });
+    }
+}
+
+const updateTransactionStatusAction = defineSensitiveAction({
+    action: 'TRANSACTION_UPDATE_STATUS',
+    input: z.object({
+        id: z.string(),
+        status: z.enum(TRANSACTION_OVERRIDE_STATUSES, 'Select a valid status'),
+        reason: z.string().trim().min(1, 'Reason is required'),
+        responseCode: z.string().optional(),
+        externalTransactionId: z.string().optional(),
+        sendCallback: z.boolean().default(false),
+        metadata: z.record(z.string(), z.string()).optional(),
+    }),
+    describe: (api, { id, status, reason }) => describeStatusChange(api, id, status, reason),
+    execute: async (api, { id: transactionUid, ...statusUpdate }, approval) => {
+        await assertTransactionTransition(api, transactionUid, statusUpdate.status);
+
+        // TransactionStatusUpdateDto
+        const { data, message } = await api.put(buildEndpointUrl.updateTransactionStatus(transactionUid), {
+            body: { ...statusUpdate, reason: withApprovalReference(statusUpdate.reason, approval) },
+            schema: BackendTransactionSchema.nullish(),
+            errorMessage: 'Failed to update transaction status',
+        });
+
+        return {
+            message: message || `Transaction status set to ${statusUpdate.status}`,
+            data,
+        };
+    },
+});
+
+/**
+ * Transaction actions that are held for approval above the threshold, by approval action
+ */
+export const transactionSensitiveActions: SensitiveActionRegistry = {
+    TRANSACTION_CANCEL: cancelTransactionAction,
+    TRANSACTION_COMPLETE: completeTransactionAction,
+    TRANSACTION_REFUND: refundTransactionAction,
+    TRANSACTION_UPDATE_STATUS: updateTransactionStatusAction,
+};
+
 export const transactionsRouter = createTRPCRouter({
     /**
      * List transactions with pagination and filtering
@@ -31,8 +737,6 @@ export const transactionsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
             // Build query parameters for the backend
             const queryParams = new URLSearchParams();
 
@@ -87,70 +791,11 @@ export const transactionsRouter = createTRPCRouter({
                 if (input.amount_max) queryParams.set('maxAmount', input.amount_max);
             }
 
-            // Build the URL with query parameters
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${endpoint}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
-            });
-
-            console.log('Transaction Response', response);
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch transactions',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch transactions',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle response format from backend
-            if (data.data && Array.isArray(data.data)) {
-                // Backend uses 0-based pagination, convert to 1-based for frontend
-                const backendPageNumber = data.pageNumber ?? 0;
-                const requestedPerPage = parseInt(input.per_page || '15', 10);
-
-                return {
-                    data: data.data,
-                    pageNumber: backendPageNumber + 1, // Convert to 1-based
-                    pageSize: data.pageSize ?? requestedPerPage,
-                    totalElements: data.totalElements ?? data.data.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? data.data.length) / (data.pageSize ?? requestedPerPage)),
-                    last: data.last ?? false,
-                    first: backendPageNumber === 0,
-                };
-            } else if (Array.isArray(data)) {
-                // Backend returned just an array (legacy format)
-                const requestedPage = parseInt(input.page || '1', 10);
-                const requestedPerPage = parseInt(input.per_page || '15', 10);
-
-                return {
-                    data: data,
-                    pageNumber: requestedPage,
-                    pageSize: requestedPerPage,
-                    totalElements: data.length,
-                    totalPages: 1,
-                    last: true,
-                    first: requestedPage === 1,
-                };
-            } else {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
-            }
+            return toOneBasedPage(await ctx.api.getPage(endpoint, {
+                query: queryParams,
+                schema: BackendTransactionSchema,
+                errorMessage: 'Failed to fetch transactions',
+            }));
         }),
 
     /**
@@ -159,7 +804,6 @@ export const transactionsRouter = createTRPCRouter({
     getByUid: protectedProcedure
         .input(z.object({ id: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: uid } = input;
 
             if (!uid?.trim()) {
@@ -169,41 +813,49 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL with transaction UID
-            const endpoint = API_ENDPOINTS.transactions.getByUid.replace('{uid}', uid);
-            const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.get(API_ENDPOINTS.transactions.getByUid.replace('{uid}', uid), {
+                schema: BackendTransactionSchema,
+                errorMessage: 'Failed to fetch transaction',
             });
+        }),
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch transaction',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch transaction',
-                });
+    /**
+     * Resolve a reference quoted to support (uid, internal, external, merchant or PSP ID) to a transaction
+     */
+    lookup: protectedProcedure
+        .input(ReferenceLookupInputSchema)
+        .query(async ({ input, ctx }): Promise<ReferenceMatch | null> => {
+            const { reference } = input;
+
+            const byUid = await orNotFound(ctx.api.get(buildEndpointUrl.transactionByUid(reference), {
+                schema: BackendTransactionSchema,
+                errorMessage: 'Failed to fetch transaction',
+            }));
+            if (byUid?.uid) {
+                return { uid: byUid.uid, matchedBy: 'transaction ID' };
             }
 
-            const data = await response.json();
-
-            // Normalize the transaction data (handle wrapped responses)
-            const transactionData = data.data || data;
-
-            return transactionData;
+            // Only internal IDs have an exists check; it saves a search for references that are one
+            const exists = await orNotFound(ctx.api.get(buildEndpointUrl.transactionExists(reference), {
+                schema: z.boolean(),
+                errorMessage: 'Failed to check transaction reference',
+            }));
+
+            // Search endpoints match partially, so look for an exact match among the results
+            const { data } = await ctx.api.postPage(API_ENDPOINTS.transactions.search, {
+                body: {
+                    ...(exists ? { internalTransactionId: reference } : { searchTerm: reference }),
+                    page: 0,
+                    size: REFERENCE_LOOKUP_LIMIT,
+                },
+                schema: BackendTransactionSchema,
+                errorMessage: 'Failed to search transactions',
+            });
+            return findExactReference(data, reference, TRANSACTION_REFERENCE_FIELDS);
         }),
 
     /**
-     * Search transactions using advanced criteria
+     * Search transactions using advanced criteria (POST, so every filter is applied together)
      */
     search: protectedProcedure
         .input(
@@ -216,14 +868,10 @@ export const transactionsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { searchCriteria = {}, page, per_page } = input;
 
-            // Build the URL for search endpoint
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.search}`;
-
             // Build request body with pagination if provided
-            const requestBody: Record<string, unknown> = { ...searchCriteria };
+            const requestBody = toBackendCriteria(searchCriteria);
 
             // Add pagination to request body if provided
             if (page) {
@@ -234,64 +882,11 @@ export const transactionsRouter = createTRPCRouter({
                 requestBody.size = parseInt(per_page, 10);
             }
 
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(requestBody),
-                cache: 'no-store',
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to search transactions',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to search transactions',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle response format - backend returns paginated response
-            if (data.data && Array.isArray(data.data)) {
-                const backendPageNumber = data.pageNumber ?? 0;
-                const requestedPerPage = parseInt(per_page || '15', 10);
-
-                return {
-                    data: data.data,
-                    pageNumber: backendPageNumber + 1, // Convert to 1-based
-                    pageSize: data.pageSize ?? requestedPerPage,
-                    totalElements: data.totalElements ?? data.data.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? data.data.length) / (data.pageSize ?? requestedPerPage)),
-                    last: data.last ?? false,
-                    first: backendPageNumber === 0,
-                };
-            } else if (Array.isArray(data)) {
-                // Backend returned just an array (legacy format)
-                const requestedPage = parseInt(page || '1', 10);
-                const requestedPerPage = parseInt(per_page || '15', 10);
-
-                return {
-                    data: data,
-                    pageNumber: requestedPage,
-                    pageSize: requestedPerPage,
-                    totalElements: data.length,
-                    totalPages: 1,
-                    last: true,
-                    first: requestedPage === 1,
-                };
-            } else {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
-            }
+            return toOneBasedPage(await ctx.api.postPage(API_ENDPOINTS.transactions.search, {
+                body: requestBody,
+                schema: BackendTransactionSchema,
+                errorMessage: 'Failed to search transactions',
+            }));
         }),
 
     /**
@@ -307,7 +902,6 @@ export const transactionsRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { start_date, end_date, merchantId, gatewayId } = input;
 
             // Validate required parameters
@@ -318,44 +912,47 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build backend API URL
-            const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.dailyStats}`);
-            url.searchParams.set('startDate', toStartDateTime(start_date));
-            url.searchParams.set('endDate', toEndDateTime(end_date));
-
-            // Optional filters
-            if (merchantId) {
-                url.searchParams.set('merchantId', merchantId);
-            }
-            if (gatewayId) {
-                url.searchParams.set('gatewayId', gatewayId);
-            }
-
-            // Fetch from backend API
-            const response = await fetch(url.toString(), {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
+            return ctx.api.get(API_ENDPOINTS.transactions.dailyStats, {
+                query: {
+                    startDate: toStartDateTime(start_date),
+                    endDate: toEndDateTime(end_date),
+                    merchantId,
+                    gatewayId,
                 },
-                cache: 'no-store',
+                schema: z.array(TransactionSummaryResponseSchema).nullish().transform((stats) => stats ?? []),
+                errorMessage: 'Failed to fetch volume stats',
             });
+        }),
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch volume stats',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch volume stats',
-                });
-            }
-
-            const data = await response.json();
+    /**
+     * Summary report for a period: totals, rates and hourly, daily, gateway and top merchant breakdowns
+     */
+    summary: protectedProcedure
+        .input(
+            z.object({
+                startDate: z.string().min(1, 'startDate is required'),
+                endDate: z.string().min(1, 'endDate is required'),
+            })
+        )
+        .query(async ({ input, ctx }) => {
+            // TransactionSearchCriteriaDto
+            const { data } = await ctx.api.post(API_ENDPOINTS.transactions.summary, {
+                body: {
+                    createdFrom: toStartDateTime(input.startDate),
+                    createdTo: toEndDateTime(input.endDate),
+                },
+                schema: TransactionSummaryResponseSchema,
+                errorMessage: 'Failed to fetch transaction summary',
+                timeoutMs: API_TIMEOUT.LONG_MS,
+            });
 
-            // Return the response data
-            return data;
+            return toPeriodSummary(data, {
+                total: data.totalTransactions,
+                successful: data.successfulTransactions,
+                failed: data.failedTransactions,
+                pending: data.pendingTransactions,
+                cancelled: data.cancelledTransactions,
+            }, input);
         }),
 
     /**
@@ -370,7 +967,6 @@ export const transactionsRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { format, searchCriteria = {} } = input;
 
             // Map format to backend endpoint
@@ -379,130 +975,17 @@ export const transactionsRouter = createTRPCRouter({
                 excel: API_ENDPOINTS.transactions.exportExcel,
             };
 
-            // Build search criteria for backend
-            const backendCriteria: Record<string, unknown> = {};
-
-            // Map frontend filter names to backend search criteria
-            if (searchCriteria.searchTerm) {
-                backendCriteria.searchTerm = searchCriteria.searchTerm;
-            }
-            if (searchCriteria.search) {
-                backendCriteria.searchTerm = searchCriteria.search;
-            }
-            if (searchCriteria.status) {
-                backendCriteria.status = searchCriteria.status;
-            }
-            if (searchCriteria.statuses && Array.isArray(searchCriteria.statuses)) {
-                backendCriteria.statuses = searchCriteria.statuses;
-            }
-
-            // Date range - convert to LocalDateTime format if needed
-            if (searchCriteria.start_date || searchCriteria.createdFrom) {
-                const startDate = (searchCriteria.createdFrom || searchCriteria.start_date) as string;
-                backendCriteria.createdFrom = startDate.includes('T')
-                    ? startDate
-                    : `${startDate}T00:00:00`;
-            }
-            if (searchCriteria.end_date || searchCriteria.createdTo) {
-                const endDate = (searchCriteria.createdTo || searchCriteria.end_date) as string;
-                backendCriteria.createdTo = endDate.includes('T')
-                    ? endDate
-                    : `${endDate}T23:59:59`;
-            }
+            const backendCriteria = toBackendCriteria(searchCriteria);
 
-            // Amount range
-            if (searchCriteria.amount_min || searchCriteria.minAmount) {
-                backendCriteria.minAmount = searchCriteria.minAmount || searchCriteria.amount_min;
-            }
-            if (searchCriteria.amount_max || searchCriteria.maxAmount) {
-                backendCriteria.maxAmount = searchCriteria.maxAmount || searchCriteria.amount_max;
-            }
-
-            // Sorting
-            if (searchCriteria.sortBy) {
-                backendCriteria.sortBy = searchCriteria.sortBy;
-            }
-            if (searchCriteria.sortDirection) {
-                backendCriteria.sortDirection = searchCriteria.sortDirection;
-            }
-            // Handle sort array format from frontend (e.g., ["field,asc"])
-            if (searchCriteria.sort && Array.isArray(searchCriteria.sort) && searchCriteria.sort.length > 0) {
-                const [sortBy, sortDirection] = (searchCriteria.sort[0] as string).split(',');
-                if (sortBy) backendCriteria.sortBy = sortBy;
-                if (sortDirection) backendCriteria.sortDirection = sortDirection.toUpperCase();
-            }
-
-            // Pass through any other valid search criteria fields
-            const passthroughFields = [
-                'internalTransactionId',
-                'externalTransactionId',
-                'merchantTransactionId',
-                'merchantId',
-                'merchantName',
-                'errorCode',
-                'responseCode',
-                'paymentGatewayCode',
-                'paymentGatewayName',
-                'paymentChannelType',
-                'provider',
-                'paymentMethod',
-                'payCode',
-                'currency',
-                'currencies',
-                'customerName',
-                'customerEmail',
-                'customerPhone',
-                'statusUpdatedFrom',
-                'statusUpdatedTo',
-                'accountNumber',
-                'ipAddress',
-                'deviceId',
-                'includeProduction',
-                'includeTest',
-                'includeDisbursements',
-                'includeAuditTrail',
-            ];
-
-            passthroughFields.forEach((field) => {
-                if (searchCriteria[field] !== undefined && searchCriteria[field] !== null && searchCriteria[field] !== '') {
-                    backendCriteria[field] = searchCriteria[field];
-                }
-            });
-
-            // Build the backend URL
-            const backendEndpoint = FORMAT_ENDPOINT_MAP[format];
-            const url = `${API_CONFIG.baseURL}${backendEndpoint}`;
-
-            // Fetch from backend API using POST
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(backendCriteria),
-                cache: 'no-store',
+            // Fetch the file from the backend using POST
+            const file = await ctx.api.download(FORMAT_ENDPOINT_MAP[format], {
+                body: backendCriteria,
+                errorMessage: 'Failed to export transactions',
+                timeoutMs: API_TIMEOUT.LONG_MS,
             });
 
-            if (!response.ok) {
-                // Try to parse error response as JSON, fallback to text
-                const errorData = await response.json().catch(async () => {
-                    const text = await response.text().catch(() => '');
-                    return { message: text || response.statusText || 'Failed to export transactions' };
-                });
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to export transactions',
-                });
-            }
-
-            // Get the file content as blob
-            const blob = await response.blob();
-
-            // Convert blob to base64 for tRPC transport
-            const arrayBuffer = await blob.arrayBuffer();
-            const base64 = Buffer.from(arrayBuffer).toString('base64');
+            // Convert to base64 for tRPC transport
+            const base64 = file.content.toString('base64');
 
             // Map format to Content-Type
             const FORMAT_CONTENT_TYPE_MAP: Record<'csv' | 'excel', string> = {
@@ -533,7 +1016,6 @@ export const transactionsRouter = createTRPCRouter({
     retry: protectedProcedure
         .input(z.object({ id: z.string() }))
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: transactionUid } = input;
 
             if (!transactionUid?.trim()) {
@@ -543,149 +1025,46 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL for retry endpoint with reason as query param
-            const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.retry.replace('{uid}', transactionUid)}`);
-            // Add reason as query parameter (may be required by backend)
-            url.searchParams.set('reason', 'Manual retry');
-
-            // Call backend API to retry transaction
-            const response = await fetch(url.toString(), {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.transactions.retry.replace('{uid}', transactionUid), {
+                query: { reason: 'Manual retry' },
+                schema: BackendTransactionSchema.nullish(),
+                errorMessage: 'Failed to retry transaction',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to retry transaction',
-                });
-            }
-
             return {
-                message: data.message || 'Transaction retry initiated successfully',
-                data: data.data || data,
+                message: message || 'Transaction retry initiated successfully',
+                data,
             };
         }),
 
     /**
-     * Cancel a pending/processing transaction
+     * Cancel a pending/processing transaction; held for approval above the threshold
      */
     cancel: protectedProcedure
-        .input(
-            z.object({
-                id: z.string(),
-                reason: z.string().optional(),
-            })
-        )
-        .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-            const { id: transactionUid, reason = 'Manual cancellation' } = input;
-
-            if (!transactionUid?.trim()) {
-                throw new TRPCError({
-                    code: 'BAD_REQUEST',
-                    message: 'Transaction UID is required',
-                });
-            }
-
-            // Build the URL for cancel endpoint with reason as query param
-            const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.cancel.replace('{uid}', transactionUid)}`);
-            // Add reason as query parameter (required by backend)
-            url.searchParams.set('reason', reason);
-
-            // Call backend API to cancel transaction
-            const response = await fetch(url.toString(), {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-            });
-
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to cancel transaction',
-                });
-            }
-
-            return {
-                message: data.message || 'Transaction cancelled successfully',
-                data: data.data || data,
-            };
-        }),
+        .input(cancelTransactionAction.input)
+        .mutation(({ input, ctx }) => runSensitiveAction(ctx, cancelTransactionAction, input)),
 
     /**
-     * Manually complete a pending/processing transaction
+     * Manually complete a pending/processing transaction; held for approval above the threshold
      */
     complete: protectedProcedure
-        .input(
-            z.object({
-                id: z.string(),
-                reason: z.string().optional(),
-            })
-        )
-        .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-            const { id: transactionUid, reason = 'Manual completion' } = input;
-
-            if (!transactionUid?.trim()) {
-                throw new TRPCError({
-                    code: 'BAD_REQUEST',
-                    message: 'Transaction UID is required',
-                });
-            }
-
-            // Build the URL for complete endpoint with reason as query param
-            const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.complete.replace('{uid}', transactionUid)}`);
-            // Add reason as query parameter (required by backend)
-            url.searchParams.set('reason', reason);
-
-            // Call backend API to complete transaction
-            const response = await fetch(url.toString(), {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-            });
-
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to complete transaction',
-                });
-            }
-
-            return {
-                message: data.message || 'Transaction completed successfully',
-                data: data.data || data,
-            };
-        }),
+        .input(completeTransactionAction.input)
+        .mutation(({ input, ctx }) => runSensitiveAction(ctx, completeTransactionAction, input)),
 
     /**
-     * Refund a successful transaction
+     * Refund a successful transaction; held for approval when the refund is above the threshold
      */
     refund: protectedProcedure
-        .input(
-            z.object({
-                id: z.string(),
-                refundAmount: z.string(),
-                reason: z.string().optional(),
-            })
-        )
-        .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-            const { id: transactionUid, refundAmount, reason = 'Manual refund' } = input;
+        .input(refundTransactionAction.input)
+        .mutation(({ input, ctx }) => runSensitiveAction(ctx, refundTransactionAction, input)),
+
+    /**
+     * Get the refundable balance and refunds already made for a transaction
+     */
+    refundSummary: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .query(async ({ input, ctx }) => {
+            const { id: transactionUid } = input;
 
             if (!transactionUid?.trim()) {
                 throw new TRPCError({
@@ -694,50 +1073,22 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            if (!refundAmount) {
-                throw new TRPCError({
-                    code: 'BAD_REQUEST',
-                    message: 'Refund amount is required',
-                });
-            }
-
-            // Build the URL for refund endpoint with query params
-            const url = new URL(`${API_CONFIG.baseURL}${API_ENDPOINTS.transactions.refund.replace('{uid}', transactionUid)}`);
-            // Add required query parameters
-            url.searchParams.set('refundAmount', refundAmount);
-            url.searchParams.set('reason', reason);
-
-            // Call backend API to refund transaction
-            const response = await fetch(url.toString(), {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-            });
-
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to refund transaction',
-                });
-            }
-
-            return {
-                message: data.message || 'Transaction refunded successfully',
-                data: data.data || data,
-            };
+            return getRefundSummary(ctx.api, transactionUid);
         }),
 
+    /**
+     * Manually override a transaction's status (e.g. to settle a dispute with the PSP); held for approval above the threshold
+     */
+    updateStatus: protectedProcedure
+        .input(updateTransactionStatusAction.input)
+        .mutation(({ input, ctx }) => runSensitiveAction(ctx, updateTransactionStatusAction, input)),
+
     /**
      * Check if a transaction can be updated
      */
     canUpdate: protectedProcedure
         .input(z.object({ id: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: transactionUid } = input;
 
             if (!transactionUid?.trim()) {
@@ -747,44 +1098,7 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL for can-update endpoint
-            const endpoint = buildEndpointUrl.transactionCanUpdate(transactionUid);
-            const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to check if transaction can be updated',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to check if transaction can be updated',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle wrapped responses
-            // Backend returns { status, statusCode, message, data: boolean }
-            // Transform boolean to CanUpdateResponse format
-            const canUpdateData = typeof data?.data === 'boolean'
-                ? { canUpdate: data.data }
-                : (data?.data || data);
-
-            // Validate and parse the response
-            const parsed = CanUpdateResponseSchema.parse(canUpdateData);
-
-            return parsed;
+            return fetchCanUpdate(ctx.api, transactionUid);
         }),
 
     /**
@@ -793,7 +1107,6 @@ export const transactionsRouter = createTRPCRouter({
     processingHistory: protectedProcedure
         .input(z.object({ id: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: transactionUid } = input;
 
             if (!transactionUid?.trim()) {
@@ -803,93 +1116,7 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL for processing history endpoint
-            const endpoint = buildEndpointUrl.transactionProcessingHistory(transactionUid);
-            const url = `${API_CONFIG.baseURL}${endpoint}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch processing history',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch processing history',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle both array and wrapped responses
-            const historyData = Array.isArray(data) ? data : (data?.data || []);
-
-            // Transform string array into structured objects for the UI
-            const transformedHistory = historyData.map((entry: unknown, index: number) => {
-                const uniqueId = index + 1;
-
-                if (typeof entry === 'string') {
-                    // Try to parse as JSON first
-                    try {
-                        const parsed = JSON.parse(entry);
-                        if (typeof parsed === 'object' && parsed !== null) {
-                            const parsedId = parsed.id;
-                            const numericId = typeof parsedId === 'number' ? parsedId :
-                                (typeof parsedId === 'string' && /^\d+$/.test(parsedId) ? parseInt(parsedId, 10) : uniqueId);
-                            return {
-                                id: numericId,
-                                status: parsed.status || 'INFO',
-                                message: parsed.message || entry,
-                                timestamp: parsed.timestamp || new Date().toISOString(),
-                                ...parsed,
-                            };
-                        }
-                    } catch {
-                        // Not JSON, treat as plain text message
-                    }
-
-                    // Plain string - convert to object
-                    return {
-                        id: uniqueId,
-                        status: 'INFO',
-                        message: entry,
-                        timestamp: new Date().toISOString(),
-                    };
-                }
-
-                // Already an object - ensure it has required fields
-                if (typeof entry === 'object' && entry !== null) {
-                    const obj = entry as Record<string, unknown>;
-                    const objId = obj.id;
-                    const numericId = typeof objId === 'number' ? objId :
-                        (typeof objId === 'string' && /^\d+$/.test(objId) ? parseInt(objId, 10) : uniqueId);
-                    return {
-                        id: numericId,
-                        status: 'INFO',
-                        timestamp: new Date().toISOString(),
-                        ...obj,
-                    };
-                }
-
-                // Fallback
-                return {
-                    id: uniqueId,
-                    status: 'INFO',
-                    message: String(entry),
-                    timestamp: new Date().toISOString(),
-                };
-            });
-
-            return transformedHistory;
+            return fetchProcessingHistory(ctx.api, transactionUid);
         }),
 
     /**
@@ -898,7 +1125,6 @@ export const transactionsRouter = createTRPCRouter({
     auditTrail: protectedProcedure
         .input(z.object({ id: z.string() }))
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
             const { id: transactionUid } = input;
 
             if (!transactionUid?.trim()) {
@@ -908,140 +1134,71 @@ export const transactionsRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL for audit trail endpoint
-            const endpoint = buildEndpointUrl.transactionAuditTrail(transactionUid);
-            const url = `${API_CONFIG.baseURL}${endpoint}`;
+            return fetchAuditTrail(ctx.api, transactionUid);
+        }),
 
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+    /**
+     * List transactions stuck in PENDING/PROCESSING for longer than the threshold
+     */
+    stale: protectedProcedure
+        .input(z.object({ thresholdMinutes: z.number().int().min(1).max(MAX_STALE_THRESHOLD_MINUTES) }))
+        .query(async ({ input, ctx }) => {
+            return ctx.api.get(API_ENDPOINTS.transactions.stale, {
+                query: { staleThreshold: toStaleThreshold(input.thresholdMinutes) },
+                schema: z.array(BackendTransactionSchema).nullish().transform((data) => data ?? []),
+                errorMessage: 'Failed to fetch stale transactions',
             });
+        }),
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch audit trail',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch audit trail',
-                });
-            }
-
-            const data = await response.json();
-
-            // Handle both array and wrapped responses
-            const auditTrailData = Array.isArray(data) ? data : (data?.data || []);
-
-            // First pass: Find the first valid timestamp to use as base for synthetic timestamps
-            let foundBaseTimestamp: number | null = null;
-            for (const entry of auditTrailData) {
-                if (typeof entry === 'string') {
-                    try {
-                        const parsed = JSON.parse(entry);
-                        if (typeof parsed === 'object' && parsed !== null && parsed.timestamp) {
-                            const ts = new Date(parsed.timestamp).getTime();
-                            if (!isNaN(ts)) {
-                                foundBaseTimestamp = ts;
-                                break;
-                            }
-                        }
-                    } catch {
-                        // Not JSON or invalid, continue
-                    }
-                } else if (typeof entry === 'object' && entry !== null) {
-                    const obj = entry as Record<string, unknown>;
-                    if (obj.timestamp) {
-                        const ts = new Date(obj.timestamp as string).getTime();
-                        if (!isNaN(ts)) {
-                            foundBaseTimestamp = ts;
-                            break;
-                        }
-                    }
-                }
-            }
-            const baseTimestamp = foundBaseTimestamp ?? Date.now();
-
-            // Transform string array into structured objects for the UI
-            const transformedAuditTrail = auditTrailData.map((entry: unknown, index: number) => {
-                const uniqueId = index + 1;
-                const syntheticTimestamp = new Date(baseTimestamp + (index * 1000)).toISOString();
-
-                if (typeof entry === 'string') {
-                    // Try to parse as JSON first
-                    try {
-                        const parsed = JSON.parse(entry);
-                        if (typeof parsed === 'object' && parsed !== null) {
-                            const parsedId = parsed.id;
-                            const numericId = typeof parsedId === 'number' ? parsedId :
-                                (typeof parsedId === 'string' && /^\d+$/.test(parsedId) ? parseInt(parsedId, 10) : uniqueId);
-                            const timestamp = parsed.timestamp && !isNaN(new Date(parsed.timestamp).getTime())
-                                ? parsed.timestamp
-                                : syntheticTimestamp;
-                            return {
-                                id: numericId,
-                                action: parsed.action || 'CHANGE',
-                                timestamp,
-                                ...parsed,
-                            };
-                        }
-                    } catch {
-                        // Not JSON, treat as plain text message
-                    }
+    /**
+     * Mark every transaction stale for longer than the threshold as failed.
+     * The backend returns the number of transactions processed; the run is then written to the audit log.
+     */
+    processStale: protectedProcedure
+        .input(
+            z.object({
+                thresholdMinutes: z.number().int().min(1).max(MAX_STALE_THRESHOLD_MINUTES),
+                reason: z.string().trim().min(1, 'Reason is required'),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const staleThreshold = toStaleThreshold(input.thresholdMinutes);
 
-                    // Plain string - convert to object
-                    // Try to extract action from string format "ACTION: details"
-                    const colonIndex = entry.indexOf(':');
-                    if (colonIndex > 0 && colonIndex < 50) {
-                        const action = entry.substring(0, colonIndex).trim().toUpperCase();
-                        const details = entry.substring(colonIndex + 1).trim();
-                        return {
-                            id: uniqueId,
-                            action: action || 'CHANGE',
-                            reason: details,
-                            timestamp: syntheticTimestamp,
-                        };
-                    }
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.transactions.processStale, {
+                query: { staleThreshold },
+                schema: z.number().nullish().transform((count) => count ?? 0),
+                errorMessage: 'Failed to process stale transactions',
+                timeoutMs: API_TIMEOUT.LONG_MS,
+            });
 
-                    return {
-                        id: uniqueId,
-                        action: 'CHANGE',
-                        reason: entry,
-                        timestamp: syntheticTimestamp,
-                    };
-                }
+            const audited = await recordAuditEntry(ctx, {
+                event: 'PROCESS_STALE_TRANSACTIONS',
+                resourceType: 'TRANSACTION',
+                reason: input.reason,
+                metadata: { action: 'MARK_FAILED', staleThreshold, processed: data },
+            });
 
-                // Already an object - ensure it has required fields
-                if (typeof entry === 'object' && entry !== null) {
-                    const obj = entry as Record<string, unknown>;
-                    const objId = obj.id;
-                    const numericId = typeof objId === 'number' ? objId :
-                        (typeof objId === 'string' && /^\d+$/.test(objId) ? parseInt(objId, 10) : uniqueId);
-                    const timestamp = obj.timestamp && typeof obj.timestamp === 'string' && !isNaN(new Date(obj.timestamp).getTime())
-                        ? obj.timestamp
-                        : syntheticTimestamp;
-                    return {
-                        id: numericId,
-                        action: 'CHANGE',
-                        timestamp,
-                        ...obj,
-                    };
-                }
+            return {
+                message: message || `${data} stale transaction${data === 1 ? '' : 's'} processed`,
+                data: { processed: data, staleThreshold, audited },
+            };
+        }),
 
-                // Fallback
-                return {
-                    id: uniqueId,
-                    action: 'CHANGE',
-                    reason: String(entry),
-                    timestamp: syntheticTimestamp,
-                };
-            });
+    /**
+     * Preview how many transactions an archive run with this cutoff date and status set would touch
+     */
+    archivePreview: protectedProcedure
+        .input(ArchivePreviewInputSchema)
+        .query(async ({ input, ctx }) => {
+            return getArchivePreview(ctx.api, ARCHIVE_ENDPOINTS, input);
+        }),
 
-            return transformedAuditTrail;
+    /**
+     * Archive transactions created before the cutoff date, once the typed confirmation matches
+     */
+    archive: protectedProcedure
+        .input(ArchiveRunInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            return runArchive(ctx.api, ARCHIVE_ENDPOINTS, input);
         }),
 });
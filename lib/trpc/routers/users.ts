@@ -1,28 +1,39 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { protectedProcedure, createTRPCRouter } from '../init';
-import { API_CONFIG, API_ENDPOINTS } from '@/lib/config/api';
-import { PAGINATION } from '@/lib/config/constants';
-import { RoleSchema } from '@/features/roles/types';
+import { BackendRecordSchema, toOneBasedPage, type BackendClient } from '../backend-client';
+import { API_ENDPOINTS } from '@/lib/config/api';
+import { buildEndpointUrl } from '@/lib/config/endpoints';
+import { RoleSchema, RoleFormSchema } from '@/features/roles/types';
+import { normalizeRoles } from '@/lib/auth/permissions';
+import { normalizeUserType } from '@/lib/auth/user-types';
+
+/**
+ * User as returned by the backend
+ */
+const BackendUserSchema = z.looseObject({
+    id: z.union([z.string(), z.number()]).transform(String),
+    uid: z.string().nullish(),
+    username: z.string(),
+    email: z.string(),
+    roles: z.union([z.array(z.string()), z.string()]).nullish(),
+    active: z.boolean().nullish(),
+    locked: z.boolean().nullish(),
+    associatedMerchantId: z.string().nullish(),
+    lastLoginAt: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    firstName: z.string().nullish(),
+    lastName: z.string().nullish(),
+    userType: z.string().nullish(),
+});
 
 /**
  * Helper to transform user data from backend format to frontend format
  */
-function transformUser(user: {
-    id: string;
-    username: string;
-    email: string;
-    roles?: string[] | string;
-    active?: boolean;
-    locked?: boolean;
-    associatedMerchantId?: string | null;
-    lastLoginAt?: string | null;
-    createdAt?: string | null;
-    firstName?: string | null;
-    lastName?: string | null;
-}) {
+function transformUser(user: z.infer<typeof BackendUserSchema>) {
     return {
         id: user.id,
+        uid: user.uid ?? user.id,
         username: user.username,
         email: user.email,
         role: Array.isArray(user.roles) && user.roles.length > 0 ? user.roles[0] : user.roles || '',
@@ -33,9 +44,60 @@ function transformUser(user: {
         created_at: user.createdAt ?? null,
         first_name: user.firstName ?? null,
         last_name: user.lastName ?? null,
+        roles: Array.isArray(user.roles) ? user.roles : user.roles ? [user.roles] : [],
+        user_type: user.userType ?? null,
     };
 }
 
+/**
+ * Users and roles echoed back by mutations; an unexpected body must not fail a change the backend already made
+ */
+const UserResultSchema = BackendUserSchema.transform(transformUser).nullish().catch(null);
+const RoleResultSchema = RoleSchema.nullish().catch(null);
+
+/**
+ * Helper to reject role assignments that are not valid for the target user's type.
+ * The user type is read from the backend so a client cannot claim a different one, and the allowed roles come from
+ * the backend so roles created there can be assigned without a frontend change.
+ */
+async function assertRolesValidForUser(api: BackendClient, userUid: string, roles: string[]) {
+    const user = await api.get(buildEndpointUrl.userByUid(userUid), {
+        schema: z.looseObject({ userType: z.string().nullish() }),
+        errorMessage: 'Failed to fetch user',
+    });
+
+    const userType = normalizeUserType(user.userType);
+    if (!userType) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'User type is unknown; roles cannot be assigned',
+        });
+    }
+
+    const allowedRoles = await api.get(buildEndpointUrl.rolesByUserType(userType), {
+        schema: z.array(RoleSchema),
+        errorMessage: 'Failed to fetch roles for user type',
+    });
+    const allowedNames = new Set(allowedRoles.map((role) => role.name));
+    const invalidRoles = normalizeRoles(roles).filter((role) => !allowedNames.has(role));
+    if (invalidRoles.length > 0) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Roles not allowed for ${userType}: ${invalidRoles.join(', ')}`,
+        });
+    }
+}
+
+// Lifecycle endpoints are addressed by the user's uid, except DELETE /users/{id} which takes the numeric id
+const UserActionInputSchema = z.object({
+    id: z.string().min(1, 'User UID is required'),
+    reason: z.string().trim().min(1, 'A reason is required').max(500),
+});
+
+const DeleteUserInputSchema = UserActionInputSchema.extend({
+    id: z.string().regex(/^\d+$/, 'Numeric user ID is required'),
+});
+
 export const usersRouter = createTRPCRouter({
     /**
      * List users with pagination and filtering
@@ -53,107 +115,18 @@ export const usersRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            const queryParams = new URLSearchParams();
-
-            // Add all query parameters if they exist
-            const allowedParams = [
-                'page',
-                'per_page',
-                'search',
-                'role',
-                'status',
-                'associated_merchant_id',
-                'sort',
-            ];
-
-            allowedParams.forEach((param) => {
-                const value = input[param as keyof typeof input];
-                if (value) {
-                    // Backend API uses 'size' instead of 'per_page'
-                    if (param === 'per_page') {
-                        queryParams.set('size', value);
-                    } else if (param === 'page') {
-                        // Frontend uses 1-based pagination, backend uses 0-based
-                        const pageNum = parseInt(value, 10);
-                        queryParams.set('page', Math.max(0, pageNum - 1).toString());
-                    } else if (param === 'sort') {
-                        queryParams.set('sort', value);
-                    } else {
-                        queryParams.set(param, value);
-                    }
-                }
-            });
-
-            // Build the URL with query parameters
-            const queryString = queryParams.toString();
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.users.list}${queryString ? `?${queryString}` : ''}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
+            const { page, per_page, ...filters } = input;
+
+            // Backend uses 'size' instead of 'per_page' and 0-based pages; convert back to 1-based for the frontend
+            return toOneBasedPage(await ctx.api.getPage(API_ENDPOINTS.users.list, {
+                query: {
+                    ...filters,
+                    page: page ? Math.max(0, parseInt(page, 10) - 1) : undefined,
+                    size: per_page,
                 },
-                cache: 'no-store',
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch users',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch users',
-                });
-            }
-
-            const data = await response.json();
-
-            // Parse page from request (1-based) for response
-            const requestedPage = parseInt(input.page || String(PAGINATION.DEFAULT_PAGE), 10);
-            const requestedPerPage = parseInt(input.per_page || String(PAGINATION.DEFAULT_PAGE_SIZE), 10);
-
-            // Backend API returns: { status, statusCode, message, data: User[], pageNumber, pageSize, totalElements, totalPages, last }
-            if (data.data && Array.isArray(data.data)) {
-                // Transform field names from backend format to frontend format
-                const transformedData = data.data.map(transformUser);
-
-                // Backend uses 0-based pagination, convert to 1-based for frontend
-                const backendPageNumber = data.pageNumber ?? 0;
-
-                return {
-                    data: transformedData,
-                    pageNumber: backendPageNumber + 1, // Convert to 1-based
-                    pageSize: data.pageSize ?? requestedPerPage,
-                    totalElements: data.totalElements ?? transformedData.length,
-                    totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? transformedData.length) / (data.pageSize ?? requestedPerPage)),
-                    last: data.last ?? false,
-                    first: backendPageNumber === 0,
-                };
-            } else if (Array.isArray(data)) {
-                // Backend returned just an array (legacy format)
-                const transformedData = data.map(transformUser);
-
-                return {
-                    data: transformedData,
-                    pageNumber: requestedPage,
-                    pageSize: requestedPerPage,
-                    totalElements: transformedData.length,
-                    totalPages: 1,
-                    last: true,
-                    first: requestedPage === 1,
-                };
-            } else {
-                // Fallback: return error
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Unexpected response format from backend',
-                });
-            }
+                schema: BackendUserSchema.transform(transformUser),
+                errorMessage: 'Failed to fetch users',
+            }));
         }),
 
     /**
@@ -175,8 +148,6 @@ export const usersRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token } = ctx;
-
             // Password match validation
             if (input.password !== input.password_confirmation) {
                 throw new TRPCError({
@@ -218,40 +189,16 @@ export const usersRouter = createTRPCRouter({
             // Use null-coalescing for associated_merchant_id to preserve empty strings
             backendBody.associatedMerchantId = input.associated_merchant_id ?? null;
 
-            // Build the URL
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.users.create}`;
-
             // Create user via backend API
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(backendBody),
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.users.create, {
+                body: backendBody,
+                schema: UserResultSchema,
+                errorMessage: 'Failed to create user',
             });
 
-            const data = await response.json().catch(() => ({}));
-
-            if (!response.ok) {
-                console.error('Backend create user error:', {
-                    status: response.status,
-                    data,
-                    sentBody: backendBody,
-                });
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to create user',
-                });
-            }
-
-            // Transform response to frontend format
-            const user = data.data || data;
-            const transformedUser = user ? transformUser(user) : null;
-
             return {
-                message: data.message || 'User created successfully',
-                user: transformedUser,
+                message: message || 'User created successfully',
+                user: data ?? null,
             };
         }),
 
@@ -265,36 +212,10 @@ export const usersRouter = createTRPCRouter({
             })
         )
         .query(async ({ input, ctx }) => {
-            const { token } = ctx;
-
-            // Build the URL with user UID
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.users.getByUid.replace('{uid}', input.id)}`;
-
-            // Fetch from backend API
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                cache: 'no-store',
+            return ctx.api.get(API_ENDPOINTS.users.getByUid.replace('{uid}', input.id), {
+                schema: BackendUserSchema.transform(transformUser),
+                errorMessage: 'Failed to fetch user',
             });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({
-                    message: response.statusText || 'Failed to fetch user',
-                }));
-
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: errorData.message || errorData.error || 'Failed to fetch user',
-                });
-            }
-
-            const data = await response.json();
-
-            // Return the user data (backend format, can be transformed if needed)
-            return data;
         }),
 
     /**
@@ -308,7 +229,7 @@ export const usersRouter = createTRPCRouter({
             })
         )
         .mutation(async ({ input, ctx }) => {
-            const { token, session } = ctx;
+            const { session } = ctx;
 
             // Check admin privileges
             const isAdmin = session?.roles?.some(
@@ -322,9 +243,6 @@ export const usersRouter = createTRPCRouter({
                 });
             }
 
-            // Build the URL for reset password endpoint
-            const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.users.resetPassword.replace('{uid}', input.id)}`;
-
             // Prepare body (optional - may contain new password or let backend generate one)
             const body: Record<string, unknown> = {};
             if (input.password) {
@@ -332,31 +250,185 @@ export const usersRouter = createTRPCRouter({
             }
 
             // Call backend API to reset password
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}`,
-                },
-                body: JSON.stringify(body),
+            const { data, message } = await ctx.api.post(API_ENDPOINTS.users.resetPassword.replace('{uid}', input.id), {
+                body,
+                schema: BackendRecordSchema.nullish(),
+                errorMessage: 'Failed to reset password',
             });
 
-            const data = await response.json().catch(() => ({}));
+            return {
+                message: message || 'Password reset successfully',
+                temporaryPassword: data?.temporaryPassword ?? null,
+            };
+        }),
 
-            if (!response.ok) {
-                console.error('Reset password error:', {
-                    status: response.status,
-                    data,
-                });
-                throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: data.message || data.error || 'Failed to reset password',
-                });
+    /**
+     * Update user profile details
+     */
+    update: protectedProcedure
+        .input(
+            z.object({
+                id: z.string().min(1, 'User UID is required'),
+                first_name: z.string().optional(),
+                last_name: z.string().optional(),
+                associated_merchant_id: z.string().nullable().optional(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            // Backend uses camelCase field names; only send what was provided
+            const backendBody: Record<string, unknown> = {};
+            if (input.first_name !== undefined) {
+                backendBody.firstName = input.first_name.trim();
+            }
+            if (input.last_name !== undefined) {
+                backendBody.lastName = input.last_name.trim();
             }
+            if (input.associated_merchant_id !== undefined) {
+                backendBody.associatedMerchantId = input.associated_merchant_id;
+            }
+
+            const { data, message } = await ctx.api.put(buildEndpointUrl.updateUser(input.id), {
+                body: backendBody,
+                schema: UserResultSchema,
+                errorMessage: 'Failed to update user',
+            });
+
+            return {
+                message: message || 'User updated successfully',
+                user: data ?? null,
+            };
+        }),
+
+    /**
+     * Activate a user account
+     */
+    activate: protectedProcedure
+        .input(UserActionInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            const { message } = await ctx.api.post(buildEndpointUrl.activateUser(input.id), {
+                body: { reason: input.reason },
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to activate user',
+            });
 
             return {
-                message: data.message || 'Password reset successfully',
-                temporaryPassword: data.temporaryPassword ?? null,
+                message: message || 'User activated successfully',
+            };
+        }),
+
+    /**
+     * Deactivate a user account
+     */
+    deactivate: protectedProcedure
+        .input(UserActionInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            const { message } = await ctx.api.post(buildEndpointUrl.deactivateUser(input.id), {
+                body: { reason: input.reason },
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to deactivate user',
+            });
+
+            return {
+                message: message || 'User deactivated successfully',
+            };
+        }),
+
+    /**
+     * Lock a user account
+     */
+    lock: protectedProcedure
+        .input(UserActionInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            const { message } = await ctx.api.post(buildEndpointUrl.lockUser(input.id), {
+                body: { reason: input.reason },
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to lock user',
+            });
+
+            return {
+                message: message || 'User locked successfully',
+            };
+        }),
+
+    /**
+     * Unlock a user account
+     */
+    unlock: protectedProcedure
+        .input(UserActionInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            const { message } = await ctx.api.post(buildEndpointUrl.unlockUser(input.id), {
+                body: { reason: input.reason },
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to unlock user',
+            });
+
+            return {
+                message: message || 'User unlocked successfully',
+            };
+        }),
+
+    /**
+     * Delete a user by numeric ID
+     */
+    delete: protectedProcedure
+        .input(DeleteUserInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            const { message } = await ctx.api.delete(buildEndpointUrl.deleteUser(input.id), {
+                body: { reason: input.reason },
+                schema: z.boolean().nullish(),
+                errorMessage: 'Failed to delete user',
+            });
+
+            return {
+                message: message || 'User deleted successfully',
+            };
+        }),
+
+    /**
+     * Assign roles to a user (roles must be valid for the user's type)
+     */
+    assignRoles: protectedProcedure
+        .input(
+            z.object({
+                id: z.string().min(1, 'User UID is required'),
+                roles: z.array(z.string().min(1)).min(1, 'At least one role is required'),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            await assertRolesValidForUser(ctx.api, input.id, input.roles);
+
+            const { data, message } = await ctx.api.post(buildEndpointUrl.assignUserRoles(input.id), {
+                body: input.roles,
+                schema: UserResultSchema,
+                errorMessage: 'Failed to assign roles',
+            });
+
+            return {
+                message: message || 'Roles assigned successfully',
+                user: data ?? null,
+            };
+        }),
+
+    /**
+     * Remove roles from a user
+     */
+    removeRoles: protectedProcedure
+        .input(
+            z.object({
+                id: z.string().min(1, 'User UID is required'),
+                roles: z.array(z.string().min(1)).min(1, 'At least one role is required'),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            const { data, message } = await ctx.api.delete(buildEndpointUrl.removeUserRoles(input.id), {
+                body: input.roles,
+                schema: UserResultSchema,
+                errorMessage: 'Failed to remove roles',
+            });
+
+            return {
+                message: message || 'Roles removed successfully',
+                user: data ?? null,
             };
         }),
 
@@ -374,153 +446,125 @@ export const usersRouter = createTRPCRouter({
                 })
             )
             .query(async ({ input, ctx }) => {
-                const { token } = ctx;
-
-                const queryParams = new URLSearchParams();
-
-                // Add all query parameters if they exist
-                const allowedParams = ['page', 'per_page', 'search', 'sort'];
-
-                allowedParams.forEach((param) => {
-                    const value = input[param as keyof typeof input];
-                    if (value) {
-                        // Backend API uses 'size' instead of 'per_page'
-                        if (param === 'per_page') {
-                            queryParams.set('size', value);
-                        } else if (param === 'page') {
-                            // Frontend uses 1-based pagination, backend uses 0-based
-                            const pageNum = parseInt(value, 10);
-                            queryParams.set('page', Math.max(0, pageNum - 1).toString());
-                        } else if (param === 'sort') {
-                            queryParams.set('sort', value);
-                        } else {
-                            queryParams.set(param, value);
-                        }
-                    }
+                const { page, per_page, ...filters } = input;
+
+                // Backend uses 'size' instead of 'per_page' and 0-based pages; convert back to 1-based for the frontend
+                return toOneBasedPage(await ctx.api.getPage(API_ENDPOINTS.roles.list, {
+                    query: {
+                        ...filters,
+                        page: page ? Math.max(0, parseInt(page, 10) - 1) : undefined,
+                        size: per_page,
+                    },
+                    schema: RoleSchema,
+                    errorMessage: 'Failed to fetch roles',
+                }));
+            }),
+
+        /**
+         * Get all roles (no pagination)
+         */
+        all: protectedProcedure
+            .query(async ({ ctx }) => {
+                return ctx.api.get(API_ENDPOINTS.roles.all, {
+                    schema: z.array(RoleSchema),
+                    errorMessage: 'Failed to fetch roles',
                 });
+            }),
 
-                // Build the URL with query parameters
-                const queryString = queryParams.toString();
-                const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.roles.list}${queryString ? `?${queryString}` : ''}`;
+        /**
+         * Get the roles the backend allows for a user type
+         */
+        byUserType: protectedProcedure
+            .input(z.object({ userType: z.string().min(1) }))
+            .query(async ({ input, ctx }) => {
+                return ctx.api.get(buildEndpointUrl.rolesByUserType(input.userType), {
+                    schema: z.array(RoleSchema),
+                    errorMessage: 'Failed to fetch roles for user type',
+                });
+            }),
 
-                // Fetch from backend API
-                const response = await fetch(url, {
-                    method: 'GET',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${token}`,
-                    },
-                    cache: 'no-store',
+        /**
+         * Check whether a role name is already taken
+         */
+        exists: protectedProcedure
+            .input(z.object({ name: z.string().min(1) }))
+            .query(async ({ input, ctx }) => {
+                // Backend returns { data: boolean } or a bare boolean
+                const data = await ctx.api.get(API_ENDPOINTS.roles.exists.replace('{name}', encodeURIComponent(input.name)), {
+                    schema: z.union([z.boolean(), z.looseObject({ exists: z.boolean().optional() })]),
+                    errorMessage: 'Failed to check role name',
                 });
 
-                if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({
-                        message: response.statusText || 'Failed to fetch roles',
-                    }));
-
-                    throw new TRPCError({
-                        code: 'INTERNAL_SERVER_ERROR',
-                        message: errorData.message || errorData.error || 'Failed to fetch roles',
-                    });
-                }
-
-                const data = await response.json();
-
-                // Parse page from request (1-based) for response
-                const requestedPage = parseInt(input.page || String(PAGINATION.DEFAULT_PAGE), 10);
-                const requestedPerPage = parseInt(input.per_page || String(PAGINATION.DEFAULT_PAGE_SIZE), 10);
-
-                // Backend API returns: { status, statusCode, message, data: Role[], pageNumber, pageSize, totalElements, totalPages, last }
-                if (data.data && Array.isArray(data.data)) {
-                    // Validate and parse roles data
-                    const parsedData = z.array(RoleSchema).parse(data.data);
-
-                    // Backend uses 0-based pagination, convert to 1-based for frontend
-                    const backendPageNumber = data.pageNumber ?? 0;
-
-                    return {
-                        data: parsedData,
-                        pageNumber: backendPageNumber + 1, // Convert to 1-based
-                        pageSize: data.pageSize ?? requestedPerPage,
-                        totalElements: data.totalElements ?? parsedData.length,
-                        totalPages: data.totalPages ?? Math.ceil((data.totalElements ?? parsedData.length) / (data.pageSize ?? requestedPerPage)),
-                        last: data.last ?? false,
-                        first: backendPageNumber === 0,
-                    };
-                } else if (Array.isArray(data)) {
-                    // Handle legacy format: just an array
-                    const parsedData = z.array(RoleSchema).parse(data);
-
-                    return {
-                        data: parsedData,
-                        pageNumber: requestedPage,
-                        pageSize: requestedPerPage,
-                        totalElements: parsedData.length,
-                        totalPages: Math.ceil(parsedData.length / requestedPerPage),
-                        last: true,
-                        first: requestedPage === 1,
-                    };
-                } else {
-                    // Fallback: empty response
-                    return {
-                        data: [],
-                        pageNumber: requestedPage,
-                        pageSize: requestedPerPage,
-                        totalElements: 0,
-                        totalPages: 0,
-                        last: true,
-                        first: true,
-                    };
-                }
+                const exists = typeof data === 'boolean' ? data : Boolean(data.exists);
+
+                return { exists };
             }),
 
         /**
-         * Get all roles (no pagination)
+         * Get role by name
          */
-        all: protectedProcedure
-            .query(async ({ ctx }) => {
-                const { token } = ctx;
+        getByName: protectedProcedure
+            .input(z.object({ name: z.string().min(1) }))
+            .query(async ({ input, ctx }) => {
+                return ctx.api.get(API_ENDPOINTS.roles.getByName.replace('{name}', encodeURIComponent(input.name)), {
+                    schema: RoleSchema,
+                    errorMessage: 'Failed to fetch role',
+                });
+            }),
 
-                // Build the URL for the all roles endpoint
-                const url = `${API_CONFIG.baseURL}${API_ENDPOINTS.roles.all}`;
+        /**
+         * Create a role with its permission set
+         */
+        create: protectedProcedure
+            .input(RoleFormSchema)
+            .mutation(async ({ input, ctx }) => {
+                const { data, message } = await ctx.api.post(API_ENDPOINTS.roles.create, {
+                    body: input,
+                    schema: RoleResultSchema,
+                    errorMessage: 'Failed to create role',
+                });
 
-                // Fetch from backend API
-                const response = await fetch(url, {
-                    method: 'GET',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${token}`,
-                    },
-                    cache: 'no-store',
+                return {
+                    message: message || 'Role created successfully',
+                    data,
+                };
+            }),
+
+        /**
+         * Update (rename) a role and its permission set
+         */
+        update: protectedProcedure
+            .input(RoleFormSchema.partial().extend({ id: z.number() }))
+            .mutation(async ({ input, ctx }) => {
+                const { id, ...payload } = input;
+
+                const { data, message } = await ctx.api.put(API_ENDPOINTS.roles.update.replace('{id}', String(id)), {
+                    body: payload,
+                    schema: RoleResultSchema,
+                    errorMessage: 'Failed to update role',
                 });
 
-                if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({
-                        message: response.statusText || 'Failed to fetch roles',
-                    }));
-
-                    throw new TRPCError({
-                        code: 'INTERNAL_SERVER_ERROR',
-                        message: errorData.message || errorData.error || 'Failed to fetch roles',
-                    });
-                }
-
-                const data = await response.json();
-
-                // Backend API returns: { status, statusCode, message, data: Role[] }
-                if (data.data && Array.isArray(data.data)) {
-                    // Validate and parse roles data
-                    const parsedData = z.array(RoleSchema).parse(data.data);
-                    return parsedData;
-                } else if (Array.isArray(data)) {
-                    // Handle legacy format: just an array
-                    const parsedData = z.array(RoleSchema).parse(data);
-                    return parsedData;
-                } else {
-                    // Fallback: empty array
-                    return [];
-                }
+                return {
+                    message: message || 'Role updated successfully',
+                    data,
+                };
+            }),
+
+        /**
+         * Delete a role
+         */
+        delete: protectedProcedure
+            .input(z.object({ id: z.number() }))
+            .mutation(async ({ input, ctx }) => {
+                const { message } = await ctx.api.delete(API_ENDPOINTS.roles.delete.replace('{id}', String(input.id)), {
+                    schema: z.boolean().nullish(),
+                    errorMessage: 'Failed to delete role',
+                });
+
+                return {
+                    message: message || 'Role deleted successfully',
+                };
             }),
     },
 
-});
+});
\ No newline at end of file
@@ -0,0 +1,156 @@
+import 'server-only';
+
+import { z } from 'zod';
+import {
+    DisbursementStatsItemSchema,
+    TransactionSummaryItemSchema,
+    type PeriodSummary,
+} from '@/lib/definitions';
+
+interface BreakdownEntry {
+    key: string;
+    value: number;
+}
+
+// Field names tried, in order, for the label and the value of breakdown entries sent as arrays of objects
+const BREAKDOWN_KEY_FIELDS = ['name', 'merchantName', 'gateway', 'key', 'label', 'hour', 'date'];
+const BREAKDOWN_VALUE_FIELDS = ['value', 'amount', 'totalAmount', 'count', 'total'];
+
+// Number of merchants kept in the top merchants list
+const TOP_MERCHANTS_LIMIT = 10;
+
+/**
+ * Summary DTO fields are documented as strings, but null and numeric values occur in practice:
+ * drop nulls and stringify numbers so the item schemas accept them
+ */
+function normalizeSummaryFields(item: unknown): unknown {
+    if (typeof item !== 'object' || item === null) return item;
+
+    return Object.fromEntries(
+        Object.entries(item)
+            .filter(([, value]) => value !== null && value !== undefined)
+            .map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+    );
+}
+
+export const TransactionSummaryResponseSchema = z.preprocess(normalizeSummaryFields, TransactionSummaryItemSchema);
+export const DisbursementSummaryResponseSchema = z.preprocess(normalizeSummaryFields, DisbursementStatsItemSchema.partial());
+
+type SummaryFields = z.infer<typeof TransactionSummaryResponseSchema> & z.infer<typeof DisbursementSummaryResponseSchema>;
+type CommonSummaryFields = Pick<SummaryFields,
+    | 'periodStart' | 'periodEnd' | 'primaryCurrency' | 'totalAmount' | 'successfulAmount' | 'averageAmount'
+    | 'successRate' | 'failureRate' | 'growthRate' | 'averageProcessingTime' | 'peakHour' | 'peakDay' | 'trend'
+    | 'uniqueMerchants' | 'gatewayCounts' | 'gatewayAmounts' | 'gatewaySuccessRates' | 'topMerchants'
+    | 'hourlyBreakdown' | 'dailyBreakdown' | 'generatedAt'>;
+
+function toNumber(value: unknown): number {
+    const num = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(num) ? num : 0;
+}
+
+function toNullableNumber(value: string | undefined): number | null {
+    const num = parseFloat(value ?? '');
+    return Number.isFinite(num) ? num : null;
+}
+
+function pickField(entry: Record<string, unknown>, fields: string[]): unknown {
+    const field = fields.find((name) => entry[name] !== undefined && entry[name] !== null);
+    return field ? entry[field] : undefined;
+}
+
+/**
+ * Parse a breakdown field: a JSON object (`{"key": value}`), a JSON array of objects
+ * (`[{"name": ..., "amount": ...}]`) or `key=value, key2=value2` text
+ */
+export function parseBreakdown(raw: string | undefined): BreakdownEntry[] {
+    if (!raw?.trim()) return [];
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        // Not JSON - fall back to key=value pairs
+        return raw.replace(/^\{|\}$/g, '').split(',')
+            .map((pair) => pair.split(/[=:]/))
+            .filter((parts) => parts.length === 2 && parts[0].trim())
+            .map(([key, value]) => ({ key: key.trim().replace(/^"|"$/g, ''), value: toNumber(value.trim()) }));
+    }
+
+    if (Array.isArray(parsed)) {
+        return parsed
+            .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+            .map((entry) => ({
+                key: String(pickField(entry, BREAKDOWN_KEY_FIELDS) ?? ''),
+                value: toNumber(pickField(entry, BREAKDOWN_VALUE_FIELDS)),
+            }))
+            .filter((entry) => entry.key);
+    }
+
+    if (typeof parsed === 'object' && parsed !== null) {
+        return Object.entries(parsed).map(([key, value]) => ({ key, value: toNumber(value) }));
+    }
+
+    return [];
+}
+
+/**
+ * Build the Reports page summary from a backend summary and its status counts
+ */
+export function toPeriodSummary(
+    item: CommonSummaryFields,
+    counts: { total?: string; successful?: string; failed?: string; pending?: string; cancelled?: string },
+    range: { startDate: string; endDate: string }
+): PeriodSummary {
+    const totalCount = toNumber(counts.total);
+    const successfulCount = toNumber(counts.successful);
+    const failedCount = toNumber(counts.failed);
+
+    const gatewayCounts = parseBreakdown(item.gatewayCounts);
+    const gatewayAmounts = new Map(parseBreakdown(item.gatewayAmounts).map((entry) => [entry.key, entry.value]));
+    const gatewaySuccessRates = new Map(parseBreakdown(item.gatewaySuccessRates).map((entry) => [entry.key, entry.value]));
+    const gatewayNames = new Set([...gatewayCounts.map((entry) => entry.key), ...gatewayAmounts.keys(), ...gatewaySuccessRates.keys()]);
+    const gatewayCountMap = new Map(gatewayCounts.map((entry) => [entry.key, entry.value]));
+
+    return {
+        periodStart: item.periodStart || range.startDate,
+        periodEnd: item.periodEnd || range.endDate,
+        // Unreported when the backend gives no primary currency (e.g. a mixed-currency period)
+        currency: item.primaryCurrency || null,
+        totalCount,
+        successfulCount,
+        failedCount,
+        pendingCount: toNumber(counts.pending),
+        cancelledCount: toNumber(counts.cancelled),
+        totalAmount: toNumber(item.totalAmount),
+        successfulAmount: toNumber(item.successfulAmount),
+        averageAmount: toNumber(item.averageAmount),
+        // Derive the rates when the backend leaves them out
+        successRate: toNullableNumber(item.successRate) ?? (totalCount ? (successfulCount / totalCount) * 100 : 0),
+        failureRate: toNullableNumber(item.failureRate) ?? (totalCount ? (failedCount / totalCount) * 100 : 0),
+        growthRate: toNullableNumber(item.growthRate),
+        averageProcessingTime: item.averageProcessingTime || null,
+        peakHour: item.peakHour || null,
+        peakDay: item.peakDay || null,
+        trend: item.trend || null,
+        uniqueMerchants: toNullableNumber(item.uniqueMerchants),
+        hourly: parseBreakdown(item.hourlyBreakdown)
+            .map((entry) => ({ hour: entry.key, value: entry.value }))
+            .sort((a, b) => toNumber(a.hour) - toNumber(b.hour)),
+        daily: parseBreakdown(item.dailyBreakdown)
+            .map((entry) => ({ date: entry.key, value: entry.value }))
+            .sort((a, b) => a.date.localeCompare(b.date)),
+        gateways: [...gatewayNames]
+            .map((gateway) => ({
+                gateway,
+                count: gatewayCountMap.get(gateway) ?? 0,
+                amount: gatewayAmounts.get(gateway) ?? 0,
+                successRate: gatewaySuccessRates.get(gateway) ?? null,
+            }))
+            .sort((a, b) => b.count - a.count),
+        topMerchants: parseBreakdown(item.topMerchants)
+            .map((entry) => ({ merchant: entry.key, value: entry.value }))
+            .sort((a, b) => b.value - a.value)
+            .slice(0, TOP_MERCHANTS_LIMIT),
+        generatedAt: item.generatedAt || null,
+    };
+}